@@ -0,0 +1,53 @@
+import { createTRPCClient, httpBatchLink, TRPCClientError } from '@trpc/client';
+import type { AppRouter } from '../../server/src';
+import superjson from 'superjson';
+import { updateConfig, type Config } from './config';
+
+export type Api = ReturnType<typeof createApi>;
+
+// tRPC client for the configured server; the token is read on every request so a renewed
+// session is picked up by the same client
+export const createApi = (config: Config) => createTRPCClient<AppRouter>({
+  links: [
+    httpBatchLink({
+      url: config.server,
+      transformer: superjson,
+      headers() {
+        return config.token ? { Authorization: `Bearer ${config.token}` } : {};
+      },
+    }),
+  ],
+});
+
+export const isUnauthorized = (error: unknown): boolean =>
+  error instanceof TRPCClientError && error.data?.code === 'UNAUTHORIZED';
+
+// Run a command, signing in with the saved email and password (and saving the new token) when
+// there is no session yet or it has expired
+export const withSession = async <T>(
+  config: Config,
+  configPath: string,
+  run: (api: Api) => Promise<T>
+): Promise<T> => {
+  const api = createApi(config);
+  const canSignIn = config.email !== undefined && config.password !== undefined;
+
+  const signIn = async () => {
+    const session = await api.signIn.mutate({ email: config.email!, password: config.password! });
+    config.token = session.token;
+    await updateConfig(configPath, { token: session.token });
+  };
+
+  if (!config.token && canSignIn) {
+    await signIn();
+  }
+  try {
+    return await run(api);
+  } catch (error) {
+    if (!isUnauthorized(error) || !canSignIn) {
+      throw error;
+    }
+    await signIn();
+    return await run(api);
+  }
+};
@@ -0,0 +1,59 @@
+// Parsing of command-line values into API inputs
+
+// Thrown for mistakes in the command line; reported with the usage hint instead of as a failure
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export const localTimezone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const toDateString = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// YYYY-MM-DD, or a date relative to today: "today", "tomorrow" or "+3" / "+3d" days from now
+export const parseDue = (value: string, today: Date = new Date()): string => {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return value;
+  }
+  const offsets: Record<string, number> = { today: 0, tomorrow: 1 };
+  const relative = /^\+(\d+)d?$/.exec(value);
+  const days = relative ? Number(relative[1]) : offsets[value.toLowerCase()];
+  if (days === undefined) {
+    throw new UsageError(`Can't read the date "${value}"; use YYYY-MM-DD, today, tomorrow or +N`);
+  }
+  const date = new Date(today.getFullYear(), today.getMonth(), today.getDate() + days);
+  return toDateString(date);
+};
+
+// HH:MM (24-hour)
+export const parseTime = (value: string): string => {
+  if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(value)) {
+    throw new UsageError(`Can't read the time "${value}"; use HH:MM`);
+  }
+  return value;
+};
+
+export const parseId = (value: string): number => {
+  if (!/^\d+$/.test(value)) {
+    throw new UsageError(`"${value}" is not a task id`);
+  }
+  return Number(value);
+};
+
+export const parseIds = (values: string[]): number[] => {
+  if (values.length === 0) {
+    throw new UsageError('Give at least one task id');
+  }
+  return values.map(parseId);
+};
+
+// Check a value against a fixed set, e.g. priorities or formats
+export const parseChoice = <T extends string>(value: string, choices: readonly T[], name: string): T => {
+  if (!(choices as readonly string[]).includes(value)) {
+    throw new UsageError(`Unknown ${name} "${value}"; use one of ${choices.join(', ')}`);
+  }
+  return value as T;
+};
@@ -0,0 +1,325 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import type {
+  CreateTaskInput,
+  GetTasksInput,
+  ImportTasksInput,
+  RecurrenceRule,
+  Task,
+  TaskFileFormat,
+  TaskListItem,
+  TaskPriority,
+  UpdateTaskInput
+} from '../../server/src/schema';
+import { type Api } from './api';
+import { localTimezone, parseChoice, parseDue, parseId, parseIds, parseTime, UsageError } from './args';
+import { formatImportReport, formatTask } from './format';
+
+export interface CommandContext {
+  api: Api;
+  json: boolean; // Print raw API results as JSON instead of text
+}
+
+export type Command = (context: CommandContext, argv: string[]) => Promise<void>;
+
+const priorities = ['none', 'low', 'medium', 'high', 'urgent'] as const satisfies readonly TaskPriority[];
+const frequencies = ['daily', 'weekly', 'monthly', 'yearly'] as const satisfies readonly RecurrenceRule['freq'][];
+const formats = ['json', 'csv', 'markdown'] as const satisfies readonly TaskFileFormat[];
+const sortKeys = ['created', 'updated', 'title', 'manual', 'smart'] as const satisfies readonly GetTasksInput['sort'][];
+const duplicateModes = ['skip', 'update', 'create'] as const satisfies readonly ImportTasksInput['duplicates'][];
+
+const formatExtensions: Record<string, TaskFileFormat> = { '.json': 'json', '.csv': 'csv', '.md': 'markdown', '.markdown': 'markdown' };
+
+// Largest page getTasks serves
+const MAX_PAGE_SIZE = 100;
+
+const print = (context: CommandContext, data: unknown, text: () => string) => {
+  console.log(context.json ? JSON.stringify(data, null, 2) : text());
+};
+
+// Options shared by commands that set a due date
+const dueOptions = {
+  due: { type: 'string' },
+  time: { type: 'string' },
+  every: { type: 'string' }
+} as const;
+
+// Lists are named on the command line; "inbox" means tasks outside any list
+const resolveListId = async (api: Api, name: string): Promise<number | null> => {
+  if (name.toLowerCase() === 'inbox') {
+    return null;
+  }
+  const lists = await api.getLists.query();
+  const list = lists.find(candidate => candidate.name.toLowerCase() === name.toLowerCase() || String(candidate.id) === name);
+  if (!list) {
+    throw new UsageError(`No list named "${name}"; see \`todo lists\``);
+  }
+  return list.id;
+};
+
+// Tag ids for the given names; with `create`, tags that don't exist yet are made
+const resolveTagIds = async (api: Api, names: string[], create: boolean): Promise<number[]> => {
+  if (names.length === 0) {
+    return [];
+  }
+  const tags = await api.getTags.query();
+  const ids: number[] = [];
+  for (const name of names) {
+    const tag = tags.find(candidate => candidate.name.toLowerCase() === name.toLowerCase());
+    if (tag) {
+      ids.push(tag.id);
+    } else if (create) {
+      ids.push((await api.createTag.mutate({ name })).id);
+    } else {
+      throw new UsageError(`No tag named "${name}"`);
+    }
+  }
+  return ids;
+};
+
+// Due date fields from --due, --time and --every, for creating or updating a task
+const dueFields = (values: { due?: string; time?: string; every?: string }) => ({
+  ...(values.due !== undefined && { due_date: parseDue(values.due), due_timezone: localTimezone() }),
+  ...(values.time !== undefined && { due_time: parseTime(values.time) }),
+  ...(values.every !== undefined && {
+    recurrence: { freq: parseChoice(values.every, frequencies, 'frequency'), interval: 1 }
+  })
+});
+
+export const add: Command = async (context, argv) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      ...dueOptions,
+      list: { type: 'string', short: 'l' },
+      parent: { type: 'string' },
+      priority: { type: 'string', short: 'p' },
+      tag: { type: 'string', short: 't', multiple: true },
+      description: { type: 'string', short: 'd' }
+    }
+  });
+  const title = positionals.join(' ').trim();
+  if (!title) {
+    throw new UsageError('Give the task a title, e.g. `todo add Buy milk`');
+  }
+
+  const input: CreateTaskInput = {
+    title,
+    description: values.description,
+    priority: values.priority === undefined ? undefined : parseChoice(values.priority, priorities, 'priority'),
+    parent_id: values.parent === undefined ? undefined : parseId(values.parent),
+    list_id: values.list === undefined ? undefined : await resolveListId(context.api, values.list),
+    tag_ids: await resolveTagIds(context.api, values.tag ?? [], true),
+    ...dueFields(values)
+  };
+  const task = await context.api.createTask.mutate(input);
+  print(context, task, () => `Added ${formatTask(task, []).trimStart()}`);
+};
+
+export const ls: Command = async (context, argv) => {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      list: { type: 'string', short: 'l' },
+      all: { type: 'boolean', short: 'a' },
+      done: { type: 'boolean' },
+      tag: { type: 'string', short: 't', multiple: true },
+      search: { type: 'string', short: 's' },
+      sort: { type: 'string' },
+      parent: { type: 'string' },
+      limit: { type: 'string', short: 'n' }
+    }
+  });
+  const limit = values.limit === undefined ? 50 : Number(values.limit);
+  if (!Number.isInteger(limit) || limit < 1) {
+    throw new UsageError('--limit must be a positive whole number');
+  }
+
+  const tagIds = await resolveTagIds(context.api, values.tag ?? [], false);
+  const input: Partial<GetTasksInput> = {
+    list_id: values.list === undefined ? undefined : await resolveListId(context.api, values.list),
+    parent_id: values.parent === undefined ? null : parseId(values.parent),
+    // Open tasks unless asked otherwise
+    completed: values.all ? undefined : Boolean(values.done),
+    query: values.search,
+    tags_all: tagIds.length > 0 ? tagIds : undefined,
+    sort: values.sort === undefined ? 'smart' : parseChoice(values.sort, sortKeys, 'sort key'),
+    direction: values.sort === undefined || values.sort === 'title' || values.sort === 'manual' || values.sort === 'smart' ? 'asc' : 'desc'
+  };
+
+  const tasks: TaskListItem[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: { items: TaskListItem[]; next_cursor: string | null } = await context.api.getTasks.query({
+      ...input,
+      limit: Math.min(MAX_PAGE_SIZE, limit - tasks.length),
+      cursor
+    });
+    tasks.push(...page.items);
+    cursor = page.next_cursor;
+  } while (cursor && tasks.length < limit);
+
+  const lists = await context.api.getLists.query();
+  print(context, tasks, () =>
+    tasks.length > 0 ? tasks.map(task => formatTask(task, lists)).join('\n') : 'No tasks'
+  );
+};
+
+// `done` and `undo` differ only in the state they set
+const toggle = (completed: boolean): Command => async (context, argv) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    // Reopening leaves subtasks alone, so --subtasks only matters for `done`
+    options: { subtasks: { type: 'boolean' } }
+  });
+
+  const tasks: Task[] = [];
+  for (const id of parseIds(positionals)) {
+    tasks.push(await context.api.toggleTask.mutate({ id, completed, include_subtasks: Boolean(values.subtasks) }));
+  }
+  print(context, tasks, () =>
+    tasks.map(task => `${completed ? 'Completed' : 'Reopened'} ${formatTask(task, []).trimStart()}`).join('\n')
+  );
+};
+
+export const done = toggle(true);
+export const undo = toggle(false);
+
+export const edit: Command = async (context, argv) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      ...dueOptions,
+      title: { type: 'string' },
+      description: { type: 'string', short: 'd' },
+      'clear-description': { type: 'boolean' },
+      'clear-due': { type: 'boolean' },
+      priority: { type: 'string', short: 'p' },
+      list: { type: 'string', short: 'l' },
+      tag: { type: 'string', short: 't', multiple: true },
+      untag: { type: 'string', multiple: true }
+    }
+  });
+  if (positionals.length !== 1) {
+    throw new UsageError('Give exactly one task id, e.g. `todo edit 12 --title "New title"`');
+  }
+  const id = parseId(positionals[0]);
+
+  const input: UpdateTaskInput = {
+    id,
+    title: values.title,
+    description: values['clear-description'] ? null : values.description,
+    priority: values.priority === undefined ? undefined : parseChoice(values.priority, priorities, 'priority'),
+    ...(values['clear-due'] ? { due_date: null } : dueFields(values)),
+    add_tag_ids: values.tag ? await resolveTagIds(context.api, values.tag, true) : undefined,
+    remove_tag_ids: values.untag ? await resolveTagIds(context.api, values.untag, false) : undefined
+  };
+  const changesFields = Object.entries(input).some(([key, value]) => key !== 'id' && value !== undefined);
+  if (!changesFields && values.list === undefined) {
+    throw new UsageError('Nothing to change; see `todo help edit`');
+  }
+
+  let task = changesFields ? await context.api.updateTask.mutate(input) : null;
+  if (values.list !== undefined) {
+    task = await context.api.moveTask.mutate({ id, list_id: await resolveListId(context.api, values.list) });
+  }
+  print(context, task, () => `Updated ${formatTask(task!, []).trimStart()}`);
+};
+
+export const rm: Command = async (context, argv) => {
+  const { positionals } = parseArgs({ args: argv, allowPositionals: true, options: {} });
+
+  const ids = parseIds(positionals);
+  for (const id of ids) {
+    await context.api.deleteTask.mutate({ id });
+  }
+  print(context, { deleted: ids }, () => `Moved ${ids.join(', ')} to the trash`);
+};
+
+const readInput = async (path: string): Promise<string> => {
+  if (path !== '-') {
+    return readFile(path, 'utf8');
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+export const importTasks: Command = async (context, argv) => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      format: { type: 'string', short: 'f' },
+      list: { type: 'string', short: 'l' },
+      duplicates: { type: 'string' },
+      'dry-run': { type: 'boolean' }
+    }
+  });
+  if (positionals.length !== 1) {
+    throw new UsageError('Give one file to import, or - to read standard input');
+  }
+  const [path] = positionals;
+  const format = values.format !== undefined
+    ? parseChoice(values.format, formats, 'format')
+    : formatExtensions[extname(path).toLowerCase()];
+  if (!format) {
+    throw new UsageError(`Can't tell the format of "${path}"; pass --format ${formats.join('|')}`);
+  }
+
+  const dryRun = Boolean(values['dry-run']);
+  const report = await context.api.importTasks.mutate({
+    format,
+    content: await readInput(path),
+    list_id: values.list === undefined ? undefined : await resolveListId(context.api, values.list),
+    duplicates: values.duplicates === undefined ? undefined : parseChoice(values.duplicates, duplicateModes, 'duplicate mode'),
+    dry_run: dryRun
+  });
+  print(context, report, () => formatImportReport(report, dryRun));
+};
+
+export const exportTasks: Command = async (context, argv) => {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      format: { type: 'string', short: 'f' },
+      list: { type: 'string', short: 'l' },
+      open: { type: 'boolean' },
+      output: { type: 'string', short: 'o' }
+    }
+  });
+
+  const result = await context.api.exportTasks.query({
+    format: values.format === undefined ? 'json' : parseChoice(values.format, formats, 'format'),
+    list_id: values.list === undefined ? undefined : await resolveListId(context.api, values.list),
+    include_completed: !values.open
+  });
+
+  if (values.output !== undefined) {
+    await writeFile(values.output, result.content);
+    print(context, { ...result, content: undefined, path: values.output }, () =>
+      `Exported ${result.count} task(s) to ${values.output}`
+    );
+  } else if (context.json) {
+    print(context, result, () => '');
+  } else {
+    // The file itself, so it can be redirected or piped
+    process.stdout.write(result.content);
+  }
+};
+
+export const lists: Command = async (context, argv) => {
+  parseArgs({ args: argv, options: {} });
+
+  const all = await context.api.getLists.query();
+  print(context, all, () => all.length > 0
+    ? all.map(list => `${String(list.id).padStart(4)} ${list.name} (${list.task_count - list.completed_count} open)`).join('\n')
+    : 'No lists'
+  );
+};
@@ -0,0 +1,47 @@
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+// Settings kept in ~/.config/todo/config.json (or $TODO_CONFIG). `todo login` writes the server
+// and a session token; an email and password may be added by hand so an expired session is
+// renewed without asking.
+export interface Config {
+  server: string; // Base URL of the tRPC API, e.g. https://todo.example.com/api
+  token?: string;
+  email?: string;
+  password?: string;
+}
+
+const DEFAULT_SERVER = 'http://localhost:2022';
+
+export const defaultConfigPath = (): string =>
+  process.env['TODO_CONFIG'] ?? join(process.env['XDG_CONFIG_HOME'] ?? join(homedir(), '.config'), 'todo', 'config.json');
+
+const readSaved = async (path: string): Promise<Partial<Config>> => {
+  try {
+    return JSON.parse(await readFile(path, 'utf8')) as Partial<Config>;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return {};
+    }
+    throw new Error(`Could not read the config file ${path}: ${(error as Error).message}`);
+  }
+};
+
+// The saved settings, with TODO_SERVER and TODO_TOKEN taking precedence for one-off runs and CI
+export const loadConfig = async (path: string): Promise<Config> => {
+  const saved = await readSaved(path);
+  return {
+    ...saved,
+    server: process.env['TODO_SERVER'] ?? saved.server ?? DEFAULT_SERVER,
+    token: process.env['TODO_TOKEN'] ?? saved.token
+  };
+};
+
+// Change some settings in the file, leaving the rest (and environment overrides) alone. The
+// file is readable by its owner only, since it holds credentials
+export const updateConfig = async (path: string, changes: Partial<Config>): Promise<void> => {
+  const updated = { ...(await readSaved(path)), ...changes };
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, `${JSON.stringify(updated, null, 2)}\n`, { mode: 0o600 });
+};
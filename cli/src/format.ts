@@ -0,0 +1,46 @@
+import type { ImportReport, List, Task, TaskListItem, TaskPriority } from '../../server/src/schema';
+
+// Plain-text output; --json prints the API results as they are instead
+
+// Tasks from getTasks carry subtask progress; ones returned by mutations don't
+type DisplayTask = Task & Partial<Pick<TaskListItem, 'subtask_count' | 'completed_subtask_count'>>;
+
+const priorityMarks: Record<TaskPriority, string> = { urgent: '!!!', high: '!!', medium: '!', low: '', none: '' };
+
+const dueLabel = (task: DisplayTask): string | null => {
+  if (!task.due_date) {
+    return null;
+  }
+  const time = task.due_time ? ` ${task.due_time.slice(0, 5)}` : '';
+  const status = task.due_status === 'overdue' ? ', overdue' : task.due_status === 'due_today' ? ', today' : '';
+  return `due ${task.due_date}${time}${status}`;
+};
+
+// One line per task, e.g. "  12 [ ] !! Write report (due 2024-03-01, overdue) #work @Projects"
+export const formatTask = (task: DisplayTask, lists: Pick<List, 'id' | 'name'>[]): string => {
+  const list = lists.find(candidate => candidate.id === task.list_id);
+  const details = [
+    dueLabel(task),
+    task.recurrence ? `repeats ${task.recurrence.freq}` : null,
+    task.subtask_count ? `${task.completed_subtask_count ?? 0}/${task.subtask_count} subtasks` : null
+  ].filter(Boolean);
+
+  return [
+    String(task.id).padStart(4),
+    task.completed ? '[x]' : '[ ]',
+    priorityMarks[task.priority],
+    task.title,
+    details.length > 0 ? `(${details.join(', ')})` : '',
+    ...task.tags.map(tag => `#${tag.name.replace(/\s+/g, '-')}`),
+    list ? `@${list.name}` : ''
+  ].filter(Boolean).join(' ');
+};
+
+export const formatImportReport = (report: ImportReport, dryRun: boolean): string => {
+  const verb = dryRun ? 'Would create' : 'Created';
+  const lines = [`${verb} ${report.created}, update ${report.updated}, skip ${report.skipped}; ${report.failed} failed`];
+  for (const item of report.items.filter(candidate => candidate.action === 'error')) {
+    lines.push(`  row ${item.row} (${item.title || 'untitled'}): ${item.message}`);
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,129 @@
+#!/usr/bin/env bun
+import { isUnauthorized, withSession } from './api';
+import { UsageError } from './args';
+import { defaultConfigPath, loadConfig } from './config';
+import { add, done, edit, exportTasks, importTasks, lists, ls, rm, undo, type Command } from './commands';
+import { login, logout } from './session';
+
+const commands: Record<string, { run: Command; usage: string }> = {
+  add: {
+    run: add,
+    usage: `todo add <title...> [--list NAME] [--parent ID] [--due DATE] [--time HH:MM] [--every daily|weekly|monthly|yearly]
+             [--priority none|low|medium|high|urgent] [--tag NAME]... [--description TEXT]
+  DATE is YYYY-MM-DD, today, tomorrow or +N (days from today). Missing tags are created.`
+  },
+  ls: {
+    run: ls,
+    usage: `todo ls [--list NAME|inbox] [--all | --done] [--tag NAME]... [--search TEXT] [--parent ID]
+            [--sort smart|created|updated|title|manual] [--limit N]
+  Lists open top-level tasks unless --all or --done is given; --tag may be repeated and matches tasks with every tag.`
+  },
+  done: { run: done, usage: 'todo done <id...> [--subtasks]\n  Completes the tasks, with --subtasks also everything below them.' },
+  undo: { run: undo, usage: 'todo undo <id...>\n  Reopens completed tasks.' },
+  edit: {
+    run: edit,
+    usage: `todo edit <id> [--title TEXT] [--description TEXT | --clear-description] [--priority P] [--list NAME|inbox]
+              [--due DATE] [--time HH:MM] [--every FREQ] [--clear-due] [--tag NAME]... [--untag NAME]...`
+  },
+  rm: { run: rm, usage: 'todo rm <id...>\n  Moves the tasks and their subtasks to the trash.' },
+  import: {
+    run: importTasks,
+    usage: `todo import <file | -> [--format json|csv|markdown] [--list NAME|inbox] [--duplicates skip|update|create] [--dry-run]
+  The format is taken from the file extension unless given; - reads standard input.`
+  },
+  export: {
+    run: exportTasks,
+    usage: `todo export [--format json|csv|markdown] [--list NAME|inbox] [--open] [--output FILE]
+  Writes the export to standard output unless --output is given.`
+  },
+  lists: { run: lists, usage: 'todo lists\n  Shows your lists and how many open tasks each has.' }
+};
+
+const help = `Usage: todo <command> [options]
+
+Commands:
+  add       Create a task
+  ls        List tasks
+  done      Complete tasks
+  undo      Reopen tasks
+  edit      Change a task
+  rm        Move tasks to the trash
+  import    Import tasks from a file
+  export    Export tasks to a file
+  lists     Show your lists
+  login     Sign in and remember the session
+  logout    Sign out
+  help      Show help for a command
+
+Global options:
+  --json           Print results as JSON, for scripts
+  --config FILE    Config file to use (default ${defaultConfigPath()})
+
+The config file holds the server URL ("server", e.g. https://todo.example.com/api) and the session
+token written by \`todo login\`. Add "email" and "password" to sign in again automatically when the
+session expires. TODO_SERVER and TODO_TOKEN override the file.`;
+
+// Global options may appear anywhere; everything else is left for the command
+const extractGlobalOptions = (argv: string[]) => {
+  const rest: string[] = [];
+  let json = false;
+  let configPath = defaultConfigPath();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--json') {
+      json = true;
+    } else if (arg === '--config') {
+      configPath = argv[++i] ?? '';
+    } else if (arg.startsWith('--config=')) {
+      configPath = arg.slice('--config='.length);
+    } else {
+      rest.push(arg);
+    }
+  }
+  if (!configPath) {
+    throw new UsageError('--config needs a file name');
+  }
+  return { json, configPath, rest };
+};
+
+const main = async (argv: string[]): Promise<void> => {
+  const { json, configPath, rest } = extractGlobalOptions(argv);
+  const [name, ...args] = rest;
+
+  if (name === undefined || name === 'help' || name === '--help' || name === '-h') {
+    console.log(args[0] && commands[args[0]] ? `Usage: ${commands[args[0]].usage}` : help);
+    return;
+  }
+  if (args.includes('--help') || args.includes('-h')) {
+    console.log(commands[name] ? `Usage: ${commands[name].usage}` : help);
+    return;
+  }
+
+  const config = await loadConfig(configPath);
+  if (name === 'login') {
+    return login(config, configPath, args);
+  }
+  if (name === 'logout') {
+    return logout(config, configPath, args);
+  }
+
+  const command = commands[name];
+  if (!command) {
+    throw new UsageError(`Unknown command "${name}"`);
+  }
+  await withSession(config, configPath, api => command.run({ api, json }, args));
+};
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  if (error instanceof UsageError || (error instanceof TypeError && 'code' in error && String(error.code).startsWith('ERR_PARSE_ARGS'))) {
+    // Mistakes in the command line, including unknown or malformed options
+    console.error(`todo: ${error.message}\nRun \`todo help\` for usage.`);
+    process.exit(2);
+  }
+  if (isUnauthorized(error)) {
+    console.error('todo: Not signed in or the session expired. Run `todo login`.');
+  } else {
+    console.error(`todo: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  process.exit(1);
+});
@@ -0,0 +1,78 @@
+import { createInterface } from 'node:readline/promises';
+import { parseArgs } from 'node:util';
+import { createApi, isUnauthorized } from './api';
+import { UsageError } from './args';
+import { updateConfig, type Config } from './config';
+
+// Ask for a value on the terminal; with `hidden` the typed characters aren't echoed
+const prompt = async (question: string, hidden = false): Promise<string> => {
+  const { stdin, stdout } = process;
+  if (!hidden || !stdin.isTTY) {
+    const readline = createInterface({ input: stdin, output: stdout, terminal: stdin.isTTY });
+    try {
+      return (await readline.question(question)).trim();
+    } finally {
+      readline.close();
+    }
+  }
+
+  stdout.write(question);
+  stdin.setRawMode(true);
+  stdin.resume();
+  return new Promise<string>((resolve, reject) => {
+    let value = '';
+    const onData = (data: Buffer) => {
+      for (const char of data.toString('utf8')) {
+        if (char === '\r' || char === '\n' || char === '\u0003') {
+          stdin.setRawMode(false);
+          stdin.pause();
+          stdin.off('data', onData);
+          stdout.write('\n');
+          if (char === '\u0003') {
+            reject(new UsageError('Cancelled'));
+          } else {
+            resolve(value);
+          }
+          return;
+        }
+        value = char === '\u007f' ? value.slice(0, -1) : value + char;
+      }
+    };
+    stdin.on('data', onData);
+  });
+};
+
+// Sign in and keep the session token (not the password) in the config file
+export const login = async (config: Config, configPath: string, argv: string[]): Promise<void> => {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      server: { type: 'string' },
+      email: { type: 'string', short: 'e' }
+    }
+  });
+
+  const server = values.server ?? config.server;
+  const email = values.email ?? config.email ?? await prompt('Email: ');
+  const password = await prompt('Password: ', true);
+
+  const api = createApi({ server });
+  const session = await api.signIn.mutate({ email, password });
+  await updateConfig(configPath, { server, token: session.token });
+  console.log(`Signed in to ${server} as ${session.user.email}`);
+};
+
+export const logout = async (config: Config, configPath: string, argv: string[]): Promise<void> => {
+  parseArgs({ args: argv, options: {} });
+
+  if (config.token) {
+    // An expired session is as good as signed out
+    await createApi(config).signOut.mutate().catch((error: unknown) => {
+      if (!isUnauthorized(error)) {
+        throw error;
+      }
+    });
+  }
+  await updateConfig(configPath, { token: undefined });
+  console.log('Signed out');
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'bun:test';
+import { parseChoice, parseDue, parseIds, parseTime, UsageError } from '../args';
+
+describe('parseDue', () => {
+  const today = new Date(2024, 0, 30);
+
+  it('should keep ISO dates as they are', () => {
+    expect(parseDue('2024-03-01', today)).toEqual('2024-03-01');
+  });
+
+  it('should resolve dates relative to today across month ends', () => {
+    expect(parseDue('today', today)).toEqual('2024-01-30');
+    expect(parseDue('Tomorrow', today)).toEqual('2024-01-31');
+    expect(parseDue('+3', today)).toEqual('2024-02-02');
+    expect(parseDue('+30d', today)).toEqual('2024-02-29');
+  });
+
+  it('should reject anything else', () => {
+    expect(() => parseDue('next week', today)).toThrow(UsageError);
+    expect(() => parseDue('-1', today)).toThrow(UsageError);
+  });
+});
+
+describe('parseTime', () => {
+  it('should accept 24-hour times only', () => {
+    expect(parseTime('09:30')).toEqual('09:30');
+    expect(() => parseTime('9:30')).toThrow(UsageError);
+    expect(() => parseTime('24:00')).toThrow(UsageError);
+  });
+});
+
+describe('parseIds', () => {
+  it('should parse every id and require at least one', () => {
+    expect(parseIds(['3', '12'])).toEqual([3, 12]);
+    expect(() => parseIds([])).toThrow(UsageError);
+    expect(() => parseIds(['3', 'x'])).toThrow('"x" is not a task id');
+  });
+});
+
+describe('parseChoice', () => {
+  it('should accept only the listed values', () => {
+    expect(parseChoice('csv', ['json', 'csv'], 'format')).toEqual('csv');
+    expect(() => parseChoice('xml', ['json', 'csv'], 'format')).toThrow('Unknown format "xml"; use one of json, csv');
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'bun:test';
+import type { Task } from '../../../server/src/schema';
+import { formatImportReport, formatTask } from '../format';
+
+const task: Task = {
+  id: 12,
+  owner_id: 1,
+  list_id: 2,
+  parent_id: null,
+  title: 'Write report',
+  description: null,
+  completed: false,
+  priority: 'high',
+  position: 'a0',
+  due_date: '2024-03-01',
+  due_time: '17:00:00',
+  due_timezone: 'UTC',
+  due_status: 'overdue',
+  recurrence: null,
+  tags: [{ id: 1, name: 'deep work', color: 'gray' }],
+  created_at: new Date(),
+  updated_at: new Date(),
+  deleted_at: null
+};
+
+describe('formatTask', () => {
+  it('should put the task on one line with its due date, tags and list', () => {
+    expect(formatTask({ ...task, subtask_count: 3, completed_subtask_count: 1 }, [{ id: 2, name: 'Projects' }]))
+      .toEqual('  12 [ ] !! Write report (due 2024-03-01 17:00, overdue, 1/3 subtasks) #deep-work @Projects');
+  });
+
+  it('should leave out details the task does not have', () => {
+    const plain = { ...task, completed: true, priority: 'none' as const, due_date: null, due_status: null, tags: [] };
+
+    expect(formatTask(plain, [])).toEqual('  12 [x] Write report');
+  });
+});
+
+describe('formatImportReport', () => {
+  it('should summarise counts and list failed rows', () => {
+    const report = {
+      dry_run: true, created: 1, updated: 0, skipped: 2, failed: 1,
+      items: [
+        { row: 2, title: 'Ok', action: 'create' as const, task_id: null, message: null },
+        { row: 3, title: '', action: 'error' as const, task_id: null, message: 'Title is required' }
+      ]
+    };
+
+    expect(formatImportReport(report, true)).toEqual(
+      'Would create 1, update 0, skip 2; 1 failed\n  row 3 (untitled): Title is required'
+    );
+  });
+});
@@ -1,26 +1,327 @@
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Checkbox } from '@/components/ui/checkbox';
 import { Card } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import { Toaster } from '@/components/ui/sonner';
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from '@/components/ui/resizable';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import DueDatePicker, { type DueDateValue } from '@/components/DueDatePicker';
+import TaskFilters, { type TaskFilterState } from '@/components/TaskFilters';
+import TaskItem from '@/components/TaskItem';
+import { type SubtaskProgress } from '@/components/SubtaskList';
+import ListSidebar, { type ListSelection } from '@/components/ListSidebar';
+import AuthScreen from '@/components/AuthScreen';
+import TrashSheet from '@/components/TrashSheet';
+import ImportExportDialog from '@/components/ImportExportDialog';
+import CalendarFeedDialog from '@/components/CalendarFeedDialog';
+import CommandPalette from '@/components/CommandPalette';
+import TaskHistorySheet from '@/components/TaskHistorySheet';
+import MergeDialog, { type TaskConflict } from '@/components/MergeDialog';
+import BulkActionBar from '@/components/BulkActionBar';
+import { browserTimezone } from '@/lib/due-dates';
+import { notifyError } from '@/lib/errors';
+import {
+  cacheTasks,
+  clearOfflineData,
+  conflictingTask,
+  draftTask,
+  getCachedTasks,
+  isOfflineError,
+  isTempId,
+  nextTempId,
+  pendingMutationCount,
+  replayMutations,
+  runMutation,
+  sendMutation,
+  uncacheTask,
+  type QueuedMutation,
+  type ReplayResult,
+  type SyncConflict
+} from '@/lib/mutation-queue';
 import { trpc } from '@/utils/trpc';
-import { useState, useEffect, useCallback } from 'react';
-import { Trash2, Plus, CheckCircle2, Circle } from 'lucide-react';
-import type { Task, CreateTaskInput } from '../../server/src/schema';
+import { getSessionToken, setSessionToken } from '@/utils/session';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Plus, CheckCircle2, Circle, CloudOff, LogOut, Trash2, ListChecks, CheckCheck, Eraser, ArrowDownUp, CalendarDays, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import type {
+  BulkResult,
+  Task,
+  TaskListItem,
+  CreateTaskInput,
+  CreateListInput,
+  GetTasksInput,
+  ListWithCounts,
+  RecurrenceRule,
+  SearchResult,
+  TagWithCount,
+  TaskChangeEvent,
+  TaskPriority,
+  TaskStats,
+  TaskTag,
+  UpdateTaskInput,
+  User
+} from '../../server/src/schema';
+
+const PAGE_SIZE = 25;
+
+// getTasks / createTask list_id for a sidebar selection: undefined = every list, null = Inbox
+const toListId = (selection: ListSelection): number | null | undefined =>
+  selection === 'all' ? undefined : selection === 'inbox' ? null : selection;
+
+// Where a dragged task will land relative to the task under the pointer
+interface DropTarget {
+  id: number;
+  placement: 'before' | 'after';
+}
+
+// Translate UI filter state into getTasks input (without the cursor)
+const toQueryInput = (filters: TaskFilterState, selection: ListSelection): GetTasksInput => ({
+  parent_id: null,
+  list_id: toListId(selection),
+  completed: filters.status === 'all' ? undefined : filters.status === 'done',
+  query: filters.query.trim() || undefined,
+  tags_any: filters.tagMode === 'any' && filters.tagIds.length > 0 ? filters.tagIds : undefined,
+  tags_all: filters.tagMode === 'all' && filters.tagIds.length > 0 ? filters.tagIds : undefined,
+  tags_none: filters.tagMode === 'none' && filters.tagIds.length > 0 ? filters.tagIds : undefined,
+  sort: filters.sort,
+  direction: filters.direction,
+  limit: PAGE_SIZE
+});
+
+// Whether a live-updated task belongs in the board as currently filtered, mirroring getTasks
+const matchesFilters = (task: TaskListItem, filters: TaskFilterState, selection: ListSelection): boolean => {
+  if (task.parent_id !== null) return false;
+  if (selection === 'inbox' ? task.list_id !== null : selection !== 'all' && task.list_id !== selection) return false;
+  if (filters.status !== 'all' && task.completed !== (filters.status === 'done')) return false;
+
+  const query = filters.query.trim().toLowerCase();
+  if (query && !`${task.title}\n${task.description ?? ''}`.toLowerCase().includes(query)) return false;
+
+  if (filters.tagIds.length > 0) {
+    const taskTagIds = task.tags.map((tag: TaskTag) => tag.id);
+    const matching = filters.tagIds.filter((id: number) => taskTagIds.includes(id)).length;
+    if (filters.tagMode === 'any' && matching === 0) return false;
+    if (filters.tagMode === 'all' && matching < filters.tagIds.length) return false;
+    if (filters.tagMode === 'none' && matching > 0) return false;
+  }
+  return true;
+};
+
+// What an offline update looks like locally until the server confirms it
+const applyUpdate = <T extends Task>(task: T, input: Omit<UpdateTaskInput, 'id'>, tags: TagWithCount[]): T => {
+  const removed = input.remove_tag_ids ?? [];
+  const added = tags
+    .filter((tag: TagWithCount) => input.add_tag_ids?.includes(tag.id) && !task.tags.some((t: TaskTag) => t.id === tag.id))
+    .map((tag: TagWithCount) => ({ id: tag.id, name: tag.name, color: tag.color }));
+  const next: T = {
+    ...task,
+    ...(input.title !== undefined && { title: input.title }),
+    ...(input.description !== undefined && { description: input.description }),
+    ...(input.priority !== undefined && { priority: input.priority }),
+    ...(input.due_date !== undefined && { due_date: input.due_date }),
+    ...(input.due_time !== undefined && { due_time: input.due_time }),
+    ...(input.due_timezone !== undefined && { due_timezone: input.due_timezone }),
+    ...(input.recurrence !== undefined && { recurrence: input.recurrence }),
+    tags: [...task.tags.filter((tag: TaskTag) => !removed.includes(tag.id)), ...added]
+  };
+  // Clearing the due date clears everything hanging off it, as on the server
+  return input.due_date === null ? { ...next, due_time: null, due_timezone: null, recurrence: null } : next;
+};
+
+// Human summary of an offline change that couldn't be applied as-is
+const describeConflict = (conflict: SyncConflict): string =>
+  conflict.server
+    ? `"${conflict.task_title}" was changed elsewhere while you were offline`
+    : `"${conflict.task_title}" was deleted elsewhere, so your offline change was dropped`;
+
+// The server's task with a rejected change applied on top, i.e. what the user meant it to be
+const intendedTask = (server: Task, mutation: QueuedMutation, tags: TagWithCount[]): Task => {
+  switch (mutation.kind) {
+    case 'update':
+      return applyUpdate(server, mutation.input, tags);
+    case 'toggle':
+      return { ...server, completed: mutation.completed };
+    default:
+      return server;
+  }
+};
 
 function App() {
-  const [tasks, setTasks] = useState<Task[]>([]);
+  const [user, setUser] = useState<User | null>(null);
+  // Only check the stored session when there is one to check
+  const [isCheckingSession, setIsCheckingSession] = useState(() => getSessionToken() !== null);
+
+  // Restore the signed-in user from a stored session token
+  const restoreSession = useCallback(async () => {
+    if (!getSessionToken()) return;
+    try {
+      setUser(await trpc.me.query());
+    } catch (error) {
+      console.error('Stored session is no longer valid:', error);
+      setSessionToken(null);
+    } finally {
+      setIsCheckingSession(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    restoreSession();
+  }, [restoreSession]);
+
+  const handleSignOut = async () => {
+    try {
+      await trpc.signOut.mutate();
+    } catch (error) {
+      console.error('Failed to sign out:', error);
+    } finally {
+      // Forget the token and the offline copy locally even if the server call failed
+      setSessionToken(null);
+      setUser(null);
+      clearOfflineData().catch((error: unknown) => console.error('Failed to clear offline data:', error));
+    }
+  };
+
+  if (isCheckingSession) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="w-6 h-6 border-2 border-gray-300 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <AuthScreen onAuthenticated={setUser} />;
+  }
+
+  // Keyed by user so switching accounts starts from a clean slate
+  return <TaskBoard key={user.id} user={user} onSignOut={handleSignOut} />;
+}
+
+// Signed-in task list
+interface TaskBoardProps {
+  user: User;
+  onSignOut: () => void;
+}
+
+function TaskBoard({ user, onSignOut }: TaskBoardProps) {
+  const [tasks, setTasks] = useState<TaskListItem[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+  const [stats, setStats] = useState<TaskStats>({ total: 0, completed: 0, overdue: 0 });
+  const [lists, setLists] = useState<ListWithCounts[]>([]);
+  const [tags, setTags] = useState<TagWithCount[]>([]);
+  const [selectedList, setSelectedList] = useState<ListSelection>('all');
+  const [listToDelete, setListToDelete] = useState<ListWithCounts | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
+  const [isImportExportOpen, setIsImportExportOpen] = useState(false);
+  const [isCalendarFeedOpen, setIsCalendarFeedOpen] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
+  // Search result to scroll to once the list it lives in has loaded
+  const [jumpTarget, setJumpTarget] = useState<{ result: SearchResult; afterRequest: number } | null>(null);
+  const [jumpedTaskId, setJumpedTaskId] = useState<number | null>(null);
+  const [isOffline, setIsOffline] = useState(!navigator.onLine);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [openedTask, setOpenedTask] = useState<TaskListItem | null>(null);
+  const [conflict, setConflict] = useState<TaskConflict | null>(null);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<number[]>([]);
+  const [filters, setFilters] = useState<TaskFilterState>({
+    status: 'all',
+    query: '',
+    sort: 'created',
+    direction: 'desc',
+    tagIds: [],
+    tagMode: 'any'
+  });
+  const [searchText, setSearchText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [draggedTaskId, setDraggedTaskId] = useState<number | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
   const [newTaskTitle, setNewTaskTitle] = useState('');
+  const [newTaskDue, setNewTaskDue] = useState<DueDateValue>({ due_date: null, due_time: null });
   const [isCreating, setIsCreating] = useState(false);
 
-  // Load tasks from the server
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  // Guards against stale pages arriving after the filters changed
+  const requestIdRef = useRef(0);
+  // Latest filters for the live-update subscription, which stays open while they change
+  const viewRef = useRef({ filters, selectedList });
+  viewRef.current = { filters, selectedList };
+  const countsTimeoutRef = useRef<ReturnType<typeof setTimeout>>(undefined);
+  // Last task clicked in selection mode, where a shift-click range starts
+  const selectionAnchorRef = useRef<number | null>(null);
+
+  // Load the first page for the current filters, replacing whatever is shown
   const loadTasks = useCallback(async () => {
+    const requestId = ++requestIdRef.current;
+    setIsFetching(true);
     try {
-      const result = await trpc.getTasks.query();
-      setTasks(result);
+      const page = await trpc.getTasks.query(toQueryInput(filters, selectedList));
+      if (requestId !== requestIdRef.current) return;
+      setTasks(page.items);
+      setNextCursor(page.next_cursor);
+      setIsOffline(false);
+      cacheTasks(page.items).catch((error: unknown) => console.error('Failed to cache tasks:', error));
     } catch (error) {
       console.error('Failed to load tasks:', error);
+      if (requestId !== requestIdRef.current) return;
+      if (!isOfflineError(error)) {
+        notifyError('Could not load tasks', error);
+        return;
+      }
+      // Fall back to the offline copy, filtered the way the server would have
+      setIsOffline(true);
+      const cached = await getCachedTasks();
+      setTasks(cached
+        .filter((task: TaskListItem) => matchesFilters(task, filters, selectedList))
+        .sort((a: TaskListItem, b: TaskListItem) => b.created_at.getTime() - a.created_at.getTime()));
+      setNextCursor(null);
+    } finally {
+      if (requestId === requestIdRef.current) setIsFetching(false);
+    }
+  }, [filters, selectedList]);
+
+  // Append the next page when the user scrolls to the end of the list
+  const loadMoreTasks = useCallback(async () => {
+    if (!nextCursor || isFetching) return;
+
+    const requestId = requestIdRef.current;
+    setIsFetching(true);
+    try {
+      const page = await trpc.getTasks.query({ ...toQueryInput(filters, selectedList), cursor: nextCursor });
+      if (requestId !== requestIdRef.current) return;
+      setTasks((prev: TaskListItem[]) => [...prev, ...page.items]);
+      setNextCursor(page.next_cursor);
+    } catch (error) {
+      console.error('Failed to load more tasks:', error);
+      notifyError('Could not load more tasks', error);
+    } finally {
+      if (requestId === requestIdRef.current) setIsFetching(false);
+    }
+  }, [filters, selectedList, nextCursor, isFetching]);
+
+  // Refresh the footer stats, per-list sidebar counts and tag counts after any change
+  const loadCounts = useCallback(async () => {
+    try {
+      const [statsResult, listsResult, tagsResult] = await Promise.all([
+        trpc.getTaskStats.query(),
+        trpc.getLists.query(),
+        trpc.getTags.query()
+      ]);
+      setStats(statsResult);
+      setLists(listsResult);
+      setTags(tagsResult);
+    } catch (error) {
+      console.error('Failed to load task counts:', error);
     }
   }, []);
 
@@ -28,6 +329,201 @@ function App() {
     loadTasks();
   }, [loadTasks]);
 
+  useEffect(() => {
+    loadCounts();
+  }, [loadCounts]);
+
+  // Show a change locally (and in the offline copy) before the server has seen it
+  const applyLocally = (task: TaskListItem) => {
+    setTasks((prev: TaskListItem[]) => prev.map((t: TaskListItem) => (t.id === task.id ? task : t)));
+    cacheTasks([task]).catch((error: unknown) => console.error('Failed to cache task:', error));
+  };
+
+  const refreshPendingCount = useCallback(async () => {
+    setPendingCount(await pendingMutationCount());
+  }, []);
+
+  // Queue outcome bookkeeping shared by every task handler
+  const noteQueued = () => {
+    setIsOffline(true);
+    refreshPendingCount();
+  };
+
+  // Apply an offline change the user chose to keep over the server's version
+  const handleKeepMine = useCallback(async (mutation: QueuedMutation) => {
+    try {
+      await sendMutation(mutation);
+      loadTasks();
+      loadCounts();
+    } catch (error) {
+      console.error('Failed to apply offline change:', error);
+      notifyError('Could not apply your change', error);
+    }
+  }, [loadTasks, loadCounts]);
+
+  // Push queued offline changes once the server is reachable, then surface what couldn't be applied
+  const syncQueue = useCallback(async () => {
+    if (await pendingMutationCount() === 0) return;
+
+    let result: ReplayResult;
+    try {
+      result = await replayMutations();
+    } catch (error) {
+      console.error('Failed to sync offline changes:', error);
+      return;
+    }
+
+    const remaining = await pendingMutationCount();
+    setPendingCount(remaining);
+    setIsOffline(remaining > 0);
+    if (result.replayed > 0 || result.conflicts.length > 0 || result.failed.length > 0) {
+      loadTasks();
+      loadCounts();
+    }
+    for (const conflict of result.conflicts) {
+      const server = conflict.server;
+      toast.warning(describeConflict(conflict), {
+        duration: Infinity,
+        ...(server && {
+          description: 'Your offline change was not applied.',
+          // Edits can be merged field by field; a deletion is all or nothing
+          action: conflict.mutation.kind === 'delete'
+            ? { label: 'Delete anyway', onClick: () => handleKeepMine(conflict.mutation) }
+            : { label: 'Merge', onClick: () => setConflict({ mine: intendedTask(server, conflict.mutation, tags), theirs: server }) },
+          cancel: { label: 'Keep theirs', onClick: () => {} }
+        })
+      });
+    }
+    if (result.failed.length > 0) {
+      toast.error(`${result.failed.length} offline change(s) could not be saved`);
+    }
+  }, [loadTasks, loadCounts, handleKeepMine, tags]);
+
+  // Retry the queue on start, whenever the browser comes back online, and periodically while changes wait
+  useEffect(() => {
+    refreshPendingCount();
+    syncQueue();
+    const handleOnline = () => syncQueue();
+    const handleOffline = () => setIsOffline(true);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncQueue, refreshPendingCount]);
+
+  useEffect(() => {
+    if (pendingCount === 0) return;
+    const interval = setInterval(syncQueue, 30_000);
+    return () => clearInterval(interval);
+  }, [pendingCount, syncQueue]);
+
+  // Live updates from other tabs and devices: merge changed tasks into the loaded page
+  useEffect(() => {
+    const subscription = trpc.onTaskChanges.subscribe(undefined, {
+      onData: (event: TaskChangeEvent) => {
+        if (event.type === 'deleted') {
+          setTasks((prev: TaskListItem[]) => prev.filter((task: TaskListItem) => !event.ids.includes(task.id)));
+        } else {
+          const { filters: currentFilters, selectedList: currentList } = viewRef.current;
+          setTasks((prev: TaskListItem[]) => {
+            let next = prev;
+            for (const changed of event.tasks) {
+              const exists = next.some((task: TaskListItem) => task.id === changed.id);
+              if (!matchesFilters(changed, currentFilters, currentList)) {
+                next = exists ? next.filter((task: TaskListItem) => task.id !== changed.id) : next;
+              } else if (exists) {
+                next = next.map((task: TaskListItem) => (task.id === changed.id ? changed : task));
+              } else {
+                next = [changed, ...next];
+              }
+            }
+            return next;
+          });
+        }
+
+        // Coalesce bursts of changes into one counts refresh
+        clearTimeout(countsTimeoutRef.current);
+        countsTimeoutRef.current = setTimeout(loadCounts, 300);
+      },
+      onError: (error: unknown) => console.error('Live updates failed:', error)
+    });
+    return () => {
+      subscription.unsubscribe();
+      clearTimeout(countsTimeoutRef.current);
+    };
+  }, [loadCounts]);
+
+  // Debounce the search box so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setFilters((prev: TaskFilterState) =>
+        prev.query === searchText ? prev : { ...prev, query: searchText }
+      );
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [searchText]);
+
+  // Infinite scroll: fetch the next page once the sentinel below the list becomes visible
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !nextCursor) return;
+
+    const observer = new IntersectionObserver((entries: IntersectionObserverEntry[]) => {
+      if (entries[0]?.isIntersecting) {
+        loadMoreTasks();
+      }
+    }, { rootMargin: '200px' });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMoreTasks]);
+
+  // Ctrl+K (Cmd+K on macOS) opens the search palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsPaletteOpen((prev: boolean) => !prev);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  // Show the task's list with no filters that could hide it; the effect below scrolls once it loaded
+  const handleJumpToTask = (result: SearchResult) => {
+    setJumpTarget({ result, afterRequest: requestIdRef.current });
+    setSelectedList(result.task.list_id ?? 'inbox');
+    setSearchText('');
+    setFilters((prev: TaskFilterState) => ({ ...prev, status: 'all', query: '', tagIds: [] }));
+  };
+
+  useEffect(() => {
+    // Wait for the reload the jump started, not a page that was on screen before it
+    if (!jumpTarget || isFetching || requestIdRef.current <= jumpTarget.afterRequest) return;
+    const { result } = jumpTarget;
+    setJumpTarget(null);
+
+    // Subtasks are shown inside their top-level task, so that is the row to bring into view
+    const row = document.getElementById(`task-${result.root_id}`);
+    if (row) {
+      row.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      setJumpedTaskId(result.root_id);
+    }
+    // Open subtasks, and tasks further down than the loaded pages, in the details sheet
+    if (!row || result.root_id !== result.task.id) {
+      setOpenedTask(result.task);
+    }
+  }, [jumpTarget, isFetching, tasks]);
+
+  // Let the highlight on the row jumped to fade after a moment
+  useEffect(() => {
+    if (jumpedTaskId === null) return;
+    const timeout = setTimeout(() => setJumpedTaskId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [jumpedTaskId]);
+
   // Create a new task
   const handleCreateTask = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -37,225 +533,727 @@ function App() {
     try {
       const taskInput: CreateTaskInput = {
         title: newTaskTitle.trim(),
-        description: null
+        description: null,
+        list_id: toListId(selectedList) ?? null,
+        due_date: newTaskDue.due_date,
+        due_time: newTaskDue.due_time,
+        due_timezone: newTaskDue.due_date ? browserTimezone() : null
       };
       
-      const newTask = await trpc.createTask.mutate(taskInput);
-      setTasks((prev: Task[]) => [...prev, newTask]);
+      // Offline, the task gets a temporary id until the queued create reaches the server
+      const tempId = nextTempId();
+      const outcome = await runMutation({ kind: 'create', temp_id: tempId, input: taskInput });
+      const newTask: TaskListItem = outcome.queued
+        ? draftTask(tempId, taskInput, user.id)
+        : { ...outcome.task!, subtask_count: 0, completed_subtask_count: 0 };
+      if (outcome.queued) {
+        cacheTasks([newTask]).catch((error: unknown) => console.error('Failed to cache task:', error));
+        noteQueued();
+      }
+      // Show the new task at the top unless the current filter would hide it
+      if (filters.status !== 'done' && !filters.query) {
+        setTasks((prev: TaskListItem[]) => [newTask, ...prev]);
+      }
+      loadCounts();
       setNewTaskTitle('');
+      setNewTaskDue({ due_date: null, due_time: null });
     } catch (error) {
       console.error('Failed to create task:', error);
+      notifyError('Could not create the task', error);
     } finally {
       setIsCreating(false);
     }
   };
 
   // Toggle task completion status
-  const handleToggleTask = async (taskId: number, completed: boolean) => {
+  const handleToggleTask = async (taskId: number, completed: boolean, includeSubtasks: boolean) => {
+    const current = tasks.find((task: TaskListItem) => task.id === taskId);
     setIsLoading(true);
     try {
-      const updatedTask = await trpc.toggleTask.mutate({
+      const outcome = await runMutation({
+        kind: 'toggle',
         id: taskId,
-        completed
+        completed,
+        include_subtasks: includeSubtasks,
+        base_updated_at: current && !isTempId(taskId) ? current.updated_at : null
       });
+      if (outcome.queued) {
+        if (current) applyLocally({ ...current, completed });
+        noteQueued();
+        return;
+      }
+      const updatedTask = outcome.task!;
+      const cascaded = completed && includeSubtasks;
+      // Completing a recurring task creates its next occurrence on the server
+      const spawnedNext = completed && tasks.some((task: TaskListItem) => task.id === taskId && task.recurrence !== null);
       
-      setTasks((prev: Task[]) =>
-        prev.map((task: Task) =>
-          task.id === taskId ? { ...task, completed: updatedTask.completed } : task
-        )
+      // Completion also changes the derived due status, so take the whole server row;
+      // drop it if the active status filter no longer matches
+      const stillVisible = filters.status === 'all' || (filters.status === 'done') === updatedTask.completed;
+      setTasks((prev: TaskListItem[]) =>
+        stillVisible
+          ? prev.map((task: TaskListItem) =>
+            task.id === taskId
+              ? {
+                ...task,
+                ...updatedTask,
+                completed_subtask_count: cascaded ? task.subtask_count : task.completed_subtask_count
+              }
+              : task
+          )
+          : prev.filter((task: TaskListItem) => task.id !== taskId)
       );
+      if (spawnedNext) {
+        loadTasks();
+      }
+      loadCounts();
     } catch (error) {
+      const server = conflictingTask(error);
+      if (server && current) {
+        setConflict({ mine: { ...server, completed }, theirs: server });
+        return;
+      }
       console.error('Failed to toggle task:', error);
+      notifyError('Could not update the task', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Keep a task's subtask progress in step with edits made in its subtask tree
+  const handleSubtaskProgressChange = (taskId: number, progress: SubtaskProgress) => {
+    setTasks((prev: TaskListItem[]) =>
+      prev.map((task: TaskListItem) =>
+        task.id === taskId
+          ? { ...task, subtask_count: progress.total, completed_subtask_count: progress.completed }
+          : task
+      )
+    );
+    loadCounts();
+  };
+
+  // Send a field update, or apply it locally and queue it while offline
+  const updateTaskFields = async (taskId: number, input: Omit<UpdateTaskInput, 'id'>, label: string) => {
+    const current = tasks.find((task: TaskListItem) => task.id === taskId);
+    if (!current) return;
+
+    setIsLoading(true);
+    try {
+      const outcome = await runMutation({
+        kind: 'update',
+        id: taskId,
+        input,
+        base_updated_at: isTempId(taskId) ? null : current.updated_at
+      });
+      if (outcome.queued) {
+        applyLocally(applyUpdate(current, input, tags));
+        noteQueued();
+      } else {
+        setTasks((prev: TaskListItem[]) =>
+          prev.map((task: TaskListItem) => (task.id === taskId ? { ...task, ...outcome.task } : task))
+        );
+      }
+      loadCounts();
+    } catch (error) {
+      const server = conflictingTask(error);
+      if (server) {
+        setConflict({ mine: applyUpdate(server, input, tags), theirs: server });
+        return;
+      }
+      console.error(`Failed to update ${label}:`, error);
+      notifyError(`Could not update the ${label}`, error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Show the outcome of a merge; the live update stream keeps other views in step
+  const handleMerged = (merged: Task) => {
+    setTasks((prev: TaskListItem[]) =>
+      prev.map((task: TaskListItem) => (task.id === merged.id ? { ...task, ...merged } : task))
+    );
+    loadCounts();
+  };
+
+  // Change or clear a task's due date
+  const handleDueDateChange = async (taskId: number, due: DueDateValue) => {
+    await updateTaskFields(taskId, {
+      due_date: due.due_date,
+      due_time: due.due_date ? due.due_time : undefined,
+      due_timezone: due.due_date ? browserTimezone() : undefined
+    }, 'due date');
+  };
+
+  // Make a task repeat, change its schedule, or stop it repeating
+  const handleRecurrenceChange = async (taskId: number, recurrence: RecurrenceRule | null) => {
+    await updateTaskFields(taskId, { recurrence }, 'recurrence');
+  };
+
+  // Move a task to another list (or the Inbox)
+  const handleMoveTask = async (taskId: number, listId: number | null) => {
+    setIsLoading(true);
+    try {
+      const updatedTask = await trpc.moveTask.mutate({ id: taskId, list_id: listId });
+      // Leave it in place when showing every list, otherwise it no longer belongs here
+      const stillVisible = selectedList === 'all' || toListId(selectedList) === updatedTask.list_id;
+      setTasks((prev: TaskListItem[]) =>
+        stillVisible
+          ? prev.map((task: TaskListItem) => (task.id === taskId ? { ...task, ...updatedTask } : task))
+          : prev.filter((task: TaskListItem) => task.id !== taskId)
+      );
+      loadCounts();
+    } catch (error) {
+      console.error('Failed to move task:', error);
+      notifyError('Could not move the task', error);
     } finally {
       setIsLoading(false);
     }
   };
 
-  // Delete a task
+  // Drop a dragged task before or after another: reorder locally first, roll back if the server refuses
+  const handleReorderTask = async (taskId: number, target: DropTarget) => {
+    if (taskId === target.id) return;
+
+    const previousTasks = tasks;
+    const moved = tasks.find((task: TaskListItem) => task.id === taskId);
+    if (!moved) return;
+    const remaining = tasks.filter((task: TaskListItem) => task.id !== taskId);
+    const targetIndex = remaining.findIndex((task: TaskListItem) => task.id === target.id);
+    remaining.splice(target.placement === 'before' ? targetIndex : targetIndex + 1, 0, moved);
+    setTasks(remaining);
+
+    try {
+      const updatedTask = await trpc.reorderTask.mutate(
+        target.placement === 'before'
+          ? { id: taskId, before_id: target.id }
+          : { id: taskId, after_id: target.id }
+      );
+      setTasks((prev: TaskListItem[]) =>
+        prev.map((task: TaskListItem) => (task.id === taskId ? { ...task, ...updatedTask } : task))
+      );
+    } catch (error) {
+      console.error('Failed to reorder task:', error);
+      notifyError('Could not reorder the task', error);
+      setTasks(previousTasks);
+    }
+  };
+
+  // Work out which half of the hovered task the pointer is over
+  const handleDragOver = (e: React.DragEvent<HTMLDivElement>, taskId: number) => {
+    if (draggedTaskId === null || draggedTaskId === taskId) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const placement = e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+    if (dropTarget?.id !== taskId || dropTarget.placement !== placement) {
+      setDropTarget({ id: taskId, placement });
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    if (draggedTaskId !== null && dropTarget) {
+      handleReorderTask(draggedTaskId, dropTarget);
+    }
+    setDraggedTaskId(null);
+    setDropTarget(null);
+  };
+
+  // Change a task's priority
+  const handlePriorityChange = async (taskId: number, priority: TaskPriority) => {
+    await updateTaskFields(taskId, { priority }, 'priority');
+  };
+
+  // Attach or detach one tag
+  const handleTagToggle = async (taskId: number, tagId: number, attached: boolean) => {
+    await updateTaskFields(taskId, {
+      add_tag_ids: attached ? [tagId] : undefined,
+      remove_tag_ids: attached ? undefined : [tagId]
+    }, 'tags');
+  };
+
+  // Create a tag from a task's tag picker and attach it straight away
+  const handleCreateTag = async (taskId: number, name: string) => {
+    try {
+      const tag = await trpc.createTag.mutate({ name });
+      await handleTagToggle(taskId, tag.id, true);
+    } catch (error) {
+      console.error('Failed to create tag:', error);
+      notifyError('Could not create the tag', error);
+    }
+  };
+
+  const handleCreateList = async (value: Required<CreateListInput>) => {
+    const list = await trpc.createList.mutate(value);
+    await loadCounts();
+    setSelectedList(list.id);
+  };
+
+  const handleUpdateList = async (id: number, value: Required<CreateListInput>) => {
+    await trpc.updateList.mutate({ id, ...value });
+    await loadCounts();
+  };
+
+  // Delete the list picked in the confirmation dialog, optionally with its tasks
+  const handleDeleteList = async (deleteTasks: boolean) => {
+    if (!listToDelete) return;
+    try {
+      await trpc.deleteList.mutate({ id: listToDelete.id, delete_tasks: deleteTasks });
+      if (selectedList === listToDelete.id) {
+        setSelectedList('all');
+      } else {
+        loadTasks();
+      }
+      loadCounts();
+    } catch (error) {
+      console.error('Failed to delete list:', error);
+      notifyError('Could not delete the list', error);
+    } finally {
+      setListToDelete(null);
+    }
+  };
+
+  // Bring a deleted task back from the trash
+  const handleRestoreTask = async (taskId: number) => {
+    try {
+      await trpc.restoreTask.mutate({ id: taskId });
+      loadTasks();
+      loadCounts();
+    } catch (error) {
+      console.error('Failed to restore task:', error);
+      notifyError('Could not restore the task', error);
+    }
+  };
+
+  // Move a task to the trash, offering to undo straight away
   const handleDeleteTask = async (taskId: number) => {
+    const current = tasks.find((task: TaskListItem) => task.id === taskId);
     setIsLoading(true);
     try {
-      const result = await trpc.deleteTask.mutate({ id: taskId });
-      if (result.success) {
-        setTasks((prev: Task[]) => prev.filter((task: Task) => task.id !== taskId));
+      const outcome = await runMutation({
+        kind: 'delete',
+        id: taskId,
+        base_updated_at: current && !isTempId(taskId) ? current.updated_at : null
+      });
+      if (outcome.queued) {
+        setTasks((prev: TaskListItem[]) => prev.filter((task: TaskListItem) => task.id !== taskId));
+        uncacheTask(taskId).catch((error: unknown) => console.error('Failed to uncache task:', error));
+        noteQueued();
+        toast('Task will be moved to trash once you are back online');
+      } else {
+        setTasks((prev: TaskListItem[]) => prev.filter((task: TaskListItem) => task.id !== taskId));
+        loadCounts();
+        toast('Task moved to trash', {
+          action: { label: 'Undo', onClick: () => handleRestoreTask(taskId) }
+        });
       }
     } catch (error) {
       console.error('Failed to delete task:', error);
+      notifyError('Could not delete the task', error);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const completedTasks = tasks.filter((task: Task) => task.completed);
-  const incompleteTasks = tasks.filter((task: Task) => !task.completed);
+  const completedTasks = tasks.filter((task: TaskListItem) => task.completed);
+  const incompleteTasks = tasks.filter((task: TaskListItem) => !task.completed);
 
-  return (
-    <div className="min-h-screen bg-gray-50">
-      <div className="container mx-auto px-4 py-8 max-w-2xl">
-        {/* Header */}
-        <div className="text-center mb-8">
-          <h1 className="text-3xl font-bold text-gray-900 mb-2">✅ Simple Todo</h1>
-          <p className="text-gray-600">Stay organized and get things done</p>
-        </div>
+  const leaveSelection = () => {
+    setIsSelecting(false);
+    setSelectedIds([]);
+    selectionAnchorRef.current = null;
+  };
 
-        {/* Add new task form */}
-        <Card className="p-6 mb-8 shadow-sm">
-          <form onSubmit={handleCreateTask} className="flex gap-3">
-            <Input
-              placeholder="What needs to be done?"
-              value={newTaskTitle}
-              onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
-                setNewTaskTitle(e.target.value)
-              }
-              className="flex-1"
-              disabled={isCreating}
-            />
-            <Button 
-              type="submit" 
-              disabled={isCreating || !newTaskTitle.trim()}
-              className="px-6"
-            >
-              {isCreating ? (
-                <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-              ) : (
-                <Plus className="w-4 h-4" />
+  // Click toggles one task; shift-click selects everything between it and the last click,
+  // in the order the tasks are shown
+  const handleSelect = (taskId: number, extend: boolean) => {
+    const shown = [...incompleteTasks, ...completedTasks].map((task: TaskListItem) => task.id);
+    const anchor = selectionAnchorRef.current;
+    setSelectedIds((prev: number[]) => {
+      if (extend && anchor !== null && shown.includes(anchor)) {
+        const [from, to] = [shown.indexOf(anchor), shown.indexOf(taskId)].sort((a: number, b: number) => a - b);
+        return [...new Set([...prev, ...shown.slice(from, to + 1)])];
+      }
+      return prev.includes(taskId) ? prev.filter((id: number) => id !== taskId) : [...prev, taskId];
+    });
+    selectionAnchorRef.current = taskId;
+  };
+
+  // Run a bulk mutation, then report how it went; ids that failed are kept selected
+  const runBulkAction = async (label: string, run: () => Promise<BulkResult>) => {
+    setIsLoading(true);
+    try {
+      const result = await run();
+      if (result.failed > 0) {
+        const firstError = result.results.find((item: BulkResult['results'][number]) => !item.success)?.error;
+        toast.warning(`${label} ${result.succeeded} task(s), ${result.failed} could not be changed`, {
+          description: firstError?.message
+        });
+      } else if (result.succeeded > 0) {
+        toast(`${label} ${result.succeeded} task(s)`);
+      }
+      setSelectedIds(result.results
+        .filter((item: BulkResult['results'][number]) => !item.success)
+        .map((item: BulkResult['results'][number]) => item.id));
+      loadTasks();
+      loadCounts();
+    } catch (error) {
+      console.error(`Bulk action failed (${label}):`, error);
+      notifyError('Could not change the selected tasks', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleBulkToggle = (completed: boolean) =>
+    runBulkAction(completed ? 'Completed' : 'Reopened', () =>
+      trpc.bulkToggle.mutate({ ids: selectedIds, completed, include_subtasks: false }));
+
+  const handleBulkMove = (listId: number | null) =>
+    runBulkAction('Moved', () => trpc.bulkUpdate.mutate({ ids: selectedIds, list_id: listId }));
+
+  const handleBulkPriority = (priority: TaskPriority) =>
+    runBulkAction('Updated', () => trpc.bulkUpdate.mutate({ ids: selectedIds, priority }));
+
+  const handleBulkTag = (tagId: number, attached: boolean) =>
+    runBulkAction(attached ? 'Tagged' : 'Untagged', () => trpc.bulkUpdate.mutate({
+      ids: selectedIds,
+      add_tag_ids: attached ? [tagId] : undefined,
+      remove_tag_ids: attached ? undefined : [tagId]
+    }));
+
+  const handleBulkDelete = () =>
+    runBulkAction('Trashed', () => trpc.bulkDelete.mutate({ ids: selectedIds }));
+
+  // Whole-scope actions for the current sidebar selection, not just the loaded page
+  const handleCompleteAll = () =>
+    runBulkAction('Completed', () => trpc.completeAll.mutate({ list_id: toListId(selectedList) }));
+
+  const handleClearCompleted = () =>
+    runBulkAction('Trashed', () => trpc.clearCompleted.mutate({ list_id: toListId(selectedList) }));
+  // Totals for the current sidebar selection; the Inbox holds whatever isn't in a list
+  const selectedListCounts = lists.find((list: ListWithCounts) => list.id === selectedList);
+  const scopeTotal = selectedListCounts
+    ? selectedListCounts.task_count
+    : selectedList === 'inbox'
+      ? stats.total - lists.reduce((sum: number, list: ListWithCounts) => sum + list.task_count, 0)
+      : stats.total;
+  const scopeCompleted = selectedListCounts
+    ? selectedListCounts.completed_count
+    : selectedList === 'inbox'
+      ? stats.completed - lists.reduce((sum: number, list: ListWithCounts) => sum + list.completed_count, 0)
+      : stats.completed;
+  // Only part of the list may be loaded, so headings use server-side counts unless searching
+  const incompleteCount = filters.query ? incompleteTasks.length : scopeTotal - scopeCompleted;
+  const completedCount = filters.query ? completedTasks.length : scopeCompleted;
+  const scopeTitle = selectedListCounts?.name ?? (selectedList === 'inbox' ? 'Inbox' : null);
+
+  // Dragging only makes sense while the list shows the manual order
+  const canReorder = filters.sort === 'manual' && !isLoading && !isSelecting;
+
+  const renderTask = (task: TaskListItem) => (
+    <div
+      key={task.id}
+      id={`task-${task.id}`}
+      draggable={canReorder}
+      onDragStart={() => setDraggedTaskId(task.id)}
+      onDragOver={(e: React.DragEvent<HTMLDivElement>) => handleDragOver(e, task.id)}
+      onDrop={handleDrop}
+      onDragEnd={() => {
+        setDraggedTaskId(null);
+        setDropTarget(null);
+      }}
+      className={`rounded-xl border-y-2 border-transparent transition-shadow ${
+        canReorder ? 'cursor-grab' : ''
+      } ${jumpedTaskId === task.id ? 'ring-2 ring-amber-400' : ''} ${draggedTaskId === task.id ? 'opacity-50' : ''} ${
+        dropTarget?.id === task.id
+          ? dropTarget.placement === 'before' ? 'border-t-blue-500' : 'border-b-blue-500'
+          : ''
+      }`}
+    >
+      <TaskItem
+        task={task}
+        onToggle={handleToggleTask}
+        onSubtaskProgressChange={handleSubtaskProgressChange}
+        onDelete={handleDeleteTask}
+        onDueDateChange={handleDueDateChange}
+        onRecurrenceChange={handleRecurrenceChange}
+        onMove={handleMoveTask}
+        onPriorityChange={handlePriorityChange}
+        onTagToggle={handleTagToggle}
+        onCreateTag={handleCreateTag}
+        onOpen={setOpenedTask}
+        lists={lists}
+        tags={tags}
+        showList={selectedList === 'all'}
+        isLoading={isLoading}
+        selection={isSelecting ? { selected: selectedIds.includes(task.id), onSelect: handleSelect } : undefined}
+      />
+    </div>
+  );
+
+  return (
+    <ResizablePanelGroup direction="horizontal" className="min-h-screen bg-gray-50">
+      <ResizablePanel defaultSize={22} minSize={15} maxSize={40}>
+        <ListSidebar
+          lists={lists}
+          stats={stats}
+          selected={selectedList}
+          onSelect={setSelectedList}
+          onCreate={handleCreateList}
+          onUpdate={handleUpdateList}
+          onDelete={setListToDelete}
+        />
+      </ResizablePanel>
+      <ResizableHandle withHandle />
+      <ResizablePanel defaultSize={78}>
+        <div className="h-screen overflow-y-auto">
+          <div className="container mx-auto px-4 py-8 max-w-2xl">
+            {/* Account bar */}
+            <div className="flex items-center justify-end gap-3 mb-4 text-sm text-gray-500">
+              {(isOffline || pendingCount > 0) && (
+                <span className="mr-auto flex items-center gap-1 text-amber-600">
+                  <CloudOff className="w-4 h-4" />
+                  {isOffline ? 'Offline' : 'Syncing'}
+                  {pendingCount > 0 && ` · ${pendingCount} change(s) waiting to sync`}
+                </span>
               )}
-              {!isCreating && <span className="ml-2">Add</span>}
-            </Button>
-          </form>
-        </Card>
-
-        {/* Tasks list */}
-        <div className="space-y-6">
-          {/* Incomplete tasks */}
-          {incompleteTasks.length > 0 && (
-            <div>
-              <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center gap-2">
-                <Circle className="w-5 h-5 text-blue-500" />
-                To Do ({incompleteTasks.length})
-              </h2>
-              <div className="space-y-2">
-                {incompleteTasks.map((task: Task) => (
-                  <TaskItem
-                    key={task.id}
-                    task={task}
-                    onToggle={handleToggleTask}
-                    onDelete={handleDeleteTask}
-                    isLoading={isLoading}
-                  />
-                ))}
-              </div>
-            </div>
-          )}
-
-          {/* Separator between incomplete and complete tasks */}
-          {incompleteTasks.length > 0 && completedTasks.length > 0 && (
-            <Separator className="my-8" />
-          )}
-
-          {/* Completed tasks */}
-          {completedTasks.length > 0 && (
-            <div>
-              <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center gap-2">
-                <CheckCircle2 className="w-5 h-5 text-green-500" />
-                Completed ({completedTasks.length})
-              </h2>
-              <div className="space-y-2">
-                {completedTasks.map((task: Task) => (
-                  <TaskItem
-                    key={task.id}
-                    task={task}
-                    onToggle={handleToggleTask}
-                    onDelete={handleDeleteTask}
-                    isLoading={isLoading}
-                  />
-                ))}
-              </div>
+              <Button variant="ghost" size="sm" onClick={() => setIsPaletteOpen(true)}>
+                <Search className="w-4 h-4" />
+                Search
+                <kbd className="ml-1 rounded border px-1 text-xs text-gray-400">Ctrl K</kbd>
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setIsCalendarFeedOpen(true)}>
+                <CalendarDays className="w-4 h-4" />
+                Calendar
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setIsImportExportOpen(true)}>
+                <ArrowDownUp className="w-4 h-4" />
+                Import / export
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setIsTrashOpen(true)}>
+                <Trash2 className="w-4 h-4" />
+                Trash
+              </Button>
+              <span>{user.name || user.email}</span>
+              <Button variant="ghost" size="sm" onClick={onSignOut}>
+                <LogOut className="w-4 h-4" />
+                Sign out
+              </Button>
             </div>
-          )}
-
-          {/* Empty state */}
-          {tasks.length === 0 && (
-            <div className="text-center py-12">
-              <div className="text-gray-400 mb-4">
-                <CheckCircle2 className="w-16 h-16 mx-auto mb-4 opacity-50" />
-                <p className="text-lg">No tasks yet!</p>
-                <p className="text-sm">Add a task above to get started</p>
-              </div>
+
+            {/* Header */}
+            <div className="text-center mb-8">
+              <h1 className="text-3xl font-bold text-gray-900 mb-2">✅ Simple Todo</h1>
+              <p className="text-gray-600">
+                {scopeTitle ?? 'Stay organized and get things done'}
+              </p>
             </div>
-          )}
-        </div>
 
-        {/* Footer stats */}
-        {tasks.length > 0 && (
-          <div className="mt-8 text-center text-sm text-gray-500">
-            {completedTasks.length} of {tasks.length} tasks completed
-          </div>
-        )}
-      </div>
-    </div>
-  );
-}
+            {/* Add new task form */}
+            <Card className="p-6 mb-8 shadow-sm">
+              <form onSubmit={handleCreateTask} className="flex gap-3">
+                <Input
+                  placeholder="What needs to be done?"
+                  value={newTaskTitle}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                    setNewTaskTitle(e.target.value)
+                  }
+                  className="flex-1"
+                  disabled={isCreating}
+                />
+                <DueDatePicker
+                  value={newTaskDue}
+                  onChange={setNewTaskDue}
+                  disabled={isCreating}
+                />
+                <Button 
+                  type="submit" 
+                  disabled={isCreating || !newTaskTitle.trim()}
+                  className="px-6"
+                >
+                  {isCreating ? (
+                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
+                  ) : (
+                    <Plus className="w-4 h-4" />
+                  )}
+                  {!isCreating && <span className="ml-2">Add</span>}
+                </Button>
+              </form>
+            </Card>
 
-// Task item component
-interface TaskItemProps {
-  task: Task;
-  onToggle: (id: number, completed: boolean) => void;
-  onDelete: (id: number) => void;
-  isLoading: boolean;
-}
+            <TaskFilters
+              filters={filters}
+              tags={tags}
+              searchText={searchText}
+              onSearchTextChange={setSearchText}
+              onChange={setFilters}
+            />
 
-function TaskItem({ task, onToggle, onDelete, isLoading }: TaskItemProps) {
-  const handleToggleChange = (checked: boolean) => {
-    onToggle(task.id, checked);
-  };
+            {/* Tasks list */}
+            <div className="space-y-6">
+              {/* Incomplete tasks */}
+              {incompleteTasks.length > 0 && (
+                <div>
+                  <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center gap-2">
+                    <Circle className="w-5 h-5 text-blue-500" />
+                    To Do ({incompleteCount})
+                    <span className="ml-auto flex gap-1">
+                      {!isSelecting && (
+                        <Button variant="ghost" size="sm" onClick={() => setIsSelecting(true)}>
+                          <ListChecks className="w-4 h-4" />
+                          Select
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={handleCompleteAll} disabled={isLoading}>
+                        <CheckCheck className="w-4 h-4" />
+                        Complete all
+                      </Button>
+                    </span>
+                  </h2>
+                  <div className="space-y-2">
+                    {incompleteTasks.map(renderTask)}
+                  </div>
+                </div>
+              )}
 
-  return (
-    <Card className={`p-4 transition-all duration-200 ${
-      task.completed 
-        ? 'bg-gray-50 border-gray-200' 
-        : 'bg-white hover:shadow-sm'
-    }`}>
-      <div className="flex items-center gap-3">
-        <Checkbox
-          checked={task.completed}
-          onCheckedChange={handleToggleChange}
-          disabled={isLoading}
-          className="mt-0.5"
-        />
-        
-        <div className="flex-1 min-w-0">
-          <h3 className={`font-medium transition-all ${
-            task.completed 
-              ? 'text-gray-500 line-through' 
-              : 'text-gray-900'
-          }`}>
-            {task.title}
-          </h3>
-          {task.description && (
-            <p className={`text-sm mt-1 ${
-              task.completed ? 'text-gray-400' : 'text-gray-600'
-            }`}>
-              {task.description}
-            </p>
-          )}
-          <p className="text-xs text-gray-400 mt-2">
-            Created {task.created_at.toLocaleDateString()}
-          </p>
+              {/* Separator between incomplete and complete tasks */}
+              {incompleteTasks.length > 0 && completedTasks.length > 0 && (
+                <Separator className="my-8" />
+              )}
+
+              {/* Completed tasks */}
+              {completedTasks.length > 0 && (
+                <div>
+                  <h2 className="text-lg font-medium text-gray-900 mb-4 flex items-center gap-2">
+                    <CheckCircle2 className="w-5 h-5 text-green-500" />
+                    Completed ({completedCount})
+                    <Button variant="ghost" size="sm" className="ml-auto" onClick={handleClearCompleted} disabled={isLoading}>
+                      <Eraser className="w-4 h-4" />
+                      Clear completed
+                    </Button>
+                  </h2>
+                  <div className="space-y-2">
+                    {completedTasks.map(renderTask)}
+                  </div>
+                </div>
+              )}
+
+              {/* Empty state */}
+              {tasks.length === 0 && !isFetching && (
+                <div className="text-center py-12">
+                  <div className="text-gray-400 mb-4">
+                    <CheckCircle2 className="w-16 h-16 mx-auto mb-4 opacity-50" />
+                    {stats.total === 0 ? (
+                      <>
+                        <p className="text-lg">No tasks yet!</p>
+                        <p className="text-sm">Add a task above to get started</p>
+                      </>
+                    ) : (
+                      <p className="text-lg">No tasks match your filters</p>
+                    )}
+                  </div>
+                </div>
+              )}
+
+              {isSelecting && (
+                <BulkActionBar
+                  count={selectedIds.length}
+                  totalCount={tasks.length}
+                  lists={lists}
+                  tags={tags}
+                  disabled={isLoading}
+                  onToggle={handleBulkToggle}
+                  onMove={handleBulkMove}
+                  onPriorityChange={handleBulkPriority}
+                  onTagChange={handleBulkTag}
+                  onDelete={handleBulkDelete}
+                  onSelectAll={() => setSelectedIds(tasks.map((task: TaskListItem) => task.id))}
+                  onCancel={leaveSelection}
+                />
+              )}
+
+              {/* Infinite scroll sentinel and loading indicator */}
+              <div ref={sentinelRef} />
+              {isFetching && (
+                <div className="flex justify-center py-4">
+                  <div className="w-5 h-5 border-2 border-gray-300 border-t-transparent rounded-full animate-spin" />
+                </div>
+              )}
+            </div>
+
+            {/* Footer stats */}
+            {scopeTotal > 0 && (
+              <div className="mt-8 text-center text-sm text-gray-500">
+                {scopeCompleted} of {scopeTotal} tasks completed
+                {selectedList === 'all' && stats.overdue > 0 && (
+                  <span className="text-red-500"> · {stats.overdue} overdue</span>
+                )}
+              </div>
+            )}
+          </div>
         </div>
+      </ResizablePanel>
 
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={() => onDelete(task.id)}
-          disabled={isLoading}
-          className="text-gray-400 hover:text-red-500 p-2"
-        >
-          <Trash2 className="w-4 h-4" />
-        </Button>
-      </div>
-    </Card>
+      <TrashSheet
+        open={isTrashOpen}
+        onOpenChange={setIsTrashOpen}
+        onRestored={() => {
+          loadTasks();
+          loadCounts();
+        }}
+      />
+      <ImportExportDialog
+        open={isImportExportOpen}
+        onOpenChange={setIsImportExportOpen}
+        listId={toListId(selectedList)}
+        scopeName={scopeTitle}
+        onImported={() => {
+          loadTasks();
+          loadCounts();
+        }}
+      />
+      <CalendarFeedDialog open={isCalendarFeedOpen} onOpenChange={setIsCalendarFeedOpen} />
+      <CommandPalette open={isPaletteOpen} onOpenChange={setIsPaletteOpen} lists={lists} onSelect={handleJumpToTask} />
+      <TaskHistorySheet task={openedTask} lists={lists} onClose={() => setOpenedTask(null)} />
+      {conflict && (
+        <MergeDialog
+          key={`${conflict.theirs.id}:${conflict.theirs.updated_at.getTime()}`}
+          conflict={conflict}
+          onClose={() => setConflict(null)}
+          onMerged={handleMerged}
+        />
+      )}
+      <Toaster />
+
+      {/* Confirm list deletion - tasks either move to the Inbox or go to the trash */}
+      <AlertDialog open={listToDelete !== null} onOpenChange={(open: boolean) => !open && setListToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{listToDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {listToDelete && listToDelete.task_count > 0
+                ? `This list has ${listToDelete.task_count} task(s). You can keep them in the Inbox or move them to the trash.`
+                : 'This list is empty.'}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            {listToDelete && listToDelete.task_count > 0 && (
+              <AlertDialogAction
+                className="bg-red-600 hover:bg-red-700"
+                onClick={() => handleDeleteList(true)}
+              >
+                Delete list and tasks
+              </AlertDialogAction>
+            )}
+            <AlertDialogAction onClick={() => handleDeleteList(false)}>
+              {listToDelete && listToDelete.task_count > 0 ? 'Keep tasks in Inbox' : 'Delete list'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </ResizablePanelGroup>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -0,0 +1,116 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { trpc } from '@/utils/trpc';
+import { setSessionToken } from '@/utils/session';
+import { errorMessage } from '@/lib/errors';
+import { TRPCClientError } from '@trpc/client';
+import { useState } from 'react';
+import type { User } from '../../../server/src/schema';
+
+type AuthMode = 'sign-in' | 'sign-up';
+
+interface AuthScreenProps {
+  onAuthenticated: (user: User) => void;
+}
+
+export default function AuthScreen({ onAuthenticated }: AuthScreenProps) {
+  const [mode, setMode] = useState<AuthMode>('sign-in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [name, setName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const session = mode === 'sign-in'
+        ? await trpc.signIn.mutate({ email, password })
+        : await trpc.signUp.mutate({ email, password, name: name.trim() || null });
+
+      setSessionToken(session.token);
+      onAuthenticated(session.user);
+    } catch (err) {
+      console.error('Authentication failed:', err);
+      // The server explains expected failures like a taken email; fall back for anything else
+      setError(
+        err instanceof TRPCClientError && (err.data?.cause || err.data?.field_errors)
+          ? errorMessage(err)
+          : mode === 'sign-in'
+            ? 'Invalid email or password.'
+            : 'Could not create the account. Check your details or try another email.'
+      );
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+      <Card className="w-full max-w-sm p-6 shadow-sm">
+        <div className="text-center mb-6">
+          <h1 className="text-2xl font-bold text-gray-900 mb-1">✅ Simple Todo</h1>
+          <p className="text-gray-600 text-sm">Sign in to see your tasks</p>
+        </div>
+
+        <Tabs value={mode} onValueChange={(value: string) => setMode(value as AuthMode)} className="mb-4">
+          <TabsList className="w-full">
+            <TabsTrigger value="sign-in">Sign in</TabsTrigger>
+            <TabsTrigger value="sign-up">Create account</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === 'sign-up' && (
+            <div className="space-y-2">
+              <Label htmlFor="auth-name">Name</Label>
+              <Input
+                id="auth-name"
+                value={name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                placeholder="Optional"
+                disabled={isSubmitting}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="auth-email">Email</Label>
+            <Input
+              id="auth-email"
+              type="email"
+              autoComplete="email"
+              value={email}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setEmail(e.target.value)}
+              required
+              disabled={isSubmitting}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auth-password">Password</Label>
+            <Input
+              id="auth-password"
+              type="password"
+              autoComplete={mode === 'sign-in' ? 'current-password' : 'new-password'}
+              value={password}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassword(e.target.value)}
+              minLength={mode === 'sign-up' ? 8 : undefined}
+              required
+              disabled={isSubmitting}
+            />
+          </div>
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          <Button type="submit" className="w-full" disabled={isSubmitting}>
+            {isSubmitting ? 'Please wait...' : mode === 'sign-in' ? 'Sign in' : 'Create account'}
+          </Button>
+        </form>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import { listIcons } from '@/lib/list-icons';
+import { priorityColors, priorityLabels, priorityOrder } from '@/lib/priorities';
+import { CheckCheck, Circle, Flag, FolderInput, Inbox, Tag as TagIcon, Trash2, X } from 'lucide-react';
+import type { ListWithCounts, TagWithCount, TaskPriority } from '../../../server/src/schema';
+
+interface BulkActionBarProps {
+  count: number; // Number of selected tasks
+  totalCount: number; // Number of tasks loaded, for "Select all"
+  lists: ListWithCounts[];
+  tags: TagWithCount[];
+  disabled: boolean;
+  onToggle: (completed: boolean) => void;
+  onMove: (listId: number | null) => void;
+  onPriorityChange: (priority: TaskPriority) => void;
+  onTagChange: (tagId: number, attached: boolean) => void;
+  onDelete: () => void;
+  onSelectAll: () => void;
+  onCancel: () => void; // Leaves selection mode
+}
+
+// Actions applied to every selected task at once, pinned to the bottom of the board
+export default function BulkActionBar({
+  count,
+  totalCount,
+  lists,
+  tags,
+  disabled,
+  onToggle,
+  onMove,
+  onPriorityChange,
+  onTagChange,
+  onDelete,
+  onSelectAll,
+  onCancel
+}: BulkActionBarProps) {
+  const isEmpty = count === 0 || disabled;
+
+  return (
+    <div className="sticky bottom-4 z-10 mt-6 flex flex-wrap items-center gap-1 rounded-xl border bg-white p-2 shadow-lg">
+      <span className="px-2 text-sm font-medium text-gray-700">{count} selected</span>
+      {count < totalCount && (
+        <Button variant="ghost" size="sm" onClick={onSelectAll} disabled={disabled}>
+          Select all
+        </Button>
+      )}
+
+      <div className="ml-auto flex flex-wrap items-center gap-1">
+        <Button variant="ghost" size="sm" onClick={() => onToggle(true)} disabled={isEmpty}>
+          <CheckCheck className="w-4 h-4" />
+          Complete
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => onToggle(false)} disabled={isEmpty}>
+          <Circle className="w-4 h-4" />
+          Reopen
+        </Button>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" disabled={isEmpty}>
+              <FolderInput className="w-4 h-4" />
+              Move
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            <DropdownMenuItem onSelect={() => onMove(null)}>
+              <Inbox className="w-4 h-4" />
+              Inbox
+            </DropdownMenuItem>
+            {lists.map((list: ListWithCounts) => {
+              const ListIcon = listIcons[list.icon];
+              return (
+                <DropdownMenuItem key={list.id} onSelect={() => onMove(list.id)}>
+                  <ListIcon className="w-4 h-4" style={{ color: list.color }} />
+                  {list.name}
+                </DropdownMenuItem>
+              );
+            })}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" disabled={isEmpty}>
+              <Flag className="w-4 h-4" />
+              Priority
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            {priorityOrder.map((priority: TaskPriority) => (
+              <DropdownMenuItem key={priority} onSelect={() => onPriorityChange(priority)}>
+                <Flag className={`w-4 h-4 ${priorityColors[priority]}`} />
+                {priorityLabels[priority]}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" disabled={isEmpty || tags.length === 0}>
+              <TagIcon className="w-4 h-4" />
+              Tags
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent>
+            <DropdownMenuLabel>Add tag</DropdownMenuLabel>
+            {tags.map((tag: TagWithCount) => (
+              <DropdownMenuItem key={`add-${tag.id}`} onSelect={() => onTagChange(tag.id, true)}>
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                {tag.name}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>Remove tag</DropdownMenuLabel>
+            {tags.map((tag: TagWithCount) => (
+              <DropdownMenuItem key={`remove-${tag.id}`} onSelect={() => onTagChange(tag.id, false)}>
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                {tag.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onDelete}
+          disabled={isEmpty}
+          className="text-red-600 hover:text-red-700"
+        >
+          <Trash2 className="w-4 h-4" />
+          Delete
+        </Button>
+        <Button variant="ghost" size="sm" onClick={onCancel} aria-label="Leave selection mode">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
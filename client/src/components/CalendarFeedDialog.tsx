@@ -0,0 +1,129 @@
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { notifyError } from '@/lib/errors';
+import { trpc } from '@/utils/trpc';
+import { formatDistanceToNow } from 'date-fns';
+import { Copy } from 'lucide-react';
+import { useCallback, useEffect, useState } from 'react';
+import { toast } from 'sonner';
+import type { CalendarFeed } from '../../../server/src/schema';
+
+interface CalendarFeedDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Feeds are served by the API server, which the app reaches under /api
+const feedUrl = (path: string): string => `${window.location.origin}/api${path}`;
+
+// Secret subscription URL for calendar apps; shown once when issued, since the server only keeps its hash
+export default function CalendarFeedDialog({ open, onOpenChange }: CalendarFeedDialogProps) {
+  const [feed, setFeed] = useState<CalendarFeed | null>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadFeed = useCallback(async () => {
+    try {
+      setFeed(await trpc.getCalendarFeed.query());
+    } catch (error) {
+      console.error('Failed to load calendar feed:', error);
+    }
+  }, []);
+
+  // Refresh every time the dialog opens; a URL issued earlier can't be shown again
+  useEffect(() => {
+    if (open) {
+      setUrl(null);
+      loadFeed();
+    }
+  }, [open, loadFeed]);
+
+  const handleReset = async () => {
+    setIsSaving(true);
+    try {
+      const issued = await trpc.resetCalendarFeed.mutate();
+      setUrl(feedUrl(issued.path));
+      setFeed({ enabled: true, created_at: issued.created_at });
+    } catch (error) {
+      console.error('Failed to issue calendar feed:', error);
+      notifyError('Could not create the calendar link', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    setIsSaving(true);
+    try {
+      await trpc.deleteCalendarFeed.mutate();
+      setUrl(null);
+      setFeed({ enabled: false, created_at: null });
+      toast('Calendar link turned off');
+    } catch (error) {
+      console.error('Failed to delete calendar feed:', error);
+      notifyError('Could not turn off the calendar link', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!url) return;
+    await navigator.clipboard.writeText(url);
+    toast.success('Link copied');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Calendar subscription</DialogTitle>
+          <DialogDescription>
+            Subscribe to this link in Apple Calendar, Outlook or Thunderbird to see tasks with a due date.
+            Anyone with the link can read those tasks.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2 text-sm">
+          {url ? (
+            <>
+              <div className="flex gap-2">
+                <Input value={url} readOnly onFocus={(e: React.FocusEvent<HTMLInputElement>) => e.target.select()} />
+                <Button variant="outline" size="icon" onClick={handleCopy} aria-label="Copy link">
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+              <p className="text-gray-500">Copy it now: for your security it won't be shown again.</p>
+            </>
+          ) : feed?.enabled ? (
+            <p className="text-gray-600">
+              A link is active, created {feed.created_at && formatDistanceToNow(feed.created_at, { addSuffix: true })}.
+              Create a new one if you lost it; the old link stops working.
+            </p>
+          ) : (
+            <p className="text-gray-600">No calendar link yet.</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          {feed?.enabled && (
+            <Button variant="outline" className="text-red-600 hover:text-red-700" onClick={handleDelete} disabled={isSaving}>
+              Turn off
+            </Button>
+          )}
+          <Button onClick={handleReset} disabled={isSaving || feed === null}>
+            {feed?.enabled ? 'Create new link' : 'Create link'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
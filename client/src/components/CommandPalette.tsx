@@ -0,0 +1,126 @@
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from '@/components/ui/command';
+import { notifyError } from '@/lib/errors';
+import { trpc } from '@/utils/trpc';
+import { CheckCircle2, Circle } from 'lucide-react';
+import { useEffect, useRef, useState } from 'react';
+import type { HighlightSegment, ListWithCounts, SearchResult } from '../../../server/src/schema';
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  lists: ListWithCounts[];
+  onSelect: (result: SearchResult) => void; // Jump to the chosen task
+}
+
+// Text with the words that matched the search marked up
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment: HighlightSegment, index: number) =>
+        segment.match
+          ? <mark key={index} className="rounded-sm bg-yellow-200 px-0.5 text-inherit">{segment.text}</mark>
+          : <span key={index}>{segment.text}</span>
+      )}
+    </>
+  );
+}
+
+// Ctrl+K search over every task's title and description, ranked by the server
+export default function CommandPalette({ open, onOpenChange, lists, onSelect }: CommandPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  // Guards against slow responses for an earlier query replacing newer results
+  const requestIdRef = useRef(0);
+
+  // Start over every time the palette opens
+  useEffect(() => {
+    if (open) {
+      setQuery('');
+      setResults([]);
+    }
+  }, [open]);
+
+  // Search as the user types, debounced so a fast typist doesn't fire a request per keystroke
+  useEffect(() => {
+    const text = query.trim();
+    const requestId = ++requestIdRef.current;
+    if (!text) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const found = await trpc.searchTasks.query({ query: text });
+        if (requestId === requestIdRef.current) setResults(found);
+      } catch (error) {
+        console.error('Failed to search tasks:', error);
+        if (requestId === requestIdRef.current) notifyError('Could not search tasks', error);
+      } finally {
+        if (requestId === requestIdRef.current) setIsSearching(false);
+      }
+    }, 150);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const handleSelect = (result: SearchResult) => {
+    onOpenChange(false);
+    onSelect(result);
+  };
+
+  const listName = (listId: number | null): string =>
+    lists.find((list: ListWithCounts) => list.id === listId)?.name ?? 'Inbox';
+
+  return (
+    <CommandDialog
+      open={open}
+      onOpenChange={onOpenChange}
+      title="Search tasks"
+      description="Find a task by words in its title or description"
+      // The server already filtered and ranked the results
+      shouldFilter={false}
+    >
+      <CommandInput placeholder="Search tasks..." value={query} onValueChange={setQuery} />
+      <CommandList>
+        {query.trim() && !isSearching && <CommandEmpty>No tasks found.</CommandEmpty>}
+        {results.length > 0 && (
+          <CommandGroup heading="Tasks">
+            {results.map((result: SearchResult) => (
+              <CommandItem
+                key={result.task.id}
+                value={String(result.task.id)}
+                onSelect={() => handleSelect(result)}
+                className="items-start"
+              >
+                {result.task.completed
+                  ? <CheckCircle2 className="mt-0.5 text-green-500" />
+                  : <Circle className="mt-0.5 text-gray-400" />}
+                <div className="min-w-0 flex-1">
+                  <div className={`truncate ${result.task.completed ? 'text-gray-500 line-through' : ''}`}>
+                    <Highlighted segments={result.title} />
+                  </div>
+                  {result.snippet.length > 0 && (
+                    <div className="line-clamp-2 text-xs text-gray-500">
+                      <Highlighted segments={result.snippet} />
+                    </div>
+                  )}
+                </div>
+                <span className="shrink-0 text-xs text-gray-400">{listName(result.task.list_id)}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
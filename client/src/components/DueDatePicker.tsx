@@ -0,0 +1,82 @@
+import { Button } from '@/components/ui/button';
+import { Calendar } from '@/components/ui/calendar';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { CalendarDays, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { parseDueDate, toDueDateString } from '@/lib/due-dates';
+
+export interface DueDateValue {
+  due_date: string | null; // YYYY-MM-DD
+  due_time: string | null; // HH:MM
+}
+
+interface DueDatePickerProps {
+  value: DueDateValue;
+  onChange: (value: DueDateValue) => void;
+  disabled?: boolean;
+}
+
+export default function DueDatePicker({ value, onChange, disabled }: DueDatePickerProps) {
+  const selected = value.due_date ? parseDueDate(value.due_date) : undefined;
+
+  const handleSelect = (date: Date | undefined) => {
+    onChange({
+      due_date: date ? toDueDateString(date) : null,
+      due_time: date ? value.due_time : null
+    });
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          disabled={disabled}
+          className={selected ? 'text-gray-900' : 'text-gray-500'}
+        >
+          <CalendarDays className="w-4 h-4" />
+          {selected ? (
+            <span>
+              {format(selected, 'MMM d')}
+              {value.due_time && ` ${value.due_time}`}
+            </span>
+          ) : (
+            <span className="sr-only sm:not-sr-only">Due</span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-auto p-0" align="end">
+        <Calendar
+          mode="single"
+          selected={selected}
+          onSelect={handleSelect}
+          initialFocus
+        />
+        <div className="flex items-center gap-2 border-t p-3">
+          <Input
+            type="time"
+            value={value.due_time || ''}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+              onChange({ ...value, due_time: e.target.value || null })
+            }
+            disabled={!value.due_date}
+            className="flex-1"
+            aria-label="Due time"
+          />
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => onChange({ due_date: null, due_time: null })}
+            disabled={!value.due_date}
+          >
+            <X className="w-4 h-4" />
+            Clear
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
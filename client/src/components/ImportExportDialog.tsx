@@ -0,0 +1,328 @@
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { notifyError } from '@/lib/errors';
+import { cn } from '@/lib/utils';
+import { trpc } from '@/utils/trpc';
+import { Download, Upload } from 'lucide-react';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import type { ImportItem, ImportReport, ImportTasksInput, TaskCsvColumn, TaskFileFormat } from '../../../server/src/schema';
+
+interface ImportExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The board's current scope: undefined = every list, null = Inbox
+  listId: number | null | undefined;
+  scopeName: string | null;
+  // Called after an import changed something, so the board can reload
+  onImported: () => void;
+}
+
+type DuplicateMode = ImportTasksInput['duplicates'];
+
+const formatLabels: Record<TaskFileFormat, string> = {
+  json: 'JSON (everything, for backups)',
+  csv: 'CSV (spreadsheets)',
+  markdown: 'Markdown checklist'
+};
+
+const duplicateLabels: Record<DuplicateMode, string> = {
+  skip: 'Skip them',
+  update: 'Update the existing task',
+  create: 'Import them anyway'
+};
+
+const csvColumns: TaskCsvColumn[] = [
+  'title', 'description', 'completed', 'priority', 'due_date', 'due_time', 'due_timezone', 'recurrence', 'list', 'tags', 'parent'
+];
+
+const actionStyles: Record<ImportItem['action'], string> = {
+  create: 'text-green-700',
+  update: 'text-blue-700',
+  skip: 'text-gray-500',
+  error: 'text-red-600'
+};
+
+// Guess the format of an uploaded file from its name
+const formatOf = (fileName: string): TaskFileFormat =>
+  /\.json$/i.test(fileName) ? 'json' : /\.csv$/i.test(fileName) ? 'csv' : 'markdown';
+
+// Header names of a CSV file, for the column mapping
+const csvHeaders = (content: string): string[] =>
+  (content.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0] ?? '')
+    .split(',')
+    .map((header: string) => header.trim().replace(/^"(.*)"$/, '$1'))
+    .filter(Boolean);
+
+// Save text as a file through a temporary link
+const download = (filename: string, contentType: string, content: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: contentType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Download the user's tasks as a file, or bring tasks in from one after previewing the result
+export default function ImportExportDialog({ open, onOpenChange, listId, scopeName, onImported }: ImportExportDialogProps) {
+  const [exportFormat, setExportFormat] = useState<TaskFileFormat>('json');
+  const [exportScopeOnly, setExportScopeOnly] = useState(false);
+  const [includeCompleted, setIncludeCompleted] = useState(true);
+
+  const [file, setFile] = useState<{ name: string; content: string } | null>(null);
+  const [importFormat, setImportFormat] = useState<TaskFileFormat>('json');
+  const [intoScope, setIntoScope] = useState(false);
+  const [duplicates, setDuplicates] = useState<DuplicateMode>('skip');
+  const [columnMap, setColumnMap] = useState<Record<string, TaskCsvColumn>>({});
+  // Result of the last dry run, cleared whenever an option changes
+  const [preview, setPreview] = useState<ImportReport | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const hasScope = listId !== undefined;
+
+  const handleExport = async () => {
+    setIsBusy(true);
+    try {
+      const result = await trpc.exportTasks.query({
+        format: exportFormat,
+        list_id: hasScope && exportScopeOnly ? listId : undefined,
+        include_completed: includeCompleted
+      });
+      download(result.filename, result.content_type, result.content);
+      toast.success(`Exported ${result.count} task(s)`);
+    } catch (error) {
+      console.error('Failed to export tasks:', error);
+      notifyError('Could not export tasks', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    if (!selected) return;
+    setFile({ name: selected.name, content: await selected.text() });
+    setImportFormat(formatOf(selected.name));
+    setColumnMap({});
+    setPreview(null);
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!file) return;
+    setIsBusy(true);
+    try {
+      const report = await trpc.importTasks.mutate({
+        format: importFormat,
+        content: file.content,
+        list_id: hasScope && intoScope ? listId : undefined,
+        duplicates,
+        column_map: importFormat === 'csv' ? columnMap : undefined,
+        dry_run: dryRun
+      });
+      if (dryRun) {
+        setPreview(report);
+        return;
+      }
+      toast.success(`Imported ${report.created} new and ${report.updated} updated task(s)`, {
+        description: report.failed > 0 ? `${report.failed} task(s) could not be imported` : undefined
+      });
+      setFile(null);
+      setPreview(null);
+      onImported();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to import tasks:', error);
+      notifyError('Could not import the file', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Any change to the import options makes the preview stale
+  const changeOption = <T,>(set: (value: T) => void) => (value: T) => {
+    set(value);
+    setPreview(null);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import and export</DialogTitle>
+          <DialogDescription>Move tasks between this app and files.</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="export">
+          <TabsList className="w-full">
+            <TabsTrigger value="export">Export</TabsTrigger>
+            <TabsTrigger value="import">Import</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="export" className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={exportFormat} onValueChange={(format: string) => setExportFormat(format as TaskFileFormat)}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(formatLabels) as TaskFileFormat[]).map((format: TaskFileFormat) => (
+                    <SelectItem key={format} value={format}>{formatLabels[format]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {hasScope && (
+              <div className="flex items-center justify-between">
+                <Label htmlFor="export-scope">Only {scopeName ?? 'this list'}</Label>
+                <Switch id="export-scope" checked={exportScopeOnly} onCheckedChange={setExportScopeOnly} />
+              </div>
+            )}
+            <div className="flex items-center justify-between">
+              <Label htmlFor="export-completed">Include completed tasks</Label>
+              <Switch id="export-completed" checked={includeCompleted} onCheckedChange={setIncludeCompleted} />
+            </div>
+            <DialogFooter>
+              <Button onClick={handleExport} disabled={isBusy}>
+                <Download className="w-4 h-4" />
+                {isBusy ? 'Exporting...' : 'Download'}
+              </Button>
+            </DialogFooter>
+          </TabsContent>
+
+          <TabsContent value="import" className="space-y-4 pt-2">
+            <div className="space-y-2">
+              <Label htmlFor="import-file">File</Label>
+              <input
+                id="import-file"
+                type="file"
+                accept=".json,.csv,.md,.markdown,.txt"
+                onChange={handleFileChange}
+                disabled={isBusy}
+                className="block w-full text-sm text-gray-600 file:mr-3 file:rounded-md file:border-0 file:bg-gray-100 file:px-3 file:py-1.5 file:text-sm"
+              />
+            </div>
+
+            {file && (
+              <>
+                <div className="space-y-2">
+                  <Label>Format</Label>
+                  <Select value={importFormat} onValueChange={changeOption((format: string) => setImportFormat(format as TaskFileFormat))}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(formatLabels) as TaskFileFormat[]).map((format: TaskFileFormat) => (
+                        <SelectItem key={format} value={format}>{formatLabels[format]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {importFormat === 'csv' && (
+                  <div className="space-y-2">
+                    <Label>Columns</Label>
+                    <div className="grid grid-cols-2 gap-2 text-sm">
+                      {csvHeaders(file.content).map((header: string) => (
+                        <div key={header} className="contents">
+                          <span className="self-center truncate text-gray-700">{header}</span>
+                          <Select
+                            value={columnMap[header] ?? 'auto'}
+                            onValueChange={changeOption((column: string) =>
+                              setColumnMap((prev: Record<string, TaskCsvColumn>) => {
+                                const next = { ...prev };
+                                if (column === 'auto') {
+                                  delete next[header];
+                                } else {
+                                  next[header] = column as TaskCsvColumn;
+                                }
+                                return next;
+                              })
+                            )}
+                          >
+                            <SelectTrigger className="w-full">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="auto">Match by name</SelectItem>
+                              {csvColumns.map((column: TaskCsvColumn) => (
+                                <SelectItem key={column} value={column}>{column}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="space-y-2">
+                  <Label>Tasks with the same title as an existing one</Label>
+                  <Select value={duplicates} onValueChange={changeOption((mode: string) => setDuplicates(mode as DuplicateMode))}>
+                    <SelectTrigger className="w-full">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {(Object.keys(duplicateLabels) as DuplicateMode[]).map((mode: DuplicateMode) => (
+                        <SelectItem key={mode} value={mode}>{duplicateLabels[mode]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {hasScope && (
+                  <div className="flex items-center justify-between">
+                    <Label htmlFor="import-scope">Put everything in {scopeName ?? 'this list'}</Label>
+                    <Switch id="import-scope" checked={intoScope} onCheckedChange={changeOption(setIntoScope)} />
+                  </div>
+                )}
+
+                {preview && (
+                  <div className="space-y-2 rounded-md border p-3">
+                    <p className="text-sm font-medium text-gray-900">
+                      {preview.created} to create · {preview.updated} to update · {preview.skipped} to skip
+                      {preview.failed > 0 && <span className="text-red-600"> · {preview.failed} with errors</span>}
+                    </p>
+                    <ul className="max-h-48 space-y-1 overflow-y-auto text-xs">
+                      {preview.items.map((item: ImportItem) => (
+                        <li key={item.row} className="flex gap-2">
+                          <span className="w-10 shrink-0 text-gray-400">#{item.row}</span>
+                          <span className={cn('w-12 shrink-0 font-medium', actionStyles[item.action])}>{item.action}</span>
+                          <span className="truncate">
+                            {item.title || 'Untitled'}
+                            {item.message && <span className="text-gray-500"> · {item.message}</span>}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </>
+            )}
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => runImport(true)} disabled={!file || isBusy}>
+                Preview
+              </Button>
+              <Button onClick={() => runImport(false)} disabled={!preview || isBusy}>
+                <Upload className="w-4 h-4" />
+                {isBusy ? 'Importing...' : 'Import'}
+              </Button>
+            </DialogFooter>
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,121 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { listColors, listIcons } from '@/lib/list-icons';
+import { notifyError } from '@/lib/errors';
+import { useState } from 'react';
+import type { CreateListInput, ListIcon } from '../../../server/src/schema';
+
+interface ListDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Present when editing an existing list
+  initialValue?: Required<CreateListInput>;
+  onSubmit: (value: Required<CreateListInput>) => Promise<void>;
+}
+
+const emptyList: Required<CreateListInput> = { name: '', color: listColors[0], icon: 'list' };
+
+export default function ListDialog({ open, onOpenChange, initialValue, onSubmit }: ListDialogProps) {
+  const [formData, setFormData] = useState<Required<CreateListInput>>(initialValue ?? emptyList);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!formData.name.trim()) return;
+
+    setIsSubmitting(true);
+    try {
+      await onSubmit({ ...formData, name: formData.name.trim() });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Failed to save list:', error);
+      notifyError('Could not save the list', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{initialValue ? 'Edit list' : 'New list'}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="list-name">Name</Label>
+              <Input
+                id="list-name"
+                placeholder="e.g. Sprint 42"
+                value={formData.name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+                  setFormData((prev: Required<CreateListInput>) => ({ ...prev, name: e.target.value }))
+                }
+                autoFocus
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Colour</Label>
+              <div className="flex flex-wrap gap-2">
+                {listColors.map((color: string) => (
+                  <button
+                    key={color}
+                    type="button"
+                    aria-label={`Colour ${color}`}
+                    onClick={() => setFormData((prev: Required<CreateListInput>) => ({ ...prev, color }))}
+                    className={`w-7 h-7 rounded-full border-2 ${
+                      formData.color === color ? 'border-gray-900' : 'border-transparent'
+                    }`}
+                    style={{ backgroundColor: color }}
+                  />
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Icon</Label>
+              <div className="flex flex-wrap gap-2">
+                {(Object.keys(listIcons) as ListIcon[]).map((icon: ListIcon) => {
+                  const Icon = listIcons[icon];
+                  return (
+                    <Button
+                      key={icon}
+                      type="button"
+                      variant={formData.icon === icon ? 'default' : 'outline'}
+                      size="icon"
+                      aria-label={icon}
+                      onClick={() => setFormData((prev: Required<CreateListInput>) => ({ ...prev, icon }))}
+                    >
+                      <Icon className="w-4 h-4" />
+                    </Button>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting || !formData.name.trim()}>
+              {isSubmitting ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
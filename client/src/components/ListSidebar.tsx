@@ -0,0 +1,134 @@
+import { Button } from '@/components/ui/button';
+import {
+  NavigationMenu,
+  NavigationMenuItem,
+  NavigationMenuLink,
+  NavigationMenuList
+} from '@/components/ui/navigation-menu';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import ListDialog from '@/components/ListDialog';
+import { listIcons } from '@/lib/list-icons';
+import { useState } from 'react';
+import { Inbox, Layers, MoreHorizontal, Pencil, Plus, Trash2 } from 'lucide-react';
+import type { CreateListInput, ListWithCounts, TaskStats } from '../../../server/src/schema';
+
+// Which tasks the board shows: everything, the Inbox (no list), or one list
+export type ListSelection = 'all' | 'inbox' | number;
+
+interface ListSidebarProps {
+  lists: ListWithCounts[];
+  stats: TaskStats;
+  selected: ListSelection;
+  onSelect: (selection: ListSelection) => void;
+  onCreate: (value: Required<CreateListInput>) => Promise<void>;
+  onUpdate: (id: number, value: Required<CreateListInput>) => Promise<void>;
+  onDelete: (list: ListWithCounts) => void;
+}
+
+// "2/5" style completed/total count, matching the footer stats
+function CountLabel({ completed, total }: { completed: number; total: number }) {
+  return <span className="ml-auto text-xs text-gray-400 tabular-nums">{completed}/{total}</span>;
+}
+
+export default function ListSidebar({ lists, stats, selected, onSelect, onCreate, onUpdate, onDelete }: ListSidebarProps) {
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [editingList, setEditingList] = useState<ListWithCounts | null>(null);
+
+  // Inbox counts are whatever isn't in a named list
+  const listedTotal = lists.reduce((sum: number, list: ListWithCounts) => sum + list.task_count, 0);
+  const listedCompleted = lists.reduce((sum: number, list: ListWithCounts) => sum + list.completed_count, 0);
+
+  const itemClass = (isActive: boolean) =>
+    `flex flex-row items-center gap-2 w-full cursor-pointer ${isActive ? 'bg-accent font-medium' : ''}`;
+
+  return (
+    <div className="h-full p-4 bg-white">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-sm font-semibold text-gray-500 uppercase tracking-wide">Lists</h2>
+        <Button variant="ghost" size="sm" onClick={() => setIsCreateOpen(true)} aria-label="New list">
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <NavigationMenu orientation="vertical" viewport={false} className="max-w-none w-full items-stretch">
+        <NavigationMenuList className="flex-col items-stretch gap-1">
+          <NavigationMenuItem>
+            <NavigationMenuLink
+              active={selected === 'all'}
+              className={itemClass(selected === 'all')}
+              onSelect={() => onSelect('all')}
+            >
+              <Layers className="w-4 h-4" />
+              All tasks
+              <CountLabel completed={stats.completed} total={stats.total} />
+            </NavigationMenuLink>
+          </NavigationMenuItem>
+
+          <NavigationMenuItem>
+            <NavigationMenuLink
+              active={selected === 'inbox'}
+              className={itemClass(selected === 'inbox')}
+              onSelect={() => onSelect('inbox')}
+            >
+              <Inbox className="w-4 h-4" />
+              Inbox
+              <CountLabel completed={stats.completed - listedCompleted} total={stats.total - listedTotal} />
+            </NavigationMenuLink>
+          </NavigationMenuItem>
+
+          {lists.map((list: ListWithCounts) => {
+            const Icon = listIcons[list.icon];
+            const isActive = selected === list.id;
+            return (
+              <NavigationMenuItem key={list.id} className="group/list flex items-center">
+                <NavigationMenuLink
+                  active={isActive}
+                  className={itemClass(isActive)}
+                  onSelect={() => onSelect(list.id)}
+                >
+                  <Icon className="w-4 h-4" style={{ color: list.color }} />
+                  <span className="truncate">{list.name}</span>
+                  <CountLabel completed={list.completed_count} total={list.task_count} />
+                </NavigationMenuLink>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" className="p-1 h-auto opacity-0 group-hover/list:opacity-100" aria-label={`${list.name} options`}>
+                      <MoreHorizontal className="w-4 h-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onSelect={() => setEditingList(list)}>
+                      <Pencil className="w-4 h-4" />
+                      Edit
+                    </DropdownMenuItem>
+                    <DropdownMenuItem variant="destructive" onSelect={() => onDelete(list)}>
+                      <Trash2 className="w-4 h-4" />
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </NavigationMenuItem>
+            );
+          })}
+        </NavigationMenuList>
+      </NavigationMenu>
+
+      {isCreateOpen && (
+        <ListDialog open={isCreateOpen} onOpenChange={setIsCreateOpen} onSubmit={onCreate} />
+      )}
+      {editingList && (
+        <ListDialog
+          open
+          onOpenChange={(open: boolean) => !open && setEditingList(null)}
+          initialValue={{ name: editingList.name, color: editingList.color, icon: editingList.icon }}
+          onSubmit={(value: Required<CreateListInput>) => onUpdate(editingList.id, value)}
+        />
+      )}
+    </div>
+  );
+}
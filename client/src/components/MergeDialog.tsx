@@ -0,0 +1,127 @@
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { notifyError } from '@/lib/errors';
+import { conflictingTask } from '@/lib/mutation-queue';
+import {
+  conflictingFields,
+  describeField,
+  mergeFieldLabels,
+  mergeInput,
+  type MergeField,
+  type MergeSide
+} from '@/lib/task-merge';
+import { cn } from '@/lib/utils';
+import { trpc } from '@/utils/trpc';
+import { useState } from 'react';
+import { toast } from 'sonner';
+import type { Task } from '../../../server/src/schema';
+
+// A change the server rejected: the task as the user wanted it, and as it is now
+export interface TaskConflict {
+  mine: Task;
+  theirs: Task;
+}
+
+interface MergeDialogProps {
+  conflict: TaskConflict;
+  onClose: () => void;
+  // Called with the saved task once the merged version is on the server
+  onMerged: (task: Task) => void;
+}
+
+const sideLabels: Record<MergeSide, string> = { mine: 'Yours', theirs: 'Theirs' };
+
+// Pick, field by field, whether the user's change or the server's version wins
+export default function MergeDialog({ conflict, onClose, onMerged }: MergeDialogProps) {
+  const { mine } = conflict;
+  // The server side moves on if the task changes again while the dialog is open
+  const [theirs, setTheirs] = useState<Task>(conflict.theirs);
+  const fields = conflictingFields(mine, theirs);
+  const [choices, setChoices] = useState<Partial<Record<MergeField, MergeSide>>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Fields default to the user's own change
+  const sideOf = (field: MergeField): MergeSide => choices[field] ?? 'mine';
+
+  const handleSave = async () => {
+    const input = mergeInput(mine, theirs, Object.fromEntries(fields.map((field: MergeField) => [field, sideOf(field)])));
+    if (Object.keys(input).length === 0) {
+      onMerged(theirs);
+      onClose();
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      onMerged(await trpc.updateTask.mutate({ id: theirs.id, ...input, expected_updated_at: theirs.updated_at }));
+      onClose();
+    } catch (error) {
+      const current = conflictingTask(error);
+      if (current) {
+        setTheirs(current);
+        toast.warning('The task changed again, review the latest version');
+      } else {
+        console.error('Failed to save merged task:', error);
+        notifyError('Could not save the merged task', error);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open onOpenChange={(open: boolean) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Resolve conflicting changes</DialogTitle>
+          <DialogDescription>
+            "{theirs.title}" was changed elsewhere. Choose which version of each field to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2 max-h-[60vh] overflow-y-auto">
+          {fields.length === 0 && (
+            <p className="text-sm text-gray-500">Both versions already match.</p>
+          )}
+          {fields.map((field: MergeField) => (
+            <div key={field} className="space-y-1.5">
+              <p className="text-sm font-medium text-gray-900">{mergeFieldLabels[field]}</p>
+              <div className="grid grid-cols-2 gap-2">
+                {(['mine', 'theirs'] as MergeSide[]).map((side: MergeSide) => (
+                  <button
+                    key={side}
+                    type="button"
+                    onClick={() => setChoices((prev: Partial<Record<MergeField, MergeSide>>) => ({ ...prev, [field]: side }))}
+                    className={cn(
+                      'rounded-md border p-2 text-left text-sm transition-colors',
+                      sideOf(field) === side ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                    )}
+                  >
+                    <span className="block text-xs text-gray-500">{sideLabels[side]}</span>
+                    <span className="block break-words">{describeField(side === 'mine' ? mine : theirs, field)}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isSaving}>
+            Keep theirs
+          </Button>
+          <Button onClick={handleSave} disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save merged version'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { describeRecurrence, frequencyUnits, weekdayLabels, weekdayOrder } from '@/lib/recurrence';
+import { parseDueDate } from '@/lib/due-dates';
+import { useState } from 'react';
+import { Repeat } from 'lucide-react';
+import type { RecurrenceRule, Weekday } from '../../../server/src/schema';
+
+type Frequency = RecurrenceRule['freq'] | 'none';
+type MonthlyMode = 'same_day' | 'last_day';
+type EndMode = 'never' | 'count' | 'until';
+
+// Editable form of a rule; turned back into a RecurrenceRule on save
+interface Draft {
+  freq: Frequency;
+  interval: string;
+  weekdays: Weekday[];
+  monthlyMode: MonthlyMode;
+  endMode: EndMode;
+  count: string;
+  until: string;
+}
+
+const toDraft = (rule: RecurrenceRule | null): Draft => ({
+  freq: rule?.freq ?? 'none',
+  interval: String(rule?.interval ?? 1),
+  weekdays: rule?.by_weekday ?? [],
+  monthlyMode: rule?.by_month_day?.includes(-1) ? 'last_day' : 'same_day',
+  endMode: rule?.count !== undefined ? 'count' : rule?.until !== undefined ? 'until' : 'never',
+  count: String(rule?.count ?? 5),
+  until: rule?.until ?? ''
+});
+
+const toRule = (draft: Draft): RecurrenceRule | null => {
+  if (draft.freq === 'none') return null;
+
+  const rule: RecurrenceRule = { freq: draft.freq, interval: Math.max(1, Number(draft.interval) || 1) };
+  if (draft.freq === 'weekly' && draft.weekdays.length > 0) {
+    rule.by_weekday = draft.weekdays;
+  }
+  if (draft.freq === 'monthly' && draft.monthlyMode === 'last_day') {
+    rule.by_month_day = [-1];
+  }
+  if (draft.endMode === 'count') {
+    rule.count = Math.max(1, Number(draft.count) || 1);
+  } else if (draft.endMode === 'until' && draft.until) {
+    rule.until = draft.until;
+  }
+  return rule;
+};
+
+interface RecurrenceEditorProps {
+  value: RecurrenceRule | null;
+  dueDate: string; // Recurrence is anchored on the due date
+  onChange: (value: RecurrenceRule | null) => void;
+  disabled?: boolean;
+}
+
+export default function RecurrenceEditor({ value, dueDate, onChange, disabled }: RecurrenceEditorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState<Draft>(() => toDraft(value));
+  const dayOfMonth = parseDueDate(dueDate).getDate();
+
+  const update = (changes: Partial<Draft>) => setDraft((prev: Draft) => ({ ...prev, ...changes }));
+
+  const handleOpenChange = (open: boolean) => {
+    // Start from the saved rule each time the editor opens
+    if (open) setDraft(toDraft(value));
+    setIsOpen(open);
+  };
+
+  const handleSave = () => {
+    onChange(toRule(draft));
+    setIsOpen(false);
+  };
+
+  return (
+    <Popover open={isOpen} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          disabled={disabled}
+          className={value ? 'text-gray-900' : 'text-gray-500'}
+          title={value ? describeRecurrence(value) : 'Repeat'}
+        >
+          <Repeat className="w-4 h-4" />
+          <span className="sr-only">Repeat</span>
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4" align="end">
+        <div className="space-y-2">
+          <Label>Repeat</Label>
+          <Select value={draft.freq || 'none'} onValueChange={(freq: string) => update({ freq: freq as Frequency })}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Does not repeat</SelectItem>
+              <SelectItem value="daily">Daily</SelectItem>
+              <SelectItem value="weekly">Weekly</SelectItem>
+              <SelectItem value="monthly">Monthly</SelectItem>
+              <SelectItem value="yearly">Yearly</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {draft.freq !== 'none' && (
+          <>
+            <div className="flex items-center gap-2 text-sm">
+              Every
+              <Input
+                type="number"
+                min={1}
+                value={draft.interval}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ interval: e.target.value })}
+                className="w-20"
+                aria-label="Interval"
+              />
+              {frequencyUnits[draft.freq][Number(draft.interval) === 1 ? 0 : 1]}
+            </div>
+
+            {draft.freq === 'weekly' && (
+              <ToggleGroup
+                type="multiple"
+                variant="outline"
+                size="sm"
+                value={draft.weekdays}
+                onValueChange={(weekdays: string[]) => update({ weekdays: weekdays as Weekday[] })}
+              >
+                {weekdayOrder.map((day: Weekday) => (
+                  <ToggleGroupItem key={day} value={day} aria-label={weekdayLabels[day]}>
+                    {weekdayLabels[day].charAt(0)}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            )}
+
+            {draft.freq === 'monthly' && (
+              <Select
+                value={draft.monthlyMode || 'same_day'}
+                onValueChange={(mode: string) => update({ monthlyMode: mode as MonthlyMode })}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="same_day">On day {dayOfMonth}</SelectItem>
+                  <SelectItem value="last_day">On the last day</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+
+            <div className="space-y-2">
+              <Label>Ends</Label>
+              <Select value={draft.endMode || 'never'} onValueChange={(mode: string) => update({ endMode: mode as EndMode })}>
+                <SelectTrigger className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="never">Never</SelectItem>
+                  <SelectItem value="count">After a number of times</SelectItem>
+                  <SelectItem value="until">On a date</SelectItem>
+                </SelectContent>
+              </Select>
+              {draft.endMode === 'count' && (
+                <Input
+                  type="number"
+                  min={1}
+                  value={draft.count}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ count: e.target.value })}
+                  aria-label="Occurrences"
+                />
+              )}
+              {draft.endMode === 'until' && (
+                <Input
+                  type="date"
+                  min={dueDate}
+                  value={draft.until}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ until: e.target.value })}
+                  aria-label="End date"
+                />
+              )}
+            </div>
+          </>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="ghost" size="sm" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button type="button" size="sm" onClick={handleSave}>
+            Save
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,217 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect, useCallback } from 'react';
+import { ChevronRight, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import type { Task, TaskListItem } from '../../../server/src/schema';
+
+export interface SubtaskProgress {
+  total: number;
+  completed: number;
+}
+
+// Roll-up of a set of sibling subtasks: each one counts, plus everything beneath it
+const toProgress = (items: TaskListItem[]): SubtaskProgress => ({
+  total: items.reduce((sum: number, item: TaskListItem) => sum + 1 + item.subtask_count, 0),
+  completed: items.reduce(
+    (sum: number, item: TaskListItem) => sum + (item.completed ? 1 : 0) + item.completed_subtask_count,
+    0
+  )
+});
+
+interface SubtaskListProps {
+  parentId: number;
+  // Called whenever the subtasks below parentId change, so ancestors can update their progress
+  onProgressChange: (progress: SubtaskProgress) => void;
+  disabled: boolean;
+}
+
+// Lazily loaded children of a task, rendered as a nested tree
+export default function SubtaskList({ parentId, onProgressChange, disabled }: SubtaskListProps) {
+  const [items, setItems] = useState<TaskListItem[]>([]);
+  const [isFetching, setIsFetching] = useState(true);
+  const [newTitle, setNewTitle] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadSubtasks = useCallback(async () => {
+    setIsFetching(true);
+    try {
+      const page = await trpc.getTasks.query({
+        parent_id: parentId,
+        sort: 'created',
+        direction: 'asc',
+        limit: 100
+      });
+      setItems(page.items);
+    } catch (error) {
+      console.error('Failed to load subtasks:', error);
+    } finally {
+      setIsFetching(false);
+    }
+  }, [parentId]);
+
+  useEffect(() => {
+    loadSubtasks();
+  }, [loadSubtasks]);
+
+  // Apply a change locally and report the new roll-up upwards
+  const updateItems = (next: TaskListItem[]) => {
+    setItems(next);
+    onProgressChange(toProgress(next));
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTitle.trim()) return;
+
+    setIsSaving(true);
+    try {
+      const created = await trpc.createTask.mutate({ title: newTitle.trim(), parent_id: parentId });
+      updateItems([...items, { ...created, subtask_count: 0, completed_subtask_count: 0 }]);
+      setNewTitle('');
+    } catch (error) {
+      console.error('Failed to create subtask:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (id: number, completed: boolean) => {
+    setIsSaving(true);
+    try {
+      const updated: Task = await trpc.toggleTask.mutate({ id, completed, include_subtasks: false });
+      updateItems(items.map((item: TaskListItem) => (item.id === id ? { ...item, ...updated } : item)));
+    } catch (error) {
+      console.error('Failed to toggle subtask:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: number) => {
+    setIsSaving(true);
+    try {
+      const result = await trpc.deleteTask.mutate({ id });
+      if (result.success) {
+        updateItems(items.filter((item: TaskListItem) => item.id !== id));
+        toast('Subtask moved to trash', {
+          action: { label: 'Undo', onClick: () => handleRestore(id) }
+        });
+      }
+    } catch (error) {
+      console.error('Failed to delete subtask:', error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // Undo a delete; the restored subtask's roll-up is only known after reloading
+  const handleRestore = async (id: number) => {
+    try {
+      await trpc.restoreTask.mutate({ id });
+      const page = await trpc.getTasks.query({ parent_id: parentId, sort: 'created', direction: 'asc', limit: 100 });
+      updateItems(page.items);
+    } catch (error) {
+      console.error('Failed to restore subtask:', error);
+      toast.error('Could not restore the subtask');
+    }
+  };
+
+  const handleChildProgress = (id: number, progress: SubtaskProgress) => {
+    updateItems(items.map((item: TaskListItem) =>
+      item.id === id
+        ? { ...item, subtask_count: progress.total, completed_subtask_count: progress.completed }
+        : item
+    ));
+  };
+
+  const isBusy = disabled || isSaving;
+
+  return (
+    <div className="space-y-1 border-l border-gray-200 pl-3 ml-2">
+      {isFetching && items.length === 0 && (
+        <p className="text-xs text-gray-400 py-1">Loading subtasks...</p>
+      )}
+      {items.map((item: TaskListItem) => (
+        <SubtaskRow
+          key={item.id}
+          task={item}
+          onToggle={handleToggle}
+          onDelete={handleDelete}
+          onProgressChange={handleChildProgress}
+          disabled={isBusy}
+        />
+      ))}
+      <form onSubmit={handleCreate} className="flex gap-2 pt-1">
+        <Input
+          placeholder="Add a subtask..."
+          value={newTitle}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setNewTitle(e.target.value)}
+          className="h-8 text-sm"
+          disabled={isBusy}
+        />
+        <Button type="submit" size="sm" variant="ghost" disabled={isBusy || !newTitle.trim()}>
+          <Plus className="w-4 h-4" />
+        </Button>
+      </form>
+    </div>
+  );
+}
+
+interface SubtaskRowProps {
+  task: TaskListItem;
+  onToggle: (id: number, completed: boolean) => void;
+  onDelete: (id: number) => void;
+  onProgressChange: (id: number, progress: SubtaskProgress) => void;
+  disabled: boolean;
+}
+
+function SubtaskRow({ task, onToggle, onDelete, onProgressChange, disabled }: SubtaskRowProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+      <div className="flex items-center gap-2 py-1">
+        <CollapsibleTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 w-6 p-0 text-gray-400">
+            <ChevronRight className={`w-4 h-4 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+          </Button>
+        </CollapsibleTrigger>
+        <Checkbox
+          checked={task.completed}
+          onCheckedChange={(checked: boolean) => onToggle(task.id, checked)}
+          disabled={disabled}
+        />
+        <span className={`flex-1 min-w-0 text-sm truncate ${
+          task.completed ? 'text-gray-500 line-through' : 'text-gray-800'
+        }`}>
+          {task.title}
+        </span>
+        {task.subtask_count > 0 && (
+          <span className="text-xs text-gray-400">
+            {task.completed_subtask_count}/{task.subtask_count}
+          </span>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onDelete(task.id)}
+          disabled={disabled}
+          className="h-6 w-6 p-0 text-gray-400 hover:text-red-500"
+        >
+          <Trash2 className="w-3 h-3" />
+        </Button>
+      </div>
+      <CollapsibleContent>
+        <SubtaskList
+          parentId={task.id}
+          onProgressChange={(progress: SubtaskProgress) => onProgressChange(task.id, progress)}
+          disabled={disabled}
+        />
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
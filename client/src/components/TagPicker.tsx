@@ -0,0 +1,71 @@
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList
+} from '@/components/ui/command';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useState } from 'react';
+import { Check, Plus } from 'lucide-react';
+import type { TagWithCount } from '../../../server/src/schema';
+
+interface TagPickerProps {
+  tags: TagWithCount[];
+  selected: number[];
+  onToggle: (tagId: number, selected: boolean) => void;
+  // When given, typing a name that doesn't exist offers to create it
+  onCreate?: (name: string) => void;
+  children: React.ReactNode; // Trigger element
+}
+
+// Searchable multi-select over the user's tags
+export default function TagPicker({ tags, selected, onToggle, onCreate, children }: TagPickerProps) {
+  const [search, setSearch] = useState('');
+  const trimmed = search.trim();
+  const exactMatch = tags.some((tag: TagWithCount) => tag.name.toLowerCase() === trimmed.toLowerCase());
+
+  const handleCreate = () => {
+    onCreate?.(trimmed);
+    setSearch('');
+  };
+
+  return (
+    <Popover onOpenChange={(open: boolean) => !open && setSearch('')}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-56 p-0" align="start">
+        <Command>
+          <CommandInput placeholder="Find or create a tag..." value={search} onValueChange={setSearch} />
+          <CommandList>
+            <CommandEmpty>No tags found</CommandEmpty>
+            <CommandGroup>
+              {tags.map((tag: TagWithCount) => {
+                const isSelected = selected.includes(tag.id);
+                return (
+                  <CommandItem
+                    key={tag.id}
+                    value={tag.name}
+                    onSelect={() => onToggle(tag.id, !isSelected)}
+                  >
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: tag.color }} />
+                    {tag.name}
+                    {isSelected && <Check className="w-4 h-4 ml-auto" />}
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+            {onCreate && trimmed && !exactMatch && (
+              <CommandGroup>
+                <CommandItem value={`create:${trimmed}`} onSelect={handleCreate}>
+                  <Plus className="w-4 h-4" />
+                  Create "{trimmed}"
+                </CommandItem>
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+}
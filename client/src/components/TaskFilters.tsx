@@ -0,0 +1,123 @@
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import TagPicker from '@/components/TagPicker';
+import { Search, Tag as TagIcon } from 'lucide-react';
+import type { GetTasksInput, TagWithCount } from '../../../server/src/schema';
+
+export type TaskStatusFilter = 'all' | 'todo' | 'done';
+
+// How the selected tags combine: maps to getTasks tags_any / tags_all / tags_none
+export type TagMatchMode = 'any' | 'all' | 'none';
+
+export interface TaskFilterState {
+  status: TaskStatusFilter;
+  query: string;
+  sort: GetTasksInput['sort'];
+  direction: GetTasksInput['direction'];
+  tagIds: number[];
+  tagMode: TagMatchMode;
+}
+
+// Sort options shown in the dropdown, encoded as "key:direction"
+const sortOptions: { value: string; label: string }[] = [
+  { value: 'smart:asc', label: 'Smart order' },
+  { value: 'created:desc', label: 'Newest first' },
+  { value: 'created:asc', label: 'Oldest first' },
+  { value: 'updated:desc', label: 'Recently updated' },
+  { value: 'title:asc', label: 'Title A–Z' },
+  { value: 'title:desc', label: 'Title Z–A' },
+  { value: 'manual:asc', label: 'Manual order' }
+];
+
+const tagModeLabels: Record<TagMatchMode, string> = {
+  any: 'Any tag',
+  all: 'All tags',
+  none: 'Without tags'
+};
+
+interface TaskFiltersProps {
+  filters: TaskFilterState;
+  tags: TagWithCount[];
+  searchText: string;
+  onSearchTextChange: (text: string) => void;
+  onChange: (filters: TaskFilterState) => void;
+}
+
+export default function TaskFilters({ filters, tags, searchText, onSearchTextChange, onChange }: TaskFiltersProps) {
+  const handleSortChange = (value: string) => {
+    const [sort, direction] = value.split(':') as [TaskFilterState['sort'], TaskFilterState['direction']];
+    onChange({ ...filters, sort, direction });
+  };
+
+  const handleTagToggle = (tagId: number, selected: boolean) => {
+    onChange({
+      ...filters,
+      tagIds: selected
+        ? [...filters.tagIds, tagId]
+        : filters.tagIds.filter((id: number) => id !== tagId)
+    });
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-3 mb-6">
+      <div className="relative flex-1">
+        <Search className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+        <Input
+          placeholder="Search tasks..."
+          value={searchText}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => onSearchTextChange(e.target.value)}
+          className="pl-9"
+        />
+      </div>
+      <div className="flex gap-2">
+        <TagPicker tags={tags} selected={filters.tagIds} onToggle={handleTagToggle}>
+          <Button variant="outline">
+            <TagIcon className="w-4 h-4" />
+            {filters.tagIds.length > 0 ? `${filters.tagIds.length} tags` : 'Tags'}
+          </Button>
+        </TagPicker>
+        {filters.tagIds.length > 0 && (
+          <Select
+            value={filters.tagMode || 'any'}
+            onValueChange={(value: string) => onChange({ ...filters, tagMode: value as TagMatchMode })}
+          >
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(tagModeLabels) as TagMatchMode[]).map((mode: TagMatchMode) => (
+                <SelectItem key={mode} value={mode}>
+                  {tagModeLabels[mode]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+      <Tabs
+        value={filters.status}
+        onValueChange={(value: string) => onChange({ ...filters, status: value as TaskStatusFilter })}
+      >
+        <TabsList>
+          <TabsTrigger value="all">All</TabsTrigger>
+          <TabsTrigger value="todo">To Do</TabsTrigger>
+          <TabsTrigger value="done">Done</TabsTrigger>
+        </TabsList>
+      </Tabs>
+      <Select value={`${filters.sort}:${filters.direction}`} onValueChange={handleSortChange}>
+        <SelectTrigger className="sm:w-44">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {sortOptions.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
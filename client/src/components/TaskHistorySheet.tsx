@@ -0,0 +1,83 @@
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle
+} from '@/components/ui/sheet';
+import { describeEvent } from '@/lib/task-history';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import type { ListWithCounts, TaskEvent, TaskListItem } from '../../../server/src/schema';
+
+interface TaskHistorySheetProps {
+  task: TaskListItem | null; // The opened task; null keeps the sheet closed
+  lists: ListWithCounts[];
+  onClose: () => void;
+}
+
+// Timeline of every recorded change to a task, newest first
+export default function TaskHistorySheet({ task, lists, onClose }: TaskHistorySheetProps) {
+  const [events, setEvents] = useState<TaskEvent[]>([]);
+  const [isFetching, setIsFetching] = useState(false);
+  const taskId = task?.id ?? null;
+
+  useEffect(() => {
+    if (taskId === null) return;
+
+    let cancelled = false;
+    setEvents([]);
+    setIsFetching(true);
+    trpc.getTaskHistory.query({ task_id: taskId })
+      .then((result: TaskEvent[]) => {
+        if (!cancelled) setEvents(result);
+      })
+      .catch((error: unknown) => console.error('Failed to load task history:', error))
+      .finally(() => {
+        if (!cancelled) setIsFetching(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [taskId]);
+
+  return (
+    <Sheet open={task !== null} onOpenChange={(open: boolean) => !open && onClose()}>
+      <SheetContent>
+        <SheetHeader>
+          <SheetTitle className="truncate">{task?.title}</SheetTitle>
+          <SheetDescription>History</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-4 pb-4">
+          {isFetching && events.length === 0 && (
+            <p className="text-sm text-gray-400 py-4">Loading history...</p>
+          )}
+          {!isFetching && events.length === 0 && (
+            <p className="text-sm text-gray-400 py-4">No changes recorded yet</p>
+          )}
+          <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+            {events.map((event: TaskEvent) => {
+              const { title, details } = describeEvent(event, lists);
+              return (
+                <li key={event.id} className="ml-4">
+                  <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white bg-gray-300" />
+                  <p className="text-sm font-medium text-gray-900">{title}</p>
+                  <time className="text-xs text-gray-400">{format(event.created_at, 'MMM d, yyyy HH:mm')}</time>
+                  {details.length > 0 && (
+                    <ul className="mt-1 space-y-0.5">
+                      {details.map((detail: string) => (
+                        <li key={detail} className="text-xs text-gray-600">{detail}</li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
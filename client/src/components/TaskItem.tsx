@@ -0,0 +1,321 @@
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger
+} from '@/components/ui/dropdown-menu';
+import DueDatePicker, { type DueDateValue } from '@/components/DueDatePicker';
+import SubtaskList, { type SubtaskProgress } from '@/components/SubtaskList';
+import TagPicker from '@/components/TagPicker';
+import RecurrenceEditor from '@/components/RecurrenceEditor';
+import { formatDueDate } from '@/lib/due-dates';
+import { describeRecurrence } from '@/lib/recurrence';
+import { listIcons } from '@/lib/list-icons';
+import { priorityColors, priorityLabels, priorityOrder } from '@/lib/priorities';
+import { useState } from 'react';
+import {
+  Trash2,
+  CalendarClock,
+  MoreHorizontal,
+  FolderInput,
+  Flag,
+  Inbox,
+  Check,
+  CheckCheck,
+  ChevronRight,
+  ListPlus,
+  Repeat,
+  Tag as TagIcon
+} from 'lucide-react';
+import type {
+  ListWithCounts,
+  RecurrenceRule,
+  TagWithCount,
+  TaskListItem,
+  TaskPriority,
+  TaskTag
+} from '../../../server/src/schema';
+
+interface TaskItemProps {
+  task: TaskListItem;
+  onToggle: (id: number, completed: boolean, includeSubtasks: boolean) => Promise<void>;
+  onSubtaskProgressChange: (id: number, progress: SubtaskProgress) => void;
+  onDelete: (id: number) => void;
+  onDueDateChange: (id: number, due: DueDateValue) => void;
+  onRecurrenceChange: (id: number, recurrence: RecurrenceRule | null) => void;
+  onMove: (id: number, listId: number | null) => void;
+  onPriorityChange: (id: number, priority: TaskPriority) => void;
+  onTagToggle: (id: number, tagId: number, attached: boolean) => void;
+  onCreateTag: (id: number, name: string) => void; // Creates the tag and attaches it to this task
+  onOpen: (task: TaskListItem) => void; // Shows the task's details and history
+  lists: ListWithCounts[];
+  tags: TagWithCount[];
+  showList: boolean; // Show which list the task is in (when viewing all tasks)
+  isLoading: boolean;
+  // Present in selection mode; `extend` is set for shift-clicks, which select a range
+  selection?: { selected: boolean; onSelect: (id: number, extend: boolean) => void };
+}
+
+export default function TaskItem({
+  task,
+  onToggle,
+  onSubtaskProgressChange,
+  onDelete,
+  onDueDateChange,
+  onRecurrenceChange,
+  onMove,
+  onPriorityChange,
+  onTagToggle,
+  onCreateTag,
+  onOpen,
+  lists,
+  tags,
+  showList,
+  isLoading,
+  selection
+}: TaskItemProps) {
+  const [showSubtasks, setShowSubtasks] = useState(false);
+  // Bumped to reload the subtask tree after the server changed it wholesale
+  const [subtaskVersion, setSubtaskVersion] = useState(0);
+
+  const handleToggleChange = (checked: boolean) => {
+    onToggle(task.id, checked, false);
+  };
+
+  const handleCompleteWithSubtasks = async () => {
+    await onToggle(task.id, true, true);
+    setSubtaskVersion((version: number) => version + 1);
+  };
+
+  const dueLabel = formatDueDate(task);
+  const isOverdue = task.due_status === 'overdue';
+  const list = lists.find((l: ListWithCounts) => l.id === task.list_id);
+  const ListIcon = list ? listIcons[list.icon] : null;
+  const hasOpenSubtasks = task.completed_subtask_count < task.subtask_count;
+
+  return (
+    <Card className={`p-4 transition-all duration-200 ${
+      task.completed 
+        ? 'bg-gray-50 border-gray-200' 
+        : isOverdue
+          ? 'bg-red-50 border-red-300 hover:shadow-sm'
+          : 'bg-white hover:shadow-sm'
+    } ${selection?.selected ? 'ring-2 ring-blue-400' : ''}`}>
+      <Collapsible open={showSubtasks} onOpenChange={setShowSubtasks}>
+        <div className="flex items-center gap-3">
+          {selection && (
+            <input
+              type="checkbox"
+              aria-label={`Select "${task.title}"`}
+              checked={selection.selected}
+              // onClick rather than onChange: only the mouse event knows about the shift key
+              onClick={(e: React.MouseEvent<HTMLInputElement>) => selection.onSelect(task.id, e.shiftKey)}
+              onChange={() => {}}
+              className="w-4 h-4 accent-blue-600 cursor-pointer"
+            />
+          )}
+          <Checkbox
+            checked={task.completed}
+            onCheckedChange={handleToggleChange}
+            disabled={isLoading}
+            className="mt-0.5"
+          />
+        
+          <div className="flex-1 min-w-0">
+            <h3
+              onClick={() => onOpen(task)}
+              className={`font-medium transition-all cursor-pointer hover:underline ${
+                task.completed 
+                  ? 'text-gray-500 line-through' 
+                  : 'text-gray-900'
+              }`}
+            >
+              {task.title}
+            </h3>
+            {task.description && (
+              <p className={`text-sm mt-1 ${
+                task.completed ? 'text-gray-400' : 'text-gray-600'
+              }`}>
+                {task.description}
+              </p>
+            )}
+            <div className="flex flex-wrap items-center gap-2 mt-2">
+              {dueLabel && (
+                <span className={`text-xs flex items-center gap-1 ${
+                  isOverdue ? 'text-red-600 font-medium' : 'text-gray-500'
+                }`}>
+                  <CalendarClock className="w-3 h-3" />
+                  Due {dueLabel}
+                </span>
+              )}
+              {task.recurrence && (
+                <span className="text-xs flex items-center gap-1 text-gray-500">
+                  <Repeat className="w-3 h-3" />
+                  {describeRecurrence(task.recurrence)}
+                </span>
+              )}
+              {task.priority !== 'none' && (
+                <span className={`text-xs flex items-center gap-1 font-medium ${priorityColors[task.priority]}`}>
+                  <Flag className="w-3 h-3" />
+                  {priorityLabels[task.priority]}
+                </span>
+              )}
+              {isOverdue && <Badge variant="destructive">Overdue</Badge>}
+              {task.due_status === 'due_today' && (
+                <Badge className="bg-amber-100 text-amber-800">Due today</Badge>
+              )}
+              {showList && list && ListIcon && (
+                <span className="text-xs flex items-center gap-1" style={{ color: list.color }}>
+                  <ListIcon className="w-3 h-3" />
+                  {list.name}
+                </span>
+              )}
+              {task.tags.map((tag: TaskTag) => (
+                <Badge
+                  key={tag.id}
+                  variant="outline"
+                  style={{ borderColor: tag.color, color: tag.color }}
+                >
+                  {tag.name}
+                </Badge>
+              ))}
+              <span className="text-xs text-gray-400">
+                Created {task.created_at.toLocaleDateString()}
+              </span>
+            </div>
+            {task.subtask_count > 0 && (
+              <CollapsibleTrigger asChild>
+                <button type="button" className="flex items-center gap-2 mt-2 text-xs text-gray-500 hover:text-gray-700">
+                  <ChevronRight className={`w-3 h-3 transition-transform ${showSubtasks ? 'rotate-90' : ''}`} />
+                  {task.completed_subtask_count}/{task.subtask_count} subtasks done
+                  <Progress
+                    value={(task.completed_subtask_count / task.subtask_count) * 100}
+                    className="w-20 h-1.5"
+                  />
+                </button>
+              </CollapsibleTrigger>
+            )}
+          </div>
+
+          {!task.completed && (
+            <DueDatePicker
+              value={{
+                due_date: task.due_date,
+                due_time: task.due_time ? task.due_time.slice(0, 5) : null
+              }}
+              onChange={(due: DueDateValue) => onDueDateChange(task.id, due)}
+              disabled={isLoading}
+            />
+          )}
+
+          {!task.completed && task.due_date && (
+            <RecurrenceEditor
+              value={task.recurrence}
+              dueDate={task.due_date}
+              onChange={(recurrence: RecurrenceRule | null) => onRecurrenceChange(task.id, recurrence)}
+              disabled={isLoading}
+            />
+          )}
+
+          <TagPicker
+            tags={tags}
+            selected={task.tags.map((tag: TaskTag) => tag.id)}
+            onToggle={(tagId: number, attached: boolean) => onTagToggle(task.id, tagId, attached)}
+            onCreate={(name: string) => onCreateTag(task.id, name)}
+          >
+            <Button variant="ghost" size="sm" className="text-gray-400 p-2" disabled={isLoading}>
+              <TagIcon className="w-4 h-4" />
+            </Button>
+          </TagPicker>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="text-gray-400 p-2" disabled={isLoading}>
+                <MoreHorizontal className="w-4 h-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onSelect={() => setShowSubtasks(true)}>
+                <ListPlus className="w-4 h-4" />
+                Add subtask
+              </DropdownMenuItem>
+              {!task.completed && hasOpenSubtasks && (
+                <DropdownMenuItem onSelect={handleCompleteWithSubtasks}>
+                  <CheckCheck className="w-4 h-4" />
+                  Complete with subtasks
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuSeparator />
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <Flag className="w-4 h-4" />
+                  Priority
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {priorityOrder.map((priority: TaskPriority) => (
+                    <DropdownMenuItem key={priority} onSelect={() => onPriorityChange(task.id, priority)}>
+                      <Flag className={`w-4 h-4 ${priorityColors[priority]}`} />
+                      {priorityLabels[priority]}
+                      {task.priority === priority && <Check className="w-4 h-4 ml-auto" />}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                  <FolderInput className="w-4 h-4" />
+                  Move to
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  <DropdownMenuItem onSelect={() => onMove(task.id, null)}>
+                    <Inbox className="w-4 h-4" />
+                    Inbox
+                    {task.list_id === null && <Check className="w-4 h-4 ml-auto" />}
+                  </DropdownMenuItem>
+                  {lists.map((target: ListWithCounts) => {
+                    const TargetIcon = listIcons[target.icon];
+                    return (
+                      <DropdownMenuItem key={target.id} onSelect={() => onMove(task.id, target.id)}>
+                        <TargetIcon className="w-4 h-4" style={{ color: target.color }} />
+                        {target.name}
+                        {task.list_id === target.id && <Check className="w-4 h-4 ml-auto" />}
+                      </DropdownMenuItem>
+                    );
+                  })}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onDelete(task.id)}
+            disabled={isLoading}
+            className="text-gray-400 hover:text-red-500 p-2"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+        <CollapsibleContent className="mt-3">
+          <SubtaskList
+            key={subtaskVersion}
+            parentId={task.id}
+            onProgressChange={(progress: SubtaskProgress) => onSubtaskProgressChange(task.id, progress)}
+            disabled={isLoading}
+          />
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
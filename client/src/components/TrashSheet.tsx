@@ -0,0 +1,145 @@
+import { Button } from '@/components/ui/button';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle
+} from '@/components/ui/sheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle
+} from '@/components/ui/alert-dialog';
+import { trpc } from '@/utils/trpc';
+import { useState, useEffect, useCallback } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import type { TrashItem } from '../../../server/src/schema';
+
+interface TrashSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Called after tasks come back out of the trash, so the board can reload
+  onRestored: () => void;
+}
+
+// Deleted tasks, restorable until they are purged
+export default function TrashSheet({ open, onOpenChange, onRestored }: TrashSheetProps) {
+  const [items, setItems] = useState<TrashItem[]>([]);
+  const [isFetching, setIsFetching] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isConfirmingEmpty, setIsConfirmingEmpty] = useState(false);
+
+  const loadTrash = useCallback(async () => {
+    setIsFetching(true);
+    try {
+      setItems(await trpc.getTrash.query());
+    } catch (error) {
+      console.error('Failed to load trash:', error);
+    } finally {
+      setIsFetching(false);
+    }
+  }, []);
+
+  // Refresh every time the sheet opens, since deletions happen elsewhere
+  useEffect(() => {
+    if (open) loadTrash();
+  }, [open, loadTrash]);
+
+  const handleRestore = async (id: number) => {
+    setIsSaving(true);
+    try {
+      await trpc.restoreTask.mutate({ id });
+      setItems((prev: TrashItem[]) => prev.filter((item: TrashItem) => item.id !== id));
+      onRestored();
+    } catch (error) {
+      console.error('Failed to restore task:', error);
+      toast.error('Could not restore the task');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEmpty = async () => {
+    setIsSaving(true);
+    try {
+      const result = await trpc.emptyTrash.mutate();
+      setItems([]);
+      toast(`Permanently deleted ${result.deleted} task(s)`);
+    } catch (error) {
+      console.error('Failed to empty trash:', error);
+    } finally {
+      setIsSaving(false);
+      setIsConfirmingEmpty(false);
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent>
+        <SheetHeader>
+          <SheetTitle>Trash</SheetTitle>
+          <SheetDescription>Deleted tasks are removed for good after a while.</SheetDescription>
+        </SheetHeader>
+
+        <div className="flex-1 overflow-y-auto px-4 space-y-2">
+          {items.length === 0 && !isFetching && (
+            <p className="text-sm text-gray-400 text-center py-8">The trash is empty</p>
+          )}
+          {items.map((item: TrashItem) => (
+            <div key={item.id} className="flex items-center gap-2 rounded-lg border p-3">
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm truncate ${item.completed ? 'text-gray-500 line-through' : 'text-gray-800'}`}>
+                  {item.title}
+                </p>
+                <p className="text-xs text-gray-400">
+                  Deleted {item.deleted_at && formatDistanceToNow(item.deleted_at, { addSuffix: true })}
+                  {' · '}purged {formatDistanceToNow(item.purge_at, { addSuffix: true })}
+                </p>
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => handleRestore(item.id)} disabled={isSaving}>
+                <RotateCcw className="w-4 h-4" />
+                Restore
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <SheetFooter>
+          <Button
+            variant="destructive"
+            onClick={() => setIsConfirmingEmpty(true)}
+            disabled={isSaving || items.length === 0}
+          >
+            Empty trash
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+
+      <AlertDialog open={isConfirmingEmpty} onOpenChange={setIsConfirmingEmpty}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Empty the trash?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {items.length} task(s) and their subtasks will be permanently deleted. This can't be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction className="bg-red-600 hover:bg-red-700" onClick={handleEmpty}>
+              Empty trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sheet>
+  );
+}
@@ -0,0 +1,24 @@
+import { format, parseISO } from 'date-fns';
+import type { Task } from '../../../server/src/schema';
+
+// The browser's IANA timezone, sent with new due dates so "today" means the user's today
+export const browserTimezone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// YYYY-MM-DD (as stored on the server) <-> local Date for the calendar picker
+export const parseDueDate = (dueDate: string): Date => parseISO(dueDate);
+export const toDueDateString = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+// Human-readable due label, e.g. "Mar 15, 2025 at 17:30 (Europe/Berlin)"
+export const formatDueDate = (task: Pick<Task, 'due_date' | 'due_time' | 'due_timezone'>): string | null => {
+  if (!task.due_date) return null;
+
+  let label = format(parseDueDate(task.due_date), 'MMM d, yyyy');
+  if (task.due_time) {
+    label += ` at ${task.due_time.slice(0, 5)}`;
+  }
+  if (task.due_timezone && task.due_timezone !== browserTimezone()) {
+    label += ` (${task.due_timezone})`;
+  }
+  return label;
+};
@@ -0,0 +1,39 @@
+import { TRPCClientError } from '@trpc/client';
+import { toast } from 'sonner';
+import type { AppRouter } from '../../../server/src';
+
+// "due_time" -> "Due time"
+const fieldLabel = (field: string): string => {
+  const words = field.replace(/_ids?$/, '').replace(/_/g, ' ');
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Readable reason for a failed request: the first invalid field, the server's own message for
+// expected failures (missing task, duplicate name, ...), or a generic line for everything else
+export const errorMessage = (error: unknown): string => {
+  if (!(error instanceof TRPCClientError)) {
+    return 'Something went wrong';
+  }
+  const data = (error as TRPCClientError<AppRouter>).data;
+  if (!data) {
+    return 'Could not reach the server';
+  }
+
+  const invalid = Object.entries(data.field_errors ?? {})
+    .find(([, messages]: [string, string[] | undefined]) => messages && messages.length > 0);
+  if (invalid) {
+    return `${fieldLabel(invalid[0])}: ${invalid[1]![0]}`;
+  }
+  if (data.cause) {
+    return error.message;
+  }
+  if (data.code === 'UNAUTHORIZED') {
+    return 'Your session has expired, please sign in again';
+  }
+  return 'Something went wrong on our side';
+};
+
+// Tell the user an action failed and why
+export const notifyError = (title: string, error: unknown) => {
+  toast.error(title, { description: errorMessage(error) });
+};
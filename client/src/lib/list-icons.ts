@@ -0,0 +1,33 @@
+import {
+  List,
+  Briefcase,
+  ShoppingCart,
+  Home,
+  Star,
+  Heart,
+  Book,
+  Code,
+  Calendar,
+  Flag,
+  type LucideIcon
+} from 'lucide-react';
+import type { ListIcon } from '../../../server/src/schema';
+
+// Icon component for each list icon key the server accepts
+export const listIcons: Record<ListIcon, LucideIcon> = {
+  'list': List,
+  'briefcase': Briefcase,
+  'shopping-cart': ShoppingCart,
+  'home': Home,
+  'star': Star,
+  'heart': Heart,
+  'book': Book,
+  'code': Code,
+  'calendar': Calendar,
+  'flag': Flag
+};
+
+// Swatches offered when creating or editing a list
+export const listColors: string[] = [
+  '#3b82f6', '#22c55e', '#ef4444', '#f59e0b', '#a855f7', '#ec4899', '#14b8a6', '#64748b'
+];
@@ -0,0 +1,220 @@
+import { TRPCClientError } from '@trpc/client';
+import { trpc } from '@/utils/trpc';
+import { clear, getAll, put, putAll, remove } from '@/lib/offline-db';
+import type { CreateTaskInput, Task, TaskListItem, UpdateTaskInput } from '../../../server/src/schema';
+
+// A task change made while offline, replayed against the server once it is reachable.
+// `base_updated_at` is the task's updated_at when the change was made; null for tasks
+// that only exist locally so far.
+export type QueuedMutation =
+  | { kind: 'create'; temp_id: number; input: CreateTaskInput }
+  | { kind: 'update'; id: number; input: Omit<UpdateTaskInput, 'id'>; base_updated_at: Date | null }
+  | { kind: 'toggle'; id: number; completed: boolean; include_subtasks: boolean; base_updated_at: Date | null }
+  | { kind: 'delete'; id: number; base_updated_at: Date | null };
+
+interface QueueEntry {
+  seq: number;
+  mutation: QueuedMutation;
+}
+
+// A queued change the server version has moved on from; `server` is null when the task is gone
+export interface SyncConflict {
+  mutation: QueuedMutation;
+  task_title: string;
+  server: Task | null;
+}
+
+export interface ReplayResult {
+  replayed: number;
+  conflicts: SyncConflict[];
+  failed: { mutation: QueuedMutation; error: unknown }[];
+}
+
+// Requests that never got an answer from the API (no tRPC error payload), as opposed to ones it rejected
+export const isOfflineError = (error: unknown): boolean =>
+  !navigator.onLine || (error instanceof TRPCClientError && !error.data);
+
+// The server's current task when a write was rejected for being based on an older version
+export const conflictingTask = (error: unknown): Task | null =>
+  error instanceof TRPCClientError && error.data?.code === 'CONFLICT' ? (error.data.current_task as Task | null) ?? null : null;
+
+// Local ids are negative so they can never collide with the server's serial ids
+let lastTempId = 0;
+export const nextTempId = (): number => {
+  lastTempId = Math.min(lastTempId - 1, -Date.now());
+  return lastTempId;
+};
+
+export const isTempId = (id: number): boolean => id < 0;
+
+// Offline copy of tasks, refreshed from every page the board loads
+export const getCachedTasks = (): Promise<TaskListItem[]> => getAll<TaskListItem>('tasks');
+
+export const cacheTasks = (tasks: TaskListItem[]): Promise<void> => putAll('tasks', tasks);
+
+export const uncacheTask = (id: number): Promise<undefined> => remove('tasks', id);
+
+// Forget everything stored for the signed-in user
+export const clearOfflineData = async (): Promise<void> => {
+  await clear('tasks');
+  await clear('mutations');
+};
+
+export const enqueueMutation = async (mutation: QueuedMutation): Promise<void> => {
+  await put('mutations', { mutation });
+};
+
+export const pendingMutationCount = async (): Promise<number> =>
+  (await getAll<QueueEntry>('mutations')).length;
+
+// Send one mutation as-is, returning the server's task (null for deletes). Updates and toggles
+// carry their base version, so the server rejects them with CONFLICT if the task moved on.
+export const sendMutation = async (mutation: QueuedMutation): Promise<Task | null> => {
+  switch (mutation.kind) {
+    case 'create':
+      return trpc.createTask.mutate(mutation.input);
+    case 'update':
+      return trpc.updateTask.mutate({
+        id: mutation.id,
+        ...mutation.input,
+        expected_updated_at: mutation.base_updated_at ?? undefined
+      });
+    case 'toggle':
+      return trpc.toggleTask.mutate({
+        id: mutation.id,
+        completed: mutation.completed,
+        include_subtasks: mutation.include_subtasks,
+        expected_updated_at: mutation.base_updated_at ?? undefined
+      });
+    case 'delete':
+      await trpc.deleteTask.mutate({ id: mutation.id });
+      return null;
+  }
+};
+
+// Point a queued mutation at the server id of a task that was created offline
+const withRealIds = (mutation: QueuedMutation, idMap: Map<number, number>): QueuedMutation => {
+  if (mutation.kind === 'create') {
+    const parentId = mutation.input.parent_id;
+    return parentId != null && idMap.has(parentId)
+      ? { ...mutation, input: { ...mutation.input, parent_id: idMap.get(parentId)! } }
+      : mutation;
+  }
+  return idMap.has(mutation.id) ? { ...mutation, id: idMap.get(mutation.id)! } : mutation;
+};
+
+let replaying: Promise<ReplayResult> | null = null;
+
+// Replay the queue in order. Changes whose task was edited elsewhere since they were made come
+// back as conflicts instead of being applied; the queue stops at the first request that still
+// can't reach the server.
+export const replayMutations = (): Promise<ReplayResult> => {
+  if (!replaying) {
+    replaying = replay().finally(() => {
+      replaying = null;
+    });
+  }
+  return replaying;
+};
+
+const replay = async (): Promise<ReplayResult> => {
+  const result: ReplayResult = { replayed: 0, conflicts: [], failed: [] };
+  const idMap = new Map<number, number>();
+  // updated_at after our own replayed changes, so later changes to the same task aren't flagged
+  const ownUpdates = new Map<number, { from: number; to: Date }>();
+
+  const entries = await getAll<QueueEntry>('mutations');
+  const addConflict = async (mutation: Exclude<QueuedMutation, { kind: 'create' }>, server: Task | null) => {
+    const cached = (await getCachedTasks()).find((task: TaskListItem) => task.id === mutation.id);
+    result.conflicts.push({ mutation, task_title: server?.title ?? cached?.title ?? 'Untitled task', server });
+  };
+
+  for (const entry of entries) {
+    const queued = withRealIds(entry.mutation, idMap);
+    let mutation = queued;
+    try {
+      if (queued.kind !== 'create' && queued.base_updated_at !== null) {
+        // Rebase onto our own earlier replayed change, which the server also checks against
+        const own = ownUpdates.get(queued.id);
+        const base = own && own.from === queued.base_updated_at.getTime() ? own.to : queued.base_updated_at;
+        mutation = { ...queued, base_updated_at: base };
+
+        const server = await trpc.getTask.query({ id: queued.id });
+        if (!server || server.updated_at.getTime() > base.getTime()) {
+          await addConflict(mutation, server);
+          await remove('mutations', entry.seq);
+          continue;
+        }
+      }
+
+      const saved = await sendMutation(mutation);
+      if (mutation.kind === 'create' && saved) {
+        idMap.set(mutation.temp_id, saved.id);
+        await uncacheTask(mutation.temp_id);
+      }
+      if (queued.kind !== 'create' && queued.base_updated_at !== null && saved) {
+        ownUpdates.set(saved.id, { from: queued.base_updated_at.getTime(), to: saved.updated_at });
+      }
+      result.replayed++;
+    } catch (error) {
+      const current = conflictingTask(error);
+      if (current && mutation.kind !== 'create') {
+        // Changed elsewhere between the check above and the write
+        await addConflict(mutation, current);
+      } else if (isOfflineError(error)) {
+        // Keep this and everything after it for the next attempt, with ids resolved so far
+        const remaining = entries.slice(entries.indexOf(entry));
+        await putAll('mutations', remaining.map((rest: QueueEntry) => ({ ...rest, mutation: withRealIds(rest.mutation, idMap) })));
+        return result;
+      } else {
+        // The server refused it (e.g. validation); retrying won't help
+        result.failed.push({ mutation, error });
+      }
+    }
+    await remove('mutations', entry.seq);
+  }
+  return result;
+};
+
+export type MutationOutcome = { queued: false; task: Task | null } | { queued: true };
+
+// Send a change straight away, or queue it when the server is unreachable or earlier
+// changes are still waiting, so they reach the server in the order they were made
+export const runMutation = async (mutation: QueuedMutation): Promise<MutationOutcome> => {
+  if (await pendingMutationCount() === 0) {
+    try {
+      return { queued: false, task: await sendMutation(mutation) };
+    } catch (error) {
+      if (!isOfflineError(error)) throw error;
+    }
+  }
+  await enqueueMutation(mutation);
+  return { queued: true };
+};
+
+// Local stand-in for a task created offline, shown until the server assigns its real id
+export const draftTask = (id: number, input: CreateTaskInput, ownerId: number): TaskListItem => {
+  const now = new Date();
+  return {
+    id,
+    owner_id: ownerId,
+    list_id: input.list_id ?? null,
+    parent_id: input.parent_id ?? null,
+    title: input.title,
+    description: input.description ?? null,
+    completed: false,
+    priority: input.priority ?? 'none',
+    position: '',
+    due_date: input.due_date ?? null,
+    due_time: input.due_date ? input.due_time ?? null : null,
+    due_timezone: input.due_date ? input.due_timezone ?? 'UTC' : null,
+    due_status: null, // Worked out by the server once synced
+    recurrence: input.recurrence ?? null,
+    tags: [],
+    created_at: now,
+    updated_at: now,
+    deleted_at: null,
+    subtask_count: 0,
+    completed_subtask_count: 0
+  };
+};
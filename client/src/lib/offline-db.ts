@@ -0,0 +1,71 @@
+// Minimal promise wrapper around the browser's IndexedDB, holding the offline copy of the
+// user's tasks and the queue of mutations waiting to reach the server
+
+const DB_NAME = 'todo-offline';
+const DB_VERSION = 1;
+
+export type StoreName = 'tasks' | 'mutations';
+
+let connection: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!connection) {
+    connection = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore('tasks', { keyPath: 'id' });
+        // Auto-incrementing keys keep queued mutations in the order they were made
+        db.createObjectStore('mutations', { keyPath: 'seq', autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        connection = null;
+        reject(request.error);
+      };
+    });
+  }
+  return connection;
+};
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Run one request against a store inside its own transaction
+const withStore = async <T>(
+  name: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return toPromise(run(db.transaction(name, mode).objectStore(name)));
+};
+
+export const getAll = <T>(name: StoreName): Promise<T[]> =>
+  withStore<T[]>(name, 'readonly', (store: IDBObjectStore) => store.getAll());
+
+export const put = <T>(name: StoreName, value: T): Promise<IDBValidKey> =>
+  withStore(name, 'readwrite', (store: IDBObjectStore) => store.put(value));
+
+// Write many values in one transaction
+export const putAll = async <T>(name: StoreName, values: T[]): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(name, 'readwrite');
+  const store = transaction.objectStore(name);
+  for (const value of values) {
+    store.put(value);
+  }
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const remove = (name: StoreName, key: IDBValidKey): Promise<undefined> =>
+  withStore(name, 'readwrite', (store: IDBObjectStore) => store.delete(key));
+
+export const clear = (name: StoreName): Promise<undefined> =>
+  withStore(name, 'readwrite', (store: IDBObjectStore) => store.clear());
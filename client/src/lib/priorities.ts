@@ -0,0 +1,21 @@
+import type { TaskPriority } from '../../../server/src/schema';
+
+// Menu order: most important first
+export const priorityOrder: TaskPriority[] = ['urgent', 'high', 'medium', 'low', 'none'];
+
+export const priorityLabels: Record<TaskPriority, string> = {
+  urgent: 'Urgent',
+  high: 'High',
+  medium: 'Medium',
+  low: 'Low',
+  none: 'No priority'
+};
+
+// Flag colour for each priority; 'none' shows no indicator on the task
+export const priorityColors: Record<TaskPriority, string> = {
+  urgent: 'text-red-600',
+  high: 'text-orange-500',
+  medium: 'text-yellow-500',
+  low: 'text-blue-500',
+  none: 'text-gray-400'
+};
@@ -0,0 +1,46 @@
+import type { RecurrenceRule, Weekday } from '../../../server/src/schema';
+
+export const weekdayOrder: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+export const weekdayLabels: Record<Weekday, string> = {
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+  SU: 'Sun'
+};
+
+export const frequencyUnits: Record<RecurrenceRule['freq'], [string, string]> = {
+  daily: ['day', 'days'],
+  weekly: ['week', 'weeks'],
+  monthly: ['month', 'months'],
+  yearly: ['year', 'years']
+};
+
+const ordinal = (day: number): string => {
+  const suffix = day % 10 === 1 && day !== 11 ? 'st' : day % 10 === 2 && day !== 12 ? 'nd' : day % 10 === 3 && day !== 13 ? 'rd' : 'th';
+  return `${day}${suffix}`;
+};
+
+// Short human description, e.g. "Every 2 weeks on Mon, Thu" or "Monthly on the last day, 3 more times"
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  let text = rule.interval === 1
+    ? { daily: 'Daily', weekly: 'Weekly', monthly: 'Monthly', yearly: 'Yearly' }[rule.freq]
+    : `Every ${rule.interval} ${frequencyUnits[rule.freq][1]}`;
+
+  if (rule.by_weekday) {
+    text += ` on ${weekdayOrder.filter((day: Weekday) => rule.by_weekday!.includes(day)).map((day: Weekday) => weekdayLabels[day]).join(', ')}`;
+  }
+  if (rule.by_month_day) {
+    text += ` on the ${rule.by_month_day.map((day: number) => (day === -1 ? 'last day' : ordinal(day))).join(', ')}`;
+  }
+  if (rule.count !== undefined) {
+    text += rule.count === 1 ? ', last time' : `, ${rule.count - 1} more times`;
+  }
+  if (rule.until !== undefined) {
+    text += ` until ${rule.until}`;
+  }
+  return text;
+};
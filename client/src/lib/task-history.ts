@@ -0,0 +1,71 @@
+import { priorityLabels } from '@/lib/priorities';
+import type { ListWithCounts, TaskChanges, TaskEvent, TaskPriority } from '../../../server/src/schema';
+
+const orNone = (value: unknown): string => (value === null || value === undefined || value === '' ? 'none' : String(value));
+
+const listName = (lists: ListWithCounts[], id: unknown): string =>
+  id === null ? 'Inbox' : lists.find((list: ListWithCounts) => list.id === id)?.name ?? 'a deleted list';
+
+// One readable line per changed field, e.g. 'Priority: Low → High'
+const describeChanges = (changes: TaskChanges, lists: ListWithCounts[]): string[] => {
+  const lines: string[] = [];
+  for (const [field, { from, to }] of Object.entries(changes)) {
+    switch (field) {
+      case 'title':
+        lines.push(`Renamed from "${orNone(from)}" to "${orNone(to)}"`);
+        break;
+      case 'description':
+        lines.push(!from ? 'Added a description' : !to ? 'Removed the description' : 'Edited the description');
+        break;
+      case 'completed':
+        lines.push(to ? 'Marked as done' : 'Marked as not done');
+        break;
+      case 'priority':
+        lines.push(`Priority: ${priorityLabels[from as TaskPriority]} → ${priorityLabels[to as TaskPriority]}`);
+        break;
+      case 'list_id':
+        lines.push(`Moved to ${listName(lists, to)}`);
+        break;
+      case 'parent_id':
+        lines.push(to === null ? 'Made a top-level task' : 'Moved under another task');
+        break;
+      case 'position':
+        lines.push('Reordered');
+        break;
+      case 'due_date':
+        lines.push(`Due date: ${orNone(from)} → ${orNone(to)}`);
+        break;
+      case 'due_time':
+        lines.push(`Due time: ${orNone(from).slice(0, 5)} → ${orNone(to).slice(0, 5)}`);
+        break;
+      case 'due_timezone':
+        lines.push(`Timezone: ${orNone(from)} → ${orNone(to)}`);
+        break;
+      case 'recurrence':
+        lines.push(!to ? 'Stopped repeating' : !from ? 'Set to repeat' : 'Changed how it repeats');
+        break;
+      case 'tags':
+        lines.push(`Tags: ${(from as string[]).join(', ') || 'none'} → ${(to as string[]).join(', ') || 'none'}`);
+        break;
+    }
+  }
+  return lines;
+};
+
+// Heading and detail lines for one timeline entry
+export const describeEvent = (event: TaskEvent, lists: ListWithCounts[]): { title: string; details: string[] } => {
+  switch (event.type) {
+    case 'created':
+      return { title: 'Created', details: [] };
+    case 'deleted':
+      return { title: 'Moved to trash', details: [] };
+    case 'restored':
+      return { title: 'Restored from trash', details: [] };
+    case 'toggled': {
+      const { completed, ...rest } = event.changes;
+      return { title: completed?.to ? 'Completed' : 'Reopened', details: describeChanges(rest, lists) };
+    }
+    case 'updated':
+      return { title: 'Edited', details: describeChanges(event.changes, lists) };
+  }
+};
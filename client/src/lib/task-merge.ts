@@ -0,0 +1,82 @@
+import { formatDueDate } from '@/lib/due-dates';
+import { priorityLabels } from '@/lib/priorities';
+import { describeRecurrence } from '@/lib/recurrence';
+import type { Task, TaskTag, UpdateTaskInput } from '../../../server/src/schema';
+
+// Groups of task fields the user can take from either side of a conflict; the due date
+// travels with its time and timezone
+export type MergeField = 'title' | 'description' | 'completed' | 'priority' | 'due' | 'recurrence' | 'tags';
+
+export type MergeSide = 'mine' | 'theirs';
+
+export const mergeFieldLabels: Record<MergeField, string> = {
+  title: 'Title',
+  description: 'Description',
+  completed: 'Status',
+  priority: 'Priority',
+  due: 'Due',
+  recurrence: 'Repeats',
+  tags: 'Tags'
+};
+
+const tagIds = (task: Task): number[] => task.tags.map((tag: TaskTag) => tag.id).sort((a: number, b: number) => a - b);
+
+// Comparable form of each field, so equal values on both sides aren't offered as a choice
+const fieldKey = (task: Task, field: MergeField): string => {
+  switch (field) {
+    case 'due':
+      return JSON.stringify([task.due_date, task.due_time, task.due_timezone]);
+    case 'tags':
+      return JSON.stringify(tagIds(task));
+    default:
+      return JSON.stringify(task[field]);
+  }
+};
+
+// Fields that differ between the user's version and the server's
+export const conflictingFields = (mine: Task, theirs: Task): MergeField[] =>
+  (Object.keys(mergeFieldLabels) as MergeField[]).filter((field: MergeField) => fieldKey(mine, field) !== fieldKey(theirs, field));
+
+// How a field reads in the merge dialog
+export const describeField = (task: Task, field: MergeField): string => {
+  switch (field) {
+    case 'title':
+      return task.title;
+    case 'description':
+      return task.description || 'No description';
+    case 'completed':
+      return task.completed ? 'Done' : 'Not done';
+    case 'priority':
+      return priorityLabels[task.priority];
+    case 'due':
+      return formatDueDate(task) ?? 'No due date';
+    case 'recurrence':
+      return task.recurrence ? describeRecurrence(task.recurrence) : 'Does not repeat';
+    case 'tags':
+      return task.tags.map((tag: TaskTag) => tag.name).join(', ') || 'No tags';
+  }
+};
+
+// Update that turns the server's version into the merged one; fields kept from theirs are left out
+export const mergeInput = (mine: Task, theirs: Task, choices: Partial<Record<MergeField, MergeSide>>): Omit<UpdateTaskInput, 'id'> => {
+  const input: Omit<UpdateTaskInput, 'id'> = {};
+  const take = (field: MergeField) => choices[field] === 'mine';
+
+  if (take('title')) input.title = mine.title;
+  if (take('description')) input.description = mine.description;
+  if (take('completed')) input.completed = mine.completed;
+  if (take('priority')) input.priority = mine.priority;
+  if (take('due')) {
+    input.due_date = mine.due_date;
+    input.due_time = mine.due_time;
+    input.due_timezone = mine.due_timezone;
+  }
+  if (take('recurrence')) input.recurrence = mine.recurrence;
+  if (take('tags')) {
+    const mineIds = tagIds(mine);
+    const theirIds = tagIds(theirs);
+    input.add_tag_ids = mineIds.filter((id: number) => !theirIds.includes(id));
+    input.remove_tag_ids = theirIds.filter((id: number) => !mineIds.includes(id));
+  }
+  return input;
+};
@@ -0,0 +1,12 @@
+// Bearer token for the signed-in user, persisted across reloads
+const SESSION_KEY = 'todo.session';
+
+export const getSessionToken = (): string | null => localStorage.getItem(SESSION_KEY);
+
+export const setSessionToken = (token: string | null): void => {
+  if (token) {
+    localStorage.setItem(SESSION_KEY, token);
+  } else {
+    localStorage.removeItem(SESSION_KEY);
+  }
+};
@@ -1,10 +1,32 @@
-import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
+import { createTRPCClient, httpBatchLink, httpSubscriptionLink, loggerLink, splitLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
+import { getSessionToken } from './session';
 
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    splitLink({
+      condition: (op) => op.type === 'subscription',
+      // Subscriptions stream over server-sent events; EventSource can't send headers,
+      // so the session travels as a connection param instead
+      true: httpSubscriptionLink({
+        url: '/api',
+        transformer: superjson,
+        connectionParams() {
+          const token = getSessionToken();
+          return token ? { token } : {};
+        },
+      }),
+      false: httpBatchLink({
+        url: '/api',
+        transformer: superjson,
+        // Attach the current session on every request so sign-in/out take effect immediately
+        headers() {
+          const token = getSessionToken();
+          return token ? { Authorization: `Bearer ${token}` } : {};
+        },
+      }),
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
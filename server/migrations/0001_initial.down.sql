@@ -0,0 +1,14 @@
+DROP TABLE "webhook_deliveries";
+DROP TABLE "webhooks";
+DROP TABLE "task_tags";
+DROP TABLE "task_events";
+DROP TABLE "tasks";
+DROP TABLE "tags";
+DROP TABLE "lists";
+DROP TABLE "sessions";
+DROP TABLE "calendar_feeds";
+DROP TABLE "users";
+DROP TYPE "public"."webhook_event_type";
+DROP TYPE "public"."webhook_delivery_status";
+DROP TYPE "public"."task_priority";
+DROP TYPE "public"."task_event_type";
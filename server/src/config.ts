@@ -0,0 +1,61 @@
+import 'dotenv/config';
+
+// Read a positive integer from the environment, falling back to a default
+const intFromEnv = (name: string, fallback: number): number => {
+  const value = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// Maximum nesting depth for subtasks; top-level tasks are depth 1
+export const MAX_TASK_DEPTH = intFromEnv('MAX_TASK_DEPTH', 5);
+
+// Days a deleted task stays in the trash before it is purged for good
+export const TRASH_RETENTION_DAYS = intFromEnv('TRASH_RETENTION_DAYS', 30);
+
+// How often the background job looks for expired trash and expired sessions
+export const TRASH_PURGE_INTERVAL_MINUTES = intFromEnv('TRASH_PURGE_INTERVAL_MINUTES', 60);
+
+// Most tasks (subtasks included) one user may have, counting those in the trash
+export const MAX_TASKS_PER_USER = intFromEnv('MAX_TASKS_PER_USER', 10000);
+
+// Most tasks (subtasks included) a single import may contain
+export const IMPORT_MAX_TASKS = intFromEnv('IMPORT_MAX_TASKS', 5000);
+
+// Attempts a webhook delivery gets before it is dead-lettered
+export const WEBHOOK_MAX_ATTEMPTS = intFromEnv('WEBHOOK_MAX_ATTEMPTS', 8);
+
+// Wait before the first webhook retry; it doubles after every further failure
+export const WEBHOOK_RETRY_BASE_SECONDS = intFromEnv('WEBHOOK_RETRY_BASE_SECONDS', 30);
+
+// Longest wait between two webhook attempts
+export const WEBHOOK_RETRY_MAX_SECONDS = intFromEnv('WEBHOOK_RETRY_MAX_SECONDS', 6 * 60 * 60);
+
+// How long a webhook receiver has to answer
+export const WEBHOOK_TIMEOUT_SECONDS = intFromEnv('WEBHOOK_TIMEOUT_SECONDS', 10);
+
+// Let webhooks target loopback and private network addresses, for self-hosted setups whose
+// receivers run next to the server; off by default, since any user can pick a webhook's URL
+export const WEBHOOK_ALLOW_PRIVATE_TARGETS = ['1', 'true', 'yes'].includes((process.env['WEBHOOK_ALLOW_PRIVATE_TARGETS'] ?? '').toLowerCase());
+
+// How often the background job sends due webhook deliveries
+export const WEBHOOK_DELIVERY_INTERVAL_SECONDS = intFromEnv('WEBHOOK_DELIVERY_INTERVAL_SECONDS', 5);
+
+// Rate limits per signed-in user, or per client address for anonymous requests. Each kind of
+// request has a token bucket: up to BURST requests at once, refilled at the per-minute rate
+export const RATE_LIMIT_QUERY_BURST = intFromEnv('RATE_LIMIT_QUERY_BURST', 200);
+export const RATE_LIMIT_QUERIES_PER_MINUTE = intFromEnv('RATE_LIMIT_QUERIES_PER_MINUTE', 600);
+export const RATE_LIMIT_MUTATION_BURST = intFromEnv('RATE_LIMIT_MUTATION_BURST', 60);
+export const RATE_LIMIT_MUTATIONS_PER_MINUTE = intFromEnv('RATE_LIMIT_MUTATIONS_PER_MINUTE', 120);
+
+// Set when the server sits behind a reverse proxy, so the client address is read from X-Forwarded-For
+export const TRUST_PROXY = ['1', 'true', 'yes'].includes((process.env['TRUST_PROXY'] ?? '').toLowerCase());
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// Least severe level the server logs: debug, info, warn or error
+export const LOG_LEVEL: LogLevel = (['debug', 'info', 'warn', 'error'] as const)
+  .find(level => level === process.env['LOG_LEVEL']?.toLowerCase()) ?? 'info';
+
+// When set, GET /metrics requires `Authorization: Bearer <token>`; otherwise it is open, for
+// deployments where only the internal network can reach the server port
+export const METRICS_TOKEN = process.env['METRICS_TOKEN'] || null;
@@ -3,9 +3,42 @@ import { drizzle } from 'drizzle-orm/node-postgres';
 import { Pool } from 'pg';
 import * as schema from './schema';
 
-const pool = new Pool({
+export const pool = new Pool({
   connectionString: process.env['APP_DATABASE_URL']!,
 });
 
 // Pass schema to drizzle for relation queries
 export const db = drizzle(pool, { schema });
+
+// Either the pool-backed client or an open transaction, for helpers that run inside both
+export type DbExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface PoolStatus {
+  latency_ms: number; // Round trip of the probe query
+  total: number; // Open connections
+  idle: number;
+  waiting: number; // Queries queued for a connection
+}
+
+// Run a trivial query through the pool; rejects when the database doesn't answer within
+// `timeoutMs`, e.g. because it is down or every connection is stuck
+export const checkPool = async (timeoutMs = 2000): Promise<PoolStatus> => {
+  const started = performance.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    await Promise.race([
+      pool.query('select 1'),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Database did not answer within ${timeoutMs}ms`)), timeoutMs);
+      })
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+  return {
+    latency_ms: Math.round((performance.now() - started) * 10) / 10,
+    total: pool.totalCount,
+    idle: pool.idleCount,
+    waiting: pool.waitingCount
+  };
+};
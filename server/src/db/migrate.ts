@@ -0,0 +1,317 @@
+import { createHash } from 'node:crypto';
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { type PoolClient } from 'pg';
+import { pool } from '.';
+
+// Checked-in migrations: NNNN_name.up.sql, and NNNN_name.down.sql to undo it where that's possible
+export const MIGRATIONS_DIR = fileURLToPath(new URL('../../migrations', import.meta.url));
+
+const FILE_PATTERN = /^(\d+)_(\w+)\.(up|down)\.sql$/;
+
+// Key of the session-level advisory lock held while migrating; arbitrary, but the same in every process
+const LOCK_KEY = 7_245_001;
+
+// Databases set up by `drizzle-kit push` before migrations existed already have this migration's
+// tables, so it is recorded instead of run when the schema matches it exactly
+const BASELINE_VERSION = 1;
+
+// Where the baseline migration is built to compare an existing database against; never committed
+const SCRATCH_SCHEMA = 'migration_baseline';
+
+export interface Migration {
+  version: number;
+  name: string; // File name without the direction and extension, e.g. 0001_initial
+  up: string;
+  down: string | null; // Null for migrations that can't be undone
+  checksum: string; // Of the up SQL, to notice edits to migrations already applied
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  // pending: not applied yet; changed: applied, but the file was edited since;
+  // missing: applied, but there is no file for it
+  state: 'applied' | 'pending' | 'changed' | 'missing';
+  applied_at: Date | null;
+}
+
+export interface AppliedMigration {
+  version: number;
+  name: string;
+  duration_ms: number;
+  baseline: boolean; // Recorded without running, see BASELINE_VERSION
+}
+
+interface MigrationRow {
+  version: number;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+export const loadMigrations = async (dir: string = MIGRATIONS_DIR): Promise<Migration[]> => {
+  const files = new Map<number, { name: string; up?: string; down?: string }>();
+  for (const file of (await readdir(dir)).sort()) {
+    const match = FILE_PATTERN.exec(file);
+    if (!match) {
+      continue;
+    }
+    const [, version, label, direction] = match as unknown as [string, string, string, 'up' | 'down'];
+    const name = `${version}_${label}`;
+    const entry = files.get(Number(version)) ?? { name };
+    if (entry.name !== name) {
+      throw new Error(`Migrations ${entry.name} and ${name} have the same version`);
+    }
+    entry[direction] = await readFile(join(dir, file), 'utf8');
+    files.set(Number(version), entry);
+  }
+
+  return [...files.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([version, { name, up, down }]) => {
+      if (up === undefined) {
+        throw new Error(`Migration ${name} has no up file`);
+      }
+      return { version, name, up, down: down ?? null, checksum: createHash('sha256').update(up).digest('hex') };
+    });
+};
+
+// Run `fn` on a connection holding the migration lock, so processes starting together migrate
+// one after the other. The connection is closed afterwards, which also releases the lock
+const withMigrationLock = async <T>(fn: (client: PoolClient) => Promise<T>): Promise<T> => {
+  const client = await pool.connect();
+  try {
+    await client.query('select pg_advisory_lock($1)', [LOCK_KEY]);
+    return await fn(client);
+  } finally {
+    client.release(true);
+  }
+};
+
+const ensureMigrationsTable = (client: PoolClient) => client.query(`
+  create table if not exists schema_migrations (
+    version integer primary key,
+    name text not null,
+    checksum text not null,
+    applied_at timestamp not null default now()
+  )
+`);
+
+const appliedMigrations = async (client: PoolClient): Promise<MigrationRow[]> => {
+  const exists = await client.query<{ exists: boolean }>(`select to_regclass('schema_migrations') is not null as exists`);
+  if (!exists.rows[0]?.exists) {
+    return [];
+  }
+  const result = await client.query<MigrationRow>('select version, name, checksum, applied_at from schema_migrations order by version');
+  return result.rows;
+};
+
+// Run one direction of a migration and its bookkeeping in a single transaction
+const runInTransaction = async (client: PoolClient, name: string, statements: () => Promise<unknown>) => {
+  await client.query('begin');
+  try {
+    await statements();
+    await client.query('commit');
+  } catch (error) {
+    await client.query('rollback');
+    throw new Error(`Migration ${name} failed: ${error instanceof Error ? error.message : String(error)}`, { cause: error });
+  }
+};
+
+// Everything in `schema` that migrations shape, minus the migrations' own bookkeeping, keyed by
+// what it is, e.g. "column tasks.title". Names print unqualified only while `schema` is first on
+// the search path, so callers set it to compare two schemas
+export const describeSchema = async (client: PoolClient, schema = 'public'): Promise<Record<string, string>> => {
+  const columns = await client.query<{
+    table_name: string; column_name: string; udt_name: string; character_maximum_length: number | null;
+    is_nullable: string; column_default: string | null; generation_expression: string | null;
+  }>(`
+    select table_name, column_name, udt_name, character_maximum_length, is_nullable, column_default, generation_expression
+    from information_schema.columns
+    where table_schema = $1 and table_name <> 'schema_migrations'
+  `, [schema]);
+  const constraints = await client.query<{ table_name: string; conname: string; definition: string }>(`
+    select conrelid::regclass::text as table_name, conname, pg_get_constraintdef(oid) as definition
+    from pg_constraint
+    where connamespace = $1::regnamespace and conrelid <> 0 and conrelid::regclass::text <> 'schema_migrations'
+  `, [schema]);
+  const indexes = await client.query<{ indexname: string; indexdef: string }>(`
+    select indexname, indexdef
+    from pg_indexes
+    where schemaname = $1 and tablename <> 'schema_migrations'
+  `, [schema]);
+  const enums = await client.query<{ typname: string; labels: string }>(`
+    select t.typname, string_agg(e.enumlabel, ', ' order by e.enumsortorder) as labels
+    from pg_type t
+    join pg_enum e on e.enumtypid = t.oid
+    where t.typnamespace = $1::regnamespace
+    group by t.typname
+  `, [schema]);
+
+  const entries: [string, string][] = [
+    ...columns.rows.map((column): [string, string] => [
+      `column ${column.table_name}.${column.column_name}`,
+      [
+        column.character_maximum_length === null ? column.udt_name : `${column.udt_name}(${column.character_maximum_length})`,
+        column.is_nullable === 'NO' ? 'not null' : null,
+        column.column_default === null ? null : `default ${column.column_default}`,
+        column.generation_expression === null ? null : `generated always as ${column.generation_expression}`
+      ].filter(part => part !== null).join(' ')
+    ]),
+    ...constraints.rows.map((constraint): [string, string] => [`constraint ${constraint.table_name}.${constraint.conname}`, constraint.definition]),
+    // Index definitions name their table with its schema regardless of the search path
+    ...indexes.rows.map((index): [string, string] => [`index ${index.indexname}`, index.indexdef.replace(` ON ${schema}.`, ' ON ')]),
+    ...enums.rows.map((type): [string, string] => [`enum ${type.typname}`, type.labels])
+  ];
+  return Object.fromEntries(entries.sort(([a], [b]) => a.localeCompare(b)));
+};
+
+// What keeps `actual` from matching `expected`, one line per entry, e.g. "missing column tasks.title"
+const schemaDifferences = (expected: Record<string, string>, actual: Record<string, string>): string[] => [
+  ...Object.keys(expected).filter(key => !(key in actual)).map(key => `missing ${key}`),
+  ...Object.keys(actual).filter(key => !(key in expected)).map(key => `unexpected ${key}`),
+  ...Object.keys(expected)
+    .filter(key => key in actual && actual[key] !== expected[key])
+    .map(key => `different ${key}: ${actual[key]} instead of ${expected[key]}`)
+];
+
+const hasTables = async (client: PoolClient): Promise<boolean> => {
+  const result = await client.query<{ exists: boolean }>(`
+    select exists (
+      select 1 from pg_tables where schemaname = 'public' and tablename <> 'schema_migrations'
+    ) as exists
+  `);
+  return result.rows[0]?.exists === true;
+};
+
+// Compare the public schema with what `migration` builds, by running it in a scratch schema inside
+// a transaction that is always rolled back
+const baselineDifferences = async (client: PoolClient, migration: Migration): Promise<string[]> => {
+  await client.query('begin');
+  try {
+    await client.query('set local search_path to public');
+    const actual = await describeSchema(client, 'public');
+    await client.query(`create schema ${SCRATCH_SCHEMA}`);
+    await client.query(`set local search_path to ${SCRATCH_SCHEMA}`);
+    await client.query(migration.up.replaceAll('"public".', `"${SCRATCH_SCHEMA}".`));
+    return schemaDifferences(await describeSchema(client, SCRATCH_SCHEMA), actual);
+  } catch (error) {
+    throw new Error(
+      `Couldn't compare the existing tables with migration ${migration.name}: ${error instanceof Error ? error.message : String(error)}`,
+      { cause: error }
+    );
+  } finally {
+    await client.query('rollback');
+  }
+};
+
+const describeMigrations = (migrations: Migration[], applied: MigrationRow[]): MigrationStatus[] => {
+  const byVersion = new Map(applied.map(row => [row.version, row]));
+  const known = new Set(migrations.map(migration => migration.version));
+  return [
+    ...migrations.map((migration): MigrationStatus => {
+      const row = byVersion.get(migration.version);
+      return {
+        version: migration.version,
+        name: migration.name,
+        state: !row ? 'pending' : row.checksum === migration.checksum ? 'applied' : 'changed',
+        applied_at: row?.applied_at ?? null
+      };
+    }),
+    ...applied
+      .filter(row => !known.has(row.version))
+      .map((row): MigrationStatus => ({ version: row.version, name: row.name, state: 'missing', applied_at: row.applied_at }))
+  ].sort((a, b) => a.version - b.version);
+};
+
+// Every migration and whether it has been applied; doesn't change the database
+export const migrationStatus = async ({ dir }: { dir?: string } = {}): Promise<MigrationStatus[]> => {
+  const migrations = await loadMigrations(dir);
+  const client = await pool.connect();
+  try {
+    return describeMigrations(migrations, await appliedMigrations(client));
+  } finally {
+    client.release();
+  }
+};
+
+// Apply pending migrations in order, up to and including version `to` when given. Each runs in
+// its own transaction, so a failure leaves the ones before it applied and nothing of itself.
+// Refuses to run when an applied migration's file was edited since
+export const migrateUp = async ({ dir, to }: { dir?: string; to?: number } = {}): Promise<AppliedMigration[]> => {
+  const migrations = await loadMigrations(dir);
+
+  return withMigrationLock(async client => {
+    await ensureMigrationsTable(client);
+    const applied = await appliedMigrations(client);
+    const changed = describeMigrations(migrations, applied).filter(status => status.state === 'changed');
+    if (changed.length > 0) {
+      throw new Error(`Migration ${changed[0].name} was edited after it was applied; add a new migration instead`);
+    }
+
+    const done = new Set(applied.map(row => row.version));
+    const results: AppliedMigration[] = [];
+    for (const migration of migrations) {
+      if (done.has(migration.version) || (to !== undefined && migration.version > to)) {
+        continue;
+      }
+
+      const baseline = migration.version === BASELINE_VERSION && applied.length === 0 && await hasTables(client);
+      if (baseline) {
+        const differences = await baselineDifferences(client, migration);
+        if (differences.length > 0) {
+          throw new Error(
+            `The database already has tables but they don't match migration ${migration.name}, so it can't be recorded as applied. ` +
+            `Bring them in line with it by hand, or start from an empty database:\n  ${differences.join('\n  ')}`
+          );
+        }
+      }
+      const started = performance.now();
+      await runInTransaction(client, migration.name, async () => {
+        if (!baseline) {
+          await client.query(migration.up);
+        }
+        await client.query(
+          'insert into schema_migrations (version, name, checksum) values ($1, $2, $3)',
+          [migration.version, migration.name, migration.checksum]
+        );
+      });
+      results.push({
+        version: migration.version,
+        name: migration.name,
+        duration_ms: Math.round(performance.now() - started),
+        baseline
+      });
+    }
+    return results;
+  });
+};
+
+// Undo the `steps` most recently applied migrations, newest first
+export const migrateDown = async ({ dir, steps = 1 }: { dir?: string; steps?: number } = {}): Promise<AppliedMigration[]> => {
+  const migrations = new Map((await loadMigrations(dir)).map(migration => [migration.version, migration]));
+
+  return withMigrationLock(async client => {
+    const applied = (await appliedMigrations(client)).reverse().slice(0, steps);
+    const results: AppliedMigration[] = [];
+    for (const row of applied) {
+      const migration = migrations.get(row.version);
+      if (!migration) {
+        throw new Error(`Migration ${row.name} is applied but its files are missing`);
+      }
+      if (migration.down === null) {
+        throw new Error(`Migration ${migration.name} can't be undone; it has no down file`);
+      }
+
+      const started = performance.now();
+      await runInTransaction(client, migration.name, async () => {
+        await client.query(migration.down!);
+        await client.query('delete from schema_migrations where version = $1', [migration.version]);
+      });
+      results.push({ version: migration.version, name: migration.name, duration_ms: Math.round(performance.now() - started), baseline: false });
+    }
+    return results;
+  });
+};
@@ -1,17 +1,204 @@
-import { serial, text, pgTable, timestamp, boolean } from 'drizzle-orm/pg-core';
+import { serial, text, pgTable, pgEnum, timestamp, boolean, date, time, integer, jsonb, index, uniqueIndex, primaryKey, customType, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
+import { type ListIcon, type TaskChanges, type WebhookPayload, taskEventTypes, taskPriorities, webhookDeliveryStatuses, webhookEventTypes } from '../schema';
+
+// Declared lowest to highest so Postgres compares priorities in order of importance
+export const taskPriorityEnum = pgEnum('task_priority', taskPriorities);
+
+export const taskEventTypeEnum = pgEnum('task_event_type', taskEventTypes);
+
+export const webhookEventTypeEnum = pgEnum('webhook_event_type', webhookEventTypes);
+
+export const webhookDeliveryStatusEnum = pgEnum('webhook_delivery_status', webhookDeliveryStatuses);
+
+export const usersTable = pgTable('users', {
+  id: serial('id').primaryKey(),
+  email: text('email').notNull().unique(), // Stored lowercased
+  name: text('name'), // Optional display name
+  password_hash: text('password_hash').notNull(), // scrypt hash, never returned by the API
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  token_hash: text('token_hash').notNull().unique(), // SHA-256 of the bearer token; the raw token is only sent to the client
+  expires_at: timestamp('expires_at').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+export const listsTable = pgTable('lists', {
+  id: serial('id').primaryKey(),
+  owner_id: integer('owner_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  color: text('color').notNull().default('#3b82f6'), // Hex colour, e.g. #3b82f6
+  icon: text('icon').$type<ListIcon>().notNull().default('list'), // One of the icon keys in listIconSchema
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('lists_owner_id_idx').on(table.owner_id),
+]);
+
+// Postgres full-text document; only ever written by the database and matched in SQL
+const tsvector = customType<{ data: string }>({
+  dataType: () => 'tsvector'
+});
 
 export const tasksTable = pgTable('tasks', {
   id: serial('id').primaryKey(),
+  owner_id: integer('owner_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  list_id: integer('list_id').references(() => listsTable.id, { onDelete: 'set null' }), // Null = not in any list (Inbox)
+  parent_id: integer('parent_id').references((): AnyPgColumn => tasksTable.id, { onDelete: 'cascade' }), // Null = top-level task
   title: text('title').notNull(),
   description: text('description'), // Nullable by default, matches Zod schema
   completed: boolean('completed').notNull().default(false),
+  priority: taskPriorityEnum('priority').notNull().default('none'),
+  position: text('position').notNull().default('a0'), // Fractional index for manual order among siblings, compared with collate "C"
+  due_date: date('due_date', { mode: 'string' }), // Calendar date (YYYY-MM-DD), nullable
+  due_time: time('due_time'), // Optional wall-clock time (HH:MM:SS) on the due date
+  due_timezone: text('due_timezone'), // IANA zone the due date/time is expressed in
+  recurrence: text('recurrence'), // iCalendar RRULE value (e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=MO), null = one-off
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
+  deleted_at: timestamp('deleted_at'), // Set while the task is in the trash
+  // Title and description words for searchTasks, title weighted higher. The 'simple' config skips
+  // stemming, so prefixes typed so far still match the words they start
+  search_vector: tsvector('search_vector').generatedAlwaysAs(sql`setweight(to_tsvector('simple', coalesce(title, '')), 'A') || setweight(to_tsvector('simple', coalesce(description, '')), 'B')`),
+}, (table) => [
+  index('tasks_owner_id_idx').on(table.owner_id),
+  index('tasks_deleted_at_idx').on(table.deleted_at),
+  index('tasks_list_id_idx').on(table.list_id),
+  index('tasks_parent_id_idx').on(table.parent_id),
+  index('tasks_owner_id_position_idx').on(table.owner_id, sql`${table.position} collate "C"`),
+  index('tasks_search_vector_idx').using('gin', table.search_vector),
+]);
+
+export const tagsTable = pgTable('tags', {
+  id: serial('id').primaryKey(),
+  owner_id: integer('owner_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  name: text('name').notNull(),
+  color: text('color').notNull().default('#6b7280'), // Hex colour, e.g. #6b7280
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  uniqueIndex('tags_owner_id_name_idx').on(table.owner_id, sql`lower(${table.name})`), // Names are unique per user, ignoring case
+]);
+
+// Many-to-many join between tasks and tags
+export const taskTagsTable = pgTable('task_tags', {
+  task_id: integer('task_id').notNull().references(() => tasksTable.id, { onDelete: 'cascade' }),
+  tag_id: integer('tag_id').notNull().references(() => tagsTable.id, { onDelete: 'cascade' }),
+}, (table) => [
+  primaryKey({ columns: [table.task_id, table.tag_id] }),
+  index('task_tags_tag_id_idx').on(table.tag_id),
+]);
+
+// Secret token behind a user's calendar subscription URL; one feed per user, rotated by replacing it
+export const calendarFeedsTable = pgTable('calendar_feeds', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().unique().references(() => usersTable.id, { onDelete: 'cascade' }),
+  token_hash: text('token_hash').notNull().unique(), // SHA-256 of the token in the URL, like session tokens
+  created_at: timestamp('created_at').defaultNow().notNull(),
 });
 
+// Audit history of task changes, written in the same transaction as the change itself
+export const taskEventsTable = pgTable('task_events', {
+  id: serial('id').primaryKey(),
+  task_id: integer('task_id').notNull().references(() => tasksTable.id, { onDelete: 'cascade' }),
+  actor_id: integer('actor_id').references(() => usersTable.id, { onDelete: 'set null' }),
+  type: taskEventTypeEnum('type').notNull(),
+  changes: jsonb('changes').$type<TaskChanges>().notNull(), // { field: { from, to } }
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => [
+  index('task_events_task_id_idx').on(table.task_id, table.created_at),
+]);
+
+// Receiver of task lifecycle events for one user
+export const webhooksTable = pgTable('webhooks', {
+  id: serial('id').primaryKey(),
+  owner_id: integer('owner_id').notNull().references(() => usersTable.id, { onDelete: 'cascade' }),
+  url: text('url').notNull(),
+  secret: text('secret').notNull(), // HMAC key; stored as is because signing needs it, never returned after creation
+  events: webhookEventTypeEnum('events').array().notNull(),
+  active: boolean('active').notNull().default(true),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => [
+  index('webhooks_owner_id_idx').on(table.owner_id),
+]);
+
+// Outgoing queue: one row per event and webhook, queued in the same transaction as the change
+// and retried with backoff until it is delivered or dead-lettered
+export const webhookDeliveriesTable = pgTable('webhook_deliveries', {
+  id: serial('id').primaryKey(),
+  webhook_id: integer('webhook_id').notNull().references(() => webhooksTable.id, { onDelete: 'cascade' }),
+  event: webhookEventTypeEnum('event').notNull(),
+  payload: jsonb('payload').$type<WebhookPayload>().notNull(),
+  status: webhookDeliveryStatusEnum('status').notNull().default('pending'),
+  attempts: integer('attempts').notNull().default(0),
+  next_attempt_at: timestamp('next_attempt_at'), // When the worker picks it up; null once delivered or dead
+  last_attempt_at: timestamp('last_attempt_at'),
+  response_status: integer('response_status'), // HTTP status of the last attempt, null without a response
+  last_error: text('last_error'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  delivered_at: timestamp('delivered_at'),
+}, (table) => [
+  index('webhook_deliveries_due_idx').on(table.next_attempt_at).where(sql`${table.status} = 'pending'`),
+  index('webhook_deliveries_webhook_id_idx').on(table.webhook_id, table.created_at),
+]);
+
+// Relations for relational queries (db.query.*)
+export const tasksRelations = relations(tasksTable, ({ many }) => ({
+  taskTags: many(taskTagsTable),
+}));
+
+export const tagsRelations = relations(tagsTable, ({ many }) => ({
+  taskTags: many(taskTagsTable),
+}));
+
+export const taskTagsRelations = relations(taskTagsTable, ({ one }) => ({
+  task: one(tasksTable, { fields: [taskTagsTable.task_id], references: [tasksTable.id] }),
+  tag: one(tagsTable, { fields: [taskTagsTable.tag_id], references: [tagsTable.id] }),
+}));
+
 // TypeScript type for the table schema
+export type User = typeof usersTable.$inferSelect;
+export type NewUser = typeof usersTable.$inferInsert;
+
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+
+export type List = typeof listsTable.$inferSelect;
+export type NewList = typeof listsTable.$inferInsert;
+
 export type Task = typeof tasksTable.$inferSelect; // For SELECT operations
 export type NewTask = typeof tasksTable.$inferInsert; // For INSERT operations
 
+export type Tag = typeof tagsTable.$inferSelect;
+export type NewTag = typeof tagsTable.$inferInsert;
+
+export type CalendarFeed = typeof calendarFeedsTable.$inferSelect;
+export type NewCalendarFeed = typeof calendarFeedsTable.$inferInsert;
+
+export type TaskEvent = typeof taskEventsTable.$inferSelect;
+export type NewTaskEvent = typeof taskEventsTable.$inferInsert;
+
+export type Webhook = typeof webhooksTable.$inferSelect;
+export type NewWebhook = typeof webhooksTable.$inferInsert;
+
+export type WebhookDelivery = typeof webhookDeliveriesTable.$inferSelect;
+export type NewWebhookDelivery = typeof webhookDeliveriesTable.$inferInsert;
+
 // Important: Export all tables and relations for proper query building
-export const tables = { tasks: tasksTable };
\ No newline at end of file
+export const tables = {
+  users: usersTable,
+  sessions: sessionsTable,
+  lists: listsTable,
+  tasks: tasksTable,
+  tags: tagsTable,
+  taskTags: taskTagsTable,
+  taskEvents: taskEventsTable,
+  calendarFeeds: calendarFeedsTable,
+  webhooks: webhooksTable,
+  webhookDeliveries: webhookDeliveriesTable
+};
\ No newline at end of file
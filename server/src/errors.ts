@@ -0,0 +1,144 @@
+import { TRPCError } from '@trpc/server';
+import { type Task } from './schema';
+
+// Kinds of failure the handlers report; each maps onto one tRPC error code
+export type DomainErrorReason = 'not_found' | 'validation' | 'conflict' | 'unauthorized' | 'forbidden' | 'rate_limited' | 'quota_exceeded' | 'unavailable';
+
+export type DomainResource = 'task' | 'list' | 'tag' | 'user' | 'webhook' | 'webhook_delivery';
+
+// Machine-readable part of an error, sent to clients next to the message
+export interface DomainErrorDetails {
+  reason: DomainErrorReason;
+  resource?: DomainResource;
+  id?: number;
+  field?: string; // Input field the error is about
+  retry_after?: number; // Seconds until a rate-limited request will be accepted
+  limit?: number; // The quota that was reached
+}
+
+// Expected failure of a request, as opposed to a bug; handlers throw these and the
+// router turns them into TRPCErrors with the matching code
+export class DomainError extends Error {
+  constructor(message: string, public readonly details: DomainErrorDetails) {
+    super(message);
+    this.name = 'DomainError';
+  }
+
+  get reason(): DomainErrorReason {
+    return this.details.reason;
+  }
+}
+
+const resourceNames: Record<DomainResource, string> = {
+  task: 'Task',
+  list: 'List',
+  tag: 'Tag',
+  user: 'User',
+  webhook: 'Webhook',
+  webhook_delivery: 'Webhook delivery'
+};
+
+// Missing, or owned by someone else - the two look the same so ids don't leak
+export class NotFoundError extends DomainError {
+  constructor(resource: DomainResource, id: number, message = `${resourceNames[resource]} with id ${id} not found`) {
+    super(message, { reason: 'not_found', resource, id });
+    this.name = 'NotFoundError';
+  }
+}
+
+// Input that is well-formed but not acceptable in the current state
+export class ValidationError extends DomainError {
+  constructor(message: string, field?: string) {
+    super(message, { reason: 'validation', ...(field && { field }) });
+    this.name = 'ValidationError';
+  }
+}
+
+// Clashes with existing data, e.g. a duplicate name
+export class ConflictError extends DomainError {
+  constructor(message: string, resource?: DomainResource, field?: string) {
+    super(message, { reason: 'conflict', ...(resource && { resource }), ...(field && { field }) });
+    this.name = 'ConflictError';
+  }
+}
+
+// Credentials that don't identify anyone
+export class AuthenticationError extends DomainError {
+  constructor(message: string) {
+    super(message, { reason: 'unauthorized' });
+    this.name = 'AuthenticationError';
+  }
+}
+
+// Signed in, but not allowed to do this
+export class PermissionError extends DomainError {
+  constructor(message: string, resource?: DomainResource) {
+    super(message, { reason: 'forbidden', ...(resource && { resource }) });
+    this.name = 'PermissionError';
+  }
+}
+
+// Too many requests in a short time from one user or address
+export class RateLimitError extends DomainError {
+  constructor(retryAfterSeconds: number) {
+    super(`Too many requests, try again in ${retryAfterSeconds} second${retryAfterSeconds === 1 ? '' : 's'}`, {
+      reason: 'rate_limited',
+      retry_after: retryAfterSeconds
+    });
+    this.name = 'RateLimitError';
+  }
+}
+
+// A per-user cap on stored data was reached, e.g. the number of tasks
+export class QuotaExceededError extends DomainError {
+  constructor(message: string, resource: DomainResource, limit: number) {
+    super(message, { reason: 'quota_exceeded', resource, limit });
+    this.name = 'QuotaExceededError';
+  }
+}
+
+// Something the server depends on, such as the database, isn't working
+export class ServiceUnavailableError extends DomainError {
+  constructor(message: string) {
+    super(message, { reason: 'unavailable' });
+    this.name = 'ServiceUnavailableError';
+  }
+}
+
+// A write based on an older version of a task than the stored one; carries the current row
+// so the client can show both sides
+export class TaskConflictError extends ConflictError {
+  constructor(public readonly current: Task) {
+    super(`Task with id ${current.id} was changed by someone else`, 'task');
+    this.details.id = current.id;
+    this.name = 'TaskConflictError';
+  }
+}
+
+const trpcCodes: Record<DomainErrorReason, TRPCError['code']> = {
+  not_found: 'NOT_FOUND',
+  validation: 'BAD_REQUEST',
+  conflict: 'CONFLICT',
+  unauthorized: 'UNAUTHORIZED',
+  forbidden: 'FORBIDDEN',
+  rate_limited: 'TOO_MANY_REQUESTS',
+  quota_exceeded: 'FORBIDDEN',
+  unavailable: 'SERVICE_UNAVAILABLE'
+};
+
+export const toTRPCError = (error: DomainError): TRPCError =>
+  new TRPCError({ code: trpcCodes[error.reason], message: error.message, cause: error });
+
+// Status codes for the same failures on the REST API
+const httpStatuses: Record<DomainErrorReason, number> = {
+  not_found: 404,
+  validation: 400,
+  conflict: 409,
+  unauthorized: 401,
+  forbidden: 403,
+  rate_limited: 429,
+  quota_exceeded: 403,
+  unavailable: 503
+};
+
+export const toHttpStatus = (error: DomainError): number => httpStatuses[error.reason];
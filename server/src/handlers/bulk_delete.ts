@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+import { type BulkDeleteInput, type BulkResult } from '../schema';
+import { runBulk } from '../utils/bulk';
+import { getDescendantIds } from '../utils/task_tree';
+import { deleteTask } from './delete_task';
+
+export const bulkDelete = async (input: BulkDeleteInput, ownerId: number): Promise<BulkResult> => {
+  return await db.transaction(async (tx) => {
+    const owned = await tx.select({ id: tasksTable.id })
+      .from(tasksTable)
+      .where(and(inArray(tasksTable.id, input.ids), eq(tasksTable.owner_id, ownerId), isNull(tasksTable.deleted_at)))
+      .execute();
+
+    // Subtasks of another selected task go to the trash with it, sharing its timestamp so
+    // they are restored together; deleting them on their own would split the group
+    const covered = new Set<number>();
+    for (const { id } of owned) {
+      for (const descendantId of await getDescendantIds(tx, id)) {
+        covered.add(descendantId);
+      }
+    }
+
+    return await runBulk(tx, input.ids, async (savepoint, id) => {
+      if (!covered.has(id)) {
+        await deleteTask({ id }, ownerId, savepoint);
+      }
+      return null;
+    });
+  });
+};
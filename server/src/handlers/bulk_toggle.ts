@@ -0,0 +1,10 @@
+import { db } from '../db';
+import { type BulkResult, type BulkToggleInput } from '../schema';
+import { runBulk } from '../utils/bulk';
+import { toggleTask } from './toggle_task';
+
+export const bulkToggle = async (input: BulkToggleInput, ownerId: number): Promise<BulkResult> => {
+  return await db.transaction(tx => runBulk(tx, input.ids, (savepoint, id) =>
+    toggleTask({ id, completed: input.completed, include_subtasks: input.include_subtasks }, ownerId, savepoint)
+  ));
+};
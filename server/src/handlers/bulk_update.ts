@@ -0,0 +1,21 @@
+import { db } from '../db';
+import { type BulkResult, type BulkUpdateInput, type Task } from '../schema';
+import { runBulk } from '../utils/bulk';
+import { moveTask } from './move_task';
+import { updateTask } from './update_task';
+
+export const bulkUpdate = async (input: BulkUpdateInput, ownerId: number): Promise<BulkResult> => {
+  const { ids, list_id, ...fields } = input;
+  const hasFieldChanges = fields.priority !== undefined || !!fields.add_tag_ids?.length || !!fields.remove_tag_ids?.length;
+
+  return await db.transaction(tx => runBulk(tx, ids, async (savepoint, id) => {
+    let task: Task | null = null;
+    if (list_id !== undefined) {
+      task = await moveTask({ id, list_id }, ownerId, savepoint);
+    }
+    if (hasFieldChanges) {
+      task = await updateTask({ id, ...fields }, ownerId, savepoint);
+    }
+    return task;
+  }));
+};
@@ -0,0 +1,32 @@
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+import { type BulkItemResult, type BulkResult, type TaskScopeInput } from '../schema';
+import { runInChunks } from '../utils/bulk';
+import { getCoveredIds } from '../utils/task_tree';
+import { bulkDelete } from './bulk_delete';
+
+// Move every completed task in a list (or the Inbox, or everywhere) to the trash, in batches of
+// at most BULK_MAX_IDS tasks
+export const clearCompleted = async (input: TaskScopeInput, ownerId: number): Promise<BulkResult> => {
+  const done = await db.select({ id: tasksTable.id })
+    .from(tasksTable)
+    .where(and(
+      eq(tasksTable.owner_id, ownerId),
+      isNull(tasksTable.deleted_at),
+      eq(tasksTable.completed, true),
+      input.list_id === undefined ? undefined : input.list_id === null ? isNull(tasksTable.list_id) : eq(tasksTable.list_id, input.list_id)
+    ))
+    .orderBy(asc(tasksTable.id))
+    .execute();
+
+  // Completed subtasks of another completed task go to the trash with it, whichever batch it is
+  // in, so only the topmost ones are deleted; the others are reported as done like bulkDelete does
+  const covered = await getCoveredIds(db, done.map(task => task.id));
+  const trashed = await runInChunks(done.map(task => task.id).filter(id => !covered.has(id)), ids => bulkDelete({ ids }, ownerId));
+  const results = [
+    ...trashed.results,
+    ...[...covered].map((id): BulkItemResult => ({ id, success: true, task: null, error: null }))
+  ].sort((a, b) => a.id - b.id);
+  return { results, succeeded: trashed.succeeded + covered.size, failed: trashed.failed };
+};
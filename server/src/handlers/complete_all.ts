@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { and, asc, eq, isNull } from 'drizzle-orm';
+import { type BulkResult, type TaskScopeInput } from '../schema';
+import { runInChunks } from '../utils/bulk';
+import { bulkToggle } from './bulk_toggle';
+
+// Complete every open task in a list (or the Inbox, or everywhere), subtasks included, in
+// batches of at most BULK_MAX_IDS tasks
+export const completeAll = async (input: TaskScopeInput, ownerId: number): Promise<BulkResult> => {
+  const open = await db.select({ id: tasksTable.id })
+    .from(tasksTable)
+    .where(and(
+      eq(tasksTable.owner_id, ownerId),
+      isNull(tasksTable.deleted_at),
+      eq(tasksTable.completed, false),
+      input.list_id === undefined ? undefined : input.list_id === null ? isNull(tasksTable.list_id) : eq(tasksTable.list_id, input.list_id)
+    ))
+    .orderBy(asc(tasksTable.id))
+    .execute();
+
+  return await runInChunks(open.map(task => task.id), ids =>
+    bulkToggle({ ids, completed: true, include_subtasks: false }, ownerId));
+};
@@ -0,0 +1,18 @@
+import { db, type DbExecutor } from '../db';
+import { listsTable } from '../db/schema';
+import { type CreateListInput, type List } from '../schema';
+
+// Pass a transaction as `executor` to make the creation part of a larger one
+export const createList = async (input: CreateListInput, ownerId: number, executor: DbExecutor = db): Promise<List> => {
+  const result = await executor.insert(listsTable)
+    .values({
+      owner_id: ownerId,
+      name: input.name,
+      color: input.color, // Undefined falls back to the column defaults
+      icon: input.icon
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
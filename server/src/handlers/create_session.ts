@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { sessionsTable, type User as UserRow } from '../db/schema';
+import { type AuthSession } from '../schema';
+import { generateSessionToken, hashSessionToken, SESSION_TTL_MS, toUser } from '../utils/auth';
+
+// Issue a new session for an authenticated user, shared by sign-up and sign-in
+export const createSession = async (user: UserRow): Promise<AuthSession> => {
+  const token = generateSessionToken();
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await db.insert(sessionsTable)
+    .values({
+      user_id: user.id,
+      token_hash: hashSessionToken(token),
+      expires_at: expiresAt
+    })
+    .execute();
+
+  return {
+    user: toUser(user),
+    token,
+    expires_at: expiresAt
+  };
+};
@@ -0,0 +1,20 @@
+import { db, type DbExecutor } from '../db';
+import { tagsTable } from '../db/schema';
+import { type CreateTagInput, type Tag } from '../schema';
+import { assertTagNameAvailable } from '../utils/task_tags';
+
+// Pass a transaction as `executor` to make the creation part of a larger one
+export const createTag = async (input: CreateTagInput, ownerId: number, executor: DbExecutor = db): Promise<Tag> => {
+  await assertTagNameAvailable(executor, ownerId, input.name);
+
+  const result = await executor.insert(tagsTable)
+    .values({
+      owner_id: ownerId,
+      name: input.name,
+      color: input.color // Undefined falls back to the column default
+    })
+    .returning()
+    .execute();
+
+  return result[0];
+};
@@ -1,25 +1,96 @@
-import { db } from '../db';
-import { tasksTable } from '../db/schema';
+import { db, type DbExecutor } from '../db';
+import { listsTable, tasksTable } from '../db/schema';
+import { and, eq, isNull, sql } from 'drizzle-orm';
 import { type CreateTaskInput, type Task } from '../schema';
+import { normalizeDueTime, toTask } from '../utils/due_status';
+import { getTaskDepth } from '../utils/task_tree';
+import { assertTagsOwned, attachTags, withTags } from '../utils/task_tags';
+import { positionBetween } from '../utils/position';
+import { toRRule } from '../utils/recurrence';
+import { recordTaskEvents } from '../utils/task_events';
+import { assertTaskQuota } from '../utils/quota';
+import { MAX_TASK_DEPTH } from '../config';
+import { NotFoundError, ValidationError } from '../errors';
+
+// Pass a transaction as `executor` to make the creation part of a larger one
+export const createTask = async (input: CreateTaskInput, ownerId: number, executor: DbExecutor = db): Promise<Task> => {
+  let listId = input.list_id ?? null;
+
+  if (input.parent_id != null) {
+    // Subtasks live under a parent owned by the same user and inherit its list
+    const parents = await executor.select()
+      .from(tasksTable)
+      .where(and(
+        eq(tasksTable.id, input.parent_id),
+        eq(tasksTable.owner_id, ownerId),
+        isNull(tasksTable.deleted_at)
+      ))
+      .execute();
+
+    if (parents.length === 0) {
+      throw new NotFoundError('task', input.parent_id, `Parent task with id ${input.parent_id} not found`);
+    }
+
+    const parentDepth = await getTaskDepth(executor, input.parent_id);
+    if (parentDepth + 1 > MAX_TASK_DEPTH) {
+      throw new ValidationError(`Subtasks cannot be nested more than ${MAX_TASK_DEPTH} levels deep`, 'parent_id');
+    }
+
+    listId = parents[0].list_id;
+  } else if (listId !== null) {
+    // A target list must exist and belong to the same user
+    const lists = await executor.select({ id: listsTable.id })
+      .from(listsTable)
+      .where(and(eq(listsTable.id, listId), eq(listsTable.owner_id, ownerId)))
+      .execute();
+
+    if (lists.length === 0) {
+      throw new NotFoundError('list', listId);
+    }
+  }
+
+  await assertTagsOwned(executor, input.tag_ids ?? [], ownerId);
+
+  return await executor.transaction(async (tx) => {
+    await assertTaskQuota(tx, ownerId);
+
+    // New tasks go to the top of their siblings' manual order
+    const first = await tx.select({ position: tasksTable.position })
+      .from(tasksTable)
+      .where(and(
+        eq(tasksTable.owner_id, ownerId),
+        isNull(tasksTable.deleted_at),
+        input.parent_id != null ? eq(tasksTable.parent_id, input.parent_id) : isNull(tasksTable.parent_id)
+      ))
+      .orderBy(sql`${tasksTable.position} collate "C"`)
+      .limit(1)
+      .execute();
 
-export const createTask = async (input: CreateTaskInput): Promise<Task> => {
-  try {
     // Insert task record
-    const result = await db.insert(tasksTable)
+    const result = await tx.insert(tasksTable)
       .values({
+        owner_id: ownerId,
+        list_id: listId,
+        parent_id: input.parent_id ?? null,
         title: input.title,
         description: input.description || null, // Handle nullable field
         completed: false, // New tasks start as incomplete
+        priority: input.priority, // Undefined falls back to the column default
+        position: positionBetween(null, first[0]?.position ?? null),
+        due_date: input.due_date ?? null,
+        due_time: input.due_date ? normalizeDueTime(input.due_time) : null,
+        due_timezone: input.due_date ? (input.due_timezone ?? 'UTC') : null, // Timezone only matters with a due date
+        recurrence: input.recurrence ? toRRule(input.recurrence) : null,
         // created_at and updated_at will be set by database defaults
       })
       .returning()
       .execute();
 
-    // Return the created task
-    const task = result[0];
-    return task;
-  } catch (error) {
-    console.error('Task creation failed:', error);
-    throw error;
-  }
+    await attachTags(tx, result[0].id, input.tag_ids ?? []);
+
+    // Return the created task with its tags and derived due status
+    const [task] = await withTags(tx, result);
+    await recordTaskEvents(tx, ownerId, 'created', [{ before: null, after: task }]);
+    return toTask(task);
+  });
 };
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { db } from '../db';
+import { webhooksTable } from '../db/schema';
+import { type CreatedWebhook, type CreateWebhookInput } from '../schema';
+import { assertPublicWebhookUrl, generateWebhookSecret, toWebhook } from '../utils/webhooks';
+
+// The secret comes back only here; receivers need it to check the X-Webhook-Signature header
+export const createWebhook = async (input: CreateWebhookInput, ownerId: number): Promise<CreatedWebhook> => {
+  await assertPublicWebhookUrl(input.url);
+
+  const result = await db.insert(webhooksTable)
+    .values({
+      owner_id: ownerId,
+      url: input.url,
+      secret: input.secret ?? generateWebhookSecret(),
+      events: [...new Set(input.events)]
+    })
+    .returning()
+    .execute();
+
+  return { ...toWebhook(result[0]), secret: result[0].secret };
+};
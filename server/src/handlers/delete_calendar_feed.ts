@@ -0,0 +1,12 @@
+import { db } from '../db';
+import { calendarFeedsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+
+// Turn the calendar subscription off; subscribed calendars get 404s from then on
+export const deleteCalendarFeed = async (ownerId: number): Promise<{ success: boolean }> => {
+  const result = await db.delete(calendarFeedsTable)
+    .where(eq(calendarFeedsTable.user_id, ownerId))
+    .execute();
+
+  return { success: (result.rowCount ?? 0) > 0 };
+};
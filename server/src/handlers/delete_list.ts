@@ -0,0 +1,40 @@
+import { db } from '../db';
+import { listsTable, tasksTable } from '../db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { type DeleteListInput } from '../schema';
+import { recordTaskEvents } from '../utils/task_events';
+import { NotFoundError } from '../errors';
+
+export const deleteList = async (input: DeleteListInput, ownerId: number): Promise<{ success: boolean }> => {
+  return await db.transaction(async (tx) => {
+    if (input.delete_tasks) {
+      // The list's tasks go to the trash, so they can still be restored to the Inbox
+      const deleted = await tx.update(tasksTable)
+        .set({ deleted_at: new Date() })
+        .where(and(
+          eq(tasksTable.list_id, input.id),
+          eq(tasksTable.owner_id, ownerId),
+          isNull(tasksTable.deleted_at)
+        ))
+        .returning()
+        .execute();
+
+      await recordTaskEvents(tx, ownerId, 'deleted', deleted.map(row => ({
+        before: { ...row, deleted_at: null },
+        after: row
+      })));
+    }
+
+    // Remaining tasks fall back to the Inbox through the ON DELETE SET NULL foreign key
+    const result = await tx.delete(listsTable)
+      .where(and(eq(listsTable.id, input.id), eq(listsTable.owner_id, ownerId)))
+      .execute();
+
+    // Throwing rolls back any tasks moved to the trash above
+    if ((result.rowCount ?? 0) === 0) {
+      throw new NotFoundError('list', input.id);
+    }
+
+    return { success: true };
+  });
+};
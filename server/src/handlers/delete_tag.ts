@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { type DeleteTagInput } from '../schema';
+import { NotFoundError } from '../errors';
+
+export const deleteTag = async (input: DeleteTagInput, ownerId: number): Promise<{ success: boolean }> => {
+  // Tasks keep existing; their links to the tag go with it through ON DELETE CASCADE
+  const result = await db.delete(tagsTable)
+    .where(and(eq(tagsTable.id, input.id), eq(tagsTable.owner_id, ownerId)))
+    .execute();
+
+  if ((result.rowCount ?? 0) === 0) {
+    throw new NotFoundError('tag', input.id);
+  }
+
+  return { success: true };
+};
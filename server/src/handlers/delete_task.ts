@@ -1,19 +1,42 @@
-import { db } from '../db';
+import { db, type DbExecutor } from '../db';
 import { tasksTable } from '../db/schema';
-import { eq } from 'drizzle-orm';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
 import { type DeleteTaskInput } from '../schema';
+import { getDescendantIds } from '../utils/task_tree';
+import { recordTaskEvents } from '../utils/task_events';
+import { NotFoundError } from '../errors';
 
-export const deleteTask = async (input: DeleteTaskInput): Promise<{ success: boolean }> => {
-  try {
-    // Delete task by ID
-    const result = await db.delete(tasksTable)
-      .where(eq(tasksTable.id, input.id))
+// Pass a transaction as `executor` to make the deletion part of a larger one
+export const deleteTask = async (input: DeleteTaskInput, ownerId: number, executor: DbExecutor = db): Promise<{ success: boolean }> => {
+  return await executor.transaction(async (tx) => {
+    const now = new Date();
+
+    // Move the task to the trash - only the owner's own tasks match
+    const result = await tx.update(tasksTable)
+      .set({ deleted_at: now })
+      .where(and(eq(tasksTable.id, input.id), eq(tasksTable.owner_id, ownerId), isNull(tasksTable.deleted_at)))
+      .returning()
       .execute();
 
-    // Check if any rows were affected (task existed and was deleted)
-    return { success: (result.rowCount ?? 0) > 0 };
-  } catch (error) {
-    console.error('Task deletion failed:', error);
-    throw error;
-  }
-};
\ No newline at end of file
+    if (result.length === 0) {
+      throw new NotFoundError('task', input.id);
+    }
+
+    // Subtasks go with it, stamped with the same time so they are restored together
+    const descendantIds = await getDescendantIds(tx, input.id);
+    const deleted = descendantIds.length > 0
+      ? await tx.update(tasksTable)
+        .set({ deleted_at: now })
+        .where(and(inArray(tasksTable.id, descendantIds), isNull(tasksTable.deleted_at)))
+        .returning()
+        .execute()
+      : [];
+
+    await recordTaskEvents(tx, ownerId, 'deleted', [...result, ...deleted].map(row => ({
+      before: { ...row, deleted_at: null },
+      after: row
+    })));
+
+    return { success: true };
+  });
+};
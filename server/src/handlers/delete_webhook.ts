@@ -0,0 +1,18 @@
+import { db } from '../db';
+import { webhooksTable } from '../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { type DeleteWebhookInput } from '../schema';
+import { NotFoundError } from '../errors';
+
+export const deleteWebhook = async (input: DeleteWebhookInput, ownerId: number): Promise<{ success: boolean }> => {
+  // Queued and past deliveries go with it through ON DELETE CASCADE
+  const result = await db.delete(webhooksTable)
+    .where(and(eq(webhooksTable.id, input.id), eq(webhooksTable.owner_id, ownerId)))
+    .execute();
+
+  if ((result.rowCount ?? 0) === 0) {
+    throw new NotFoundError('webhook', input.id);
+  }
+
+  return { success: true };
+};
@@ -0,0 +1,142 @@
+import { db } from '../db';
+import { webhookDeliveriesTable, webhooksTable, type WebhookDelivery as DeliveryRow } from '../db/schema';
+import { and, asc, eq, inArray, isNull, lt, lte, or } from 'drizzle-orm';
+import { isPublicAddress, postToAddresses, resolveWebhookTarget, signWebhookPayload, webhookRetryDelayMs, type AddressLookup } from '../utils/webhooks';
+import { WEBHOOK_ALLOW_PRIVATE_TARGETS, WEBHOOK_MAX_ATTEMPTS, WEBHOOK_TIMEOUT_SECONDS } from '../config';
+import { logger } from '../utils/logger';
+
+// Most deliveries one run sends; the rest wait for the next run
+const BATCH_SIZE = 50;
+
+// Extra time a claimed delivery stays hidden from other workers beyond the request timeout
+const CLAIM_MARGIN_MS = 60 * 1000;
+
+interface DeliveryOptions {
+  allowPrivateTargets?: boolean;
+  lookupHost?: AddressLookup; // DNS by default
+}
+
+interface AttemptResult {
+  response_status: number | null;
+  error: string | null; // null when the receiver accepted the delivery
+}
+
+// Take the next delivery of an active webhook that is due at `now` and wasn't tried since
+// `startedAt`. Its next attempt is pushed past the request timeout, so other server processes
+// skip it while it is sent and it comes due again should this one die halfway
+const claimNextDelivery = async (now: Date, startedAt: Date): Promise<DeliveryRow | null> => {
+  const due = db.select({ id: webhookDeliveriesTable.id })
+    .from(webhookDeliveriesTable)
+    .innerJoin(webhooksTable, eq(webhooksTable.id, webhookDeliveriesTable.webhook_id))
+    .where(and(
+      eq(webhookDeliveriesTable.status, 'pending'),
+      lte(webhookDeliveriesTable.next_attempt_at, now),
+      or(isNull(webhookDeliveriesTable.last_attempt_at), lt(webhookDeliveriesTable.last_attempt_at, startedAt)),
+      eq(webhooksTable.active, true)
+    ))
+    .orderBy(asc(webhookDeliveriesTable.next_attempt_at), asc(webhookDeliveriesTable.id))
+    .limit(1)
+    .for('update', { of: webhookDeliveriesTable, skipLocked: true });
+
+  const claimed = await db.update(webhookDeliveriesTable)
+    .set({ next_attempt_at: new Date(Date.now() + WEBHOOK_TIMEOUT_SECONDS * 1000 + CLAIM_MARGIN_MS) })
+    .where(inArray(webhookDeliveriesTable.id, due))
+    .returning()
+    .execute();
+
+  return claimed[0] ?? null;
+};
+
+// POST the payload with its signature; a 2xx answer counts as delivered, anything else (redirects
+// included, they aren't followed) as a failure. The host is resolved again first, since its DNS
+// may have changed since the webhook was saved, and the request goes to exactly the addresses
+// checked. Only the status of the answer is kept: its body could be anything the receiver, or a
+// host it fronts for, returned
+const attemptDelivery = async (
+  url: string,
+  secret: string,
+  delivery: DeliveryRow,
+  { allowPrivateTargets, lookupHost }: DeliveryOptions
+): Promise<AttemptResult> => {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    const addresses = await resolveWebhookTarget(url, lookupHost);
+    if (addresses.length === 0 || (!allowPrivateTargets && !addresses.every(isPublicAddress))) {
+      return { response_status: null, error: 'Refused: the URL does not resolve to a public internet address' };
+    }
+
+    const status = await postToAddresses(url, addresses, {
+      'Content-Type': 'application/json',
+      'User-Agent': 'app-build-webhooks/1.0',
+      'X-Webhook-Id': delivery.payload.id,
+      'X-Webhook-Event': delivery.event,
+      'X-Webhook-Delivery': String(delivery.id),
+      'X-Webhook-Timestamp': String(timestamp),
+      'X-Webhook-Signature': signWebhookPayload(secret, timestamp, body)
+    }, body, WEBHOOK_TIMEOUT_SECONDS * 1000);
+
+    const ok = status >= 200 && status < 300;
+    return { response_status: status, error: ok ? null : `HTTP ${status}` };
+  } catch (error) {
+    return { response_status: null, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// Background job: send every delivery that is due at `now`, one at a time and at most once per run.
+// Failures are retried with exponential backoff until WEBHOOK_MAX_ATTEMPTS, after which the
+// delivery is dead-lettered. Non-public targets are refused unless `allowPrivateTargets`
+export const deliverWebhooks = async (
+  now: Date = new Date(),
+  { allowPrivateTargets = WEBHOOK_ALLOW_PRIVATE_TARGETS, lookupHost }: DeliveryOptions = {}
+): Promise<{ delivered: number; retrying: number; dead: number }> => {
+  const startedAt = new Date();
+  const counts = { delivered: 0, retrying: 0, dead: 0 };
+
+  for (let sent = 0; sent < BATCH_SIZE; sent++) {
+    const delivery = await claimNextDelivery(now, startedAt);
+    if (!delivery) {
+      break;
+    }
+
+    const webhooks = await db.select({ url: webhooksTable.url, secret: webhooksTable.secret })
+      .from(webhooksTable)
+      .where(eq(webhooksTable.id, delivery.webhook_id))
+      .execute();
+    if (webhooks.length === 0) {
+      continue; // Deleted since it was claimed; its deliveries went with it
+    }
+
+    const result = await attemptDelivery(webhooks[0].url, webhooks[0].secret, delivery, { allowPrivateTargets, lookupHost });
+    const attemptedAt = new Date();
+    const attempts = delivery.attempts + 1;
+    const outcome: Partial<typeof webhookDeliveriesTable.$inferInsert> = result.error === null
+      ? { status: 'delivered', next_attempt_at: null, delivered_at: attemptedAt }
+      : attempts >= WEBHOOK_MAX_ATTEMPTS
+        ? { status: 'dead', next_attempt_at: null }
+        : { status: 'pending', next_attempt_at: new Date(attemptedAt.getTime() + webhookRetryDelayMs(attempts)) };
+
+    await db.update(webhookDeliveriesTable)
+      .set({
+        ...outcome,
+        attempts,
+        last_attempt_at: attemptedAt,
+        response_status: result.response_status,
+        last_error: result.error
+      })
+      .where(eq(webhookDeliveriesTable.id, delivery.id))
+      .execute();
+
+    if (outcome.status === 'dead') {
+      logger.warn('Webhook delivery dead-lettered', {
+        delivery_id: delivery.id,
+        webhook_id: delivery.webhook_id,
+        attempts,
+        last_error: result.error
+      });
+    }
+    counts[outcome.status === 'delivered' ? 'delivered' : outcome.status === 'dead' ? 'dead' : 'retrying']++;
+  }
+
+  return counts;
+};
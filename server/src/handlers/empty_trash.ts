@@ -0,0 +1,12 @@
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { and, eq, isNotNull } from 'drizzle-orm';
+
+export const emptyTrash = async (ownerId: number): Promise<{ deleted: number }> => {
+  // Permanently remove everything in the user's trash; tags links go with the tasks
+  const result = await db.delete(tasksTable)
+    .where(and(eq(tasksTable.owner_id, ownerId), isNotNull(tasksTable.deleted_at)))
+    .execute();
+
+  return { deleted: result.rowCount ?? 0 };
+};
@@ -0,0 +1,63 @@
+import { db } from '../db';
+import { listsTable, tasksTable } from '../db/schema';
+import { and, asc, eq, isNull, sql } from 'drizzle-orm';
+import { type ExportTasksInput, type PortableTask, type TaskExport } from '../schema';
+import { getTagsForTasks } from '../utils/task_tags';
+import { parseRRule } from '../utils/recurrence';
+import { serializeTasks, taskFileTypes } from '../utils/task_files';
+
+export const exportTasks = async (input: ExportTasksInput, ownerId: number): Promise<TaskExport> => {
+  const rows = await db.select()
+    .from(tasksTable)
+    .where(and(eq(tasksTable.owner_id, ownerId), isNull(tasksTable.deleted_at)))
+    .orderBy(sql`${tasksTable.position} collate "C"`, asc(tasksTable.id))
+    .execute();
+
+  const lists = await db.select({ id: listsTable.id, name: listsTable.name })
+    .from(listsTable)
+    .where(eq(listsTable.owner_id, ownerId))
+    .execute();
+  const listNames = new Map(lists.map(list => [list.id, list.name]));
+  const tagsByTask = await getTagsForTasks(db, rows.map(row => row.id));
+
+  // Rebuild the tree; the rows are already in manual order, so children come out sorted
+  const children = new Map<number | null, typeof rows>();
+  for (const row of rows) {
+    children.set(row.parent_id, [...(children.get(row.parent_id) ?? []), row]);
+  }
+
+  let count = 0;
+  // Completed tasks are left out together with everything below them
+  const build = (parentId: number | null): PortableTask[] => (children.get(parentId) ?? [])
+    .filter(row => input.include_completed || !row.completed)
+    .map(row => {
+      count++;
+      return {
+        title: row.title,
+        description: row.description,
+        completed: row.completed,
+        priority: row.priority,
+        due_date: row.due_date,
+        due_time: row.due_time,
+        due_timezone: row.due_timezone,
+        recurrence: row.recurrence ? parseRRule(row.recurrence) : null,
+        list: parentId === null && row.list_id !== null ? listNames.get(row.list_id) ?? null : null,
+        tags: (tagsByTask.get(row.id) ?? []).map(tag => tag.name),
+        subtasks: build(row.id)
+      };
+    });
+
+  // Subtasks always share their parent's list, so the scope only applies to top-level tasks
+  const inScope = (task: typeof rows[number]) => input.list_id === undefined || task.list_id === input.list_id;
+  children.set(null, (children.get(null) ?? []).filter(inScope));
+  const tasks = build(null);
+
+  const now = new Date();
+  const { extension, content_type } = taskFileTypes[input.format];
+  return {
+    filename: `tasks-${now.toISOString().slice(0, 10)}.${extension}`,
+    content_type,
+    content: serializeTasks(input.format, tasks, now),
+    count
+  };
+};
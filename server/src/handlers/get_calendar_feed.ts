@@ -0,0 +1,13 @@
+import { db } from '../db';
+import { calendarFeedsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { type CalendarFeed } from '../schema';
+
+export const getCalendarFeed = async (ownerId: number): Promise<CalendarFeed> => {
+  const feeds = await db.select({ created_at: calendarFeedsTable.created_at })
+    .from(calendarFeedsTable)
+    .where(eq(calendarFeedsTable.user_id, ownerId))
+    .execute();
+
+  return { enabled: feeds.length > 0, created_at: feeds[0]?.created_at ?? null };
+};
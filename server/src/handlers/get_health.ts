@@ -0,0 +1,21 @@
+import { checkPool, type PoolStatus } from '../db';
+import { ServiceUnavailableError } from '../errors';
+import { logger } from '../utils/logger';
+
+export interface Health {
+  status: 'ok';
+  timestamp: string;
+  database: PoolStatus;
+}
+
+// Liveness of the server and its database; an unreachable database makes the check fail with
+// SERVICE_UNAVAILABLE, so probes like `curl -f` see a 503
+export const getHealth = async (): Promise<Health> => {
+  try {
+    const database = await checkPool();
+    return { status: 'ok', timestamp: new Date().toISOString(), database };
+  } catch (error) {
+    logger.error('Health check failed', { error });
+    throw new ServiceUnavailableError('Database unavailable');
+  }
+};
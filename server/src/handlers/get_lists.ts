@@ -0,0 +1,21 @@
+import { db } from '../db';
+import { listsTable, tasksTable } from '../db/schema';
+import { type ListWithCounts } from '../schema';
+import { and, asc, count, eq, getTableColumns, isNull, sql } from 'drizzle-orm';
+
+export const getLists = async (ownerId: number): Promise<ListWithCounts[]> => {
+  // Left join so empty lists still appear with zero counts; tasks in the trash don't count
+  const results = await db.select({
+    ...getTableColumns(listsTable),
+    task_count: count(tasksTable.id),
+    completed_count: count(sql`case when ${tasksTable.completed} then 1 end`)
+  })
+    .from(listsTable)
+    .leftJoin(tasksTable, and(eq(tasksTable.list_id, listsTable.id), isNull(tasksTable.deleted_at)))
+    .where(eq(listsTable.owner_id, ownerId))
+    .groupBy(listsTable.id)
+    .orderBy(asc(listsTable.name), asc(listsTable.id))
+    .execute();
+
+  return results;
+};
@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { and, eq, gt } from 'drizzle-orm';
+import { type User } from '../schema';
+import { hashSessionToken, toUser } from '../utils/auth';
+
+// Resolve a bearer token to its user, or null when the session is unknown or expired
+export const getSessionUser = async (token: string): Promise<User | null> => {
+  const result = await db.select()
+    .from(sessionsTable)
+    .innerJoin(usersTable, eq(sessionsTable.user_id, usersTable.id))
+    .where(and(
+      eq(sessionsTable.token_hash, hashSessionToken(token)),
+      gt(sessionsTable.expires_at, new Date())
+    ))
+    .execute();
+
+  if (result.length === 0) {
+    return null;
+  }
+
+  return toUser(result[0].users);
+};
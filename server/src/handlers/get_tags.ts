@@ -0,0 +1,21 @@
+import { db } from '../db';
+import { tagsTable, tasksTable, taskTagsTable } from '../db/schema';
+import { type TagWithCount } from '../schema';
+import { and, asc, count, eq, getTableColumns, isNull } from 'drizzle-orm';
+
+export const getTags = async (ownerId: number): Promise<TagWithCount[]> => {
+  // Left join so unused tags still appear with a zero count; tasks in the trash don't count
+  const results = await db.select({
+    ...getTableColumns(tagsTable),
+    task_count: count(tasksTable.id)
+  })
+    .from(tagsTable)
+    .leftJoin(taskTagsTable, eq(taskTagsTable.tag_id, tagsTable.id))
+    .leftJoin(tasksTable, and(eq(tasksTable.id, taskTagsTable.task_id), isNull(tasksTable.deleted_at)))
+    .where(eq(tagsTable.owner_id, ownerId))
+    .groupBy(tagsTable.id)
+    .orderBy(asc(tagsTable.name), asc(tagsTable.id))
+    .execute();
+
+  return results;
+};
@@ -0,0 +1,21 @@
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { and, eq, isNull } from 'drizzle-orm';
+import { type GetTaskInput, type Task } from '../schema';
+import { toTask } from '../utils/due_status';
+import { withTags } from '../utils/task_tags';
+
+// A single task, or null when it doesn't exist, isn't the caller's or is in the trash
+export const getTask = async (input: GetTaskInput, ownerId: number): Promise<Task | null> => {
+  const rows = await db.select()
+    .from(tasksTable)
+    .where(and(eq(tasksTable.id, input.id), eq(tasksTable.owner_id, ownerId), isNull(tasksTable.deleted_at)))
+    .execute();
+
+  if (rows.length === 0) {
+    return null;
+  }
+
+  const [task] = await withTags(db, rows);
+  return toTask(task);
+};
@@ -0,0 +1,24 @@
+import { db } from '../db';
+import { taskEventsTable, tasksTable } from '../db/schema';
+import { and, desc, eq } from 'drizzle-orm';
+import { type GetTaskHistoryInput, type TaskEvent } from '../schema';
+import { NotFoundError } from '../errors';
+
+export const getTaskHistory = async (input: GetTaskHistoryInput, ownerId: number): Promise<TaskEvent[]> => {
+  // History is readable for the owner's tasks, including ones in the trash
+  const tasks = await db.select({ id: tasksTable.id })
+    .from(tasksTable)
+    .where(and(eq(tasksTable.id, input.task_id), eq(tasksTable.owner_id, ownerId)))
+    .execute();
+
+  if (tasks.length === 0) {
+    throw new NotFoundError('task', input.task_id);
+  }
+
+  // Newest first; events written in one statement share a timestamp, so fall back to insertion order
+  return await db.select()
+    .from(taskEventsTable)
+    .where(eq(taskEventsTable.task_id, input.task_id))
+    .orderBy(desc(taskEventsTable.created_at), desc(taskEventsTable.id))
+    .execute();
+};
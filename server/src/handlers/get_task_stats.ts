@@ -0,0 +1,23 @@
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { type TaskStats } from '../schema';
+import { and, count, eq, isNull, sql } from 'drizzle-orm';
+
+// Wall-clock "now" in each task's own timezone, mirroring getDueStatus
+const localNow = sql`(now() at time zone coalesce(${tasksTable.due_timezone}, 'UTC'))`;
+
+export const getTaskStats = async (ownerId: number): Promise<TaskStats> => {
+  const result = await db.select({
+    total: count(),
+    completed: count(sql`case when ${tasksTable.completed} then 1 end`),
+    overdue: count(sql`case when not ${tasksTable.completed} and (
+      ${tasksTable.due_date} < ${localNow}::date
+      or (${tasksTable.due_date} = ${localNow}::date and ${tasksTable.due_time} < ${localNow}::time)
+    ) then 1 end`)
+  })
+    .from(tasksTable)
+    .where(and(eq(tasksTable.owner_id, ownerId), isNull(tasksTable.deleted_at)))
+    .execute();
+
+  return result[0];
+};
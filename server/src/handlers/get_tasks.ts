@@ -1,20 +1,154 @@
 import { db } from '../db';
-import { tasksTable } from '../db/schema';
-import { type Task } from '../schema';
-import { desc } from 'drizzle-orm';
-
-export const getTasks = async (): Promise<Task[]> => {
-  try {
-    // Fetch all tasks, ordered by creation date (newest first)
-    const results = await db.select()
-      .from(tasksTable)
-      .orderBy(desc(tasksTable.created_at))
-      .execute();
-
-    // Return the results directly - no numeric conversion needed for this schema
-    return results;
-  } catch (error) {
-    console.error('Failed to fetch tasks:', error);
-    throw error;
-  }
-};
\ No newline at end of file
+import { tasksTable, taskTagsTable } from '../db/schema';
+import { type GetTasksInput, type TaskPage, taskPriorities } from '../schema';
+import { and, asc, desc, eq, exists, gte, ilike, inArray, isNull, lte, notExists, or, sql, getTableColumns, type SQL, type AnyColumn } from 'drizzle-orm';
+import { toTask } from '../utils/due_status';
+import { decodeCursor, encodeCursor } from '../utils/cursor';
+import { getSubtaskProgress } from '../utils/task_tree';
+import { withTags } from '../utils/task_tags';
+import { ValidationError } from '../errors';
+
+// Smart ordering packed into one text key so it pages like any other column:
+// priority rank, due date and time (undated last), then creation time (oldest first).
+// Compared bytewise so the punctuation in dates and times can't be reordered by the locale.
+const smartSortKey = sql`(
+  (case ${tasksTable.priority}
+    ${sql.join(
+      [...taskPriorities].reverse().map((priority, rank) => sql`when ${priority} then ${String(rank)}`),
+      sql` `
+    )}
+  end)
+  || coalesce(${tasksTable.due_date}::text, '9999-12-31')
+  || coalesce(${tasksTable.due_time}::text, '99:99:99')
+  || to_char(${tasksTable.created_at}, 'YYYY-MM-DD"T"HH24:MI:SS.US')
+) collate "C"`;
+
+// Column backing each sort key; "manual" is the user's drag-and-drop order
+const sortColumns: Record<GetTasksInput['sort'], AnyColumn | SQL> = {
+  created: tasksTable.created_at,
+  updated: tasksTable.updated_at,
+  title: tasksTable.title,
+  manual: sql`${tasksTable.position} collate "C"`,
+  smart: smartSortKey
+};
+
+// Postgres type each sort key's cursor value is cast back to
+const cursorCasts: Record<GetTasksInput['sort'], SQL> = {
+  created: sql`timestamp`,
+  updated: sql`timestamp`,
+  title: sql`text`,
+  manual: sql`text`,
+  smart: sql`text`
+};
+
+// Escape LIKE wildcards so the query is matched literally
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, '\\$&');
+
+// Links between the outer task row and any of the given tags
+const tagLinks = (tagIds: number[]) =>
+  and(eq(taskTagsTable.task_id, tasksTable.id), inArray(taskTagsTable.tag_id, tagIds));
+
+export const getTasks = async (input: GetTasksInput, ownerId: number): Promise<TaskPage> => {
+  const sortColumn = sortColumns[input.sort];
+  // Callers only ever see their own tasks, and never the ones in the trash
+  const conditions: SQL<unknown>[] = [eq(tasksTable.owner_id, ownerId), isNull(tasksTable.deleted_at)];
+
+  // Top-level tasks by default, or the direct subtasks of one task
+  conditions.push(input.parent_id === null
+    ? isNull(tasksTable.parent_id)
+    : eq(tasksTable.parent_id, input.parent_id));
+
+  if (input.list_id === null) {
+    conditions.push(isNull(tasksTable.list_id));
+  } else if (input.list_id !== undefined) {
+    conditions.push(eq(tasksTable.list_id, input.list_id));
+  }
+
+  if (input.completed !== undefined) {
+    conditions.push(eq(tasksTable.completed, input.completed));
+  }
+
+  if (input.query) {
+    const pattern = `%${escapeLike(input.query)}%`;
+    conditions.push(or(
+      ilike(tasksTable.title, pattern),
+      ilike(tasksTable.description, pattern)
+    )!);
+  }
+
+  // Tag filters: any-of, all-of and none-of the given tag ids
+  if (input.tags_any) {
+    conditions.push(exists(db.select({ one: sql`1` }).from(taskTagsTable).where(tagLinks(input.tags_any))));
+  }
+  if (input.tags_all) {
+    const tagIds = [...new Set(input.tags_all)];
+    const linkCount = db.select({ count: sql`count(*)` }).from(taskTagsTable).where(tagLinks(tagIds));
+    conditions.push(sql`(${linkCount}) = ${tagIds.length}`);
+  }
+  if (input.tags_none) {
+    conditions.push(notExists(db.select({ one: sql`1` }).from(taskTagsTable).where(tagLinks(input.tags_none))));
+  }
+
+  if (input.created_after) {
+    conditions.push(gte(tasksTable.created_at, input.created_after));
+  }
+  if (input.created_before) {
+    conditions.push(lte(tasksTable.created_at, input.created_before));
+  }
+  if (input.updated_after) {
+    conditions.push(gte(tasksTable.updated_at, input.updated_after));
+  }
+  if (input.updated_before) {
+    conditions.push(lte(tasksTable.updated_at, input.updated_before));
+  }
+
+  if (input.cursor) {
+    const cursor = decodeCursor(input.cursor);
+    if (cursor.sort !== input.sort || cursor.direction !== input.direction) {
+      throw new ValidationError('Cursor does not match the requested sort order', 'cursor');
+    }
+    // Row comparison keeps (sort value, id) pairs strictly after the previous page
+    const cursorValue = sql`cast(${cursor.value} as ${cursorCasts[input.sort]})`;
+    const comparison = input.direction === 'asc' ? sql`>` : sql`<`;
+    conditions.push(sql`(${sortColumn}, ${tasksTable.id}) ${comparison} (${input.sort === 'smart' || input.sort === 'manual' ? sql`${cursorValue} collate "C"` : cursorValue}, ${cursor.id})`);
+  }
+
+  const order = input.direction === 'asc' ? asc : desc;
+
+  // Fetch one extra row to know whether another page exists
+  const rows = await db.select({
+    ...getTableColumns(tasksTable),
+    sort_value: sql<string>`(${sortColumn})::text`
+  })
+    .from(tasksTable)
+    .where(and(...conditions))
+    .orderBy(order(sortColumn), order(tasksTable.id))
+    .limit(input.limit + 1)
+    .execute();
+
+  const hasMore = rows.length > input.limit;
+  const pageRows = hasMore ? rows.slice(0, input.limit) : rows;
+  const last = pageRows[pageRows.length - 1];
+
+  // Roll up subtask progress and load tags for the tasks on this page
+  const progress = await getSubtaskProgress(db, pageRows.map(row => row.id));
+  const taggedRows = await withTags(db, pageRows);
+
+  // Attach the overdue / due-today / upcoming grouping, evaluated at a single instant
+  const now = new Date();
+  return {
+    items: taggedRows.map(({ sort_value, ...row }) => ({
+      ...toTask(row, now),
+      subtask_count: progress.get(row.id)?.total ?? 0,
+      completed_subtask_count: progress.get(row.id)?.completed ?? 0
+    })),
+    next_cursor: hasMore && last
+      ? encodeCursor({
+        sort: input.sort,
+        direction: input.direction,
+        value: last.sort_value,
+        id: last.id
+      })
+      : null
+  };
+};
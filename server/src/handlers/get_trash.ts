@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { type TrashItem } from '../schema';
+import { and, desc, eq, isNotNull, isNull, notExists, or } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { toTask } from '../utils/due_status';
+import { withTags } from '../utils/task_tags';
+import { purgeDate } from '../utils/trash';
+
+const parents = alias(tasksTable, 'parents');
+
+export const getTrash = async (ownerId: number): Promise<TrashItem[]> => {
+  // Subtasks deleted along with their parent are restored through it, so only list the top of each deleted tree
+  const rows = await db.select()
+    .from(tasksTable)
+    .where(and(
+      eq(tasksTable.owner_id, ownerId),
+      isNotNull(tasksTable.deleted_at),
+      or(
+        isNull(tasksTable.parent_id),
+        notExists(db.select({ id: parents.id })
+          .from(parents)
+          .where(and(eq(parents.id, tasksTable.parent_id), isNotNull(parents.deleted_at))))
+      )
+    ))
+    .orderBy(desc(tasksTable.deleted_at), desc(tasksTable.id))
+    .execute();
+
+  const now = new Date();
+  const taggedRows = await withTags(db, rows);
+  return taggedRows.map(row => ({
+    ...toTask(row, now),
+    purge_at: purgeDate(row.deleted_at!)
+  }));
+};
@@ -0,0 +1,35 @@
+import { db } from '../db';
+import { webhookDeliveriesTable, webhooksTable } from '../db/schema';
+import { and, desc, eq, getTableColumns, type SQL } from 'drizzle-orm';
+import { type GetWebhookDeliveriesInput, type WebhookDelivery } from '../schema';
+import { NotFoundError } from '../errors';
+
+// Recent deliveries with their payloads and the outcome of the last attempt, for debugging receivers
+export const getWebhookDeliveries = async (input: GetWebhookDeliveriesInput, ownerId: number): Promise<WebhookDelivery[]> => {
+  const conditions: SQL[] = [eq(webhooksTable.owner_id, ownerId)];
+
+  if (input.webhook_id !== undefined) {
+    const webhooks = await db.select({ id: webhooksTable.id })
+      .from(webhooksTable)
+      .where(and(eq(webhooksTable.id, input.webhook_id), eq(webhooksTable.owner_id, ownerId)))
+      .execute();
+
+    if (webhooks.length === 0) {
+      throw new NotFoundError('webhook', input.webhook_id);
+    }
+    conditions.push(eq(webhookDeliveriesTable.webhook_id, input.webhook_id));
+  }
+
+  if (input.status !== undefined) {
+    conditions.push(eq(webhookDeliveriesTable.status, input.status));
+  }
+
+  // Newest first; deliveries queued by one change share a timestamp, so fall back to insertion order
+  return await db.select(getTableColumns(webhookDeliveriesTable))
+    .from(webhookDeliveriesTable)
+    .innerJoin(webhooksTable, eq(webhooksTable.id, webhookDeliveriesTable.webhook_id))
+    .where(and(...conditions))
+    .orderBy(desc(webhookDeliveriesTable.created_at), desc(webhookDeliveriesTable.id))
+    .limit(input.limit)
+    .execute();
+};
@@ -0,0 +1,15 @@
+import { db } from '../db';
+import { webhooksTable } from '../db/schema';
+import { asc, eq } from 'drizzle-orm';
+import { type Webhook } from '../schema';
+import { toWebhook } from '../utils/webhooks';
+
+export const getWebhooks = async (ownerId: number): Promise<Webhook[]> => {
+  const results = await db.select()
+    .from(webhooksTable)
+    .where(eq(webhooksTable.owner_id, ownerId))
+    .orderBy(asc(webhooksTable.created_at), asc(webhooksTable.id))
+    .execute();
+
+  return results.map(toWebhook);
+};
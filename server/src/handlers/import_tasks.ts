@@ -0,0 +1,215 @@
+import { db, type DbExecutor } from '../db';
+import { listsTable, tagsTable, tasksTable } from '../db/schema';
+import { and, asc, eq, isNull, sql } from 'drizzle-orm';
+import { type ImportItem, type ImportReport, type ImportTasksInput } from '../schema';
+import { parseTaskFile, type PortableTaskFields } from '../utils/task_files';
+import { IMPORT_MAX_TASKS } from '../config';
+import { DomainError, NotFoundError, ValidationError } from '../errors';
+import { createList } from './create_list';
+import { createTag } from './create_tag';
+import { createTask } from './create_task';
+import { reorderTask } from './reorder_task';
+import { updateTask } from './update_task';
+
+// Thrown once a dry run has its report, to roll back everything it did
+class DryRunRollback extends Error {
+  constructor(public readonly report: ImportReport) {
+    super('Dry run rolled back');
+  }
+}
+
+const importEntries = async (
+  tx: DbExecutor,
+  input: ImportTasksInput,
+  ownerId: number
+): Promise<ImportReport> => {
+  const entries = parseTaskFile(input.format, input.content, input.column_map);
+  if (entries.length > IMPORT_MAX_TASKS) {
+    throw new ValidationError(`An import can contain at most ${IMPORT_MAX_TASKS} tasks`, 'content');
+  }
+
+  // Lists and tags are matched by name, ignoring case, and created when missing
+  const listIds = new Map<string, number>();
+  const resolveList = async (name: string): Promise<number> => {
+    const key = name.toLowerCase();
+    if (!listIds.has(key)) {
+      const [existing] = await tx.select({ id: listsTable.id })
+        .from(listsTable)
+        .where(and(eq(listsTable.owner_id, ownerId), sql`lower(${listsTable.name}) = ${key}`))
+        .orderBy(asc(listsTable.id))
+        .limit(1)
+        .execute();
+      listIds.set(key, existing?.id ?? (await createList({ name }, ownerId, tx)).id);
+    }
+    return listIds.get(key)!;
+  };
+
+  const tagIds = new Map<string, number>();
+  const resolveTag = async (name: string): Promise<number> => {
+    const key = name.toLowerCase();
+    if (!tagIds.has(key)) {
+      const [existing] = await tx.select({ id: tagsTable.id })
+        .from(tagsTable)
+        .where(and(eq(tagsTable.owner_id, ownerId), sql`lower(${tagsTable.name}) = ${key}`))
+        .execute();
+      tagIds.set(key, existing?.id ?? (await createTag({ name }, ownerId, tx)).id);
+    }
+    return tagIds.get(key)!;
+  };
+
+  // A live sibling with the same title, ignoring case - including tasks imported earlier in this file
+  const findDuplicate = async (task: PortableTaskFields, parentId: number | null, listId: number | null) => {
+    const [duplicate] = await tx.select({ id: tasksTable.id })
+      .from(tasksTable)
+      .where(and(
+        eq(tasksTable.owner_id, ownerId),
+        isNull(tasksTable.deleted_at),
+        parentId !== null
+          ? eq(tasksTable.parent_id, parentId)
+          : and(isNull(tasksTable.parent_id), listId !== null ? eq(tasksTable.list_id, listId) : isNull(tasksTable.list_id)),
+        sql`lower(${tasksTable.title}) = lower(${task.title})`
+      ))
+      .orderBy(asc(tasksTable.id))
+      .limit(1)
+      .execute();
+    return duplicate ?? null;
+  };
+
+  const items: ImportItem[] = [];
+  // Task each entry ended up as, so its subtasks know where to go; null when it failed
+  const taskIds: (number | null)[] = [];
+  // Last task created under each parent, so new siblings keep the order of the file
+  const lastCreated = new Map<number | null, number>();
+  // Tasks created by this import; a dry run reports no ids for them since they are rolled back
+  const createdIds = new Set<number>();
+  const reportedId = (id: number): number | null => input.dry_run && createdIds.has(id) ? null : id;
+
+  for (const entry of entries) {
+    const parentId = entry.parent !== null ? taskIds[entry.parent] : null;
+    if (!entry.task || (entry.parent !== null && parentId === null)) {
+      taskIds.push(null);
+      items.push({
+        row: entry.row,
+        title: entry.title,
+        action: entry.task ? 'skip' : 'error',
+        task_id: null,
+        message: entry.error ?? 'Its parent task was not imported'
+      });
+      continue;
+    }
+    const task = entry.task;
+
+    try {
+      // Subtasks inherit their parent's list
+      const listId = parentId !== null
+        ? null
+        : input.list_id !== undefined ? input.list_id : task.list !== null ? await resolveList(task.list) : null;
+      const tagIdsForTask: number[] = [];
+      for (const name of task.tags) {
+        tagIdsForTask.push(await resolveTag(name));
+      }
+      const duplicate = await findDuplicate(task, parentId, listId);
+
+      if (duplicate && input.duplicates === 'skip') {
+        // Kept as the parent of the entry's subtasks, which are matched against its own
+        taskIds.push(duplicate.id);
+        items.push({ row: entry.row, title: task.title, action: 'skip', task_id: reportedId(duplicate.id), message: 'A task with this title already exists' });
+        continue;
+      }
+
+      if (duplicate && input.duplicates === 'update') {
+        // Only fields the file gives are overwritten, e.g. a Markdown checklist only carries completion
+        const has = (field: keyof PortableTaskFields) => entry.fields.includes(field);
+        const updated = await tx.transaction(savepoint => updateTask({
+          id: duplicate.id,
+          ...(has('description') && { description: task.description }),
+          ...(has('completed') && { completed: task.completed }),
+          ...(has('priority') && { priority: task.priority }),
+          ...(has('due_date') && { due_date: task.due_date }),
+          ...(task.due_date !== null && has('due_time') && { due_time: task.due_time }),
+          ...(task.due_date !== null && task.due_timezone !== null && { due_timezone: task.due_timezone }),
+          ...(task.due_date !== null && has('recurrence') && { recurrence: task.recurrence }),
+          add_tag_ids: tagIdsForTask
+        }, ownerId, savepoint));
+        taskIds.push(updated.id);
+        items.push({ row: entry.row, title: task.title, action: 'update', task_id: reportedId(updated.id), message: null });
+        continue;
+      }
+
+      const created = await tx.transaction(async (savepoint) => {
+        const { id } = await createTask({
+          title: task.title,
+          list_id: listId,
+          parent_id: parentId,
+          description: task.description,
+          tag_ids: tagIdsForTask,
+          priority: task.priority,
+          due_date: task.due_date,
+          due_time: task.due_time,
+          due_timezone: task.due_timezone,
+          recurrence: task.recurrence
+        }, ownerId, savepoint);
+        if (task.completed) {
+          await updateTask({ id, completed: true }, ownerId, savepoint);
+        }
+        // New tasks go to the top, so place each one after the sibling imported before it
+        const previous = lastCreated.get(parentId);
+        if (previous !== undefined) {
+          await reorderTask({ id, after_id: previous }, ownerId, savepoint);
+        }
+        return id;
+      });
+      lastCreated.set(parentId, created);
+      createdIds.add(created);
+      taskIds.push(created);
+      items.push({ row: entry.row, title: task.title, action: 'create', task_id: reportedId(created), message: null });
+    } catch (error) {
+      // Rows the handlers reject are reported; anything else aborts the import
+      if (!(error instanceof DomainError)) {
+        throw error;
+      }
+      taskIds.push(null);
+      items.push({ row: entry.row, title: task.title, action: 'error', task_id: null, message: error.message });
+    }
+  }
+
+  const count = (action: ImportItem['action']) => items.filter(item => item.action === action).length;
+  return {
+    dry_run: input.dry_run,
+    created: count('create'),
+    updated: count('update'),
+    skipped: count('skip'),
+    failed: count('error'),
+    items
+  };
+};
+
+// Everything is imported in one transaction, each task in its own savepoint so a bad row
+// doesn't stop the rest. A dry run does all the same work and then rolls it back.
+export const importTasks = async (input: ImportTasksInput, ownerId: number): Promise<ImportReport> => {
+  if (input.list_id != null) {
+    const lists = await db.select({ id: listsTable.id })
+      .from(listsTable)
+      .where(and(eq(listsTable.id, input.list_id), eq(listsTable.owner_id, ownerId)))
+      .execute();
+
+    if (lists.length === 0) {
+      throw new NotFoundError('list', input.list_id);
+    }
+  }
+
+  try {
+    return await db.transaction(async (tx) => {
+      const report = await importEntries(tx, input, ownerId);
+      if (input.dry_run) {
+        throw new DryRunRollback(report);
+      }
+      return report;
+    });
+  } catch (error) {
+    if (error instanceof DryRunRollback) {
+      return error.report;
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { tagsTable, taskTagsTable } from '../db/schema';
+import { and, eq, sql } from 'drizzle-orm';
+import { type MergeTagsInput, type Tag } from '../schema';
+import { assertTagsOwned } from '../utils/task_tags';
+
+export const mergeTags = async (input: MergeTagsInput, ownerId: number): Promise<Tag> => {
+  await assertTagsOwned(db, [input.source_id, input.target_id], ownerId);
+
+  return await db.transaction(async (tx) => {
+    // Re-point the source tag's tasks at the target, skipping tasks that already carry both
+    await tx.execute(sql`
+      insert into ${taskTagsTable} (task_id, tag_id)
+      select task_id, ${input.target_id} from ${taskTagsTable} where tag_id = ${input.source_id}
+      on conflict do nothing
+    `);
+
+    // Removing the source tag drops its remaining links through ON DELETE CASCADE
+    await tx.delete(tagsTable)
+      .where(and(eq(tagsTable.id, input.source_id), eq(tagsTable.owner_id, ownerId)))
+      .execute();
+
+    const result = await tx.update(tagsTable)
+      .set({ updated_at: new Date() })
+      .where(eq(tagsTable.id, input.target_id))
+      .returning()
+      .execute();
+
+    return result[0];
+  });
+};
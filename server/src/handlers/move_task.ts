@@ -0,0 +1,65 @@
+import { db, type DbExecutor } from '../db';
+import { listsTable, tasksTable } from '../db/schema';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+import { type MoveTaskInput, type Task } from '../schema';
+import { toTask } from '../utils/due_status';
+import { getDescendantIds } from '../utils/task_tree';
+import { withTags } from '../utils/task_tags';
+import { recordTaskEvents } from '../utils/task_events';
+import { NotFoundError } from '../errors';
+
+// Pass a transaction as `executor` to make the move part of a larger one
+export const moveTask = async (input: MoveTaskInput, ownerId: number, executor: DbExecutor = db): Promise<Task> => {
+  // The destination list must exist and belong to the same user
+  if (input.list_id !== null) {
+    const lists = await executor.select({ id: listsTable.id })
+      .from(listsTable)
+      .where(and(eq(listsTable.id, input.list_id), eq(listsTable.owner_id, ownerId)))
+      .execute();
+
+    if (lists.length === 0) {
+      throw new NotFoundError('list', input.list_id);
+    }
+  }
+
+  return await executor.transaction(async (tx) => {
+    const now = new Date();
+    const existing = await tx.select()
+      .from(tasksTable)
+      .where(and(eq(tasksTable.id, input.id), eq(tasksTable.owner_id, ownerId), isNull(tasksTable.deleted_at)))
+      .for('update')
+      .execute();
+
+    if (existing.length === 0) {
+      throw new NotFoundError('task', input.id);
+    }
+
+    const result = await tx.update(tasksTable)
+      .set({
+        list_id: input.list_id,
+        updated_at: now
+      })
+      .where(eq(tasksTable.id, input.id))
+      .returning()
+      .execute();
+
+    // Subtasks always live in the same list as the task they belong to, even ones in the trash.
+    // They all shared the parent's previous list, which is what their history records.
+    const descendantIds = await getDescendantIds(tx, input.id);
+    const movedDescendants = descendantIds.length > 0
+      ? await tx.update(tasksTable)
+        .set({ list_id: input.list_id, updated_at: now })
+        .where(inArray(tasksTable.id, descendantIds))
+        .returning()
+        .execute()
+      : [];
+
+    await recordTaskEvents(tx, ownerId, 'updated', [...result, ...movedDescendants].map(row => ({
+      before: { ...row, list_id: existing[0].list_id },
+      after: row
+    })));
+
+    const [task] = await withTags(tx, result);
+    return toTask(task);
+  });
+};
@@ -0,0 +1,46 @@
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+import { type TaskChangeEvent, type TaskListItem } from '../schema';
+import { toTask } from '../utils/due_status';
+import { getSubtaskProgress } from '../utils/task_tree';
+import { withTags } from '../utils/task_tags';
+import { subscribeToTaskChanges } from '../utils/task_changes';
+import { logger } from '../utils/logger';
+
+// Current state of the given tasks, shaped like getTasks items
+const loadTasks = async (ids: number[], ownerId: number): Promise<TaskListItem[]> => {
+  const rows = await db.select()
+    .from(tasksTable)
+    .where(and(inArray(tasksTable.id, ids), eq(tasksTable.owner_id, ownerId), isNull(tasksTable.deleted_at)))
+    .execute();
+
+  const progress = await getSubtaskProgress(db, rows.map(row => row.id));
+  const taggedRows = await withTags(db, rows);
+  const now = new Date();
+  return taggedRows.map(row => ({
+    ...toTask(row, now),
+    subtask_count: progress.get(row.id)?.total ?? 0,
+    completed_subtask_count: progress.get(row.id)?.completed ?? 0
+  }));
+};
+
+// Stream of changes to the user's tasks, made from any tab, device or server process
+export async function* onTaskChanges(ownerId: number, signal?: AbortSignal): AsyncGenerator<TaskChangeEvent> {
+  for await (const notification of subscribeToTaskChanges(ownerId, signal)) {
+    if (notification.kind === 'deleted') {
+      yield { type: 'deleted', ids: notification.ids };
+      continue;
+    }
+
+    try {
+      const tasks = await loadTasks(notification.ids, ownerId);
+      if (tasks.length > 0) {
+        yield { type: notification.kind, tasks };
+      }
+    } catch (error) {
+      // One failed lookup shouldn't end the stream; the client catches up on its next reload
+      logger.error('Failed to load changed tasks', { error });
+    }
+  }
+}
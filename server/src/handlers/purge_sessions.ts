@@ -0,0 +1,12 @@
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { lt } from 'drizzle-orm';
+
+// Remove sessions past their expiry; their tokens are already refused, this only frees the rows
+export const purgeExpiredSessions = async (now: Date = new Date()): Promise<{ deleted: number }> => {
+  const result = await db.delete(sessionsTable)
+    .where(lt(sessionsTable.expires_at, now))
+    .execute();
+
+  return { deleted: result.rowCount ?? 0 };
+};
@@ -0,0 +1,13 @@
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { lt } from 'drizzle-orm';
+import { purgeCutoff } from '../utils/trash';
+
+// Permanently remove tasks that have been in the trash longer than the retention period
+export const purgeExpiredTrash = async (now: Date = new Date()): Promise<{ deleted: number }> => {
+  const result = await db.delete(tasksTable)
+    .where(lt(tasksTable.deleted_at, purgeCutoff(now)))
+    .execute();
+
+  return { deleted: result.rowCount ?? 0 };
+};
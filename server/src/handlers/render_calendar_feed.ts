@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { calendarFeedsTable, tasksTable } from '../db/schema';
+import { and, asc, eq, isNotNull, isNull } from 'drizzle-orm';
+import { hashSessionToken } from '../utils/auth';
+import { withTags } from '../utils/task_tags';
+import { toICalendar } from '../utils/ical';
+
+// The iCalendar document behind a feed token: every live task with a due date, completed ones
+// included. Returns null for unknown or revoked tokens.
+export const renderCalendarFeed = async (token: string): Promise<string | null> => {
+  const feeds = await db.select({ user_id: calendarFeedsTable.user_id })
+    .from(calendarFeedsTable)
+    .where(eq(calendarFeedsTable.token_hash, hashSessionToken(token)))
+    .execute();
+
+  if (feeds.length === 0) {
+    return null;
+  }
+
+  const rows = await db.select()
+    .from(tasksTable)
+    .where(and(
+      eq(tasksTable.owner_id, feeds[0].user_id),
+      isNull(tasksTable.deleted_at),
+      isNotNull(tasksTable.due_date)
+    ))
+    .orderBy(asc(tasksTable.due_date), asc(tasksTable.id))
+    .execute();
+
+  return toICalendar(await withTags(db, rows), 'Tasks');
+};
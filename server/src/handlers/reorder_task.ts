@@ -0,0 +1,120 @@
+import { db, type DbExecutor } from '../db';
+import { tasksTable, type Task as TaskRow } from '../db/schema';
+import { and, eq, isNull, ne, sql } from 'drizzle-orm';
+import { type ReorderTaskInput, type Task } from '../schema';
+import { toTask } from '../utils/due_status';
+import { withTags } from '../utils/task_tags';
+import { positionBetween, sequentialPositions } from '../utils/position';
+import { recordTaskEvents } from '../utils/task_events';
+import { NotFoundError, ValidationError } from '../errors';
+
+const bytewise = sql`collate "C"`;
+
+// Tasks sharing a parent (or all top-level tasks) of one user - the scope of manual order
+const siblingsOf = (task: TaskRow) => and(
+  eq(tasksTable.owner_id, task.owner_id),
+  isNull(tasksTable.deleted_at),
+  task.parent_id === null ? isNull(tasksTable.parent_id) : eq(tasksTable.parent_id, task.parent_id)
+);
+
+// Positions the moved task has to fit between, next to the anchor task
+const findBounds = async (
+  executor: DbExecutor,
+  task: TaskRow,
+  anchor: TaskRow,
+  placement: 'before' | 'after'
+): Promise<[string | null, string | null]> => {
+  const isBefore = placement === 'before';
+  const neighbours = await executor.select({ position: tasksTable.position })
+    .from(tasksTable)
+    .where(and(
+      siblingsOf(task),
+      ne(tasksTable.id, task.id),
+      isBefore
+        ? sql`(${tasksTable.position} ${bytewise}, ${tasksTable.id}) < (${anchor.position} ${bytewise}, ${anchor.id})`
+        : sql`(${tasksTable.position} ${bytewise}, ${tasksTable.id}) > (${anchor.position} ${bytewise}, ${anchor.id})`
+    ))
+    .orderBy(
+      isBefore ? sql`${tasksTable.position} ${bytewise} desc` : sql`${tasksTable.position} ${bytewise} asc`,
+      isBefore ? sql`${tasksTable.id} desc` : sql`${tasksTable.id} asc`
+    )
+    .limit(1)
+    .execute();
+
+  const neighbour = neighbours[0]?.position ?? null;
+  return isBefore ? [neighbour, anchor.position] : [anchor.position, neighbour];
+};
+
+// Give every sibling a distinct position, keeping the current order (ties broken by id)
+const spreadPositions = async (executor: DbExecutor, task: TaskRow): Promise<Map<number, string>> => {
+  const siblings = await executor.select({ id: tasksTable.id })
+    .from(tasksTable)
+    .where(siblingsOf(task))
+    .orderBy(sql`${tasksTable.position} ${bytewise}`, tasksTable.id)
+    .execute();
+
+  const positions = sequentialPositions(siblings.length);
+  const byId = new Map<number, string>();
+  for (const [index, sibling] of siblings.entries()) {
+    byId.set(sibling.id, positions[index]);
+    await executor.update(tasksTable)
+      .set({ position: positions[index] })
+      .where(eq(tasksTable.id, sibling.id))
+      .execute();
+  }
+  return byId;
+};
+
+// Pass a transaction as `executor` to make the reorder part of a larger one
+export const reorderTask = async (input: ReorderTaskInput, ownerId: number, executor: DbExecutor = db): Promise<Task> => {
+  return await executor.transaction(async (tx) => {
+    const anchorId = (input.before_id ?? input.after_id)!;
+    const placement = input.before_id !== undefined ? 'before' : 'after';
+
+    const loadTask = async (id: number) => {
+      const rows = await tx.select()
+        .from(tasksTable)
+        .where(and(eq(tasksTable.id, id), eq(tasksTable.owner_id, ownerId), isNull(tasksTable.deleted_at)))
+        .execute();
+      if (rows.length === 0) {
+        throw new NotFoundError('task', id);
+      }
+      return rows[0];
+    };
+
+    const task = await loadTask(input.id);
+    let anchor = await loadTask(anchorId);
+
+    if (anchor.id === task.id) {
+      throw new ValidationError('Cannot reorder a task relative to itself');
+    }
+    if (anchor.parent_id !== task.parent_id) {
+      throw new ValidationError('Tasks can only be reordered among their siblings');
+    }
+
+    let [lower, upper] = await findBounds(tx, task, anchor, placement);
+
+    // Rows that never received distinct positions (e.g. the column default) collide;
+    // spread the siblings out once, then place the task as usual
+    if (lower !== null && upper !== null && lower >= upper) {
+      const positions = await spreadPositions(tx, task);
+      anchor = { ...anchor, position: positions.get(anchor.id)! };
+      [lower, upper] = await findBounds(tx, task, anchor, placement);
+    }
+
+    const result = await tx.update(tasksTable)
+      .set({
+        position: positionBetween(lower, upper),
+        updated_at: new Date()
+      })
+      .where(eq(tasksTable.id, task.id))
+      .returning()
+      .execute();
+
+    // Only the moved task's change is recorded; spreading positions is housekeeping
+    await recordTaskEvents(tx, ownerId, 'updated', [{ before: task, after: result[0] }]);
+
+    const [reordered] = await withTags(tx, result);
+    return toTask(reordered);
+  });
+};
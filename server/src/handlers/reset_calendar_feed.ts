@@ -0,0 +1,22 @@
+import { db } from '../db';
+import { calendarFeedsTable } from '../db/schema';
+import { type CalendarFeedToken } from '../schema';
+import { generateSessionToken, hashSessionToken } from '../utils/auth';
+import { calendarFeedPath } from '../utils/ical';
+
+// Issue a new secret feed URL, replacing the previous one. Feed tokens work like session tokens:
+// only their hash is stored, so the URL can't be shown again later.
+export const resetCalendarFeed = async (ownerId: number): Promise<CalendarFeedToken> => {
+  const token = generateSessionToken();
+  const now = new Date();
+
+  await db.insert(calendarFeedsTable)
+    .values({ user_id: ownerId, token_hash: hashSessionToken(token), created_at: now })
+    .onConflictDoUpdate({
+      target: calendarFeedsTable.user_id,
+      set: { token_hash: hashSessionToken(token), created_at: now }
+    })
+    .execute();
+
+  return { token, path: calendarFeedPath(token), created_at: now };
+};
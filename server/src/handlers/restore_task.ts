@@ -0,0 +1,57 @@
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { and, eq, inArray, isNotNull } from 'drizzle-orm';
+import { type RestoreTaskInput, type Task } from '../schema';
+import { toTask } from '../utils/due_status';
+import { getDescendantIds } from '../utils/task_tree';
+import { withTags } from '../utils/task_tags';
+import { recordTaskEvents } from '../utils/task_events';
+import { NotFoundError, ValidationError } from '../errors';
+
+export const restoreTask = async (input: RestoreTaskInput, ownerId: number): Promise<Task> => {
+  return await db.transaction(async (tx) => {
+    const deleted = await tx.select()
+      .from(tasksTable)
+      .where(and(eq(tasksTable.id, input.id), eq(tasksTable.owner_id, ownerId), isNotNull(tasksTable.deleted_at)))
+      .execute();
+
+    if (deleted.length === 0) {
+      throw new NotFoundError('task', input.id, `Task with id ${input.id} not found in the trash`);
+    }
+
+    const task = deleted[0];
+    if (task.parent_id !== null) {
+      const parents = await tx.select({ deleted_at: tasksTable.deleted_at })
+        .from(tasksTable)
+        .where(eq(tasksTable.id, task.parent_id))
+        .execute();
+      if (parents[0]?.deleted_at) {
+        throw new ValidationError('Restore the parent task first', 'id');
+      }
+    }
+
+    const result = await tx.update(tasksTable)
+      .set({ deleted_at: null })
+      .where(eq(tasksTable.id, task.id))
+      .returning()
+      .execute();
+
+    // Bring back the subtasks deleted along with it, but not ones deleted on their own before
+    const descendantIds = await getDescendantIds(tx, task.id);
+    const restoredDescendants = descendantIds.length > 0
+      ? await tx.update(tasksTable)
+        .set({ deleted_at: null })
+        .where(and(inArray(tasksTable.id, descendantIds), eq(tasksTable.deleted_at, task.deleted_at!)))
+        .returning()
+        .execute()
+      : [];
+
+    await recordTaskEvents(tx, ownerId, 'restored', [...result, ...restoredDescendants].map(row => ({
+      before: { ...row, deleted_at: task.deleted_at },
+      after: row
+    })));
+
+    const [restored] = await withTags(tx, result);
+    return toTask(restored);
+  });
+};
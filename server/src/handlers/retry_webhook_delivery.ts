@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { webhookDeliveriesTable, webhooksTable } from '../db/schema';
+import { and, eq, inArray } from 'drizzle-orm';
+import { type RetryWebhookDeliveryInput, type WebhookDelivery } from '../schema';
+import { NotFoundError } from '../errors';
+
+// Put a delivery back in the queue for the next worker run. Its attempt count is kept, so a
+// dead-lettered delivery gets one more try and goes back to the dead letters if that fails too
+export const retryWebhookDelivery = async (input: RetryWebhookDeliveryInput, ownerId: number): Promise<WebhookDelivery> => {
+  const owned = db.select({ id: webhooksTable.id })
+    .from(webhooksTable)
+    .where(eq(webhooksTable.owner_id, ownerId));
+
+  const result = await db.update(webhookDeliveriesTable)
+    .set({ status: 'pending', next_attempt_at: new Date(), delivered_at: null })
+    .where(and(eq(webhookDeliveriesTable.id, input.id), inArray(webhookDeliveriesTable.webhook_id, owned)))
+    .returning()
+    .execute();
+
+  if (result.length === 0) {
+    throw new NotFoundError('webhook_delivery', input.id);
+  }
+
+  return result[0];
+};
@@ -0,0 +1,64 @@
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { and, desc, eq, isNull, sql, type SQL } from 'drizzle-orm';
+import { type SearchResult, type SearchTasksInput } from '../schema';
+import { toTask } from '../utils/due_status';
+import { HIGHLIGHT_START, HIGHLIGHT_STOP, parseHighlight, toPrefixQuery } from '../utils/search';
+import { withTags } from '../utils/task_tags';
+import { getRootIds, getSubtaskProgress } from '../utils/task_tree';
+
+const TITLE_HEADLINE_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, HighlightAll=true`;
+// Up to two short excerpts around the matches, joined with an ellipsis
+const SNIPPET_OPTIONS = `StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_STOP}, MaxFragments=2, MaxWords=12, MinWords=4, FragmentDelimiter=" … "`;
+
+// The caller's live tasks matching every word of the query in their title or description, best first
+export const searchTasks = async (input: SearchTasksInput, ownerId: number): Promise<SearchResult[]> => {
+  const prefixQuery = toPrefixQuery(input.query);
+  if (!prefixQuery) {
+    return [];
+  }
+
+  const query = sql`to_tsquery('simple', ${prefixQuery})`;
+  const conditions: SQL[] = [
+    eq(tasksTable.owner_id, ownerId),
+    isNull(tasksTable.deleted_at),
+    sql`${tasksTable.search_vector} @@ ${query}`
+  ];
+  if (!input.include_completed) {
+    conditions.push(eq(tasksTable.completed, false));
+  }
+
+  // Title matches carry weight A and description matches B, so ts_rank_cd puts title hits first
+  const rank = sql<number>`ts_rank_cd(${tasksTable.search_vector}, ${query})`.mapWith(Number);
+  const rows = await db.select({
+    task: tasksTable,
+    rank,
+    title: sql<string>`ts_headline('simple', ${tasksTable.title}, ${query}, ${TITLE_HEADLINE_OPTIONS})`,
+    // Only excerpt descriptions that matched; otherwise ts_headline would return their first words
+    snippet: sql<string | null>`case when to_tsvector('simple', coalesce(${tasksTable.description}, '')) @@ ${query}
+      then ts_headline('simple', ${tasksTable.description}, ${query}, ${SNIPPET_OPTIONS}) end`
+  })
+    .from(tasksTable)
+    .where(and(...conditions))
+    .orderBy(desc(rank), desc(tasksTable.updated_at), desc(tasksTable.id))
+    .limit(input.limit)
+    .execute();
+
+  const ids = rows.map(row => row.task.id);
+  const taggedTasks = await withTags(db, rows.map(row => row.task));
+  const progress = await getSubtaskProgress(db, ids);
+  const roots = await getRootIds(db, ids);
+
+  const now = new Date();
+  return rows.map((row, index) => ({
+    task: {
+      ...toTask(taggedTasks[index], now),
+      subtask_count: progress.get(row.task.id)?.total ?? 0,
+      completed_subtask_count: progress.get(row.task.id)?.completed ?? 0
+    },
+    root_id: roots.get(row.task.id) ?? row.task.id,
+    rank: row.rank,
+    title: parseHighlight(row.title),
+    snippet: row.snippet ? parseHighlight(row.snippet) : []
+  }));
+};
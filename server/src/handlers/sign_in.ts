@@ -0,0 +1,25 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { type AuthSession, type SignInInput } from '../schema';
+import { dummyPasswordHash, verifyPassword } from '../utils/auth';
+import { createSession } from './create_session';
+import { AuthenticationError } from '../errors';
+
+export const signIn = async (input: SignInInput): Promise<AuthSession> => {
+  const result = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.email, input.email))
+    .execute();
+
+  const user = result[0];
+
+  // Same message and the same scrypt work for unknown email and wrong password, so accounts can't
+  // be enumerated
+  const valid = await verifyPassword(input.password, user?.password_hash ?? await dummyPasswordHash());
+  if (!user || !valid) {
+    throw new AuthenticationError('Invalid email or password');
+  }
+
+  return await createSession(user);
+};
@@ -0,0 +1,13 @@
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { hashSessionToken } from '../utils/auth';
+
+export const signOut = async (token: string): Promise<{ success: boolean }> => {
+  // Revoke the session behind this bearer token
+  const result = await db.delete(sessionsTable)
+    .where(eq(sessionsTable.token_hash, hashSessionToken(token)))
+    .execute();
+
+  return { success: (result.rowCount ?? 0) > 0 };
+};
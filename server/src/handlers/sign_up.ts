@@ -0,0 +1,31 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { type AuthSession, type SignUpInput } from '../schema';
+import { hashPassword } from '../utils/auth';
+import { createSession } from './create_session';
+import { ConflictError } from '../errors';
+
+export const signUp = async (input: SignUpInput): Promise<AuthSession> => {
+  // Emails are unique; check first for a friendlier error than the constraint violation
+  const existing = await db.select({ id: usersTable.id })
+    .from(usersTable)
+    .where(eq(usersTable.email, input.email))
+    .execute();
+
+  if (existing.length > 0) {
+    throw new ConflictError('An account with this email already exists', 'user', 'email');
+  }
+
+  const result = await db.insert(usersTable)
+    .values({
+      email: input.email,
+      name: input.name ?? null,
+      password_hash: await hashPassword(input.password)
+    })
+    .returning()
+    .execute();
+
+  // New accounts are signed in straight away
+  return await createSession(result[0]);
+};
@@ -1,29 +1,119 @@
-import { db } from '../db';
-import { tasksTable } from '../db/schema';
+import { db, type DbExecutor } from '../db';
+import { tasksTable, taskTagsTable, type Task as TaskRow } from '../db/schema';
 import { type ToggleTaskInput, type Task } from '../schema';
-import { eq } from 'drizzle-orm';
+import { and, eq, inArray, isNull } from 'drizzle-orm';
+import { toTask } from '../utils/due_status';
+import { getDescendantIds } from '../utils/task_tree';
+import { attachTags, withTags } from '../utils/task_tags';
+import { nextOccurrence, parseRRule, toRRule } from '../utils/recurrence';
+import { assertTaskQuota } from '../utils/quota';
+import { recordTaskEvents } from '../utils/task_events';
+import { NotFoundError, TaskConflictError } from '../errors';
+
+// Create the next occurrence of a completed recurring task, which takes over the rule.
+// Returns the completed task with its recurrence cleared, so completing it again won't repeat.
+const spawnNextOccurrence = async (executor: DbExecutor, row: TaskRow, actorId: number): Promise<TaskRow> => {
+  if (!row.recurrence || !row.due_date) {
+    return row;
+  }
+
+  const next = nextOccurrence(parseRRule(row.recurrence), row.due_date);
+  if (next) {
+    // The next occurrence is a new task like any other, so completing the last one that fits
+    // fails until there is room for it
+    await assertTaskQuota(executor, row.owner_id);
+    const inserted = await executor.insert(tasksTable)
+      .values({
+        owner_id: row.owner_id,
+        list_id: row.list_id,
+        parent_id: row.parent_id,
+        title: row.title,
+        description: row.description,
+        priority: row.priority,
+        position: row.position,
+        due_date: next.due_date,
+        due_time: row.due_time,
+        due_timezone: row.due_timezone,
+        recurrence: toRRule(next.rule)
+      })
+      .returning()
+      .execute();
+
+    const links = await executor.select({ tag_id: taskTagsTable.tag_id })
+      .from(taskTagsTable)
+      .where(eq(taskTagsTable.task_id, row.id))
+      .execute();
+    await attachTags(executor, inserted[0].id, links.map(link => link.tag_id));
+
+    const [created] = await withTags(executor, inserted);
+    await recordTaskEvents(executor, actorId, 'created', [{ before: null, after: created }]);
+  }
+
+  const result = await executor.update(tasksTable)
+    .set({ recurrence: null })
+    .where(eq(tasksTable.id, row.id))
+    .returning()
+    .execute();
+  return result[0];
+};
+
+// Pass a transaction as `executor` to make the toggle part of a larger one
+export const toggleTask = async (input: ToggleTaskInput, ownerId: number, executor: DbExecutor = db): Promise<Task> => {
+  return await executor.transaction(async (tx) => {
+    const now = new Date();
+
+    // Lock the row so the recorded "before" state is the one being overwritten
+    const existing = await tx.select()
+      .from(tasksTable)
+      .where(and(eq(tasksTable.id, input.id), eq(tasksTable.owner_id, ownerId), isNull(tasksTable.deleted_at)))
+      .for('update')
+      .execute();
+
+    // Check if task was found
+    if (existing.length === 0) {
+      throw new NotFoundError('task', input.id);
+    }
+
+    if (input.expected_updated_at && existing[0].updated_at.getTime() !== input.expected_updated_at.getTime()) {
+      const [current] = await withTags(tx, existing);
+      throw new TaskConflictError(toTask(current));
+    }
 
-export const toggleTask = async (input: ToggleTaskInput): Promise<Task> => {
-  try {
     // Update the task's completed status and updated_at timestamp
-    const result = await db.update(tasksTable)
+    const result = await tx.update(tasksTable)
       .set({ 
         completed: input.completed,
-        updated_at: new Date() // Update timestamp to current time
+        updated_at: now // Update timestamp to current time
       })
       .where(eq(tasksTable.id, input.id))
       .returning()
       .execute();
 
-    // Check if task was found and updated
-    if (result.length === 0) {
-      throw new Error(`Task with id ${input.id} not found`);
+    // Completing a task can optionally complete its whole subtree; reopening never cascades
+    if (input.completed && input.include_subtasks) {
+      const descendantIds = await getDescendantIds(tx, input.id);
+      if (descendantIds.length > 0) {
+        const completed = await tx.update(tasksTable)
+          .set({ completed: true, updated_at: now })
+          .where(and(
+            inArray(tasksTable.id, descendantIds),
+            eq(tasksTable.completed, false),
+            isNull(tasksTable.deleted_at)
+          ))
+          .returning()
+          .execute();
+        await recordTaskEvents(tx, ownerId, 'toggled', completed.map(row => ({
+          before: { ...row, completed: false },
+          after: row
+        })));
+      }
     }
 
+    const toggled = input.completed ? await spawnNextOccurrence(tx, result[0], ownerId) : result[0];
+    await recordTaskEvents(tx, ownerId, 'toggled', [{ before: existing[0], after: toggled }]);
+
     // Return the updated task
-    return result[0];
-  } catch (error) {
-    console.error('Task toggle failed:', error);
-    throw error;
-  }
-};
\ No newline at end of file
+    const [task] = await withTags(tx, [toggled]);
+    return toTask(task);
+  });
+};
@@ -0,0 +1,36 @@
+import { db } from '../db';
+import { listsTable } from '../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { type List, type UpdateListInput } from '../schema';
+import { NotFoundError } from '../errors';
+
+export const updateList = async (input: UpdateListInput, ownerId: number): Promise<List> => {
+  // Build update object with only provided fields
+  const updateData: Partial<typeof listsTable.$inferInsert> = {
+    updated_at: new Date()
+  };
+
+  if (input.name !== undefined) {
+    updateData.name = input.name;
+  }
+
+  if (input.color !== undefined) {
+    updateData.color = input.color;
+  }
+
+  if (input.icon !== undefined) {
+    updateData.icon = input.icon;
+  }
+
+  const result = await db.update(listsTable)
+    .set(updateData)
+    .where(and(eq(listsTable.id, input.id), eq(listsTable.owner_id, ownerId)))
+    .returning()
+    .execute();
+
+  if (result.length === 0) {
+    throw new NotFoundError('list', input.id);
+  }
+
+  return result[0];
+};
@@ -0,0 +1,34 @@
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { type Tag, type UpdateTagInput } from '../schema';
+import { assertTagNameAvailable } from '../utils/task_tags';
+import { NotFoundError } from '../errors';
+
+export const updateTag = async (input: UpdateTagInput, ownerId: number): Promise<Tag> => {
+  // Build update object with only provided fields
+  const updateData: Partial<typeof tagsTable.$inferInsert> = {
+    updated_at: new Date()
+  };
+
+  if (input.name !== undefined) {
+    await assertTagNameAvailable(db, ownerId, input.name, input.id);
+    updateData.name = input.name;
+  }
+
+  if (input.color !== undefined) {
+    updateData.color = input.color;
+  }
+
+  const result = await db.update(tagsTable)
+    .set(updateData)
+    .where(and(eq(tagsTable.id, input.id), eq(tagsTable.owner_id, ownerId)))
+    .returning()
+    .execute();
+
+  if (result.length === 0) {
+    throw new NotFoundError('tag', input.id);
+  }
+
+  return result[0];
+};
@@ -1,47 +1,105 @@
-import { db } from '../db';
+import { db, type DbExecutor } from '../db';
 import { tasksTable } from '../db/schema';
-import { eq } from 'drizzle-orm';
+import { and, eq, isNull } from 'drizzle-orm';
 import { type UpdateTaskInput, type Task } from '../schema';
+import { normalizeDueTime, toTask } from '../utils/due_status';
+import { assertTagsOwned, attachTags, detachTags, withTags } from '../utils/task_tags';
+import { recordTaskEvents } from '../utils/task_events';
+import { NotFoundError, TaskConflictError, ValidationError } from '../errors';
+import { toRRule } from '../utils/recurrence';
 
-export const updateTask = async (input: UpdateTaskInput): Promise<Task> => {
-  try {
-    // Check if task exists before updating
-    const existingTask = await db.select()
-      .from(tasksTable)
-      .where(eq(tasksTable.id, input.id))
-      .execute();
+// Pass a transaction as `executor` to make the update part of a larger one
+export const updateTask = async (input: UpdateTaskInput, ownerId: number, executor: DbExecutor = db): Promise<Task> => {
+  // Check if task exists before updating - tasks in the trash have to be restored first
+  const existingTask = await executor.select()
+    .from(tasksTable)
+    .where(and(eq(tasksTable.id, input.id), eq(tasksTable.owner_id, ownerId), isNull(tasksTable.deleted_at)))
+    .execute();
+
+  if (existingTask.length === 0) {
+    throw new NotFoundError('task', input.id);
+  }
+
+  // Build update object with only provided fields
+  const updateData: Partial<typeof tasksTable.$inferInsert> = {
+    updated_at: new Date() // Always update the timestamp
+  };
+
+  if (input.title !== undefined) {
+    updateData.title = input.title;
+  }
+
+  if (input.description !== undefined) {
+    updateData.description = input.description;
+  }
+
+  if (input.completed !== undefined) {
+    updateData.completed = input.completed;
+  }
 
-    if (existingTask.length === 0) {
-      throw new Error(`Task with id ${input.id} not found`);
+  if (input.priority !== undefined) {
+    updateData.priority = input.priority;
+  }
+
+  if (input.due_date === null) {
+    // Clearing the due date also clears the time, timezone and recurrence attached to it
+    updateData.due_date = null;
+    updateData.due_time = null;
+    updateData.due_timezone = null;
+    updateData.recurrence = null;
+  } else {
+    if (input.due_date !== undefined) {
+      updateData.due_date = input.due_date;
     }
 
-    // Build update object with only provided fields
-    const updateData: Partial<typeof tasksTable.$inferInsert> = {
-      updated_at: new Date() // Always update the timestamp
-    };
+    if (input.due_time !== undefined) {
+      if (input.due_time !== null && !(input.due_date ?? existingTask[0].due_date)) {
+        throw new ValidationError('Cannot set a due time on a task without a due date', 'due_time');
+      }
+      updateData.due_time = normalizeDueTime(input.due_time);
+    }
 
-    if (input.title !== undefined) {
-      updateData.title = input.title;
+    if (input.due_timezone !== undefined) {
+      updateData.due_timezone = input.due_timezone;
+    } else if (input.due_date !== undefined && !existingTask[0].due_timezone) {
+      updateData.due_timezone = 'UTC';
     }
 
-    if (input.description !== undefined) {
-      updateData.description = input.description;
+    if (input.recurrence !== undefined) {
+      if (input.recurrence !== null && !(input.due_date ?? existingTask[0].due_date)) {
+        throw new ValidationError('Recurring tasks need a due date', 'recurrence');
+      }
+      updateData.recurrence = input.recurrence ? toRRule(input.recurrence) : null;
     }
+  }
+
+  await assertTagsOwned(executor, input.add_tag_ids ?? [], ownerId);
+
+  return await executor.transaction(async (tx) => {
+    // Lock the row so nobody else can write between the version check and the update
+    const locked = await tx.select()
+      .from(tasksTable)
+      .where(eq(tasksTable.id, input.id))
+      .for('update')
+      .execute();
+    const [before] = await withTags(tx, locked);
 
-    if (input.completed !== undefined) {
-      updateData.completed = input.completed;
+    if (input.expected_updated_at && before.updated_at.getTime() !== input.expected_updated_at.getTime()) {
+      throw new TaskConflictError(toTask(before));
     }
 
     // Perform the update
-    const result = await db.update(tasksTable)
+    const result = await tx.update(tasksTable)
       .set(updateData)
-      .where(eq(tasksTable.id, input.id))
+      .where(and(eq(tasksTable.id, input.id), eq(tasksTable.owner_id, ownerId)))
       .returning()
       .execute();
 
-    return result[0];
-  } catch (error) {
-    console.error('Task update failed:', error);
-    throw error;
-  }
+    await attachTags(tx, input.id, input.add_tag_ids ?? []);
+    await detachTags(tx, input.id, input.remove_tag_ids ?? []);
+
+    const [task] = await withTags(tx, result);
+    await recordTaskEvents(tx, ownerId, 'updated', [{ before, after: task }]);
+    return toTask(task);
+  });
 };
\ No newline at end of file
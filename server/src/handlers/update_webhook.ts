@@ -0,0 +1,38 @@
+import { db } from '../db';
+import { webhooksTable } from '../db/schema';
+import { and, eq } from 'drizzle-orm';
+import { type UpdateWebhookInput, type Webhook } from '../schema';
+import { assertPublicWebhookUrl, toWebhook } from '../utils/webhooks';
+import { NotFoundError } from '../errors';
+
+export const updateWebhook = async (input: UpdateWebhookInput, ownerId: number): Promise<Webhook> => {
+  // Build update object with only provided fields
+  const updateData: Partial<typeof webhooksTable.$inferInsert> = {
+    updated_at: new Date()
+  };
+
+  if (input.url !== undefined) {
+    await assertPublicWebhookUrl(input.url);
+    updateData.url = input.url;
+  }
+
+  if (input.events !== undefined) {
+    updateData.events = [...new Set(input.events)];
+  }
+
+  if (input.active !== undefined) {
+    updateData.active = input.active;
+  }
+
+  const result = await db.update(webhooksTable)
+    .set(updateData)
+    .where(and(eq(webhooksTable.id, input.id), eq(webhooksTable.owner_id, ownerId)))
+    .returning()
+    .execute();
+
+  if (result.length === 0) {
+    throw new NotFoundError('webhook', input.id);
+  }
+
+  return toWebhook(result[0]);
+};
@@ -1,7 +1,7 @@
 import { db } from '../db';
 import { sql } from 'drizzle-orm';
-import * as schema from "../db/schema";
-import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { usersTable } from "../db/schema";
+import { migrateUp } from '../db/migrate';
 
 export const resetDB = async () => {
   await db.execute(sql`drop schema if exists public cascade`);
@@ -9,10 +9,16 @@ export const resetDB = async () => {
   await db.execute(sql`drop schema if exists drizzle cascade`);
 };
 
+// Build the schema the way deployments get it, by applying every migration
 export const createDB = async () => {
-  const migrationStatements = await generateMigration(
-    generateDrizzleJson({}),
-    generateDrizzleJson({ ...schema })
-  );
-  await db.execute(migrationStatements.join('\n'));
+  await migrateUp();
+};
+
+// Insert a user directly so tests have an owner for the records they create
+export const createTestUser = async (email: string = 'owner@example.com') => {
+  const result = await db.insert(usersTable)
+    .values({ email, name: null, password_hash: 'not-a-real-hash' })
+    .returning()
+    .execute();
+  return result[0];
 };
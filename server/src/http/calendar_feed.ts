@@ -0,0 +1,39 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { renderCalendarFeed } from '../handlers/render_calendar_feed';
+import { logger } from '../utils/logger';
+
+// GET /calendar/<token>.ics - tokens are base64url
+const FEED_PATH = /^\/calendar\/([A-Za-z0-9_-]+)\.ics$/;
+
+// Serve a calendar subscription when the request is for one. Returns false for any other path,
+// so the caller can hand the request on to tRPC. Calendar apps can't send bearer headers, so the
+// token in the URL is the only credential.
+export const handleCalendarFeedRequest = async (req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
+  const match = FEED_PATH.exec(new URL(req.url ?? '/', 'http://localhost').pathname);
+  if (!match) {
+    return false;
+  }
+
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.writeHead(405, { Allow: 'GET, HEAD' }).end();
+    return true;
+  }
+
+  try {
+    const calendar = await renderCalendarFeed(match[1]);
+    if (calendar === null) {
+      res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' }).end('Calendar not found');
+      return true;
+    }
+    res.writeHead(200, {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename="tasks.ics"',
+      'Cache-Control': 'private, max-age=300'
+    });
+    res.end(req.method === 'HEAD' ? undefined : calendar);
+  } catch (error) {
+    logger.error('Calendar feed rendering failed', { error });
+    res.writeHead(500, { 'Content-Type': 'text/plain; charset=utf-8' }).end('Internal server error');
+  }
+  return true;
+};
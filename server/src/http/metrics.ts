@@ -0,0 +1,32 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { METRICS_TOKEN } from '../config';
+import { registry } from '../utils/metrics';
+
+// Compare digests so the check takes as long whatever the guess
+const tokenMatches = (header: string | undefined, token: string): boolean => {
+  const given = header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : '';
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(given), digest(token));
+};
+
+// Serve GET /metrics in the Prometheus text format. Returns false for any other path, so the
+// caller can hand the request on
+export const handleMetricsRequest = (req: IncomingMessage, res: ServerResponse): boolean => {
+  if (new URL(req.url ?? '/', 'http://localhost').pathname !== '/metrics') {
+    return false;
+  }
+
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    res.writeHead(405, { Allow: 'GET, HEAD' }).end();
+    return true;
+  }
+  if (METRICS_TOKEN && !tokenMatches(req.headers.authorization, METRICS_TOKEN)) {
+    res.writeHead(401, { 'Content-Type': 'text/plain; charset=utf-8', 'WWW-Authenticate': 'Bearer' }).end('Unauthorized');
+    return true;
+  }
+
+  res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8', 'Cache-Control': 'no-store' });
+  res.end(req.method === 'HEAD' ? undefined : registry.render());
+  return true;
+};
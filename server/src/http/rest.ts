@@ -0,0 +1,272 @@
+import { type IncomingMessage, type ServerResponse } from 'node:http';
+import { z, ZodError } from 'zod';
+import {
+  createTaskInputSchema,
+  deleteTaskInputSchema,
+  getTasksInputSchema,
+  restErrorSchema,
+  taskListItemSchema,
+  taskPageSchema,
+  taskSchema,
+  updateTaskInputSchema,
+  type RestError
+} from '../schema';
+import { createTask } from '../handlers/create_task';
+import { deleteTask } from '../handlers/delete_task';
+import { getSessionUser } from '../handlers/get_session_user';
+import { getTasks } from '../handlers/get_tasks';
+import { updateTask } from '../handlers/update_task';
+import { AuthenticationError, DomainError, RateLimitError, TaskConflictError, ValidationError, toHttpStatus } from '../errors';
+import { checkRateLimit, clientIp, rateLimitKey } from '../utils/rate_limit';
+import { toJsonSchema, type JsonSchema } from '../utils/json_schema';
+import { buildOpenApiDocument, pathParameterNames, type ApiOperation, type HttpMethod } from '../utils/openapi';
+import { logger } from '../utils/logger';
+
+// Plain JSON over HTTP for scripts and services that don't speak tRPC. Each route calls the same
+// handler as its tRPC procedure and validates with the same Zod schema; /openapi.json describes them.
+
+const MAX_BODY_BYTES = 1024 * 1024;
+
+interface RestRoute extends ApiOperation {
+  handle: (input: unknown, ownerId: number) => Promise<unknown>;
+}
+
+// Pairs an operation with its handler, typed by the operation's input schema
+const route = <S extends z.ZodTypeAny>(
+  operation: Omit<ApiOperation, 'input'> & { input: S },
+  handle: (input: z.output<S>, ownerId: number) => Promise<unknown>
+): RestRoute => ({ ...operation, handle: (input, ownerId) => handle(input as z.output<S>, ownerId) });
+
+export const restRoutes: RestRoute[] = [
+  route({
+    method: 'get',
+    path: '/tasks',
+    operationId: 'listTasks',
+    summary: 'List tasks a page at a time, like getTasks',
+    input: getTasksInputSchema,
+    inputIn: 'query',
+    output: taskPageSchema,
+    status: 200,
+    errors: [400, 401, 429],
+    authenticated: true
+  }, (input, ownerId) => getTasks(input, ownerId)),
+  route({
+    method: 'post',
+    path: '/tasks',
+    operationId: 'createTask',
+    summary: 'Create a task',
+    input: createTaskInputSchema,
+    inputIn: 'body',
+    output: taskSchema,
+    status: 201,
+    errors: [400, 401, 403, 404, 429],
+    authenticated: true
+  }, (input, ownerId) => createTask(input, ownerId)),
+  route({
+    method: 'patch',
+    path: '/tasks/{id}',
+    operationId: 'updateTask',
+    summary: 'Change some of a task\'s fields',
+    input: updateTaskInputSchema,
+    inputIn: 'body',
+    output: taskSchema,
+    status: 200,
+    errors: [400, 401, 404, 409, 429],
+    authenticated: true
+  }, (input, ownerId) => updateTask(input, ownerId)),
+  route({
+    method: 'delete',
+    path: '/tasks/{id}',
+    operationId: 'deleteTask',
+    summary: 'Move a task and its subtasks to the trash',
+    input: deleteTaskInputSchema,
+    inputIn: 'query',
+    output: null,
+    status: 204,
+    errors: [400, 401, 404, 429],
+    authenticated: true
+  }, (input, ownerId) => deleteTask(input, ownerId))
+];
+
+export const openApiDocument = buildOpenApiDocument(
+  { title: 'Todo API', version: '1.0.0' },
+  restRoutes,
+  { Task: taskSchema, TaskListItem: taskListItemSchema, TaskPage: taskPageSchema, Error: restErrorSchema }
+);
+
+const patternOf = (path: string): RegExp =>
+  new RegExp(`^${path.replace(/\{\w+\}/g, '([^/]+)')}$`);
+
+// Matchers, and for query-string inputs the documented type of each parameter
+const routePatterns = restRoutes.map(restRoute => ({
+  restRoute,
+  pattern: patternOf(restRoute.path),
+  queryProperties: (restRoute.input && restRoute.inputIn === 'query'
+    ? toJsonSchema(restRoute.input, { mode: 'input' })['properties'] ?? {}
+    : {}) as Record<string, JsonSchema>
+}));
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { ...headers, 'Content-Type': 'application/json; charset=utf-8' }).end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, status: number, error: RestError['error'], headers?: Record<string, string>) =>
+  sendJson(res, status, { error }, headers);
+
+// Types a query value the way the document describes its parameter; anything that doesn't fit is
+// passed through for the Zod schema to reject
+const fromQueryValue = (value: string, schema: JsonSchema): unknown => {
+  const variants = (schema['anyOf'] as JsonSchema[] | undefined) ?? [schema];
+  if (value === 'null' && variants.some(variant => variant['type'] === 'null')) {
+    return null;
+  }
+  const type = variants.find(variant => variant['type'] !== 'null')?.['type'];
+  if ((type === 'integer' || type === 'number') && value.trim() !== '' && !Number.isNaN(Number(value))) {
+    return Number(value);
+  }
+  if (type === 'boolean' && (value === 'true' || value === 'false')) {
+    return value === 'true';
+  }
+  return value;
+};
+
+const parseQuery = (params: URLSearchParams, properties: Record<string, JsonSchema>): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  for (const name of new Set(params.keys())) {
+    const schema = properties[name] ?? {};
+    result[name] = schema['type'] === 'array'
+      ? params.getAll(name).map(value => fromQueryValue(value, schema['items'] as JsonSchema))
+      : fromQueryValue(params.get(name)!, schema);
+  }
+  return result;
+};
+
+const readJsonBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) {
+      throw new ValidationError('Request body is too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  let body: unknown;
+  try {
+    body = text.trim() === '' ? {} : JSON.parse(text);
+  } catch {
+    throw new ValidationError('Request body must be valid JSON');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+  return body as Record<string, unknown>;
+};
+
+// Malformed percent-encoding, e.g. %E0%A4%A, is the caller's mistake rather than a server error
+const decodePathSegment = (segment: string, name: string): string => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    throw new ValidationError(`Path parameter ${name} is not validly percent-encoded`, name);
+  }
+};
+
+const authenticate = async (req: IncomingMessage): Promise<number | null> => {
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ') ? header.slice('Bearer '.length).trim() : null;
+  const user = token ? await getSessionUser(token) : null;
+  return user?.id ?? null;
+};
+
+// Failures the caller caused are logged at info level, anything unexpected at error level
+const handleError = (res: ServerResponse, error: unknown) => {
+  if (error instanceof ZodError || error instanceof DomainError) {
+    logger.info('REST call rejected', { reason: error instanceof ZodError ? 'Invalid input' : error.message });
+  }
+  if (error instanceof ZodError) {
+    sendError(res, 400, {
+      message: 'Invalid input',
+      reason: 'validation',
+      details: null,
+      field_errors: error.flatten().fieldErrors as Record<string, string[]>,
+      current_task: null
+    });
+  } else if (error instanceof DomainError) {
+    const { resource, id, field, retry_after, limit } = error.details;
+    sendError(res, toHttpStatus(error), {
+      message: error.message,
+      reason: error.reason,
+      details: { resource, id, field, retry_after, limit },
+      field_errors: null,
+      current_task: error instanceof TaskConflictError ? error.current : null
+    }, error instanceof RateLimitError ? { 'Retry-After': String(retry_after) } : undefined);
+  } else {
+    logger.error('REST call failed', { error });
+    sendError(res, 500, {
+      message: 'Internal server error',
+      reason: 'internal',
+      details: null,
+      field_errors: null,
+      current_task: null
+    });
+  }
+};
+
+// Answer a REST request or the OpenAPI document. Returns false for any other path, so the caller
+// can hand the request on to tRPC.
+export const handleRestRequest = async (req: IncomingMessage, res: ServerResponse): Promise<boolean> => {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+  const method = (req.method ?? 'GET').toLowerCase() as HttpMethod;
+
+  if (url.pathname === '/openapi.json') {
+    if (method !== 'get') {
+      res.writeHead(405, { Allow: 'GET' }).end();
+    } else {
+      sendJson(res, 200, openApiDocument);
+    }
+    return true;
+  }
+
+  const matches = routePatterns.filter(({ pattern }) => pattern.test(url.pathname));
+  if (matches.length === 0) {
+    return false;
+  }
+  const match = matches.find(({ restRoute }) => restRoute.method === method);
+  if (!match) {
+    const allowed = matches.map(({ restRoute }) => restRoute.method.toUpperCase());
+    res.writeHead(405, { Allow: allowed.join(', ') }).end();
+    return true;
+  }
+
+  const { restRoute, pattern, queryProperties } = match;
+  try {
+    // Rate limited like tRPC calls: by user for a valid token, otherwise by address, which also
+    // slows down guessing tokens
+    const ownerId = await authenticate(req);
+    checkRateLimit(method === 'get' ? 'query' : 'mutation', rateLimitKey(ownerId, clientIp(req)));
+    if (ownerId === null) {
+      throw new AuthenticationError('Sign in required');
+    }
+
+    const values = pattern.exec(url.pathname)!.slice(1);
+    const pathParameters = Object.fromEntries(pathParameterNames(restRoute.path).map((name, index) => {
+      const value = decodePathSegment(values[index], name);
+      return [name, /^\d+$/.test(value) ? Number(value) : value];
+    }));
+    const fields = restRoute.inputIn === 'body' ? await readJsonBody(req) : parseQuery(url.searchParams, queryProperties);
+    const input = restRoute.input ? restRoute.input.parse({ ...fields, ...pathParameters }) : undefined;
+
+    const result = await restRoute.handle(input, ownerId);
+    if (restRoute.output) {
+      sendJson(res, restRoute.status, result);
+    } else {
+      res.writeHead(restRoute.status).end();
+    }
+  } catch (error) {
+    handleError(res, error);
+  }
+  return true;
+};
@@ -1,73 +1,420 @@
-import { initTRPC } from '@trpc/server';
-import { createHTTPServer } from '@trpc/server/adapters/standalone';
+import { initTRPC, TRPCError } from '@trpc/server';
+import { createHTTPServer, type CreateHTTPContextOptions } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
 import superjson from 'superjson';
+import { ZodError } from 'zod';
 
 // Import schemas
 import { 
   createTaskInputSchema, 
   updateTaskInputSchema, 
   deleteTaskInputSchema, 
-  toggleTaskInputSchema 
+  restoreTaskInputSchema,
+  getTaskHistoryInputSchema,
+  toggleTaskInputSchema,
+  getTasksInputSchema,
+  getTaskInputSchema,
+  signUpInputSchema,
+  signInInputSchema,
+  createListInputSchema,
+  updateListInputSchema,
+  deleteListInputSchema,
+  moveTaskInputSchema,
+  reorderTaskInputSchema,
+  bulkToggleInputSchema,
+  bulkDeleteInputSchema,
+  bulkUpdateInputSchema,
+  taskScopeInputSchema,
+  exportTasksInputSchema,
+  searchTasksInputSchema,
+  importTasksInputSchema,
+  createTagInputSchema,
+  updateTagInputSchema,
+  mergeTagsInputSchema,
+  deleteTagInputSchema,
+  createWebhookInputSchema,
+  updateWebhookInputSchema,
+  deleteWebhookInputSchema,
+  getWebhookDeliveriesInputSchema,
+  retryWebhookDeliveryInputSchema
 } from './schema';
 
 // Import handlers
 import { createTask } from './handlers/create_task';
 import { getTasks } from './handlers/get_tasks';
+import { getTask } from './handlers/get_task';
+import { getTaskStats } from './handlers/get_task_stats';
 import { updateTask } from './handlers/update_task';
 import { deleteTask } from './handlers/delete_task';
+import { restoreTask } from './handlers/restore_task';
+import { getTrash } from './handlers/get_trash';
+import { emptyTrash } from './handlers/empty_trash';
+import { purgeExpiredTrash } from './handlers/purge_trash';
+import { purgeExpiredSessions } from './handlers/purge_sessions';
+import { getTaskHistory } from './handlers/get_task_history';
+import { onTaskChanges } from './handlers/on_task_changes';
 import { toggleTask } from './handlers/toggle_task';
+import { moveTask } from './handlers/move_task';
+import { reorderTask } from './handlers/reorder_task';
+import { bulkToggle } from './handlers/bulk_toggle';
+import { bulkDelete } from './handlers/bulk_delete';
+import { bulkUpdate } from './handlers/bulk_update';
+import { completeAll } from './handlers/complete_all';
+import { clearCompleted } from './handlers/clear_completed';
+import { exportTasks } from './handlers/export_tasks';
+import { searchTasks } from './handlers/search_tasks';
+import { importTasks } from './handlers/import_tasks';
+import { createList } from './handlers/create_list';
+import { getLists } from './handlers/get_lists';
+import { updateList } from './handlers/update_list';
+import { deleteList } from './handlers/delete_list';
+import { createTag } from './handlers/create_tag';
+import { getTags } from './handlers/get_tags';
+import { updateTag } from './handlers/update_tag';
+import { mergeTags } from './handlers/merge_tags';
+import { deleteTag } from './handlers/delete_tag';
+import { signUp } from './handlers/sign_up';
+import { signIn } from './handlers/sign_in';
+import { signOut } from './handlers/sign_out';
+import { getSessionUser } from './handlers/get_session_user';
+import { getCalendarFeed } from './handlers/get_calendar_feed';
+import { resetCalendarFeed } from './handlers/reset_calendar_feed';
+import { deleteCalendarFeed } from './handlers/delete_calendar_feed';
+import { createWebhook } from './handlers/create_webhook';
+import { getWebhooks } from './handlers/get_webhooks';
+import { updateWebhook } from './handlers/update_webhook';
+import { deleteWebhook } from './handlers/delete_webhook';
+import { getWebhookDeliveries } from './handlers/get_webhook_deliveries';
+import { retryWebhookDelivery } from './handlers/retry_webhook_delivery';
+import { deliverWebhooks } from './handlers/deliver_webhooks';
+import { getHealth } from './handlers/get_health';
+import { handleCalendarFeedRequest } from './http/calendar_feed';
+import { handleRestRequest } from './http/rest';
+import { handleMetricsRequest } from './http/metrics';
+import { TRASH_PURGE_INTERVAL_MINUTES, WEBHOOK_DELIVERY_INTERVAL_SECONDS } from './config';
+import { DomainError, RateLimitError, TaskConflictError, toTRPCError } from './errors';
+import { checkRateLimit, clientIp, rateLimitKey } from './utils/rate_limit';
+import { currentRequestId, logger, requestIdFor, withRequestId } from './utils/logger';
+import { recordProcedureCall } from './utils/metrics';
+import { migrateUp } from './db/migrate';
 
-const t = initTRPC.create({
+// Resolve the caller from an `Authorization: Bearer <token>` header, or from the connection
+// params of a subscription, since EventSource can't send headers. The request id is the one the
+// HTTP server assigned, so procedure logs and the X-Request-Id response header agree
+async function createContext({ req, info }: CreateHTTPContextOptions) {
+  const requestId = currentRequestId() ?? requestIdFor(req);
+  const header = req.headers.authorization;
+  const token = header?.startsWith('Bearer ')
+    ? header.slice('Bearer '.length).trim()
+    : info.connectionParams?.['token'] ?? null;
+  const user = token ? await getSessionUser(token) : null;
+  return { requestId, token, user, ip: clientIp(req) };
+}
+
+type Context = Awaited<ReturnType<typeof createContext>>;
+
+const t = initTRPC.context<Context>().create({
   transformer: superjson,
+  // Machine-readable details for clients: what kind of domain error it was, per-field
+  // messages for invalid input, and for stale writes the task as it is now
+  errorFormatter({ shape, error }) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        cause: error.cause instanceof DomainError ? error.cause.details : null,
+        field_errors: error.cause instanceof ZodError ? error.cause.flatten().fieldErrors : null,
+        current_task: error.cause instanceof TaskConflictError ? error.cause.current : null,
+      },
+    };
+  },
+  sse: {
+    // Keep idle subscription streams alive through proxies
+    ping: { enabled: true, intervalMs: 15_000 },
+  },
 });
 
-const publicProcedure = t.procedure;
+// Every call is timed and counted per procedure for /metrics, and logged once with its outcome:
+// failures the caller caused, such as domain errors and invalid input, at info level with their
+// message, anything unexpected at error level with the stack.
+// Domain errors thrown by handlers become TRPCErrors with the matching code;
+// anything else stays an INTERNAL_SERVER_ERROR. Every call, including each one of a batch,
+// spends a token of the caller's rate limit first; subscriptions count as queries
+const publicProcedure = t.procedure.use(async ({ ctx, path, type, next }) => {
+  const started = performance.now();
+  const result = await next();
+  const seconds = (performance.now() - started) / 1000;
+  const code = result.ok ? 'OK' : result.error.code;
+  recordProcedureCall(path, type, code, seconds);
+
+  const fields = { procedure: path, type, code, duration_ms: Math.round(seconds * 10_000) / 10, user_id: ctx.user?.id ?? null };
+  if (!result.ok && code === 'INTERNAL_SERVER_ERROR') {
+    logger.error('tRPC call failed', { ...fields, error: result.error.cause ?? result.error });
+  } else if (!result.ok) {
+    logger.info('tRPC call rejected', { ...fields, reason: result.error.message });
+  } else {
+    logger.info('tRPC call', fields);
+  }
+  return result;
+}).use(async ({ next }) => {
+  const result = await next();
+  if (!result.ok && result.error.cause instanceof DomainError) {
+    throw toTRPCError(result.error.cause);
+  }
+  return result;
+}).use(({ ctx, type, next }) => {
+  checkRateLimit(type === 'mutation' ? 'mutation' : 'query', rateLimitKey(ctx.user?.id ?? null, ctx.ip));
+  return next();
+});
+
+// Requires a valid session; narrows `ctx.user` and `ctx.token` to non-null
+const protectedProcedure = publicProcedure.use(({ ctx, next }) => {
+  if (!ctx.user || !ctx.token) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Sign in required' });
+  }
+  return next({ ctx: { user: ctx.user, token: ctx.token } });
+});
 const router = t.router;
 
 const appRouter = router({
-  // Health check endpoint
-  healthcheck: publicProcedure.query(() => {
-    return { status: 'ok', timestamp: new Date().toISOString() };
-  }),
+  // Health check endpoint - also checks the database; Prometheus metrics are at GET /metrics
+  healthcheck: publicProcedure.query(() => getHealth()),
 
-  // Task management endpoints
-  createTask: publicProcedure
+  // Authentication endpoints
+  signUp: publicProcedure
+    .input(signUpInputSchema)
+    .mutation(({ input }) => signUp(input)),
+
+  signIn: publicProcedure
+    .input(signInInputSchema)
+    .mutation(({ input }) => signIn(input)),
+
+  signOut: protectedProcedure
+    .mutation(({ ctx }) => signOut(ctx.token)),
+
+  me: protectedProcedure
+    .query(({ ctx }) => ctx.user),
+
+  // Task management endpoints - always scoped to the signed-in user
+  createTask: protectedProcedure
     .input(createTaskInputSchema)
-    .mutation(({ input }) => createTask(input)),
+    .mutation(({ input, ctx }) => createTask(input, ctx.user.id)),
+
+  getTasks: protectedProcedure
+    .input(getTasksInputSchema)
+    .query(({ input, ctx }) => getTasks(input, ctx.user.id)),
+
+  getTask: protectedProcedure
+    .input(getTaskInputSchema)
+    .query(({ input, ctx }) => getTask(input, ctx.user.id)),
 
-  getTasks: publicProcedure
-    .query(() => getTasks()),
+  searchTasks: protectedProcedure
+    .input(searchTasksInputSchema)
+    .query(({ input, ctx }) => searchTasks(input, ctx.user.id)),
 
-  updateTask: publicProcedure
+  getTaskStats: protectedProcedure
+    .query(({ ctx }) => getTaskStats(ctx.user.id)),
+
+  updateTask: protectedProcedure
     .input(updateTaskInputSchema)
-    .mutation(({ input }) => updateTask(input)),
+    .mutation(({ input, ctx }) => updateTask(input, ctx.user.id)),
 
-  deleteTask: publicProcedure
+  deleteTask: protectedProcedure
     .input(deleteTaskInputSchema)
-    .mutation(({ input }) => deleteTask(input)),
+    .mutation(({ input, ctx }) => deleteTask(input, ctx.user.id)),
+
+  restoreTask: protectedProcedure
+    .input(restoreTaskInputSchema)
+    .mutation(({ input, ctx }) => restoreTask(input, ctx.user.id)),
+
+  getTrash: protectedProcedure
+    .query(({ ctx }) => getTrash(ctx.user.id)),
+
+  emptyTrash: protectedProcedure
+    .mutation(({ ctx }) => emptyTrash(ctx.user.id)),
+
+  getTaskHistory: protectedProcedure
+    .input(getTaskHistoryInputSchema)
+    .query(({ input, ctx }) => getTaskHistory(input, ctx.user.id)),
+
+  // Live task changes over server-sent events
+  onTaskChanges: protectedProcedure
+    .subscription(({ ctx, signal }) => onTaskChanges(ctx.user.id, signal)),
 
-  toggleTask: publicProcedure
+  toggleTask: protectedProcedure
     .input(toggleTaskInputSchema)
-    .mutation(({ input }) => toggleTask(input)),
+    .mutation(({ input, ctx }) => toggleTask(input, ctx.user.id)),
+
+  moveTask: protectedProcedure
+    .input(moveTaskInputSchema)
+    .mutation(({ input, ctx }) => moveTask(input, ctx.user.id)),
+
+  reorderTask: protectedProcedure
+    .input(reorderTaskInputSchema)
+    .mutation(({ input, ctx }) => reorderTask(input, ctx.user.id)),
+
+  // Bulk task endpoints - one transaction per call, with a result per id
+  bulkToggle: protectedProcedure
+    .input(bulkToggleInputSchema)
+    .mutation(({ input, ctx }) => bulkToggle(input, ctx.user.id)),
+
+  bulkDelete: protectedProcedure
+    .input(bulkDeleteInputSchema)
+    .mutation(({ input, ctx }) => bulkDelete(input, ctx.user.id)),
+
+  bulkUpdate: protectedProcedure
+    .input(bulkUpdateInputSchema)
+    .mutation(({ input, ctx }) => bulkUpdate(input, ctx.user.id)),
+
+  completeAll: protectedProcedure
+    .input(taskScopeInputSchema)
+    .mutation(({ input, ctx }) => completeAll(input, ctx.user.id)),
+
+  clearCompleted: protectedProcedure
+    .input(taskScopeInputSchema)
+    .mutation(({ input, ctx }) => clearCompleted(input, ctx.user.id)),
+
+  // Import / export endpoints - file contents travel as strings
+  exportTasks: protectedProcedure
+    .input(exportTasksInputSchema)
+    .query(({ input, ctx }) => exportTasks(input, ctx.user.id)),
+
+  importTasks: protectedProcedure
+    .input(importTasksInputSchema)
+    .mutation(({ input, ctx }) => importTasks(input, ctx.user.id)),
+
+  // Calendar subscription endpoints - the feed itself is served outside tRPC at its secret URL
+  getCalendarFeed: protectedProcedure
+    .query(({ ctx }) => getCalendarFeed(ctx.user.id)),
+
+  resetCalendarFeed: protectedProcedure
+    .mutation(({ ctx }) => resetCalendarFeed(ctx.user.id)),
+
+  deleteCalendarFeed: protectedProcedure
+    .mutation(({ ctx }) => deleteCalendarFeed(ctx.user.id)),
+
+  // Webhook endpoints - deliveries are sent by a background job, see deliverWebhooks
+  createWebhook: protectedProcedure
+    .input(createWebhookInputSchema)
+    .mutation(({ input, ctx }) => createWebhook(input, ctx.user.id)),
+
+  getWebhooks: protectedProcedure
+    .query(({ ctx }) => getWebhooks(ctx.user.id)),
+
+  updateWebhook: protectedProcedure
+    .input(updateWebhookInputSchema)
+    .mutation(({ input, ctx }) => updateWebhook(input, ctx.user.id)),
+
+  deleteWebhook: protectedProcedure
+    .input(deleteWebhookInputSchema)
+    .mutation(({ input, ctx }) => deleteWebhook(input, ctx.user.id)),
+
+  getWebhookDeliveries: protectedProcedure
+    .input(getWebhookDeliveriesInputSchema)
+    .query(({ input, ctx }) => getWebhookDeliveries(input, ctx.user.id)),
+
+  retryWebhookDelivery: protectedProcedure
+    .input(retryWebhookDeliveryInputSchema)
+    .mutation(({ input, ctx }) => retryWebhookDelivery(input, ctx.user.id)),
+
+  // List management endpoints
+  createList: protectedProcedure
+    .input(createListInputSchema)
+    .mutation(({ input, ctx }) => createList(input, ctx.user.id)),
+
+  getLists: protectedProcedure
+    .query(({ ctx }) => getLists(ctx.user.id)),
+
+  updateList: protectedProcedure
+    .input(updateListInputSchema)
+    .mutation(({ input, ctx }) => updateList(input, ctx.user.id)),
+
+  deleteList: protectedProcedure
+    .input(deleteListInputSchema)
+    .mutation(({ input, ctx }) => deleteList(input, ctx.user.id)),
+
+  // Tag management endpoints
+  createTag: protectedProcedure
+    .input(createTagInputSchema)
+    .mutation(({ input, ctx }) => createTag(input, ctx.user.id)),
+
+  getTags: protectedProcedure
+    .query(({ ctx }) => getTags(ctx.user.id)),
+
+  updateTag: protectedProcedure
+    .input(updateTagInputSchema)
+    .mutation(({ input, ctx }) => updateTag(input, ctx.user.id)),
+
+  mergeTags: protectedProcedure
+    .input(mergeTagsInputSchema)
+    .mutation(({ input, ctx }) => mergeTags(input, ctx.user.id)),
+
+  deleteTag: protectedProcedure
+    .input(deleteTagInputSchema)
+    .mutation(({ input, ctx }) => deleteTag(input, ctx.user.id)),
 });
 
 export type AppRouter = typeof appRouter;
 
 async function start() {
+  // Bring the database up to date before serving; when several processes start at once, the
+  // migration lock has the others wait for the first to finish
+  for (const migration of await migrateUp()) {
+    logger.info(migration.baseline ? 'Recorded migration as applied to the existing schema' : 'Applied migration', {
+      migration: migration.name,
+      duration_ms: migration.duration_ms
+    });
+  }
+
   const port = process.env['SERVER_PORT'] || 2022;
   const server = createHTTPServer({
     middleware: (req, res, next) => {
-      cors()(req, res, next);
+      // Each request gets a correlation id, sent back in X-Request-Id and attached to every
+      // line logged while it is served
+      const requestId = requestIdFor(req);
+      res.setHeader('X-Request-Id', requestId);
+      withRequestId(requestId, () => cors()(req, res, async () => {
+        // Plain HTTP routes are answered here; everything else goes on to tRPC
+        if (!handleMetricsRequest(req, res) && !await handleCalendarFeedRequest(req, res) && !await handleRestRequest(req, res)) {
+          next();
+        }
+      }));
     },
     router: appRouter,
-    createContext() {
-      return {};
+    createContext,
+    // Tell rate-limited clients when to come back
+    responseMeta({ errors }) {
+      const retryAfter = errors
+        .map(error => error.cause instanceof RateLimitError ? error.cause.details.retry_after ?? 0 : 0)
+        .reduce((longest, seconds) => Math.max(longest, seconds), 0);
+      return retryAfter > 0 ? { headers: { 'Retry-After': String(retryAfter) } } : {};
     },
   });
   server.listen(port);
-  console.log(`TRPC server listening at port: ${port}`);
+  logger.info('TRPC server listening', { port: Number(port) });
+
+  // Background job that permanently removes expired trash and expired sessions
+  const purge = () => {
+    purgeExpiredTrash().catch((error: unknown) => logger.error('Trash purge failed', { error }));
+    purgeExpiredSessions().catch((error: unknown) => logger.error('Session purge failed', { error }));
+  };
+  purge();
+  setInterval(purge, TRASH_PURGE_INTERVAL_MINUTES * 60 * 1000).unref();
+
+  // Background job that sends queued webhook deliveries; a run still busy with slow receivers
+  // makes the next one skip its turn
+  let delivering = false;
+  setInterval(() => {
+    if (delivering) return;
+    delivering = true;
+    deliverWebhooks().catch((error: unknown) => logger.error('Webhook delivery failed', { error })).finally(() => {
+      delivering = false;
+    });
+  }, WEBHOOK_DELIVERY_INTERVAL_SECONDS * 1000).unref();
 }
 
-start();
\ No newline at end of file
+start().catch((error: unknown) => {
+  logger.error('Server failed to start', { error });
+  process.exit(1);
+});
@@ -0,0 +1,68 @@
+import { pool } from './db';
+import { migrateDown, migrateUp, migrationStatus, type AppliedMigration } from './db/migrate';
+
+const usage = `Usage: bun db:migrate <command>
+
+Commands:
+  status       List migrations and whether each one is applied
+  up [VERSION] Apply pending migrations, or only those up to VERSION
+  down [STEPS] Undo the last STEPS applied migrations (default 1)
+
+Migrations live in server/migrations as NNNN_name.up.sql and NNNN_name.down.sql.`;
+
+const parseCount = (value: string | undefined, name: string): number | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  const count = Number(value);
+  if (!Number.isInteger(count) || count < 1) {
+    throw new RangeError(`${name} must be a positive whole number`);
+  }
+  return count;
+};
+
+const report = (verb: string, results: AppliedMigration[]) => {
+  if (results.length === 0) {
+    console.log(`Nothing to ${verb === 'Applied' ? 'apply' : 'undo'}`);
+  }
+  for (const result of results) {
+    console.log(result.baseline
+      ? `Recorded ${result.name} as applied; its tables already exist`
+      : `${verb} ${result.name} (${result.duration_ms}ms)`);
+  }
+};
+
+const main = async ([command, arg, ...rest]: string[]): Promise<void> => {
+  if (rest.length > 0) {
+    throw new RangeError(`Unexpected argument "${rest[0]}"`);
+  }
+  switch (command) {
+    case 'status': {
+      const statuses = await migrationStatus();
+      for (const status of statuses) {
+        console.log(`${status.name.padEnd(40)} ${status.state.padEnd(8)} ${status.applied_at?.toISOString() ?? ''}`.trimEnd());
+      }
+      const pending = statuses.filter(status => status.state === 'pending').length;
+      console.log(`\n${statuses.length} migration(s), ${pending} pending`);
+      return;
+    }
+    case 'up':
+      return report('Applied', await migrateUp({ to: parseCount(arg, 'VERSION') }));
+    case 'down':
+      return report('Reverted', await migrateDown({ steps: parseCount(arg, 'STEPS') }));
+    default:
+      throw new RangeError(command === undefined ? 'Missing command' : `Unknown command "${command}"`);
+  }
+};
+
+main(process.argv.slice(2))
+  .catch((error: unknown) => {
+    if (error instanceof RangeError) {
+      console.error(`${error.message}\n\n${usage}`);
+      process.exitCode = 2;
+    } else {
+      console.error(error instanceof Error ? error.message : String(error));
+      process.exitCode = 1;
+    }
+  })
+  .finally(() => pool.end());
@@ -1,32 +1,326 @@
 import { z } from 'zod';
 
+// Due date building blocks - dates and times are wall-clock values in `due_timezone`
+// The regexes check the shape and the refinements reject dates and times that don't exist, like
+// 2024-02-30 or 25:61, before they reach Postgres
+export const dueDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Due date must be YYYY-MM-DD").refine(
+  (value) => {
+    const [year, month, day] = value.split('-').map(Number) as [number, number, number];
+    const date = new Date(Date.UTC(year, month - 1, day));
+    date.setUTCFullYear(year); // Date.UTC reads years below 100 as 19xx
+    return year >= 1 && date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+  },
+  { message: "Due date must be a real calendar date" }
+);
+export const dueTimeSchema = z.string().regex(/^\d{2}:\d{2}(:\d{2})?$/, "Due time must be HH:MM or HH:MM:SS").refine(
+  (value) => {
+    const [hours, minutes, seconds = 0] = value.split(':').map(Number) as [number, number, number?];
+    return hours <= 23 && minutes <= 59 && seconds <= 59;
+  },
+  { message: "Due time must be a real time of day" }
+);
+export const timezoneSchema = z.string().refine(
+  (zone) => {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: zone });
+      return true;
+    } catch {
+      return false;
+    }
+  },
+  { message: "Unknown IANA timezone" }
+);
+
+// Where a task's due date falls relative to "now" in the task's timezone
+export const dueStatusSchema = z.enum(['overdue', 'due_today', 'upcoming']);
+
+export type DueStatus = z.infer<typeof dueStatusSchema>;
+
+// Recurrence rules mirror the iCalendar RRULE subset we support (RFC 5545 §3.3.10)
+export const weekdaySchema = z.enum(['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU']);
+
+export type Weekday = z.infer<typeof weekdaySchema>;
+
+export const recurrenceRuleSchema = z.object({
+  freq: z.enum(['daily', 'weekly', 'monthly', 'yearly']),
+  interval: z.number().int().min(1).max(999).default(1),
+  by_weekday: z.array(weekdaySchema).min(1).optional(), // Weekly only; defaults to the due date's weekday
+  by_month_day: z.array(
+    z.number().int().min(-31).max(31).refine((day) => day !== 0, "Month day cannot be 0")
+  ).min(1).optional(), // Monthly only; negative counts from the month end, -1 = last day
+  count: z.number().int().min(1).optional(), // Occurrences left, including the current one
+  until: dueDateSchema.optional() // Last date an occurrence may fall on
+}).refine(
+  (rule) => rule.count === undefined || rule.until === undefined,
+  { message: "Use either count or until, not both", path: ['count'] }
+).refine(
+  (rule) => !rule.by_weekday || rule.freq === 'weekly',
+  { message: "Weekdays only apply to weekly rules", path: ['by_weekday'] }
+).refine(
+  (rule) => !rule.by_month_day || rule.freq === 'monthly',
+  { message: "Month days only apply to monthly rules", path: ['by_month_day'] }
+);
+
+export type RecurrenceRule = z.infer<typeof recurrenceRuleSchema>;
+
+// Public user shape - the password hash never leaves the server
+export const userSchema = z.object({
+  id: z.number(),
+  email: z.string(),
+  name: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export type User = z.infer<typeof userSchema>;
+
+// Input schema for creating an account
+export const signUpInputSchema = z.object({
+  email: z.string().trim().toLowerCase().email("A valid email is required"),
+  password: z.string().min(8, "Password must be at least 8 characters").max(256),
+  name: z.string().trim().min(1).nullable().optional()
+});
+
+export type SignUpInput = z.infer<typeof signUpInputSchema>;
+
+// Input schema for signing in with email and password
+export const signInInputSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(1)
+});
+
+export type SignInInput = z.infer<typeof signInInputSchema>;
+
+// A freshly issued session: the bearer token is only ever returned here
+export const authSessionSchema = z.object({
+  user: userSchema,
+  token: z.string(),
+  expires_at: z.coerce.date()
+});
+
+export type AuthSession = z.infer<typeof authSessionSchema>;
+
+// Icons a list can use - the client maps each key to an icon component
+export const listIconSchema = z.enum([
+  'list', 'briefcase', 'shopping-cart', 'home', 'star', 'heart', 'book', 'code', 'calendar', 'flag'
+]);
+
+export type ListIcon = z.infer<typeof listIconSchema>;
+
+export const listColorSchema = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Colour must be a hex value like #3b82f6");
+
+// Task priority, lowest first
+export const taskPriorities = ['none', 'low', 'medium', 'high', 'urgent'] as const;
+
+export const taskPrioritySchema = z.enum(taskPriorities);
+
+export type TaskPriority = z.infer<typeof taskPrioritySchema>;
+
+// List (project) schema - a named group of tasks
+export const listSchema = z.object({
+  id: z.number(),
+  owner_id: z.number(),
+  name: z.string(),
+  color: z.string(),
+  icon: listIconSchema,
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type List = z.infer<typeof listSchema>;
+
+// List with its task counts, as shown in the sidebar
+export const listWithCountsSchema = listSchema.extend({
+  task_count: z.number().int(),
+  completed_count: z.number().int()
+});
+
+export type ListWithCounts = z.infer<typeof listWithCountsSchema>;
+
+// Input schema for creating lists
+export const createListInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  color: listColorSchema.optional(), // Defaults to blue
+  icon: listIconSchema.optional() // Defaults to 'list'
+});
+
+export type CreateListInput = z.infer<typeof createListInputSchema>;
+
+// Input schema for updating lists
+export const updateListInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1).optional(),
+  color: listColorSchema.optional(),
+  icon: listIconSchema.optional()
+});
+
+export type UpdateListInput = z.infer<typeof updateListInputSchema>;
+
+// Input schema for deleting lists
+export const deleteListInputSchema = z.object({
+  id: z.number(),
+  delete_tasks: z.boolean().default(false) // false moves the list's tasks to the Inbox
+});
+
+export type DeleteListInput = z.infer<typeof deleteListInputSchema>;
+
+// Input schema for moving a task to another list
+export const moveTaskInputSchema = z.object({
+  id: z.number(),
+  list_id: z.number().nullable() // null moves the task to the Inbox
+});
+
+export type MoveTaskInput = z.infer<typeof moveTaskInputSchema>;
+
+// Tag (label) schema - tasks can carry any number of a user's tags
+export const tagSchema = z.object({
+  id: z.number(),
+  owner_id: z.number(),
+  name: z.string(),
+  color: z.string(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Tag = z.infer<typeof tagSchema>;
+
+// Tag with the number of tasks carrying it, as shown in the tag picker
+export const tagWithCountSchema = tagSchema.extend({
+  task_count: z.number().int()
+});
+
+export type TagWithCount = z.infer<typeof tagWithCountSchema>;
+
+// The subset of a tag embedded in every task
+export const taskTagSchema = tagSchema.pick({ id: true, name: true, color: true });
+
+export type TaskTag = z.infer<typeof taskTagSchema>;
+
+// Input schema for creating tags
+export const createTagInputSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  color: listColorSchema.optional() // Defaults to grey
+});
+
+export type CreateTagInput = z.infer<typeof createTagInputSchema>;
+
+// Input schema for renaming / recolouring tags
+export const updateTagInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1).optional(),
+  color: listColorSchema.optional()
+});
+
+export type UpdateTagInput = z.infer<typeof updateTagInputSchema>;
+
+// Input schema for merging one tag into another; the source tag is deleted
+export const mergeTagsInputSchema = z.object({
+  source_id: z.number(),
+  target_id: z.number()
+}).refine(
+  (input) => input.source_id !== input.target_id,
+  { message: "Cannot merge a tag into itself", path: ['target_id'] }
+);
+
+export type MergeTagsInput = z.infer<typeof mergeTagsInputSchema>;
+
+// Input schema for deleting tags
+export const deleteTagInputSchema = z.object({
+  id: z.number()
+});
+
+export type DeleteTagInput = z.infer<typeof deleteTagInputSchema>;
+
+const tagIdsSchema = z.array(z.number()).max(50);
+
 // Task schema with proper numeric handling
 export const taskSchema = z.object({
   id: z.number(),
+  owner_id: z.number(),
+  list_id: z.number().nullable(), // null = Inbox
+  parent_id: z.number().nullable(), // null = top-level task
   title: z.string(),
   description: z.string().nullable(), // Nullable field for optional descriptions
   completed: z.boolean(),
+  priority: taskPrioritySchema,
+  position: z.string(), // Opaque manual-order key; sort by it with a bytewise comparison
+  due_date: z.string().nullable(), // YYYY-MM-DD
+  due_time: z.string().nullable(), // HH:MM:SS
+  due_timezone: z.string().nullable(),
+  due_status: dueStatusSchema.nullable(), // Derived, null when the task has no due date or is completed
+  recurrence: recurrenceRuleSchema.nullable(), // Completing the task schedules the next occurrence
+  tags: z.array(taskTagSchema), // Sorted by name
   created_at: z.coerce.date(), // Automatically converts string timestamps to Date objects
-  updated_at: z.coerce.date()
+  updated_at: z.coerce.date(),
+  deleted_at: z.coerce.date().nullable() // Set while the task is in the trash
 });
 
 export type Task = z.infer<typeof taskSchema>;
 
+// Task in the trash, with the time it will be purged for good
+export const trashItemSchema = taskSchema.extend({
+  purge_at: z.coerce.date()
+});
+
+export type TrashItem = z.infer<typeof trashItemSchema>;
+
+// Task as returned by getTasks, with progress rolled up over all of its subtasks
+export const taskListItemSchema = taskSchema.extend({
+  subtask_count: z.number().int(),
+  completed_subtask_count: z.number().int()
+});
+
+export type TaskListItem = z.infer<typeof taskListItemSchema>;
+
+// Longest title and description a task may have
+export const TASK_TITLE_MAX_LENGTH = 500;
+export const TASK_DESCRIPTION_MAX_LENGTH = 10_000;
+
+const titleTooLong = `Title can be at most ${TASK_TITLE_MAX_LENGTH} characters`;
+const descriptionTooLong = `Description can be at most ${TASK_DESCRIPTION_MAX_LENGTH} characters`;
+
 // Input schema for creating tasks
 export const createTaskInputSchema = z.object({
-  title: z.string().min(1, "Title is required"),
-  description: z.string().nullable().optional() // Can be null or undefined
-});
+  title: z.string().min(1, "Title is required").max(TASK_TITLE_MAX_LENGTH, titleTooLong),
+  list_id: z.number().nullable().optional(), // Omit or null for the Inbox
+  parent_id: z.number().nullable().optional(), // Creates a subtask; it inherits the parent's list
+  description: z.string().max(TASK_DESCRIPTION_MAX_LENGTH, descriptionTooLong).nullable().optional(), // Can be null or undefined
+  tag_ids: tagIdsSchema.optional(),
+  priority: taskPrioritySchema.optional(), // Defaults to 'none'
+  due_date: dueDateSchema.nullable().optional(),
+  due_time: dueTimeSchema.nullable().optional(),
+  due_timezone: timezoneSchema.nullable().optional(), // Defaults to UTC when omitted
+  recurrence: recurrenceRuleSchema.nullable().optional()
+}).refine(
+  (input) => !input.due_time || !!input.due_date,
+  { message: "Due time requires a due date", path: ['due_time'] }
+).refine(
+  (input) => !input.recurrence || !!input.due_date,
+  { message: "Recurring tasks need a due date", path: ['recurrence'] }
+);
 
 export type CreateTaskInput = z.infer<typeof createTaskInputSchema>;
 
 // Input schema for updating tasks
 export const updateTaskInputSchema = z.object({
   id: z.number(),
-  title: z.string().min(1).optional(), // Optional = field can be undefined (omitted)
-  description: z.string().nullable().optional(), // Can be null or undefined
-  completed: z.boolean().optional()
-});
+  title: z.string().min(1).max(TASK_TITLE_MAX_LENGTH, titleTooLong).optional(), // Optional = field can be undefined (omitted)
+  description: z.string().max(TASK_DESCRIPTION_MAX_LENGTH, descriptionTooLong).nullable().optional(), // Can be null or undefined
+  completed: z.boolean().optional(),
+  priority: taskPrioritySchema.optional(),
+  due_date: dueDateSchema.nullable().optional(), // null clears the due date, time, timezone and recurrence
+  due_time: dueTimeSchema.nullable().optional(),
+  due_timezone: timezoneSchema.nullable().optional(),
+  recurrence: recurrenceRuleSchema.nullable().optional(), // null stops the task repeating
+  add_tag_ids: tagIdsSchema.optional(), // Tags to attach; already attached ones are ignored
+  remove_tag_ids: tagIdsSchema.optional(), // Tags to detach
+  expected_updated_at: z.coerce.date().optional() // When given, the update fails with CONFLICT if the task changed since
+}).refine(
+  (input) => !(input.due_time && input.due_date === null),
+  { message: "Due time requires a due date", path: ['due_time'] }
+).refine(
+  (input) => !(input.recurrence && input.due_date === null),
+  { message: "Recurring tasks need a due date", path: ['recurrence'] }
+);
 
 export type UpdateTaskInput = z.infer<typeof updateTaskInputSchema>;
 
@@ -37,10 +331,461 @@ export const deleteTaskInputSchema = z.object({
 
 export type DeleteTaskInput = z.infer<typeof deleteTaskInputSchema>;
 
+// Input schema for reading one task
+export const getTaskInputSchema = z.object({
+  id: z.number()
+});
+
+export type GetTaskInput = z.infer<typeof getTaskInputSchema>;
+
+// Input schema for bringing a task back out of the trash
+export const restoreTaskInputSchema = z.object({
+  id: z.number()
+});
+
+export type RestoreTaskInput = z.infer<typeof restoreTaskInputSchema>;
+
 // Input schema for marking task as complete/incomplete
 export const toggleTaskInputSchema = z.object({
   id: z.number(),
-  completed: z.boolean()
+  completed: z.boolean(),
+  include_subtasks: z.boolean().default(false), // When completing, also complete every subtask
+  expected_updated_at: z.coerce.date().optional() // When given, the toggle fails with CONFLICT if the task changed since
+});
+
+export type ToggleTaskInput = z.infer<typeof toggleTaskInputSchema>;
+
+// Input schema for manual reordering: place a task directly before or after a sibling
+export const reorderTaskInputSchema = z.object({
+  id: z.number(),
+  before_id: z.number().optional(),
+  after_id: z.number().optional()
+}).refine(
+  (input) => (input.before_id === undefined) !== (input.after_id === undefined),
+  { message: "Provide exactly one of before_id or after_id", path: ['before_id'] }
+);
+
+export type ReorderTaskInput = z.infer<typeof reorderTaskInputSchema>;
+
+// Most ids one bulk call takes, which bounds the rows its transaction holds
+export const BULK_MAX_IDS = 500;
+
+const bulkTaskIdsSchema = z.array(z.number()).min(1).max(BULK_MAX_IDS);
+
+// Input schema for completing or reopening many tasks at once
+export const bulkToggleInputSchema = z.object({
+  ids: bulkTaskIdsSchema,
+  completed: z.boolean(),
+  include_subtasks: z.boolean().default(false)
+});
+
+export type BulkToggleInput = z.infer<typeof bulkToggleInputSchema>;
+
+// Input schema for moving many tasks to the trash at once
+export const bulkDeleteInputSchema = z.object({
+  ids: bulkTaskIdsSchema
+});
+
+export type BulkDeleteInput = z.infer<typeof bulkDeleteInputSchema>;
+
+// Input schema for moving, re-prioritising and tagging many tasks at once
+export const bulkUpdateInputSchema = z.object({
+  ids: bulkTaskIdsSchema,
+  list_id: z.number().nullable().optional(), // null = Inbox
+  priority: taskPrioritySchema.optional(),
+  add_tag_ids: tagIdsSchema.optional(),
+  remove_tag_ids: tagIdsSchema.optional()
+}).refine(
+  (input) => input.list_id !== undefined || input.priority !== undefined || !!input.add_tag_ids?.length || !!input.remove_tag_ids?.length,
+  { message: "Nothing to change", path: ['ids'] }
+);
+
+export type BulkUpdateInput = z.infer<typeof bulkUpdateInputSchema>;
+
+// Input schema for "complete all" / "clear completed" over a sidebar selection
+export const taskScopeInputSchema = z.object({
+  list_id: z.number().nullable().optional() // null = Inbox only, omit for every list
+});
+
+export type TaskScopeInput = z.infer<typeof taskScopeInputSchema>;
+
+// Outcome for one id of a bulk operation; failed ids leave the rest of the batch untouched
+export const bulkItemResultSchema = z.object({
+  id: z.number(),
+  success: z.boolean(),
+  task: taskSchema.nullable(), // The task after the change; null for deletions and failures
+  error: z.object({
+    reason: z.string(), // Machine-readable, e.g. 'not_found'
+    message: z.string()
+  }).nullable()
+});
+
+export type BulkItemResult = z.infer<typeof bulkItemResultSchema>;
+
+export const bulkResultSchema = z.object({
+  results: z.array(bulkItemResultSchema), // In the order the ids were given
+  succeeded: z.number().int(),
+  failed: z.number().int()
+});
+
+export type BulkResult = z.infer<typeof bulkResultSchema>;
+
+// File formats tasks can be exported to and imported from
+export const taskFileFormatSchema = z.enum(['json', 'csv', 'markdown']);
+
+export type TaskFileFormat = z.infer<typeof taskFileFormatSchema>;
+
+// Version written into JSON exports; bump it when the shape of a portable task changes
+export const TASK_EXPORT_VERSION = 1;
+
+// A task as stored in an export file: its list and tags by name rather than id, so files
+// can move between accounts. Subtasks are nested under their parent.
+export const portableTaskSchema = z.object({
+  title: z.string().trim().min(1, "Title is required").max(TASK_TITLE_MAX_LENGTH, titleTooLong),
+  description: z.string().max(TASK_DESCRIPTION_MAX_LENGTH, descriptionTooLong).nullable().default(null),
+  completed: z.boolean().default(false),
+  priority: taskPrioritySchema.default('none'),
+  due_date: dueDateSchema.nullable().default(null),
+  due_time: dueTimeSchema.nullable().default(null),
+  due_timezone: timezoneSchema.nullable().default(null),
+  recurrence: recurrenceRuleSchema.nullable().default(null),
+  list: z.string().nullable().default(null), // null = Inbox; ignored for subtasks
+  tags: z.array(z.string().trim().min(1)).default([])
+}).refine(
+  (task) => !task.due_time || !!task.due_date,
+  { message: "Due time requires a due date", path: ['due_time'] }
+).refine(
+  (task) => !task.recurrence || !!task.due_date,
+  { message: "Recurring tasks need a due date", path: ['recurrence'] }
+);
+
+export type PortableTask = z.infer<typeof portableTaskSchema> & { subtasks: PortableTask[] };
+
+// Input schema for exporting the user's tasks
+export const exportTasksInputSchema = z.object({
+  format: taskFileFormatSchema,
+  list_id: z.number().nullable().optional(), // null = Inbox only, omit for every list
+  include_completed: z.boolean().default(true)
+});
+
+export type ExportTasksInput = z.infer<typeof exportTasksInputSchema>;
+
+export const taskExportSchema = z.object({
+  filename: z.string(),
+  content_type: z.string(),
+  content: z.string(),
+  count: z.number().int() // Tasks in the file, subtasks included
+});
+
+export type TaskExport = z.infer<typeof taskExportSchema>;
+
+// Columns a CSV file can map its headers onto
+export const taskCsvColumnSchema = z.enum([
+  'title', 'description', 'completed', 'priority', 'due_date', 'due_time', 'due_timezone', 'recurrence', 'list', 'tags', 'parent'
+]);
+
+export type TaskCsvColumn = z.infer<typeof taskCsvColumnSchema>;
+
+// What to do with an imported task whose title matches an existing sibling (ignoring case)
+export const importDuplicateModeSchema = z.enum(['skip', 'update', 'create']);
+
+// Input schema for importing tasks from a file's contents
+export const importTasksInputSchema = z.object({
+  format: taskFileFormatSchema,
+  content: z.string().min(1).max(5_000_000),
+  // Put every top-level task in this list (null = Inbox); omit to use the list named in the
+  // file, which is created if it doesn't exist yet
+  list_id: z.number().nullable().optional(),
+  duplicates: importDuplicateModeSchema.default('skip'),
+  column_map: z.record(z.string(), taskCsvColumnSchema).optional(), // CSV header -> column; others match by name
+  dry_run: z.boolean().default(false) // Report what would happen without changing anything
+});
+
+export type ImportTasksInput = z.infer<typeof importTasksInputSchema>;
+
+// What happened (or would happen, in a dry run) to one task of the file
+export const importItemSchema = z.object({
+  row: z.number().int(), // CSV row, Markdown line or JSON task number, counting from 1
+  title: z.string(),
+  action: z.enum(['create', 'update', 'skip', 'error']),
+  task_id: z.number().nullable(), // The created or updated task; null in dry runs for new tasks
+  message: z.string().nullable() // Why it was skipped or failed
+});
+
+export type ImportItem = z.infer<typeof importItemSchema>;
+
+export const importReportSchema = z.object({
+  dry_run: z.boolean(),
+  created: z.number().int(),
+  updated: z.number().int(),
+  skipped: z.number().int(),
+  failed: z.number().int(),
+  items: z.array(importItemSchema)
+});
+
+export type ImportReport = z.infer<typeof importReportSchema>;
+
+// Sort keys for task listings - "manual" is the user's own ordering; "smart" ranks by
+// priority, then due date (undated last), then age, with ascending = most important first
+export const taskSortKeySchema = z.enum(['created', 'updated', 'title', 'manual', 'smart']);
+
+export type TaskSortKey = z.infer<typeof taskSortKeySchema>;
+
+// Input schema for listing tasks with filters, sorting and cursor pagination
+export const getTasksInputSchema = z.object({
+  list_id: z.number().nullable().optional(), // null = Inbox only, omit for every list
+  parent_id: z.number().nullable().default(null), // null = top-level tasks, otherwise that task's direct subtasks
+  completed: z.boolean().optional(), // Omit to include both states
+  query: z.string().trim().min(1).optional(), // Case-insensitive match on title or description
+  tags_any: tagIdsSchema.min(1).optional(), // Tasks with at least one of these tags
+  tags_all: tagIdsSchema.min(1).optional(), // Tasks with every one of these tags
+  tags_none: tagIdsSchema.min(1).optional(), // Tasks with none of these tags
+  created_after: z.coerce.date().optional(),
+  created_before: z.coerce.date().optional(),
+  updated_after: z.coerce.date().optional(),
+  updated_before: z.coerce.date().optional(),
+  sort: taskSortKeySchema.default('created'),
+  direction: z.enum(['asc', 'desc']).default('desc'),
+  limit: z.number().int().min(1).max(100).default(50),
+  cursor: z.string().nullable().optional() // Opaque `next_cursor` from the previous page
+});
+
+export type GetTasksInput = z.infer<typeof getTasksInputSchema>;
+
+// A page of tasks; `next_cursor` is null on the last page
+export const taskPageSchema = z.object({
+  items: z.array(taskListItemSchema),
+  next_cursor: z.string().nullable()
+});
+
+export type TaskPage = z.infer<typeof taskPageSchema>;
+
+// Aggregate counts across all tasks, used for summary stats
+export const taskStatsSchema = z.object({
+  total: z.number().int(),
+  completed: z.number().int(),
+  overdue: z.number().int()
+});
+
+export type TaskStats = z.infer<typeof taskStatsSchema>;
+
+// Kinds of change recorded in a task's history; moves and reorders count as updates
+export const taskEventTypes = ['created', 'updated', 'toggled', 'deleted', 'restored'] as const;
+
+export const taskEventTypeSchema = z.enum(taskEventTypes);
+
+export type TaskEventType = z.infer<typeof taskEventTypeSchema>;
+
+// Before/after values of each field an event changed, keyed by field name
+export const taskChangesSchema = z.record(z.object({
+  from: z.unknown(),
+  to: z.unknown()
+}));
+
+export type TaskChanges = z.infer<typeof taskChangesSchema>;
+
+// One entry in a task's audit history
+export const taskEventSchema = z.object({
+  id: z.number(),
+  task_id: z.number(),
+  actor_id: z.number().nullable(), // User who made the change; null once that account is gone
+  type: taskEventTypeSchema,
+  changes: taskChangesSchema,
+  created_at: z.coerce.date()
+});
+
+export type TaskEvent = z.infer<typeof taskEventSchema>;
+
+// Input schema for reading a task's history
+export const getTaskHistoryInputSchema = z.object({
+  task_id: z.number()
+});
+
+export type GetTaskHistoryInput = z.infer<typeof getTaskHistoryInputSchema>;
+
+// Live change pushed to every open client of a user: the current state of created or
+// updated tasks, or the ids of tasks that went away (deleted or moved to the trash)
+export const taskChangeEventSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.enum(['created', 'updated']),
+    tasks: z.array(taskListItemSchema)
+  }),
+  z.object({
+    type: z.literal('deleted'),
+    ids: z.array(z.number())
+  })
+]);
+
+export type TaskChangeEvent = z.infer<typeof taskChangeEventSchema>;
+
+// State of the user's calendar subscription; the secret URL is only shown when it is issued
+export const calendarFeedSchema = z.object({
+  enabled: z.boolean(),
+  created_at: z.coerce.date().nullable() // When the current URL was issued
+});
+
+export type CalendarFeed = z.infer<typeof calendarFeedSchema>;
+
+// A newly issued calendar subscription; any previous URL stops working
+export const calendarFeedTokenSchema = z.object({
+  token: z.string(),
+  path: z.string(), // Feed location on the API server, e.g. /calendar/<token>.ics
+  created_at: z.coerce.date()
+});
+
+export type CalendarFeedToken = z.infer<typeof calendarFeedTokenSchema>;
+
+// Input schema for full-text search over task titles and descriptions
+export const searchTasksInputSchema = z.object({
+  query: z.string().trim().min(1).max(200), // Words to look for; the last one may be typed partially
+  limit: z.number().int().min(1).max(50).default(20),
+  include_completed: z.boolean().default(true)
+});
+
+export type SearchTasksInput = z.infer<typeof searchTasksInputSchema>;
+
+// A run of text in a search result, flagged when it matched the query
+export const highlightSegmentSchema = z.object({
+  text: z.string(),
+  match: z.boolean()
+});
+
+export type HighlightSegment = z.infer<typeof highlightSegmentSchema>;
+
+// A task matching a search, best matches first
+export const searchResultSchema = z.object({
+  task: taskListItemSchema,
+  root_id: z.number(), // Top-level task the match sits under (its own id when it is top-level)
+  rank: z.number(),
+  title: z.array(highlightSegmentSchema), // Whole title with the matched words flagged
+  snippet: z.array(highlightSegmentSchema) // Excerpts of the description around matches; empty when it didn't match
+});
+
+export type SearchResult = z.infer<typeof searchResultSchema>;
+
+// Error body of the REST API; carries the same details tRPC clients get in `error.data`
+export const restErrorSchema = z.object({
+  error: z.object({
+    message: z.string(),
+    reason: z.enum(['not_found', 'validation', 'conflict', 'unauthorized', 'forbidden', 'rate_limited', 'quota_exceeded', 'unavailable', 'internal']),
+    details: z.object({
+      resource: z.enum(['task', 'list', 'tag', 'user', 'webhook', 'webhook_delivery']).optional(),
+      id: z.number().optional(),
+      field: z.string().optional(),
+      retry_after: z.number().int().optional(), // Seconds to wait before trying again, also sent as Retry-After
+      limit: z.number().int().optional() // The quota that was reached
+    }).nullable(),
+    field_errors: z.record(z.array(z.string())).nullable(), // Messages per input field when the input was invalid
+    current_task: taskSchema.nullable() // For stale writes, the task as it is now
+  })
+});
+
+export type RestError = z.infer<typeof restErrorSchema>;
+
+// Task lifecycle events a webhook can subscribe to
+export const webhookEventTypes = ['task.created', 'task.completed', 'task.deleted'] as const;
+
+export const webhookEventTypeSchema = z.enum(webhookEventTypes);
+
+export type WebhookEventType = z.infer<typeof webhookEventTypeSchema>;
+
+// Where a delivery stands: pending until the receiver answers with a 2xx, dead once every retry failed
+export const webhookDeliveryStatuses = ['pending', 'delivered', 'dead'] as const;
+
+export const webhookDeliveryStatusSchema = z.enum(webhookDeliveryStatuses);
+
+export type WebhookDeliveryStatus = z.infer<typeof webhookDeliveryStatusSchema>;
+
+const webhookUrlSchema = z.string().trim().url()
+  .refine(url => /^https?:\/\//i.test(url), 'Webhook URLs must use http or https');
+
+// Subscription to task events; the signing secret is only returned when the webhook is created
+export const webhookSchema = z.object({
+  id: z.number(),
+  owner_id: z.number(),
+  url: z.string(),
+  events: z.array(webhookEventTypeSchema),
+  active: z.boolean(), // Paused webhooks get no new events and keep their queue until switched back on
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export type Webhook = z.infer<typeof webhookSchema>;
+
+export const createdWebhookSchema = webhookSchema.extend({
+  secret: z.string() // Key for the X-Webhook-Signature HMAC; not shown again
+});
+
+export type CreatedWebhook = z.infer<typeof createdWebhookSchema>;
+
+// Input schema for creating webhooks
+export const createWebhookInputSchema = z.object({
+  url: webhookUrlSchema,
+  events: z.array(webhookEventTypeSchema).min(1, 'Pick at least one event'),
+  secret: z.string().min(16).max(256).optional() // Generated when not given
+});
+
+export type CreateWebhookInput = z.infer<typeof createWebhookInputSchema>;
+
+// Input schema for updating webhooks
+export const updateWebhookInputSchema = z.object({
+  id: z.number(),
+  url: webhookUrlSchema.optional(),
+  events: z.array(webhookEventTypeSchema).min(1, 'Pick at least one event').optional(),
+  active: z.boolean().optional()
+});
+
+export type UpdateWebhookInput = z.infer<typeof updateWebhookInputSchema>;
+
+// Input schema for deleting webhooks
+export const deleteWebhookInputSchema = z.object({
+  id: z.number()
+});
+
+export type DeleteWebhookInput = z.infer<typeof deleteWebhookInputSchema>;
+
+// JSON body POSTed to the receiver; `task` is the task as the API returns it, with ISO date strings
+export const webhookPayloadSchema = z.object({
+  id: z.string(), // Unique per event and kept across retries, so receivers can drop duplicates
+  type: webhookEventTypeSchema,
+  created_at: z.string(), // When the change happened
+  data: z.object({
+    task: z.record(z.unknown())
+  })
+});
+
+export type WebhookPayload = z.infer<typeof webhookPayloadSchema>;
+
+// One event queued for one webhook, with the outcome of its latest attempt
+export const webhookDeliverySchema = z.object({
+  id: z.number(),
+  webhook_id: z.number(),
+  event: webhookEventTypeSchema,
+  payload: webhookPayloadSchema,
+  status: webhookDeliveryStatusSchema,
+  attempts: z.number().int(),
+  next_attempt_at: z.coerce.date().nullable(), // null once delivered or dead
+  last_attempt_at: z.coerce.date().nullable(),
+  response_status: z.number().int().nullable(), // HTTP status of the last attempt; null when there was no response
+  last_error: z.string().nullable(), // Why the last attempt failed: the HTTP status or a connection error, never the response body
+  created_at: z.coerce.date(),
+  delivered_at: z.coerce.date().nullable()
+});
+
+export type WebhookDelivery = z.infer<typeof webhookDeliverySchema>;
+
+// Input schema for inspecting recent deliveries, newest first
+export const getWebhookDeliveriesInputSchema = z.object({
+  webhook_id: z.number().optional(), // All of the user's webhooks when omitted
+  status: webhookDeliveryStatusSchema.optional(),
+  limit: z.number().int().min(1).max(100).default(50)
+});
+
+export type GetWebhookDeliveriesInput = z.infer<typeof getWebhookDeliveriesInputSchema>;
+
+// Input schema for sending a delivery again, e.g. one that was dead-lettered
+export const retryWebhookDeliveryInputSchema = z.object({
+  id: z.number()
 });
 
-export type ToggleTaskInput = z.infer<typeof toggleTaskInputSchema>;
\ No newline at end of file
+export type RetryWebhookDeliveryInput = z.infer<typeof retryWebhookDeliveryInputSchema>;
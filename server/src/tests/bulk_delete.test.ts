@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { bulkDelete } from '../handlers/bulk_delete';
+import { restoreTask } from '../handlers/restore_task';
+import { isNull } from 'drizzle-orm';
+
+describe('bulkDelete', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should move every given task to the trash', async () => {
+    const created = await db.insert(tasksTable)
+      .values([{ owner_id: ownerId, title: 'A' }, { owner_id: ownerId, title: 'B' }, { owner_id: ownerId, title: 'Keep' }])
+      .returning()
+      .execute();
+
+    const result = await bulkDelete({ ids: [created[0].id, created[1].id] }, ownerId);
+
+    expect(result.succeeded).toBe(2);
+    const live = await db.select().from(tasksTable).where(isNull(tasksTable.deleted_at)).execute();
+    expect(live.map(t => t.title)).toEqual(['Keep']);
+  });
+
+  it('should keep selected subtasks grouped with their selected parent', async () => {
+    const [parent] = await db.insert(tasksTable).values({ owner_id: ownerId, title: 'Parent' }).returning().execute();
+    const [child] = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, parent_id: parent.id, title: 'Child' })
+      .returning()
+      .execute();
+
+    // Child first, which would split the group if it were trashed on its own
+    const result = await bulkDelete({ ids: [child.id, parent.id] }, ownerId);
+
+    expect(result.results.every(r => r.success)).toBe(true);
+    const tasks = await db.select().from(tasksTable).execute();
+    expect(new Set(tasks.map(t => t.deleted_at?.getTime())).size).toBe(1);
+
+    await restoreTask({ id: parent.id }, ownerId);
+    expect(await db.select().from(tasksTable).where(isNull(tasksTable.deleted_at)).execute()).toHaveLength(2);
+  });
+
+  it('should report ids that are already in the trash', async () => {
+    const [task] = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, title: 'Gone', deleted_at: new Date() })
+      .returning()
+      .execute();
+
+    const result = await bulkDelete({ ids: [task.id] }, ownerId);
+
+    expect(result.failed).toBe(1);
+    expect(result.results[0].error?.reason).toEqual('not_found');
+  });
+});
@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { taskEventsTable, tasksTable } from '../db/schema';
+import { bulkToggle } from '../handlers/bulk_toggle';
+import { asc } from 'drizzle-orm';
+
+describe('bulkToggle', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should complete every given task and report each one', async () => {
+    const created = await db.insert(tasksTable)
+      .values([{ owner_id: ownerId, title: 'A' }, { owner_id: ownerId, title: 'B' }])
+      .returning()
+      .execute();
+
+    const result = await bulkToggle({ ids: created.map(t => t.id), completed: true, include_subtasks: false }, ownerId);
+
+    expect(result.succeeded).toBe(2);
+    expect(result.failed).toBe(0);
+    expect(result.results.map(r => r.id)).toEqual(created.map(t => t.id));
+    expect(result.results.every(r => r.task?.completed)).toBe(true);
+    const tasks = await db.select().from(tasksTable).execute();
+    expect(tasks.every(t => t.completed)).toBe(true);
+    expect(await db.select().from(taskEventsTable).execute()).toHaveLength(2);
+  });
+
+  it('should report missing and foreign ids without failing the rest', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const [mine] = await db.insert(tasksTable).values({ owner_id: ownerId, title: 'Mine' }).returning().execute();
+    const [theirs] = await db.insert(tasksTable).values({ owner_id: otherUser.id, title: 'Theirs' }).returning().execute();
+
+    const result = await bulkToggle({ ids: [mine.id, theirs.id, 999999], completed: true, include_subtasks: false }, ownerId);
+
+    expect(result.succeeded).toBe(1);
+    expect(result.failed).toBe(2);
+    expect(result.results[1]).toEqual({
+      id: theirs.id,
+      success: false,
+      task: null,
+      error: { reason: 'not_found', message: `Task with id ${theirs.id} not found` }
+    });
+    const tasks = await db.select().from(tasksTable).orderBy(asc(tasksTable.id)).execute();
+    expect(tasks.map(t => t.completed)).toEqual([true, false]);
+  });
+
+  it('should handle each id once', async () => {
+    const [task] = await db.insert(tasksTable).values({ owner_id: ownerId, title: 'Once' }).returning().execute();
+
+    const result = await bulkToggle({ ids: [task.id, task.id], completed: true, include_subtasks: false }, ownerId);
+
+    expect(result.results).toHaveLength(1);
+  });
+});
@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable, tagsTable, tasksTable, taskTagsTable } from '../db/schema';
+import { bulkUpdate } from '../handlers/bulk_update';
+
+describe('bulkUpdate', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should move, re-prioritise and tag every given task', async () => {
+    const [list] = await db.insert(listsTable).values({ owner_id: ownerId, name: 'Work' }).returning().execute();
+    const [tag] = await db.insert(tagsTable).values({ owner_id: ownerId, name: 'urgent' }).returning().execute();
+    const created = await db.insert(tasksTable)
+      .values([{ owner_id: ownerId, title: 'A' }, { owner_id: ownerId, title: 'B' }])
+      .returning()
+      .execute();
+
+    const result = await bulkUpdate({
+      ids: created.map(t => t.id),
+      list_id: list.id,
+      priority: 'high',
+      add_tag_ids: [tag.id]
+    }, ownerId);
+
+    expect(result.succeeded).toBe(2);
+    expect(result.results.map(r => r.task?.tags.map(t => t.name))).toEqual([['urgent'], ['urgent']]);
+    const tasks = await db.select().from(tasksTable).execute();
+    expect(tasks.every(t => t.list_id === list.id && t.priority === 'high')).toBe(true);
+    expect(await db.select().from(taskTagsTable).execute()).toHaveLength(2);
+  });
+
+  it('should roll back a failing id on its own', async () => {
+    const [task] = await db.insert(tasksTable).values({ owner_id: ownerId, title: 'A' }).returning().execute();
+
+    // The move succeeds for the task, then the unknown tag fails it; nothing of it may stick
+    const [list] = await db.insert(listsTable).values({ owner_id: ownerId, name: 'Work' }).returning().execute();
+    const result = await bulkUpdate({ ids: [task.id], list_id: list.id, add_tag_ids: [999999] }, ownerId);
+
+    expect(result.failed).toBe(1);
+    expect(result.results[0].error?.reason).toEqual('not_found');
+    const [row] = await db.select().from(tasksTable).execute();
+    expect(row.list_id).toBeNull();
+  });
+});
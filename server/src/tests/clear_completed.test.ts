@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { clearCompleted } from '../handlers/clear_completed';
+import { BULK_MAX_IDS } from '../schema';
+import { inArray, isNull } from 'drizzle-orm';
+
+describe('clearCompleted', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should move completed Inbox tasks to the trash', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    await db.insert(tasksTable)
+      .values([
+        { owner_id: ownerId, title: 'Done', completed: true },
+        { owner_id: ownerId, title: 'Open' },
+        { owner_id: otherUser.id, title: 'Not mine', completed: true }
+      ])
+      .execute();
+
+    const result = await clearCompleted({ list_id: null }, ownerId);
+
+    expect(result.succeeded).toBe(1);
+    const live = await db.select().from(tasksTable).where(isNull(tasksTable.deleted_at)).execute();
+    expect(live.map(t => t.title).sort()).toEqual(['Not mine', 'Open']);
+  });
+
+  it('should trash completed subtasks together with their completed parent, however many tasks there are', async () => {
+    // More top-level tasks than one bulk call takes, so the parent and its subtasks end up in different batches
+    const [parent] = await db.insert(tasksTable).values({ owner_id: ownerId, title: 'Parent', completed: true }).returning().execute();
+    const [child] = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, title: 'Child', parent_id: parent.id, completed: true })
+      .returning()
+      .execute();
+    await db.insert(tasksTable)
+      .values(Array.from({ length: BULK_MAX_IDS }, (_, i) => ({ owner_id: ownerId, title: `Done ${i}`, completed: true })))
+      .execute();
+    await db.insert(tasksTable).values({ owner_id: ownerId, title: 'Grandchild', parent_id: child.id, completed: true }).execute();
+
+    const result = await clearCompleted({}, ownerId);
+
+    expect(result).toMatchObject({ succeeded: BULK_MAX_IDS + 3, failed: 0 });
+    expect(result.results.map(item => item.id)).toEqual([...result.results.map(item => item.id)].sort((a, b) => a - b));
+    const tree = await db.select().from(tasksTable).where(inArray(tasksTable.title, ['Parent', 'Child', 'Grandchild'])).execute();
+    // One deletion, so the tree is restored as a whole
+    expect(new Set(tree.map(task => task.deleted_at?.getTime())).size).toBe(1);
+    expect(tree[0].deleted_at).not.toBeNull();
+    expect(await db.select().from(tasksTable).where(isNull(tasksTable.deleted_at)).execute()).toEqual([]);
+  });
+
+  it('should do nothing when no task is completed', async () => {
+    const result = await clearCompleted({}, ownerId);
+
+    expect(result).toEqual({ results: [], succeeded: 0, failed: 0 });
+  });
+});
@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable, tasksTable } from '../db/schema';
+import { completeAll } from '../handlers/complete_all';
+import { BULK_MAX_IDS } from '../schema';
+import { asc, eq } from 'drizzle-orm';
+
+describe('completeAll', () => {
+  let ownerId: number;
+  let listId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+    const [list] = await db.insert(listsTable).values({ owner_id: ownerId, name: 'Work' }).returning().execute();
+    listId = list.id;
+    await db.insert(tasksTable)
+      .values([
+        { owner_id: ownerId, title: 'Inbox task' },
+        { owner_id: ownerId, list_id: listId, title: 'Work task' },
+        { owner_id: ownerId, list_id: listId, title: 'Done already', completed: true }
+      ])
+      .execute();
+  });
+  afterEach(resetDB);
+
+  it('should complete only the open tasks in the list', async () => {
+    const result = await completeAll({ list_id: listId }, ownerId);
+
+    expect(result.succeeded).toBe(1);
+    const tasks = await db.select().from(tasksTable).orderBy(asc(tasksTable.id)).execute();
+    expect(tasks.map(t => t.completed)).toEqual([false, true, true]);
+  });
+
+  it('should complete everything when no list is given', async () => {
+    const result = await completeAll({}, ownerId);
+
+    expect(result.succeeded).toBe(2);
+    const tasks = await db.select().from(tasksTable).execute();
+    expect(tasks.every(t => t.completed)).toBe(true);
+  });
+
+  it('should complete more open tasks than one bulk call takes', async () => {
+    await db.insert(tasksTable)
+      .values(Array.from({ length: BULK_MAX_IDS }, (_, i) => ({ owner_id: ownerId, list_id: listId, title: `Task ${i}` })))
+      .execute();
+
+    const result = await completeAll({ list_id: listId }, ownerId);
+
+    expect(result).toMatchObject({ succeeded: BULK_MAX_IDS + 1, failed: 0 });
+    const open = await db.select().from(tasksTable).where(eq(tasksTable.completed, false)).execute();
+    expect(open.map(t => t.title)).toEqual(['Inbox task']);
+  });
+});
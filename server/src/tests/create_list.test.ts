@@ -0,0 +1,55 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable } from '../db/schema';
+import { type CreateListInput } from '../schema';
+import { createList } from '../handlers/create_list';
+import { eq } from 'drizzle-orm';
+
+const testInput: CreateListInput = {
+  name: 'Sprint 42',
+  color: '#ef4444',
+  icon: 'briefcase'
+};
+
+describe('createList', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should create a list with all fields', async () => {
+    const result = await createList(testInput, ownerId);
+
+    expect(result.id).toBeDefined();
+    expect(result.owner_id).toEqual(ownerId);
+    expect(result.name).toEqual('Sprint 42');
+    expect(result.color).toEqual('#ef4444');
+    expect(result.icon).toEqual('briefcase');
+    expect(result.created_at).toBeInstanceOf(Date);
+    expect(result.updated_at).toBeInstanceOf(Date);
+  });
+
+  it('should apply default colour and icon', async () => {
+    const result = await createList({ name: 'Groceries' }, ownerId);
+
+    expect(result.color).toEqual('#3b82f6');
+    expect(result.icon).toEqual('list');
+  });
+
+  it('should save the list to the database', async () => {
+    const result = await createList(testInput, ownerId);
+
+    const lists = await db.select()
+      .from(listsTable)
+      .where(eq(listsTable.id, result.id))
+      .execute();
+
+    expect(lists).toHaveLength(1);
+    expect(lists[0].name).toEqual('Sprint 42');
+    expect(lists[0].owner_id).toEqual(ownerId);
+  });
+});
@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { createTag } from '../handlers/create_tag';
+import { eq } from 'drizzle-orm';
+
+describe('createTag', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should create a tag with the default colour', async () => {
+    const result = await createTag({ name: 'urgent' }, ownerId);
+
+    expect(result.name).toEqual('urgent');
+    expect(result.color).toEqual('#6b7280');
+    expect(result.owner_id).toEqual(ownerId);
+
+    const saved = await db.select().from(tagsTable).where(eq(tagsTable.id, result.id)).execute();
+    expect(saved).toHaveLength(1);
+  });
+
+  it('should reject a duplicate name regardless of case', async () => {
+    await createTag({ name: 'Errands' }, ownerId);
+
+    await expect(createTag({ name: 'errands' }, ownerId)).rejects.toThrow(/already exists/i);
+  });
+
+  it('should allow the same name for different users', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    await createTag({ name: 'home' }, otherUser.id);
+
+    const result = await createTag({ name: 'home' }, ownerId);
+
+    expect(result.owner_id).toEqual(ownerId);
+  });
+});
@@ -1,10 +1,12 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createTestUser } from '../helpers';
 import { db } from '../db';
-import { tasksTable } from '../db/schema';
-import { type CreateTaskInput } from '../schema';
+import { listsTable, tagsTable, tasksTable } from '../db/schema';
+import { createTaskInputSchema, TASK_DESCRIPTION_MAX_LENGTH, TASK_TITLE_MAX_LENGTH, type CreateTaskInput } from '../schema';
 import { createTask } from '../handlers/create_task';
-import { eq } from 'drizzle-orm';
+import { eq, sql } from 'drizzle-orm';
+import { MAX_TASK_DEPTH, MAX_TASKS_PER_USER } from '../config';
+import { QuotaExceededError } from '../errors';
 
 // Test inputs
 const basicTaskInput: CreateTaskInput = {
@@ -23,11 +25,16 @@ const taskWithNullDescription: CreateTaskInput = {
 };
 
 describe('createTask', () => {
-  beforeEach(createDB);
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
   afterEach(resetDB);
 
   it('should create a task with full details', async () => {
-    const result = await createTask(basicTaskInput);
+    const result = await createTask(basicTaskInput, ownerId);
 
     // Basic field validation
     expect(result.title).toEqual('Complete project documentation');
@@ -40,7 +47,7 @@ describe('createTask', () => {
   });
 
   it('should create a task with minimal details', async () => {
-    const result = await createTask(minimalTaskInput);
+    const result = await createTask(minimalTaskInput, ownerId);
 
     expect(result.title).toEqual('Simple task');
     expect(result.description).toBeNull();
@@ -52,7 +59,7 @@ describe('createTask', () => {
   });
 
   it('should create a task with null description', async () => {
-    const result = await createTask(taskWithNullDescription);
+    const result = await createTask(taskWithNullDescription, ownerId);
 
     expect(result.title).toEqual('Task without description');
     expect(result.description).toBeNull();
@@ -62,7 +69,7 @@ describe('createTask', () => {
   });
 
   it('should save task to database', async () => {
-    const result = await createTask(basicTaskInput);
+    const result = await createTask(basicTaskInput, ownerId);
 
     // Query using proper drizzle syntax
     const tasks = await db.select()
@@ -79,8 +86,8 @@ describe('createTask', () => {
   });
 
   it('should create multiple tasks with unique IDs', async () => {
-    const task1 = await createTask({ title: 'First task' });
-    const task2 = await createTask({ title: 'Second task' });
+    const task1 = await createTask({ title: 'First task' }, ownerId);
+    const task2 = await createTask({ title: 'Second task' }, ownerId);
 
     expect(task1.id).not.toEqual(task2.id);
     expect(task1.title).toEqual('First task');
@@ -95,7 +102,7 @@ describe('createTask', () => {
 
   it('should set default timestamps correctly', async () => {
     const beforeCreation = new Date();
-    const result = await createTask(basicTaskInput);
+    const result = await createTask(basicTaskInput, ownerId);
     const afterCreation = new Date();
 
     // Timestamps should be within reasonable range
@@ -108,4 +115,183 @@ describe('createTask', () => {
     const timeDiff = Math.abs(result.updated_at.getTime() - result.created_at.getTime());
     expect(timeDiff).toBeLessThan(1000); // Less than 1 second difference
   });
-});
\ No newline at end of file
+
+  it('should create a task with a due date, time and timezone', async () => {
+    const result = await createTask({
+      title: 'Submit report',
+      due_date: '2099-03-15',
+      due_time: '17:30',
+      due_timezone: 'Europe/Berlin'
+    }, ownerId);
+
+    expect(result.due_date).toEqual('2099-03-15');
+    expect(result.due_time).toEqual('17:30:00'); // Normalized to HH:MM:SS
+    expect(result.due_timezone).toEqual('Europe/Berlin');
+    expect(result.due_status).toEqual('upcoming');
+  });
+
+  it('should default the timezone to UTC when only a due date is given', async () => {
+    const result = await createTask({ title: 'Pay rent', due_date: '2000-01-01' }, ownerId);
+
+    expect(result.due_time).toBeNull();
+    expect(result.due_timezone).toEqual('UTC');
+    expect(result.due_status).toEqual('overdue');
+  });
+
+  it('should leave due fields null when no due date is given', async () => {
+    const result = await createTask({ title: 'Someday', due_timezone: 'Asia/Tokyo' }, ownerId);
+
+    expect(result.due_date).toBeNull();
+    expect(result.due_time).toBeNull();
+    expect(result.due_timezone).toBeNull();
+    expect(result.due_status).toBeNull();
+  });
+
+  it('should assign the task to its owner', async () => {
+    const result = await createTask(minimalTaskInput, ownerId);
+
+    expect(result.owner_id).toEqual(ownerId);
+  });
+
+  it('should create a task inside one of the owner\'s lists', async () => {
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Groceries' })
+      .returning()
+      .execute();
+
+    const result = await createTask({ title: 'Milk', list_id: lists[0].id }, ownerId);
+
+    expect(result.list_id).toEqual(lists[0].id);
+  });
+
+  it('should reject a list that does not belong to the owner', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: otherUser.id, name: 'Theirs' })
+      .returning()
+      .execute();
+
+    await expect(createTask({ title: 'Sneaky', list_id: lists[0].id }, ownerId)).rejects.toThrow(/not found/i);
+  });
+
+  it('should create a subtask in its parent\'s list', async () => {
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Groceries' })
+      .returning()
+      .execute();
+    const parent = await createTask({ title: 'Shopping', list_id: lists[0].id }, ownerId);
+
+    const result = await createTask({ title: 'Milk', parent_id: parent.id }, ownerId);
+
+    expect(result.parent_id).toEqual(parent.id);
+    expect(result.list_id).toEqual(lists[0].id);
+  });
+
+  it('should reject a parent owned by another user', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const parent = await createTask({ title: 'Theirs' }, otherUser.id);
+
+    await expect(createTask({ title: 'Sneaky', parent_id: parent.id }, ownerId)).rejects.toThrow(/parent task .* not found/i);
+  });
+
+  it('should enforce the maximum nesting depth', async () => {
+    let parentId: number | null = null;
+    for (let depth = 1; depth <= MAX_TASK_DEPTH; depth++) {
+      const task = await createTask({ title: `Level ${depth}`, parent_id: parentId }, ownerId);
+      parentId = task.id;
+    }
+
+    await expect(createTask({ title: 'Too deep', parent_id: parentId }, ownerId)).rejects.toThrow(/nested more than/i);
+  });
+
+  it('should attach tags to a new task', async () => {
+    const tags = await db.insert(tagsTable)
+      .values([
+        { owner_id: ownerId, name: 'work' },
+        { owner_id: ownerId, name: 'errands' }
+      ])
+      .returning()
+      .execute();
+
+    const result = await createTask({ title: 'Tagged', tag_ids: tags.map(t => t.id) }, ownerId);
+
+    expect(result.tags.map(t => t.name)).toEqual(['errands', 'work']);
+  });
+
+  it('should reject a tag owned by another user', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const tags = await db.insert(tagsTable)
+      .values({ owner_id: otherUser.id, name: 'theirs' })
+      .returning()
+      .execute();
+
+    await expect(createTask({ title: 'Sneaky', tag_ids: [tags[0].id] }, ownerId)).rejects.toThrow(/tag with id .* not found/i);
+    expect(await db.select().from(tasksTable).execute()).toHaveLength(0);
+  });
+
+  it('should default the priority to none', async () => {
+    const result = await createTask({ title: 'Plain' }, ownerId);
+    const urgent = await createTask({ title: 'Fire', priority: 'urgent' }, ownerId);
+
+    expect(result.priority).toEqual('none');
+    expect(urgent.priority).toEqual('urgent');
+  });
+
+  it('should refuse tasks past the per-user quota, counting the trash', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    await db.execute(sql`
+      insert into tasks (owner_id, title, deleted_at)
+      select ${ownerId}, 'Filler ' || n, case when n % 2 = 0 then now() end
+      from generate_series(1, ${MAX_TASKS_PER_USER}) as n
+    `);
+
+    const error = await createTask(minimalTaskInput, ownerId).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(QuotaExceededError);
+    expect((error as QuotaExceededError).details).toEqual({ reason: 'quota_exceeded', resource: 'task', limit: MAX_TASKS_PER_USER });
+    // Other users have their own quota
+    expect((await createTask(minimalTaskInput, otherUser.id)).title).toEqual('Simple task');
+  });
+
+  it('should let only as many concurrent creations through as the quota has room for', async () => {
+    await db.execute(sql`
+      insert into tasks (owner_id, title)
+      select ${ownerId}, 'Filler ' || n
+      from generate_series(1, ${MAX_TASKS_PER_USER - 2}) as n
+    `);
+
+    const outcomes = await Promise.allSettled(Array.from({ length: 5 }, () => createTask(minimalTaskInput, ownerId)));
+
+    expect(outcomes.filter(outcome => outcome.status === 'fulfilled')).toHaveLength(2);
+    for (const outcome of outcomes.filter(outcome => outcome.status === 'rejected')) {
+      expect((outcome as PromiseRejectedResult).reason).toBeInstanceOf(QuotaExceededError);
+    }
+    const [{ total }] = (await db.execute<{ total: number }>(sql`select count(*)::int as total from tasks where owner_id = ${ownerId}`)).rows;
+    expect(total).toBe(MAX_TASKS_PER_USER);
+  });
+
+  it('should limit the length of titles and descriptions', () => {
+    expect(createTaskInputSchema.safeParse({ title: 'x'.repeat(TASK_TITLE_MAX_LENGTH) }).success).toBe(true);
+    expect(createTaskInputSchema.safeParse({ title: 'x'.repeat(TASK_TITLE_MAX_LENGTH + 1) }).success).toBe(false);
+    expect(createTaskInputSchema.safeParse({ title: 'x', description: 'x'.repeat(TASK_DESCRIPTION_MAX_LENGTH + 1) }).success).toBe(false);
+  });
+
+  it('should reject due dates and times that do not exist', () => {
+    const dueDateError = (input: Partial<CreateTaskInput>) => {
+      const result = createTaskInputSchema.safeParse({ title: 'Pay rent', due_date: '2024-03-01', ...input });
+      return result.success ? null : result.error.flatten().fieldErrors;
+    };
+
+    expect(dueDateError({ due_date: '2024-02-29', due_time: '23:59:59' })).toBeNull();
+    expect(dueDateError({ due_date: '0004-02-29' })).toBeNull();
+    for (const due_date of ['2024-02-30', '2023-02-29', '2024-13-01', '2024-00-10', '2024-04-31', '0000-01-01']) {
+      expect(dueDateError({ due_date })).toEqual({ due_date: ['Due date must be a real calendar date'] });
+    }
+    for (const due_time of ['24:00', '25:61', '12:60', '12:30:60']) {
+      expect(dueDateError({ due_time })).toEqual({ due_time: ['Due time must be a real time of day'] });
+    }
+    expect(dueDateError({ recurrence: { freq: 'daily', interval: 1, until: '2024-02-30' } })).toEqual({
+      recurrence: ['Due date must be a real calendar date']
+    });
+  });
+});
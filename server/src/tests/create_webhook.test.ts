@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { webhooksTable } from '../db/schema';
+import { createWebhookInputSchema } from '../schema';
+import { createWebhook } from '../handlers/create_webhook';
+import { ValidationError } from '../errors';
+
+describe('createWebhook', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should create an active webhook and return a generated secret once', async () => {
+    const result = await createWebhook({ url: 'https://example.com/hooks', events: ['task.created', 'task.created', 'task.deleted'] }, ownerId);
+
+    expect(result.url).toEqual('https://example.com/hooks');
+    expect(result.events).toEqual(['task.created', 'task.deleted']);
+    expect(result.active).toEqual(true);
+    expect(result.secret).toMatch(/^whsec_/);
+
+    const stored = await db.select().from(webhooksTable).execute();
+    expect(stored).toHaveLength(1);
+    expect(stored[0].owner_id).toEqual(ownerId);
+    expect(stored[0].secret).toEqual(result.secret);
+  });
+
+  it('should keep a secret given by the caller', async () => {
+    const result = await createWebhook({ url: 'https://example.com/hooks', events: ['task.completed'], secret: 'my-own-secret-1234' }, ownerId);
+
+    expect(result.secret).toEqual('my-own-secret-1234');
+  });
+
+  it('should only accept http(s) URLs and at least one event', () => {
+    expect(createWebhookInputSchema.safeParse({ url: 'ftp://example.com', events: ['task.created'] }).success).toBe(false);
+    expect(createWebhookInputSchema.safeParse({ url: 'not a url', events: ['task.created'] }).success).toBe(false);
+    expect(createWebhookInputSchema.safeParse({ url: 'https://example.com', events: [] }).success).toBe(false);
+    expect(createWebhookInputSchema.safeParse({ url: 'https://example.com', events: ['task.updated'] }).success).toBe(false);
+  });
+
+  it('should refuse URLs pointing at this host or a private network', async () => {
+    for (const url of [
+      'http://localhost:2022/metrics',
+      'http://127.0.0.1/hooks',
+      'http://[::1]/hooks',
+      'http://[::ffff:127.0.0.1]/hooks',
+      'http://10.1.2.3/hooks',
+      'http://192.168.0.10/hooks',
+      'http://169.254.169.254/latest/meta-data'
+    ]) {
+      const error = await createWebhook({ url, events: ['task.created'] }, ownerId).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ValidationError);
+      expect((error as ValidationError).details).toEqual({ reason: 'validation', field: 'url' });
+    }
+    expect(await db.select().from(webhooksTable).execute()).toHaveLength(0);
+  });
+});
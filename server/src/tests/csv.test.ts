@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'bun:test';
+import { parseCsv, toCsv } from '../utils/csv';
+
+describe('parseCsv', () => {
+  it('should split rows and fields', () => {
+    expect(parseCsv('a,b,c\n1,2,3\n')).toEqual([['a', 'b', 'c'], ['1', '2', '3']]);
+  });
+
+  it('should handle quotes, embedded separators and CRLF line endings', () => {
+    const text = '\uFEFFtitle,notes\r\n"Say ""hi""","one, two"\r\n"multi\r\nline",\r\n';
+
+    expect(parseCsv(text)).toEqual([['title', 'notes'], ['Say "hi"', 'one, two'], ['multi\r\nline', '']]);
+  });
+
+  it('should drop blank lines and keep a last row without a line break', () => {
+    expect(parseCsv('a\n\n\nb')).toEqual([['a'], ['b']]);
+  });
+});
+
+describe('toCsv', () => {
+  it('should quote only fields that need it and round-trip through parseCsv', () => {
+    const rows = [['title', 'tags'], ['Plain', 'a; b'], ['With, comma', 'Quote "x"'], ['Two\nlines', '']];
+    const text = toCsv(rows);
+
+    expect(text.split('\r\n')[2]).toEqual('"With, comma","Quote ""x"""');
+    expect(parseCsv(text)).toEqual(rows);
+  });
+
+  it('should keep spreadsheet apps from running fields as formulas and round-trip them', () => {
+    const rows = [['title', 'description'], ['=HYPERLINK("http://evil.example","x")', '+1'], ['-5 minutes', '@SUM(A1)'], ['\tTabbed', 'a = b']];
+    const text = toCsv(rows);
+
+    expect(text.split('\r\n').slice(1, 3)).toEqual(['"\'=HYPERLINK(""http://evil.example"",""x"")",\'+1', "'-5 minutes,'@SUM(A1)"]);
+    expect(text.split('\r\n')[3]).toEqual("'\tTabbed,a = b");
+    expect(parseCsv(text)).toEqual(rows);
+  });
+});
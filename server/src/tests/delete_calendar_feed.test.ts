@@ -0,0 +1,26 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { deleteCalendarFeed } from '../handlers/delete_calendar_feed';
+import { renderCalendarFeed } from '../handlers/render_calendar_feed';
+import { resetCalendarFeed } from '../handlers/reset_calendar_feed';
+
+describe('deleteCalendarFeed', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should stop the feed URL from working', async () => {
+    const { token } = await resetCalendarFeed(ownerId);
+
+    expect(await deleteCalendarFeed(ownerId)).toEqual({ success: true });
+    expect(await renderCalendarFeed(token)).toBeNull();
+  });
+
+  it('should report when there was no feed', async () => {
+    expect(await deleteCalendarFeed(ownerId)).toEqual({ success: false });
+  });
+});
@@ -0,0 +1,59 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable, tasksTable } from '../db/schema';
+import { deleteList } from '../handlers/delete_list';
+
+describe('deleteList', () => {
+  let ownerId: number;
+  let listId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Groceries' })
+      .returning()
+      .execute();
+    listId = lists[0].id;
+
+    await db.insert(tasksTable).values([
+      { owner_id: ownerId, list_id: listId, title: 'Milk' },
+      { owner_id: ownerId, list_id: listId, title: 'Eggs' },
+      { owner_id: ownerId, list_id: null, title: 'Unrelated' }
+    ]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should delete the list and move its tasks to the Inbox', async () => {
+    const result = await deleteList({ id: listId, delete_tasks: false }, ownerId);
+
+    expect(result.success).toBe(true);
+    expect(await db.select().from(listsTable).execute()).toHaveLength(0);
+
+    const tasks = await db.select().from(tasksTable).execute();
+    expect(tasks).toHaveLength(3);
+    expect(tasks.every(t => t.list_id === null)).toBe(true);
+  });
+
+  it('should move the list\'s tasks to the trash when asked', async () => {
+    const result = await deleteList({ id: listId, delete_tasks: true }, ownerId);
+
+    expect(result.success).toBe(true);
+    const tasks = await db.select().from(tasksTable).orderBy(tasksTable.id).execute();
+    expect(tasks.filter(t => t.deleted_at === null).map(t => t.title)).toEqual(['Unrelated']);
+    // Trashed tasks land in the Inbox once the list is gone
+    expect(tasks.filter(t => t.deleted_at !== null).map(t => t.title)).toEqual(['Milk', 'Eggs']);
+    expect(tasks.every(t => t.list_id === null)).toBe(true);
+  });
+
+  it('should not delete a list owned by another user', async () => {
+    const otherUser = await createTestUser('other@example.com');
+
+    await expect(deleteList({ id: listId, delete_tasks: true }, otherUser.id)).rejects.toThrow(/not found/i);
+
+    expect(await db.select().from(listsTable).execute()).toHaveLength(1);
+    expect(await db.select().from(tasksTable).execute()).toHaveLength(3);
+  });
+});
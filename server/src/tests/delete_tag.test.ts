@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable, tasksTable, taskTagsTable } from '../db/schema';
+import { deleteTag } from '../handlers/delete_tag';
+
+describe('deleteTag', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should delete the tag but keep its tasks', async () => {
+    const [tag] = await db.insert(tagsTable).values({ owner_id: ownerId, name: 'old' }).returning().execute();
+    const [task] = await db.insert(tasksTable).values({ owner_id: ownerId, title: 'Tagged' }).returning().execute();
+    await db.insert(taskTagsTable).values({ task_id: task.id, tag_id: tag.id }).execute();
+
+    const result = await deleteTag({ id: tag.id }, ownerId);
+
+    expect(result.success).toBe(true);
+    expect(await db.select().from(tasksTable).execute()).toHaveLength(1);
+    expect(await db.select().from(taskTagsTable).execute()).toHaveLength(0);
+  });
+
+  it('should not delete a tag owned by another user', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const [tag] = await db.insert(tagsTable).values({ owner_id: ownerId, name: 'mine' }).returning().execute();
+
+    await expect(deleteTag({ id: tag.id }, otherUser.id)).rejects.toThrow(/not found/i);
+
+    expect(await db.select().from(tagsTable).execute()).toHaveLength(1);
+  });
+});
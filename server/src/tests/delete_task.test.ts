@@ -1,5 +1,5 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createTestUser } from '../helpers';
 import { db } from '../db';
 import { tasksTable } from '../db/schema';
 import { eq } from 'drizzle-orm';
@@ -13,13 +13,19 @@ const testTaskInput: CreateTaskInput = {
 };
 
 describe('deleteTask', () => {
-  beforeEach(createDB);
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
   afterEach(resetDB);
 
-  it('should delete an existing task', async () => {
+  it('should move an existing task to the trash', async () => {
     // Create a task first
     const createdTask = await db.insert(tasksTable)
       .values({
+        owner_id: ownerId,
         title: testTaskInput.title,
         description: testTaskInput.description,
         completed: false
@@ -31,33 +37,33 @@ describe('deleteTask', () => {
 
     // Delete the task
     const deleteInput: DeleteTaskInput = { id: taskId };
-    const result = await deleteTask(deleteInput);
+    const result = await deleteTask(deleteInput, ownerId);
 
     // Verify success response
     expect(result.success).toBe(true);
 
-    // Verify task is actually deleted from database
+    // Verify the task is kept in the trash rather than removed
     const deletedTasks = await db.select()
       .from(tasksTable)
       .where(eq(tasksTable.id, taskId))
       .execute();
 
-    expect(deletedTasks).toHaveLength(0);
+    expect(deletedTasks).toHaveLength(1);
+    expect(deletedTasks[0].deleted_at).toBeInstanceOf(Date);
   });
 
-  it('should return false when deleting non-existent task', async () => {
+  it('should throw when deleting non-existent task', async () => {
     // Try to delete a task that doesn't exist
     const deleteInput: DeleteTaskInput = { id: 999 };
-    const result = await deleteTask(deleteInput);
 
-    // Should return success: false since no rows were affected
-    expect(result.success).toBe(false);
+    await expect(deleteTask(deleteInput, ownerId)).rejects.toThrow(/task with id 999 not found/i);
   });
 
   it('should only delete the specified task', async () => {
     // Create multiple tasks
     const task1 = await db.insert(tasksTable)
       .values({
+        owner_id: ownerId,
         title: 'Task 1',
         description: 'First task',
         completed: false
@@ -67,6 +73,7 @@ describe('deleteTask', () => {
 
     const task2 = await db.insert(tasksTable)
       .values({
+        owner_id: ownerId,
         title: 'Task 2',
         description: 'Second task',
         completed: true
@@ -79,18 +86,18 @@ describe('deleteTask', () => {
 
     // Delete only the first task
     const deleteInput: DeleteTaskInput = { id: task1Id };
-    const result = await deleteTask(deleteInput);
+    const result = await deleteTask(deleteInput, ownerId);
 
     // Verify success
     expect(result.success).toBe(true);
 
-    // Verify first task is deleted
+    // Verify first task is in the trash
     const deletedTasks = await db.select()
       .from(tasksTable)
       .where(eq(tasksTable.id, task1Id))
       .execute();
 
-    expect(deletedTasks).toHaveLength(0);
+    expect(deletedTasks[0].deleted_at).toBeInstanceOf(Date);
 
     // Verify second task still exists
     const remainingTasks = await db.select()
@@ -101,12 +108,14 @@ describe('deleteTask', () => {
     expect(remainingTasks).toHaveLength(1);
     expect(remainingTasks[0].title).toBe('Task 2');
     expect(remainingTasks[0].completed).toBe(true);
+    expect(remainingTasks[0].deleted_at).toBeNull();
   });
 
   it('should handle completed and incomplete tasks equally', async () => {
     // Create a completed task
     const completedTask = await db.insert(tasksTable)
       .values({
+        owner_id: ownerId,
         title: 'Completed Task',
         description: 'This task is done',
         completed: true
@@ -117,6 +126,7 @@ describe('deleteTask', () => {
     // Create an incomplete task
     const incompleteTask = await db.insert(tasksTable)
       .values({
+        owner_id: ownerId,
         title: 'Incomplete Task',
         description: 'This task is not done',
         completed: false
@@ -129,23 +139,25 @@ describe('deleteTask', () => {
 
     // Delete completed task
     const deleteCompletedInput: DeleteTaskInput = { id: completedTaskId };
-    const completedResult = await deleteTask(deleteCompletedInput);
+    const completedResult = await deleteTask(deleteCompletedInput, ownerId);
     expect(completedResult.success).toBe(true);
 
     // Delete incomplete task
     const deleteIncompleteInput: DeleteTaskInput = { id: incompleteTaskId };
-    const incompleteResult = await deleteTask(deleteIncompleteInput);
+    const incompleteResult = await deleteTask(deleteIncompleteInput, ownerId);
     expect(incompleteResult.success).toBe(true);
 
-    // Verify both tasks are deleted
+    // Verify both tasks are in the trash
     const allTasks = await db.select().from(tasksTable).execute();
-    expect(allTasks).toHaveLength(0);
+    expect(allTasks).toHaveLength(2);
+    expect(allTasks.every(t => t.deleted_at !== null)).toBe(true);
   });
 
   it('should handle tasks with null descriptions', async () => {
     // Create a task with null description
     const taskWithNullDesc = await db.insert(tasksTable)
       .values({
+        owner_id: ownerId,
         title: 'Task with null description',
         description: null,
         completed: false
@@ -157,17 +169,65 @@ describe('deleteTask', () => {
 
     // Delete the task
     const deleteInput: DeleteTaskInput = { id: taskId };
-    const result = await deleteTask(deleteInput);
+    const result = await deleteTask(deleteInput, ownerId);
 
     // Verify successful deletion
     expect(result.success).toBe(true);
 
-    // Verify task is deleted
+    // Verify task is in the trash
     const deletedTasks = await db.select()
       .from(tasksTable)
       .where(eq(tasksTable.id, taskId))
       .execute();
 
-    expect(deletedTasks).toHaveLength(0);
+    expect(deletedTasks[0].deleted_at).toBeInstanceOf(Date);
+  });
+
+  it('should not delete a task owned by another user', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const createdTask = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, title: 'Private task', completed: false })
+      .returning()
+      .execute();
+
+    await expect(deleteTask({ id: createdTask[0].id }, otherUser.id)).rejects.toThrow(/not found/i);
+
+    const tasks = await db.select().from(tasksTable).execute();
+    expect(tasks).toHaveLength(1);
+    expect(tasks[0].deleted_at).toBeNull();
+  });
+
+  it('should move subtasks to the trash with their parent', async () => {
+    const parent = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, title: 'Parent' })
+      .returning()
+      .execute();
+    const child = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, parent_id: parent[0].id, title: 'Child' })
+      .returning()
+      .execute();
+    await db.insert(tasksTable)
+      .values({ owner_id: ownerId, parent_id: child[0].id, title: 'Grandchild' })
+      .execute();
+
+    await deleteTask({ id: parent[0].id }, ownerId);
+
+    const tasks = await db.select().from(tasksTable).execute();
+    expect(tasks).toHaveLength(3);
+    // All share one timestamp so restoring the parent brings the whole tree back
+    expect(new Set(tasks.map(t => t.deleted_at?.getTime())).size).toBe(1);
+    expect(tasks[0].deleted_at).toBeInstanceOf(Date);
+  });
+
+  it('should throw for a task that is already in the trash', async () => {
+    const created = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, title: 'Deleted', deleted_at: new Date('2024-01-01T00:00:00Z') })
+      .returning()
+      .execute();
+
+    await expect(deleteTask({ id: created[0].id }, ownerId)).rejects.toThrow(/not found/i);
+
+    const tasks = await db.select().from(tasksTable).execute();
+    expect(tasks[0].deleted_at).toEqual(new Date('2024-01-01T00:00:00Z'));
   });
-});
\ No newline at end of file
+});
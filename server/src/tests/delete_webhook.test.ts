@@ -0,0 +1,36 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { webhookDeliveriesTable, webhooksTable } from '../db/schema';
+import { createWebhook } from '../handlers/create_webhook';
+import { deleteWebhook } from '../handlers/delete_webhook';
+import { createTask } from '../handlers/create_task';
+
+describe('deleteWebhook', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should delete the webhook along with its deliveries', async () => {
+    const webhook = await createWebhook({ url: 'https://example.com/hooks', events: ['task.created'] }, ownerId);
+    await createTask({ title: 'Queued' }, ownerId);
+
+    const result = await deleteWebhook({ id: webhook.id }, ownerId);
+
+    expect(result.success).toBe(true);
+    expect(await db.select().from(webhooksTable).execute()).toHaveLength(0);
+    expect(await db.select().from(webhookDeliveriesTable).execute()).toHaveLength(0);
+  });
+
+  it('should not delete a webhook owned by another user', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const webhook = await createWebhook({ url: 'https://example.com/hooks', events: ['task.created'] }, ownerId);
+
+    await expect(deleteWebhook({ id: webhook.id }, otherUser.id)).rejects.toThrow(/not found/i);
+    expect(await db.select().from(webhooksTable).execute()).toHaveLength(1);
+  });
+});
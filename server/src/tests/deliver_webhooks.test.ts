@@ -0,0 +1,191 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
+import { createHmac } from 'node:crypto';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { webhookDeliveriesTable, webhooksTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { createTask } from '../handlers/create_task';
+import { deliverWebhooks } from '../handlers/deliver_webhooks';
+import { webhookRetryDelayMs } from '../utils/webhooks';
+import { WEBHOOK_MAX_ATTEMPTS } from '../config';
+
+const SECRET = 'test-secret-0123456789';
+
+// Far enough ahead that every retry is due
+const later = () => new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+
+describe('deliverWebhooks', () => {
+  let ownerId: number;
+
+  // Local stand-in for a receiver: records each request and answers with `respond`
+  let receiver: ReturnType<typeof Bun.serve>;
+  let received: { headers: Headers; body: string }[];
+  let respond: () => Response;
+
+  beforeAll(() => {
+    receiver = Bun.serve({
+      port: 0,
+      hostname: '127.0.0.1',
+      fetch: async (request) => {
+        received.push({ headers: request.headers, body: await request.text() });
+        return respond();
+      }
+    });
+  });
+  afterAll(() => receiver.stop(true));
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+    received = [];
+    respond = () => new Response('ok');
+  });
+  afterEach(resetDB);
+
+  const createTestWebhook = async (url: string = `http://127.0.0.1:${receiver.port}/hooks`) => {
+    const result = await db.insert(webhooksTable)
+      .values({ owner_id: ownerId, url, secret: SECRET, events: ['task.created'] })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  // The receiver listens on loopback, which deliveries refuse unless told otherwise
+  const deliver = (now?: Date) => deliverWebhooks(now, { allowPrivateTargets: true });
+
+  const getDeliveries = () => db.select().from(webhookDeliveriesTable).orderBy(webhookDeliveriesTable.id).execute();
+
+  it('should POST the signed payload and mark the delivery as delivered', async () => {
+    await createTestWebhook();
+    const task = await createTask({ title: 'Ship it' }, ownerId);
+
+    const result = await deliver();
+
+    expect(result).toEqual({ delivered: 1, retrying: 0, dead: 0 });
+    expect(received).toHaveLength(1);
+    const [{ headers, body }] = received;
+    const payload = JSON.parse(body);
+    expect(payload.type).toEqual('task.created');
+    expect(payload.data.task.id).toEqual(task.id);
+    expect(headers.get('content-type')).toEqual('application/json');
+    expect(headers.get('x-webhook-event')).toEqual('task.created');
+    expect(headers.get('x-webhook-id')).toEqual(payload.id);
+
+    // Receivers check the signature over "<timestamp>.<body>" with the shared secret
+    const timestamp = headers.get('x-webhook-timestamp');
+    const expected = createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex');
+    expect(headers.get('x-webhook-signature')).toEqual(`sha256=${expected}`);
+
+    const [delivery] = await getDeliveries();
+    expect(delivery.status).toEqual('delivered');
+    expect(delivery.attempts).toEqual(1);
+    expect(delivery.response_status).toEqual(200);
+    expect(delivery.next_attempt_at).toBeNull();
+    expect(delivery.delivered_at).toBeInstanceOf(Date);
+  });
+
+  it('should retry failed deliveries with exponential backoff', async () => {
+    respond = () => new Response('try later', { status: 503 });
+    await createTestWebhook();
+    await createTask({ title: 'Flaky' }, ownerId);
+
+    expect(await deliver()).toEqual({ delivered: 0, retrying: 1, dead: 0 });
+    let [delivery] = await getDeliveries();
+    expect(delivery.status).toEqual('pending');
+    expect(delivery.response_status).toEqual(503);
+    expect(delivery.last_error).toEqual('HTTP 503'); // The response body isn't kept
+    expect(delivery.next_attempt_at!.getTime() - delivery.last_attempt_at!.getTime()).toEqual(webhookRetryDelayMs(1));
+
+    // Not due yet
+    expect(await deliver()).toEqual({ delivered: 0, retrying: 0, dead: 0 });
+    expect(received).toHaveLength(1);
+
+    await deliver(later());
+    [delivery] = await getDeliveries();
+    expect(delivery.attempts).toEqual(2);
+    expect(delivery.next_attempt_at!.getTime() - delivery.last_attempt_at!.getTime()).toEqual(webhookRetryDelayMs(2));
+    expect(webhookRetryDelayMs(2)).toEqual(webhookRetryDelayMs(1) * 2);
+
+    respond = () => new Response(null, { status: 204 });
+    expect(await deliver(later())).toEqual({ delivered: 1, retrying: 0, dead: 0 });
+    [delivery] = await getDeliveries();
+    expect(delivery.status).toEqual('delivered');
+    expect(delivery.last_error).toBeNull();
+  });
+
+  it('should dead-letter a delivery once every attempt failed', async () => {
+    respond = () => new Response('broken', { status: 500 });
+    await createTestWebhook();
+    await createTask({ title: 'Doomed' }, ownerId);
+
+    for (let attempt = 1; attempt < WEBHOOK_MAX_ATTEMPTS; attempt++) {
+      expect(await deliver(later())).toEqual({ delivered: 0, retrying: 1, dead: 0 });
+    }
+    expect(await deliver(later())).toEqual({ delivered: 0, retrying: 0, dead: 1 });
+
+    const [delivery] = await getDeliveries();
+    expect(delivery.status).toEqual('dead');
+    expect(delivery.attempts).toEqual(WEBHOOK_MAX_ATTEMPTS);
+    expect(delivery.next_attempt_at).toBeNull();
+
+    // Dead letters stay put
+    expect(await deliver(later())).toEqual({ delivered: 0, retrying: 0, dead: 0 });
+    expect(received).toHaveLength(WEBHOOK_MAX_ATTEMPTS);
+  });
+
+  it('should record connection errors without a response status', async () => {
+    await createTestWebhook('http://127.0.0.1:1/hooks');
+    await createTask({ title: 'Nobody home' }, ownerId);
+
+    await deliver();
+
+    const [delivery] = await getDeliveries();
+    expect(delivery.status).toEqual('pending');
+    expect(delivery.response_status).toBeNull();
+    expect(delivery.last_error).toBeTruthy();
+  });
+
+  it('should refuse to deliver to loopback and private addresses by default', async () => {
+    await createTestWebhook();
+    await createTestWebhook('http://10.0.0.8/hooks');
+    await createTask({ title: 'Internal' }, ownerId);
+
+    expect(await deliverWebhooks()).toEqual({ delivered: 0, retrying: 2, dead: 0 });
+
+    expect(received).toHaveLength(0);
+    const deliveries = await getDeliveries();
+    expect(deliveries.map(delivery => [delivery.response_status, delivery.last_error])).toEqual([
+      [null, 'Refused: the URL does not resolve to a public internet address'],
+      [null, 'Refused: the URL does not resolve to a public internet address']
+    ]);
+  });
+
+  it('should connect to the address it checked rather than resolving the host again', async () => {
+    // A name DNS doesn't know: only the checked address can have reached the receiver
+    await createTestWebhook(`http://rebinding.invalid:${receiver.port}/hooks`);
+    await createTask({ title: 'Pinned' }, ownerId);
+    const lookups: string[] = [];
+    const lookupHost = async (hostname: string) => {
+      lookups.push(hostname);
+      return ['127.0.0.1'];
+    };
+
+    expect(await deliverWebhooks(undefined, { allowPrivateTargets: true, lookupHost })).toEqual({ delivered: 1, retrying: 0, dead: 0 });
+
+    expect(lookups).toEqual(['rebinding.invalid']);
+    expect(received).toHaveLength(1);
+    expect(received[0].headers.get('host')).toEqual(`rebinding.invalid:${receiver.port}`);
+  });
+
+  it('should hold deliveries of paused webhooks until they are switched back on', async () => {
+    const webhook = await createTestWebhook();
+    await createTask({ title: 'Queued' }, ownerId);
+    await db.update(webhooksTable).set({ active: false }).where(eq(webhooksTable.id, webhook.id)).execute();
+
+    expect(await deliver()).toEqual({ delivered: 0, retrying: 0, dead: 0 });
+    expect(received).toHaveLength(0);
+
+    await db.update(webhooksTable).set({ active: true }).where(eq(webhooksTable.id, webhook.id)).execute();
+    expect(await deliver()).toEqual({ delivered: 1, retrying: 0, dead: 0 });
+  });
+});
@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { emptyTrash } from '../handlers/empty_trash';
+
+describe('emptyTrash', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should permanently delete the caller\'s trashed tasks only', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    await db.insert(tasksTable).values([
+      { owner_id: ownerId, title: 'Trashed 1', deleted_at: new Date() },
+      { owner_id: ownerId, title: 'Trashed 2', deleted_at: new Date() },
+      { owner_id: ownerId, title: 'Active' },
+      { owner_id: otherUser.id, title: 'Someone else\'s trash', deleted_at: new Date() }
+    ]).execute();
+
+    const result = await emptyTrash(ownerId);
+
+    expect(result.deleted).toEqual(2);
+    const remaining = await db.select().from(tasksTable).orderBy(tasksTable.id).execute();
+    expect(remaining.map(t => t.title)).toEqual(['Active', 'Someone else\'s trash']);
+  });
+
+  it('should report zero when the trash is already empty', async () => {
+    expect(await emptyTrash(ownerId)).toEqual({ deleted: 0 });
+  });
+});
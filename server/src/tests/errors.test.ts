@@ -0,0 +1,72 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import {
+  AuthenticationError,
+  ConflictError,
+  NotFoundError,
+  PermissionError,
+  QuotaExceededError,
+  RateLimitError,
+  ServiceUnavailableError,
+  ValidationError,
+  toHttpStatus,
+  toTRPCError
+} from '../errors';
+import { updateTask } from '../handlers/update_task';
+import { createTag } from '../handlers/create_tag';
+
+describe('domain errors', () => {
+  it('should map each kind of error to its tRPC code', () => {
+    expect(toTRPCError(new NotFoundError('task', 1)).code).toEqual('NOT_FOUND');
+    expect(toTRPCError(new ValidationError('Bad due time', 'due_time')).code).toEqual('BAD_REQUEST');
+    expect(toTRPCError(new ConflictError('Taken', 'tag', 'name')).code).toEqual('CONFLICT');
+    expect(toTRPCError(new AuthenticationError('Who are you')).code).toEqual('UNAUTHORIZED');
+    expect(toTRPCError(new PermissionError('Not yours')).code).toEqual('FORBIDDEN');
+    expect(toTRPCError(new RateLimitError(3)).code).toEqual('TOO_MANY_REQUESTS');
+    expect(toTRPCError(new QuotaExceededError('Full', 'task', 10)).code).toEqual('FORBIDDEN');
+    expect(toTRPCError(new ServiceUnavailableError('Database down')).code).toEqual('SERVICE_UNAVAILABLE');
+    expect(toHttpStatus(new ServiceUnavailableError('Database down'))).toEqual(503);
+  });
+
+  it('should say when a rate-limited request may be retried', () => {
+    const error = new RateLimitError(1);
+
+    expect(error.message).toEqual('Too many requests, try again in 1 second');
+    expect(error.details).toEqual({ reason: 'rate_limited', retry_after: 1 });
+    expect(toHttpStatus(error)).toEqual(429);
+  });
+
+  it('should keep the message and the domain error as the cause', () => {
+    const error = new NotFoundError('list', 7);
+    const trpcError = toTRPCError(error);
+
+    expect(trpcError.message).toEqual('List with id 7 not found');
+    expect(trpcError.cause).toBe(error);
+  });
+
+  describe('thrown by handlers', () => {
+    let ownerId: number;
+
+    beforeEach(async () => {
+      await createDB();
+      ownerId = (await createTestUser()).id;
+    });
+    afterEach(resetDB);
+
+    it('should describe a missing task', async () => {
+      const error = await updateTask({ id: 4242, title: 'Nope' }, ownerId).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(NotFoundError);
+      expect((error as NotFoundError).details).toEqual({ reason: 'not_found', resource: 'task', id: 4242 });
+    });
+
+    it('should name the field behind a conflict', async () => {
+      await createTag({ name: 'home' }, ownerId);
+
+      const error = await createTag({ name: 'home' }, ownerId).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ConflictError);
+      expect((error as ConflictError).details).toEqual({ reason: 'conflict', resource: 'tag', field: 'name' });
+    });
+  });
+});
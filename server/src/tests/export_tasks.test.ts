@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable, tagsTable, tasksTable, taskTagsTable } from '../db/schema';
+import { exportTasks } from '../handlers/export_tasks';
+import { parseCsv } from '../utils/csv';
+
+describe('exportTasks', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  const createFixtures = async () => {
+    const [list] = await db.insert(listsTable).values({ owner_id: ownerId, name: 'Work' }).returning().execute();
+    const [tag] = await db.insert(tagsTable).values({ owner_id: ownerId, name: 'urgent' }).returning().execute();
+    const [report] = await db.insert(tasksTable)
+      .values({
+        owner_id: ownerId,
+        list_id: list.id,
+        title: 'Write report',
+        priority: 'high',
+        position: 'a0',
+        due_date: '2024-03-01',
+        due_time: '09:00:00',
+        due_timezone: 'Europe/Berlin',
+        recurrence: 'FREQ=WEEKLY;INTERVAL=1'
+      })
+      .returning()
+      .execute();
+    await db.insert(tasksTable)
+      .values([
+        { owner_id: ownerId, list_id: list.id, parent_id: report.id, title: 'Outline', completed: true, position: 'a0' },
+        { owner_id: ownerId, list_id: list.id, parent_id: report.id, title: 'Draft', position: 'a1' },
+        { owner_id: ownerId, title: 'Buy milk', position: 'a1' }
+      ])
+      .execute();
+    await db.insert(taskTagsTable).values({ task_id: report.id, tag_id: tag.id }).execute();
+    return { list };
+  };
+
+  it('should export a versioned JSON tree with lists and tags by name', async () => {
+    await createFixtures();
+
+    const result = await exportTasks({ format: 'json', include_completed: true }, ownerId);
+
+    expect(result.filename).toMatch(/^tasks-\d{4}-\d{2}-\d{2}\.json$/);
+    expect(result.content_type).toEqual('application/json');
+    expect(result.count).toBe(4);
+
+    const file = JSON.parse(result.content);
+    expect(file.version).toBe(1);
+    expect(file.tasks.map((task: { title: string }) => task.title)).toEqual(['Write report', 'Buy milk']);
+    expect(file.tasks[0]).toMatchObject({
+      list: 'Work',
+      tags: ['urgent'],
+      priority: 'high',
+      due_date: '2024-03-01',
+      due_time: '09:00:00',
+      due_timezone: 'Europe/Berlin',
+      recurrence: { freq: 'weekly', interval: 1 }
+    });
+    expect(file.tasks[0].subtasks.map((task: { title: string; list: string | null }) => [task.title, task.list]))
+      .toEqual([['Outline', null], ['Draft', null]]);
+    expect(file.tasks[1].list).toBeNull();
+  });
+
+  it('should write subtasks as CSV rows naming their parent', async () => {
+    await createFixtures();
+
+    const result = await exportTasks({ format: 'csv', include_completed: true }, ownerId);
+    const [header, ...rows] = parseCsv(result.content);
+
+    expect(header).toEqual(['title', 'description', 'completed', 'priority', 'due_date', 'due_time', 'due_timezone', 'recurrence', 'list', 'tags', 'parent']);
+    expect(rows.map(row => [row[0], row[2], row[7], row[10]])).toEqual([
+      ['Write report', 'false', 'FREQ=WEEKLY;INTERVAL=1', ''],
+      ['Outline', 'true', '', 'Write report'],
+      ['Draft', 'false', '', 'Write report'],
+      ['Buy milk', 'false', '', '']
+    ]);
+  });
+
+  it('should write a Markdown checklist per list', async () => {
+    await createFixtures();
+
+    const result = await exportTasks({ format: 'markdown', include_completed: true }, ownerId);
+
+    expect(result.content).toEqual([
+      '## Inbox',
+      '',
+      '- [ ] Buy milk',
+      '',
+      '## Work',
+      '',
+      '- [ ] Write report',
+      '  - [x] Outline',
+      '  - [ ] Draft',
+      ''
+    ].join('\n'));
+  });
+
+  it('should limit the export to one list and leave out completed tasks', async () => {
+    const { list } = await createFixtures();
+
+    const result = await exportTasks({ format: 'markdown', list_id: list.id, include_completed: false }, ownerId);
+
+    expect(result.count).toBe(2);
+    expect(result.content).toEqual('## Work\n\n- [ ] Write report\n  - [ ] Draft\n');
+  });
+
+  it('should not export tasks of other users or in the trash', async () => {
+    const other = await createTestUser('other@example.com');
+    await db.insert(tasksTable)
+      .values([
+        { owner_id: other.id, title: 'Not mine' },
+        { owner_id: ownerId, title: 'Deleted', deleted_at: new Date() }
+      ])
+      .execute();
+
+    const result = await exportTasks({ format: 'json', include_completed: true }, ownerId);
+
+    expect(result.count).toBe(0);
+    expect(JSON.parse(result.content).tasks).toEqual([]);
+  });
+});
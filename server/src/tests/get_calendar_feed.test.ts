@@ -0,0 +1,27 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { getCalendarFeed } from '../handlers/get_calendar_feed';
+import { resetCalendarFeed } from '../handlers/reset_calendar_feed';
+
+describe('getCalendarFeed', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should report a disabled feed before one is issued', async () => {
+    expect(await getCalendarFeed(ownerId)).toEqual({ enabled: false, created_at: null });
+  });
+
+  it('should report when the current feed URL was issued, without the token', async () => {
+    const issued = await resetCalendarFeed(ownerId);
+
+    const feed = await getCalendarFeed(ownerId);
+
+    expect(feed).toEqual({ enabled: true, created_at: issued.created_at });
+    expect(await getCalendarFeed((await createTestUser('other@example.com')).id)).toEqual({ enabled: false, created_at: null });
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'bun:test';
+import { getHealth } from '../handlers/get_health';
+import { checkPool, pool } from '../db';
+
+describe('getHealth', () => {
+  it('should report ok along with the state of the database pool', async () => {
+    const health = await getHealth();
+
+    expect(health.status).toEqual('ok');
+    expect(Number.isNaN(Date.parse(health.timestamp))).toBe(false);
+    expect(health.database.latency_ms).toBeGreaterThanOrEqual(0);
+    expect(health.database.total).toBeGreaterThanOrEqual(1);
+    expect(health.database.idle).toBeLessThanOrEqual(health.database.total);
+    expect(health.database.waiting).toEqual(0);
+  });
+});
+
+describe('checkPool', () => {
+  it('should fail when no connection frees up in time', async () => {
+    // Hold every connection the pool may open, so the probe has to queue
+    const clients = await Promise.all(Array.from({ length: pool.options.max ?? 10 }, () => pool.connect()));
+    try {
+      const error = await checkPool(50).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(Error);
+      expect((error as Error).message).toEqual('Database did not answer within 50ms');
+    } finally {
+      clients.forEach(client => client.release());
+    }
+  });
+});
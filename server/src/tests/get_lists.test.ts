@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable, tasksTable } from '../db/schema';
+import { getLists } from '../handlers/get_lists';
+
+describe('getLists', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should return an empty array when the user has no lists', async () => {
+    const result = await getLists(ownerId);
+
+    expect(result).toEqual([]);
+  });
+
+  it('should return lists sorted by name with task counts', async () => {
+    const [work, groceries] = await db.insert(listsTable)
+      .values([
+        { owner_id: ownerId, name: 'Work' },
+        { owner_id: ownerId, name: 'Groceries' }
+      ])
+      .returning()
+      .execute();
+
+    await db.insert(tasksTable).values([
+      { owner_id: ownerId, list_id: work.id, title: 'Write report', completed: true },
+      { owner_id: ownerId, list_id: work.id, title: 'Review PR', completed: false },
+      { owner_id: ownerId, list_id: work.id, title: 'Plan sprint', completed: false },
+      { owner_id: ownerId, list_id: null, title: 'Inbox task' }
+    ]).execute();
+
+    const result = await getLists(ownerId);
+
+    expect(result.map(l => l.name)).toEqual(['Groceries', 'Work']);
+    expect(result[0].id).toEqual(groceries.id);
+    expect(result[0].task_count).toEqual(0);
+    expect(result[0].completed_count).toEqual(0);
+    expect(result[1].task_count).toEqual(3);
+    expect(result[1].completed_count).toEqual(1);
+    expect(typeof result[1].task_count).toBe('number');
+  });
+
+  it('should only return lists owned by the caller', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    await db.insert(listsTable).values([
+      { owner_id: ownerId, name: 'Mine' },
+      { owner_id: otherUser.id, name: 'Theirs' }
+    ]).execute();
+
+    const result = await getLists(ownerId);
+
+    expect(result.map(l => l.name)).toEqual(['Mine']);
+  });
+});
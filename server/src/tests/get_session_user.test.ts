@@ -0,0 +1,42 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { getSessionUser } from '../handlers/get_session_user';
+import { generateSessionToken, hashSessionToken } from '../utils/auth';
+
+describe('getSessionUser', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const createSessionFor = async (userId: number, expiresAt: Date) => {
+    const token = generateSessionToken();
+    await db.insert(sessionsTable)
+      .values({ user_id: userId, token_hash: hashSessionToken(token), expires_at: expiresAt })
+      .execute();
+    return token;
+  };
+
+  it('should resolve a valid token to its user', async () => {
+    const user = await createTestUser('linus@example.com');
+    const token = await createSessionFor(user.id, new Date(Date.now() + 60_000));
+
+    const result = await getSessionUser(token);
+
+    expect(result).not.toBeNull();
+    expect(result!.id).toEqual(user.id);
+    expect(result!.email).toEqual('linus@example.com');
+    expect((result as Record<string, unknown>)['password_hash']).toBeUndefined();
+  });
+
+  it('should return null for an expired session', async () => {
+    const user = await createTestUser();
+    const token = await createSessionFor(user.id, new Date(Date.now() - 1000));
+
+    expect(await getSessionUser(token)).toBeNull();
+  });
+
+  it('should return null for an unknown token', async () => {
+    expect(await getSessionUser('unknown-token')).toBeNull();
+  });
+});
@@ -0,0 +1,43 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable, tasksTable, taskTagsTable } from '../db/schema';
+import { getTags } from '../handlers/get_tags';
+
+describe('getTags', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should return the user\'s tags sorted by name with task counts', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const tags = await db.insert(tagsTable)
+      .values([
+        { owner_id: ownerId, name: 'work' },
+        { owner_id: ownerId, name: 'home' },
+        { owner_id: otherUser.id, name: 'theirs' }
+      ])
+      .returning()
+      .execute();
+    const tasks = await db.insert(tasksTable)
+      .values([
+        { owner_id: ownerId, title: 'A' },
+        { owner_id: ownerId, title: 'B' }
+      ])
+      .returning()
+      .execute();
+    await db.insert(taskTagsTable).values([
+      { task_id: tasks[0].id, tag_id: tags[0].id },
+      { task_id: tasks[1].id, tag_id: tags[0].id }
+    ]).execute();
+
+    const result = await getTags(ownerId);
+
+    expect(result.map(t => t.name)).toEqual(['home', 'work']);
+    expect(result.map(t => t.task_count)).toEqual([0, 2]);
+  });
+});
@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { getTask } from '../handlers/get_task';
+
+describe('getTask', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should return the task with its tags', async () => {
+    const [created] = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, title: 'Read', due_date: '2099-01-01', due_timezone: 'UTC' })
+      .returning()
+      .execute();
+
+    const result = await getTask({ id: created.id }, ownerId);
+
+    expect(result?.id).toEqual(created.id);
+    expect(result?.title).toEqual('Read');
+    expect(result?.tags).toEqual([]);
+    expect(result?.due_status).toEqual('upcoming');
+    expect(result?.updated_at).toEqual(created.updated_at);
+  });
+
+  it('should return null for missing, trashed or foreign tasks', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const [trashed, foreign] = await db.insert(tasksTable)
+      .values([
+        { owner_id: ownerId, title: 'Trashed', deleted_at: new Date() },
+        { owner_id: otherUser.id, title: 'Not mine' }
+      ])
+      .returning()
+      .execute();
+
+    expect(await getTask({ id: 999 }, ownerId)).toBeNull();
+    expect(await getTask({ id: trashed.id }, ownerId)).toBeNull();
+    expect(await getTask({ id: foreign.id }, ownerId)).toBeNull();
+  });
+});
@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { createTask } from '../handlers/create_task';
+import { updateTask } from '../handlers/update_task';
+import { toggleTask } from '../handlers/toggle_task';
+import { deleteTask } from '../handlers/delete_task';
+import { restoreTask } from '../handlers/restore_task';
+import { getTaskHistory } from '../handlers/get_task_history';
+
+describe('getTaskHistory', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should return every change to a task, newest first', async () => {
+    const task = await createTask({ title: 'Write report' }, ownerId);
+    await updateTask({ id: task.id, title: 'Write the report' }, ownerId);
+    await toggleTask({ id: task.id, completed: true, include_subtasks: false }, ownerId);
+    await deleteTask({ id: task.id }, ownerId);
+    await restoreTask({ id: task.id }, ownerId);
+
+    const history = await getTaskHistory({ task_id: task.id }, ownerId);
+
+    expect(history.map(event => event.type)).toEqual(['restored', 'deleted', 'toggled', 'updated', 'created']);
+    expect(history.every(event => event.actor_id === ownerId)).toBe(true);
+    expect(history[3].changes).toEqual({ title: { from: 'Write report', to: 'Write the report' } });
+    expect(history[4].changes['title']).toEqual({ from: null, to: 'Write report' });
+    expect(history[1].changes['deleted_at']?.from).toBeNull();
+    expect(typeof history[1].changes['deleted_at']?.to).toBe('string');
+  });
+
+  it('should stay readable while the task is in the trash', async () => {
+    const task = await createTask({ title: 'Temporary' }, ownerId);
+    await deleteTask({ id: task.id }, ownerId);
+
+    const history = await getTaskHistory({ task_id: task.id }, ownerId);
+
+    expect(history.map(event => event.type)).toEqual(['deleted', 'created']);
+  });
+
+  it('should not reveal another user\'s task history', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const task = await createTask({ title: 'Private' }, ownerId);
+
+    await expect(getTaskHistory({ task_id: task.id }, otherUser.id)).rejects.toThrow(/not found/i);
+  });
+});
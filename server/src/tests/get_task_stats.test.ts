@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { getTaskStats } from '../handlers/get_task_stats';
+
+describe('getTaskStats', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should return zeros when no tasks exist', async () => {
+    const result = await getTaskStats(ownerId);
+
+    expect(result).toEqual({ total: 0, completed: 0, overdue: 0 });
+  });
+
+  it('should count total, completed and overdue tasks', async () => {
+    await db.insert(tasksTable).values([
+      { owner_id: ownerId, title: 'Open' },
+      { owner_id: ownerId, title: 'Done', completed: true },
+      { owner_id: ownerId, title: 'Overdue', due_date: '2000-01-01', due_timezone: 'UTC' },
+      { owner_id: ownerId, title: 'Overdue but done', due_date: '2000-01-01', due_timezone: 'UTC', completed: true },
+      { owner_id: ownerId, title: 'Upcoming', due_date: '2099-01-01', due_timezone: 'Asia/Tokyo' },
+      { owner_id: ownerId, title: 'In the trash', due_date: '2000-01-01', due_timezone: 'UTC', deleted_at: new Date() }
+    ]).execute();
+
+    const result = await getTaskStats(ownerId);
+
+    expect(result.total).toEqual(5);
+    expect(result.completed).toEqual(2);
+    expect(result.overdue).toEqual(1);
+    expect(typeof result.total).toBe('number');
+  });
+});
@@ -1,42 +1,71 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createTestUser } from '../helpers';
 import { db } from '../db';
-import { tasksTable } from '../db/schema';
-import { type CreateTaskInput } from '../schema';
+import { listsTable, tagsTable, tasksTable, taskTagsTable } from '../db/schema';
+import { type GetTasksInput } from '../schema';
 import { getTasks } from '../handlers/get_tasks';
+import { getDueStatus, zonedNow } from '../utils/due_status';
+
+// Default listing: newest first, one page of up to 50 tasks
+const defaultInput: GetTasksInput = {
+  parent_id: null,
+  sort: 'created',
+  direction: 'desc',
+  limit: 50
+};
 
 describe('getTasks', () => {
-  beforeEach(createDB);
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
   afterEach(resetDB);
 
   it('should return empty array when no tasks exist', async () => {
-    const result = await getTasks();
+    const { items: result } = await getTasks(defaultInput, ownerId);
     
     expect(result).toEqual([]);
     expect(result).toHaveLength(0);
   });
 
+  it('should leave out tasks in the trash', async () => {
+    await db.insert(tasksTable).values([
+      { owner_id: ownerId, title: 'Kept' },
+      { owner_id: ownerId, title: 'Deleted', deleted_at: new Date() }
+    ]).execute();
+
+    const { items: result } = await getTasks(defaultInput, ownerId);
+
+    expect(result.map(task => task.title)).toEqual(['Kept']);
+    expect(result[0].deleted_at).toBeNull();
+  });
+
   it('should return all tasks in correct format', async () => {
     // Create test tasks directly in database
     await db.insert(tasksTable).values([
       {
+        owner_id: ownerId,
         title: 'First Task',
         description: 'First task description',
         completed: false
       },
       {
+        owner_id: ownerId,
         title: 'Second Task',
         description: null, // Test nullable field
         completed: true
       },
       {
+        owner_id: ownerId,
         title: 'Third Task',
         description: 'Third task description',
         completed: false
       }
     ]).execute();
 
-    const result = await getTasks();
+    const { items: result } = await getTasks(defaultInput, ownerId);
     
     expect(result).toHaveLength(3);
     
@@ -57,6 +86,7 @@ describe('getTasks', () => {
   it('should return tasks ordered by creation date (newest first)', async () => {
     // Create tasks with slight delays to ensure different timestamps
     await db.insert(tasksTable).values({
+      owner_id: ownerId,
       title: 'Oldest Task',
       description: 'Created first',
       completed: false
@@ -66,12 +96,13 @@ describe('getTasks', () => {
     await new Promise(resolve => setTimeout(resolve, 10));
 
     await db.insert(tasksTable).values({
+      owner_id: ownerId,
       title: 'Newest Task',
       description: 'Created last',
       completed: false
     }).execute();
 
-    const result = await getTasks();
+    const { items: result } = await getTasks(defaultInput, ownerId);
     
     expect(result).toHaveLength(2);
     expect(result[0].title).toBe('Newest Task');
@@ -84,18 +115,20 @@ describe('getTasks', () => {
   it('should handle tasks with various completion states', async () => {
     await db.insert(tasksTable).values([
       {
+        owner_id: ownerId,
         title: 'Completed Task',
         description: 'This is done',
         completed: true
       },
       {
+        owner_id: ownerId,
         title: 'Incomplete Task',
         description: 'Still working on this',
         completed: false
       }
     ]).execute();
 
-    const result = await getTasks();
+    const { items: result } = await getTasks(defaultInput, ownerId);
     
     expect(result).toHaveLength(2);
     
@@ -108,12 +141,13 @@ describe('getTasks', () => {
 
   it('should handle tasks with null descriptions', async () => {
     await db.insert(tasksTable).values({
+      owner_id: ownerId,
       title: 'Task Without Description',
       description: null,
       completed: false
     }).execute();
 
-    const result = await getTasks();
+    const { items: result } = await getTasks(defaultInput, ownerId);
     
     expect(result).toHaveLength(1);
     expect(result[0].title).toBe('Task Without Description');
@@ -123,6 +157,7 @@ describe('getTasks', () => {
   it('should handle large number of tasks efficiently', async () => {
     // Create 50 tasks to test performance and pagination readiness
     const taskData = Array.from({ length: 50 }, (_, i) => ({
+      owner_id: ownerId,
       title: `Task ${i + 1}`,
       description: `Description for task ${i + 1}`,
       completed: i % 2 === 0 // Alternate between completed/incomplete
@@ -130,7 +165,7 @@ describe('getTasks', () => {
 
     await db.insert(tasksTable).values(taskData).execute();
 
-    const result = await getTasks();
+    const { items: result } = await getTasks(defaultInput, ownerId);
     
     expect(result).toHaveLength(50);
     
@@ -148,4 +183,293 @@ describe('getTasks', () => {
       expect(result[i].created_at >= result[i + 1].created_at).toBe(true);
     }
   });
-});
\ No newline at end of file
+
+  it('should group tasks into overdue, due today and upcoming', async () => {
+    const today = zonedNow('Pacific/Auckland').date;
+
+    await db.insert(tasksTable).values([
+      { owner_id: ownerId, title: 'Overdue', due_date: '2000-01-01', due_timezone: 'UTC' },
+      { owner_id: ownerId, title: 'Today', due_date: today, due_timezone: 'Pacific/Auckland' },
+      { owner_id: ownerId, title: 'Upcoming', due_date: '2099-01-01', due_timezone: 'UTC' },
+      { owner_id: ownerId, title: 'Done overdue', due_date: '2000-01-01', due_timezone: 'UTC', completed: true },
+      { owner_id: ownerId, title: 'No due date' }
+    ]).execute();
+
+    const { items: result } = await getTasks(defaultInput, ownerId);
+    const statusOf = (title: string) => result.find(t => t.title === title)?.due_status;
+
+    expect(statusOf('Overdue')).toEqual('overdue');
+    expect(statusOf('Today')).toEqual('due_today');
+    expect(statusOf('Upcoming')).toEqual('upcoming');
+    expect(statusOf('Done overdue')).toBeNull(); // Completed tasks are never overdue
+    expect(statusOf('No due date')).toBeNull();
+  });
+
+  it('should treat a passed due time today as overdue', async () => {
+    const now = new Date('2024-06-01T12:00:00Z');
+
+    expect(getDueStatus({ completed: false, due_date: '2024-06-01', due_time: '11:59:00', due_timezone: 'UTC' }, now)).toEqual('overdue');
+    expect(getDueStatus({ completed: false, due_date: '2024-06-01', due_time: '12:30:00', due_timezone: 'UTC' }, now)).toEqual('due_today');
+    // 20:00 UTC is already 2024-06-02 in Tokyo
+    const evening = new Date('2024-06-01T20:00:00Z');
+    expect(getDueStatus({ completed: false, due_date: '2024-06-01', due_time: null, due_timezone: 'Asia/Tokyo' }, evening)).toEqual('overdue');
+    expect(getDueStatus({ completed: false, due_date: '2024-06-01', due_time: null, due_timezone: 'UTC' }, evening)).toEqual('due_today');
+  });
+
+  it('should filter by completion state', async () => {
+    await db.insert(tasksTable).values([
+      { owner_id: ownerId, title: 'Open', completed: false },
+      { owner_id: ownerId, title: 'Done', completed: true }
+    ]).execute();
+
+    const { items: open } = await getTasks({ ...defaultInput, completed: false }, ownerId);
+    const { items: done } = await getTasks({ ...defaultInput, completed: true }, ownerId);
+
+    expect(open.map(t => t.title)).toEqual(['Open']);
+    expect(done.map(t => t.title)).toEqual(['Done']);
+  });
+
+  it('should match the text query against title and description case-insensitively', async () => {
+    await db.insert(tasksTable).values([
+      { owner_id: ownerId, title: 'Buy MILK', description: null },
+      { owner_id: ownerId, title: 'Groceries', description: 'eggs and milk' },
+      { owner_id: ownerId, title: 'Call mom', description: 'about 100% of the plan' }
+    ]).execute();
+
+    const { items: milk } = await getTasks({ ...defaultInput, query: 'milk', sort: 'title', direction: 'asc' }, ownerId);
+    expect(milk.map(t => t.title)).toEqual(['Buy MILK', 'Groceries']);
+
+    // LIKE wildcards in the query are matched literally
+    const { items: percent } = await getTasks({ ...defaultInput, query: '%' }, ownerId);
+    expect(percent.map(t => t.title)).toEqual(['Call mom']);
+  });
+
+  it('should filter by created and updated ranges', async () => {
+    await db.insert(tasksTable).values([
+      { owner_id: ownerId, title: 'Old', created_at: new Date('2020-01-01T00:00:00Z'), updated_at: new Date('2020-01-02T00:00:00Z') },
+      { owner_id: ownerId, title: 'New', created_at: new Date('2024-01-01T00:00:00Z'), updated_at: new Date('2024-06-01T00:00:00Z') }
+    ]).execute();
+
+    const { items: created } = await getTasks({ ...defaultInput, created_after: new Date('2023-01-01T00:00:00Z') }, ownerId);
+    expect(created.map(t => t.title)).toEqual(['New']);
+
+    const { items: updated } = await getTasks({ ...defaultInput, updated_before: new Date('2021-01-01T00:00:00Z') }, ownerId);
+    expect(updated.map(t => t.title)).toEqual(['Old']);
+  });
+
+  it('should sort by title in both directions', async () => {
+    await db.insert(tasksTable).values([
+      { owner_id: ownerId, title: 'banana' },
+      { owner_id: ownerId, title: 'apple' },
+      { owner_id: ownerId, title: 'cherry' }
+    ]).execute();
+
+    const { items: asc } = await getTasks({ ...defaultInput, sort: 'title', direction: 'asc' }, ownerId);
+    const { items: desc } = await getTasks({ ...defaultInput, sort: 'title', direction: 'desc' }, ownerId);
+
+    expect(asc.map(t => t.title)).toEqual(['apple', 'banana', 'cherry']);
+    expect(desc.map(t => t.title)).toEqual(['cherry', 'banana', 'apple']);
+  });
+
+  it('should page through every task exactly once with a stable cursor', async () => {
+    // Identical timestamps force the id tie-breaker to do its job
+    const createdAt = new Date('2024-01-01T00:00:00Z');
+    await db.insert(tasksTable).values(
+      Array.from({ length: 7 }, (_, i) => ({ owner_id: ownerId, title: `Task ${i + 1}`, created_at: createdAt }))
+    ).execute();
+
+    const seen: number[] = [];
+    let cursor: string | null = null;
+    let pages = 0;
+    do {
+      const page = await getTasks({ ...defaultInput, limit: 3, cursor }, ownerId);
+      seen.push(...page.items.map(t => t.id));
+      cursor = page.next_cursor;
+      pages++;
+    } while (cursor);
+
+    expect(pages).toEqual(3);
+    expect(seen).toHaveLength(7);
+    expect(new Set(seen).size).toEqual(7);
+  });
+
+  it('should keep the cursor stable when newer tasks are inserted between pages', async () => {
+    await db.insert(tasksTable).values(
+      Array.from({ length: 4 }, (_, i) => ({ owner_id: ownerId, title: `Task ${i + 1}` }))
+    ).execute();
+
+    const first = await getTasks({ ...defaultInput, sort: 'manual', direction: 'asc', limit: 2 }, ownerId);
+    await db.insert(tasksTable).values({ owner_id: ownerId, title: 'Inserted later' }).execute();
+    const second = await getTasks({ ...defaultInput, sort: 'manual', direction: 'asc', limit: 2, cursor: first.next_cursor }, ownerId);
+
+    expect(first.items.map(t => t.title)).toEqual(['Task 1', 'Task 2']);
+    expect(second.items.map(t => t.title)).toEqual(['Task 3', 'Task 4']);
+  });
+
+  it('should reject a cursor from a different sort order', async () => {
+    await db.insert(tasksTable).values([{ owner_id: ownerId, title: 'A' }, { owner_id: ownerId, title: 'B' }]).execute();
+
+    const page = await getTasks({ ...defaultInput, limit: 1 }, ownerId);
+
+    await expect(getTasks({ ...defaultInput, sort: 'title', cursor: page.next_cursor }, ownerId)).rejects.toThrow(/cursor/i);
+    await expect(getTasks({ ...defaultInput, cursor: 'not-a-cursor' }, ownerId)).rejects.toThrow(/invalid cursor/i);
+  });
+
+  it('should only return tasks owned by the caller', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    await db.insert(tasksTable).values([
+      { owner_id: ownerId, title: 'Mine' },
+      { owner_id: otherUser.id, title: 'Theirs' }
+    ]).execute();
+
+    const { items: result } = await getTasks(defaultInput, ownerId);
+
+    expect(result.map(t => t.title)).toEqual(['Mine']);
+  });
+
+  it('should filter by list, with null selecting the Inbox', async () => {
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Work' })
+      .returning()
+      .execute();
+    await db.insert(tasksTable).values([
+      { owner_id: ownerId, list_id: lists[0].id, title: 'In list' },
+      { owner_id: ownerId, list_id: null, title: 'In inbox' }
+    ]).execute();
+
+    const { items: inList } = await getTasks({ ...defaultInput, list_id: lists[0].id }, ownerId);
+    const { items: inbox } = await getTasks({ ...defaultInput, list_id: null }, ownerId);
+    const { items: all } = await getTasks(defaultInput, ownerId);
+
+    expect(inList.map(t => t.title)).toEqual(['In list']);
+    expect(inbox.map(t => t.title)).toEqual(['In inbox']);
+    expect(all).toHaveLength(2);
+  });
+
+  it('should return top-level tasks by default and subtasks by parent', async () => {
+    const [parent] = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, title: 'Parent' })
+      .returning()
+      .execute();
+    await db.insert(tasksTable).values([
+      { owner_id: ownerId, parent_id: parent.id, title: 'Child A' },
+      { owner_id: ownerId, parent_id: parent.id, title: 'Child B' }
+    ]).execute();
+
+    const { items: topLevel } = await getTasks(defaultInput, ownerId);
+    const { items: children } = await getTasks({ ...defaultInput, parent_id: parent.id, sort: 'title', direction: 'asc' }, ownerId);
+
+    expect(topLevel.map(t => t.title)).toEqual(['Parent']);
+    expect(children.map(t => t.title)).toEqual(['Child A', 'Child B']);
+    expect(children.every(t => t.parent_id === parent.id)).toBe(true);
+  });
+
+  it('should roll up subtask progress across all levels', async () => {
+    const [parent] = await db.insert(tasksTable)
+      .values([
+        { owner_id: ownerId, title: 'Parent' },
+        { owner_id: ownerId, title: 'Leaf' }
+      ])
+      .returning()
+      .execute();
+    const [child] = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, parent_id: parent.id, title: 'Child', completed: true })
+      .returning()
+      .execute();
+    await db.insert(tasksTable).values([
+      { owner_id: ownerId, parent_id: child.id, title: 'Grandchild A', completed: true },
+      { owner_id: ownerId, parent_id: child.id, title: 'Grandchild B' }
+    ]).execute();
+
+    const { items: result } = await getTasks(defaultInput, ownerId);
+    const byTitle = new Map(result.map(t => [t.title, t]));
+
+    expect(byTitle.get('Parent')?.subtask_count).toEqual(3);
+    expect(byTitle.get('Parent')?.completed_subtask_count).toEqual(2);
+    expect(byTitle.get('Leaf')?.subtask_count).toEqual(0);
+    expect(byTitle.get('Leaf')?.completed_subtask_count).toEqual(0);
+  });
+
+  it('should filter by any, all and none of a set of tags', async () => {
+    const [home, work] = await db.insert(tagsTable)
+      .values([
+        { owner_id: ownerId, name: 'home' },
+        { owner_id: ownerId, name: 'work' }
+      ])
+      .returning()
+      .execute();
+    const [homeOnly, both] = await db.insert(tasksTable)
+      .values([
+        { owner_id: ownerId, title: 'Home only' },
+        { owner_id: ownerId, title: 'Both' },
+        { owner_id: ownerId, title: 'Untagged' }
+      ])
+      .returning()
+      .execute();
+    await db.insert(taskTagsTable).values([
+      { task_id: homeOnly.id, tag_id: home.id },
+      { task_id: both.id, tag_id: home.id },
+      { task_id: both.id, tag_id: work.id }
+    ]).execute();
+
+    const titles = async (filter: Partial<GetTasksInput>) =>
+      (await getTasks({ ...defaultInput, ...filter, sort: 'title', direction: 'asc' }, ownerId)).items.map(t => t.title);
+
+    expect(await titles({ tags_any: [home.id, work.id] })).toEqual(['Both', 'Home only']);
+    expect(await titles({ tags_all: [home.id, work.id] })).toEqual(['Both']);
+    expect(await titles({ tags_none: [work.id] })).toEqual(['Home only', 'Untagged']);
+    expect(await titles({ tags_any: [home.id], tags_none: [work.id] })).toEqual(['Home only']);
+  });
+
+  it('should include each task\'s tags', async () => {
+    const [tag] = await db.insert(tagsTable).values({ owner_id: ownerId, name: 'home' }).returning().execute();
+    const [task] = await db.insert(tasksTable).values({ owner_id: ownerId, title: 'Tagged' }).returning().execute();
+    await db.insert(taskTagsTable).values({ task_id: task.id, tag_id: tag.id }).execute();
+
+    const { items: result } = await getTasks(defaultInput, ownerId);
+
+    expect(result[0].tags).toEqual([{ id: tag.id, name: 'home', color: '#6b7280' }]);
+  });
+
+  it('should order by priority, then due date, then age in smart mode', async () => {
+    await db.insert(tasksTable).values([
+      { owner_id: ownerId, title: 'Low', priority: 'low', created_at: new Date('2024-01-01T00:00:00Z') },
+      { owner_id: ownerId, title: 'Urgent undated', priority: 'urgent', created_at: new Date('2024-01-02T00:00:00Z') },
+      { owner_id: ownerId, title: 'Urgent later', priority: 'urgent', due_date: '2024-03-01', due_timezone: 'UTC' },
+      { owner_id: ownerId, title: 'Urgent sooner', priority: 'urgent', due_date: '2024-02-01', due_timezone: 'UTC' },
+      { owner_id: ownerId, title: 'Urgent old undated', priority: 'urgent', created_at: new Date('2023-12-01T00:00:00Z') },
+      { owner_id: ownerId, title: 'None', created_at: new Date('2020-01-01T00:00:00Z') }
+    ]).execute();
+
+    const { items: result } = await getTasks({ ...defaultInput, sort: 'smart', direction: 'asc' }, ownerId);
+
+    expect(result.map(t => t.title)).toEqual([
+      'Urgent sooner',
+      'Urgent later',
+      'Urgent old undated',
+      'Urgent undated',
+      'Low',
+      'None'
+    ]);
+  });
+
+  it('should page through smart order with cursors', async () => {
+    await db.insert(tasksTable).values(
+      Array.from({ length: 5 }, (_, i) => ({
+        owner_id: ownerId,
+        title: `Task ${i}`,
+        priority: (['none', 'low', 'medium', 'high', 'urgent'] as const)[i]
+      }))
+    ).execute();
+
+    const titles: string[] = [];
+    let cursor: string | null | undefined = undefined;
+    do {
+      const page = await getTasks({ ...defaultInput, sort: 'smart', direction: 'asc', limit: 2, cursor }, ownerId);
+      titles.push(...page.items.map(t => t.title));
+      cursor = page.next_cursor;
+    } while (cursor);
+
+    expect(titles).toEqual(['Task 4', 'Task 3', 'Task 2', 'Task 1', 'Task 0']);
+  });
+});
@@ -0,0 +1,70 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { getTrash } from '../handlers/get_trash';
+import { TRASH_RETENTION_DAYS } from '../config';
+
+describe('getTrash', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should return an empty array when the trash is empty', async () => {
+    await db.insert(tasksTable).values({ owner_id: ownerId, title: 'Active' }).execute();
+
+    expect(await getTrash(ownerId)).toEqual([]);
+  });
+
+  it('should list deleted tasks newest first with their purge date', async () => {
+    const older = new Date('2024-03-01T10:00:00Z');
+    const newer = new Date('2024-03-02T10:00:00Z');
+    await db.insert(tasksTable).values([
+      { owner_id: ownerId, title: 'Older', deleted_at: older },
+      { owner_id: ownerId, title: 'Newer', deleted_at: newer },
+      { owner_id: ownerId, title: 'Active' }
+    ]).execute();
+
+    const result = await getTrash(ownerId);
+
+    expect(result.map(item => item.title)).toEqual(['Newer', 'Older']);
+    expect(result[0].deleted_at).toEqual(newer);
+    expect(result[0].purge_at.getTime() - newer.getTime()).toEqual(TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+  });
+
+  it('should only list the top of each deleted subtree', async () => {
+    const deletedAt = new Date();
+    const parents = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, title: 'Parent', deleted_at: deletedAt })
+      .returning()
+      .execute();
+    const activeParents = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, title: 'Active parent' })
+      .returning()
+      .execute();
+    await db.insert(tasksTable).values([
+      { owner_id: ownerId, parent_id: parents[0].id, title: 'Hidden child', deleted_at: deletedAt },
+      { owner_id: ownerId, parent_id: activeParents[0].id, title: 'Deleted subtask', deleted_at: deletedAt }
+    ]).execute();
+
+    const result = await getTrash(ownerId);
+
+    expect(result.map(item => item.title).sort()).toEqual(['Deleted subtask', 'Parent']);
+  });
+
+  it('should only return the caller\'s deleted tasks', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    await db.insert(tasksTable).values([
+      { owner_id: ownerId, title: 'Mine', deleted_at: new Date() },
+      { owner_id: otherUser.id, title: 'Theirs', deleted_at: new Date() }
+    ]).execute();
+
+    const result = await getTrash(ownerId);
+
+    expect(result.map(item => item.title)).toEqual(['Mine']);
+  });
+});
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { webhookDeliveriesTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { createWebhook } from '../handlers/create_webhook';
+import { getWebhookDeliveries } from '../handlers/get_webhook_deliveries';
+import { createTask } from '../handlers/create_task';
+
+describe('getWebhookDeliveries', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should list deliveries newest first, filtered by webhook and status', async () => {
+    const first = await createWebhook({ url: 'https://example.com/one', events: ['task.created'] }, ownerId);
+    const second = await createWebhook({ url: 'https://example.com/two', events: ['task.created'] }, ownerId);
+    await createTask({ title: 'Older' }, ownerId);
+    await createTask({ title: 'Newer' }, ownerId);
+    await db.update(webhookDeliveriesTable)
+      .set({ status: 'dead', next_attempt_at: null })
+      .where(eq(webhookDeliveriesTable.webhook_id, second.id))
+      .execute();
+
+    const all = await getWebhookDeliveries({ limit: 50 }, ownerId);
+    expect(all).toHaveLength(4);
+    expect(all[0].payload.data.task['title']).toEqual('Newer');
+
+    const forFirst = await getWebhookDeliveries({ webhook_id: first.id, limit: 50 }, ownerId);
+    expect(forFirst.map(delivery => delivery.payload.data.task['title'])).toEqual(['Newer', 'Older']);
+
+    const dead = await getWebhookDeliveries({ status: 'dead', limit: 1 }, ownerId);
+    expect(dead).toHaveLength(1);
+    expect(dead[0].webhook_id).toEqual(second.id);
+  });
+
+  it('should not show other users\' deliveries', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const webhook = await createWebhook({ url: 'https://example.com/hooks', events: ['task.created'] }, ownerId);
+    await createTask({ title: 'Private' }, ownerId);
+
+    expect(await getWebhookDeliveries({ limit: 50 }, otherUser.id)).toHaveLength(0);
+    await expect(getWebhookDeliveries({ webhook_id: webhook.id, limit: 50 }, otherUser.id)).rejects.toThrow(/not found/i);
+  });
+});
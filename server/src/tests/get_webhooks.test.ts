@@ -0,0 +1,26 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { createWebhook } from '../handlers/create_webhook';
+import { getWebhooks } from '../handlers/get_webhooks';
+
+describe('getWebhooks', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should return the user\'s webhooks oldest first without their secrets', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const first = await createWebhook({ url: 'https://example.com/one', events: ['task.created'] }, ownerId);
+    const second = await createWebhook({ url: 'https://example.com/two', events: ['task.deleted'] }, ownerId);
+    await createWebhook({ url: 'https://example.com/other', events: ['task.created'] }, otherUser.id);
+
+    const result = await getWebhooks(ownerId);
+
+    expect(result.map(webhook => webhook.id)).toEqual([first.id, second.id]);
+    expect(result[0]).not.toHaveProperty('secret');
+  });
+});
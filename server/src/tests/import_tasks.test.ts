@@ -0,0 +1,236 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable, tagsTable, tasksTable } from '../db/schema';
+import { importTasksInputSchema, type ImportTasksInput } from '../schema';
+import { importTasks } from '../handlers/import_tasks';
+import { exportTasks } from '../handlers/export_tasks';
+import { getTagsForTasks } from '../utils/task_tags';
+import { ValidationError } from '../errors';
+import { asc, eq, sql } from 'drizzle-orm';
+
+// Apply the schema defaults, as the router does
+const importInput = (input: Partial<ImportTasksInput> & Pick<ImportTasksInput, 'format' | 'content'>): ImportTasksInput =>
+  importTasksInputSchema.parse(input);
+
+// Titles in manual order, subtasks indented under their parent
+const taskOutline = async (ownerId: number): Promise<string[]> => {
+  const rows = await db.select()
+    .from(tasksTable)
+    .where(eq(tasksTable.owner_id, ownerId))
+    .orderBy(sql`${tasksTable.position} collate "C"`, asc(tasksTable.id))
+    .execute();
+  const outline = (parentId: number | null, depth: number): string[] => rows
+    .filter(row => row.parent_id === parentId)
+    .flatMap(row => [`${'  '.repeat(depth)}${row.completed ? '[x]' : '[ ]'} ${row.title}`, ...outline(row.id, depth + 1)]);
+  return outline(null, 0);
+};
+
+describe('importTasks', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should import a Markdown checklist with nesting, completion and lists', async () => {
+    const content = [
+      '# Plans',
+      '',
+      '- [ ] Buy milk',
+      '## Work',
+      '- [ ] Write report',
+      '  - [x] Outline',
+      '  - [ ] Draft',
+      '    - [ ] Intro',
+      '- [X] Book travel',
+      'Notes that are not tasks'
+    ].join('\n');
+
+    const report = await importTasks(importInput({ format: 'markdown', content }), ownerId);
+
+    expect(report).toMatchObject({ dry_run: false, created: 6, updated: 0, skipped: 0, failed: 0 });
+    expect(report.items.map(item => [item.row, item.title])).toEqual([
+      [3, 'Buy milk'], [5, 'Write report'], [6, 'Outline'], [7, 'Draft'], [8, 'Intro'], [9, 'Book travel']
+    ]);
+    expect(await taskOutline(ownerId)).toEqual([
+      '[ ] Buy milk',
+      '[ ] Write report',
+      '  [x] Outline',
+      '  [ ] Draft',
+      '    [ ] Intro',
+      '[x] Book travel'
+    ]);
+
+    const [list] = await db.select().from(listsTable).execute();
+    expect(list.name).toEqual('Work');
+    const tasks = await db.select().from(tasksTable).execute();
+    expect(tasks.filter(task => task.list_id === list.id)).toHaveLength(5);
+  });
+
+  it('should map CSV headers onto columns and create missing tags', async () => {
+    const [existing] = await db.insert(tagsTable).values({ owner_id: ownerId, name: 'Home' }).returning().execute();
+    const content = [
+      'Task,Notes,Due,Labels,Effort,Sub of',
+      'Paint fence,"Two coats, white",2024-05-01,home; garden,3,',
+      'Buy paint,,,,1,Paint fence'
+    ].join('\r\n');
+
+    const report = await importTasks(importInput({ format: 'csv', content, column_map: { 'Sub of': 'parent' } }), ownerId);
+
+    expect(report.created).toBe(2);
+    const [fence, paint] = await db.select().from(tasksTable).orderBy(asc(tasksTable.id)).execute();
+    expect(fence).toMatchObject({ title: 'Paint fence', description: 'Two coats, white', due_date: '2024-05-01', parent_id: null });
+    expect(paint).toMatchObject({ title: 'Buy paint', parent_id: fence.id });
+
+    const tags = (await getTagsForTasks(db, [fence.id])).get(fence.id)!;
+    expect(tags.map(tag => tag.name)).toEqual(['garden', 'Home']);
+    expect(tags.find(tag => tag.name === 'Home')?.id).toEqual(existing.id);
+  });
+
+  it('should reject CSV files without a title column', async () => {
+    const content = 'Effort,Notes\n1,Something\n';
+
+    await expect(importTasks(importInput({ format: 'csv', content }), ownerId)).rejects.toThrow(ValidationError);
+  });
+
+  it('should report invalid rows and skip their subtasks while importing the rest', async () => {
+    const content = [
+      'title,due_date,parent',
+      'Good,2024-01-01,',
+      'Bad,tomorrow,',
+      'Child of bad,,Bad',
+      'Orphan,,Missing'
+    ].join('\n');
+
+    const report = await importTasks(importInput({ format: 'csv', content }), ownerId);
+
+    expect(report).toMatchObject({ created: 1, skipped: 1, failed: 2 });
+    expect(report.items.map(item => [item.row, item.action])).toEqual([[2, 'create'], [3, 'error'], [4, 'skip'], [5, 'error']]);
+    expect(report.items[1].message).toContain('Due date must be YYYY-MM-DD');
+    expect(report.items[3].message).toContain('Parent task "Missing" not found');
+    expect(await taskOutline(ownerId)).toEqual(['[ ] Good']);
+  });
+
+  it('should report tasks with impossible due dates or times as errors and import the rest', async () => {
+    const content = JSON.stringify({
+      version: 1,
+      tasks: [
+        { title: 'Before', due_date: '2024-12-01' },
+        { title: 'No such month', due_date: '2024-13-01' },
+        { title: 'No such time', due_date: '2024-12-01', due_time: '25:61' },
+        { title: 'After', due_date: '2024-02-29', due_time: '09:30' }
+      ]
+    });
+
+    const report = await importTasks(importInput({ format: 'json', content }), ownerId);
+
+    expect(report).toMatchObject({ created: 2, failed: 2 });
+    expect(report.items.map(item => [item.title, item.action, item.message])).toEqual([
+      ['Before', 'create', null],
+      ['No such month', 'error', 'due_date: Due date must be a real calendar date'],
+      ['No such time', 'error', 'due_time: Due time must be a real time of day'],
+      ['After', 'create', null]
+    ]);
+    expect(await taskOutline(ownerId)).toEqual(['[ ] Before', '[ ] After']);
+  });
+
+  it('should round-trip a JSON export', async () => {
+    const [list] = await db.insert(listsTable).values({ owner_id: ownerId, name: 'Work' }).returning().execute();
+    const [parent] = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, list_id: list.id, title: 'Launch', due_date: '2024-06-01', due_timezone: 'UTC', recurrence: 'FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=-1', position: 'a0' })
+      .returning()
+      .execute();
+    await db.insert(tasksTable)
+      .values({ owner_id: ownerId, list_id: list.id, parent_id: parent.id, title: 'Announce', completed: true })
+      .execute();
+    const exported = await exportTasks({ format: 'json', include_completed: true }, ownerId);
+
+    const other = await createTestUser('other@example.com');
+    const report = await importTasks(importInput({ format: 'json', content: exported.content }), other.id);
+
+    expect(report.created).toBe(2);
+    expect(await taskOutline(other.id)).toEqual(['[ ] Launch', '  [x] Announce']);
+    const reexported = await exportTasks({ format: 'json', include_completed: true }, other.id);
+    expect(JSON.parse(reexported.content).tasks).toEqual(JSON.parse(exported.content).tasks);
+  });
+
+  it('should reject JSON files of another version', async () => {
+    const content = JSON.stringify({ version: 2, tasks: [] });
+
+    await expect(importTasks(importInput({ format: 'json', content }), ownerId))
+      .rejects.toThrow(/Unsupported export version 2/);
+  });
+
+  it('should skip tasks whose title matches a sibling, including earlier rows of the file', async () => {
+    const [existing] = await db.insert(tasksTable).values({ owner_id: ownerId, title: 'Buy milk' }).returning().execute();
+    const content = '- [ ] buy MILK\n  - [ ] Check fridge\n- [ ] Call mum\n- [ ] Call Mum\n';
+
+    const report = await importTasks(importInput({ format: 'markdown', content }), ownerId);
+
+    expect(report.items.map(item => [item.title, item.action, item.task_id === existing.id])).toEqual([
+      ['buy MILK', 'skip', true],
+      ['Check fridge', 'create', false],
+      ['Call mum', 'create', false],
+      ['Call Mum', 'skip', false]
+    ]);
+    // Subtasks of a skipped task are added to the existing one
+    const [fridge] = await db.select().from(tasksTable).where(eq(tasksTable.title, 'Check fridge')).execute();
+    expect(fridge.parent_id).toEqual(existing.id);
+  });
+
+  it('should update duplicates with only the fields the file gives', async () => {
+    const [existing] = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, title: 'Buy milk', description: 'Oat milk', priority: 'high' })
+      .returning()
+      .execute();
+
+    const report = await importTasks(importInput({ format: 'markdown', content: '- [x] Buy milk\n', duplicates: 'update' }), ownerId);
+
+    expect(report).toMatchObject({ created: 0, updated: 1 });
+    expect(report.items[0].task_id).toEqual(existing.id);
+    const [task] = await db.select().from(tasksTable).execute();
+    expect(task).toMatchObject({ completed: true, description: 'Oat milk', priority: 'high' });
+  });
+
+  it('should create duplicates when asked to', async () => {
+    await db.insert(tasksTable).values({ owner_id: ownerId, title: 'Buy milk' }).execute();
+
+    const report = await importTasks(importInput({ format: 'markdown', content: '- [ ] Buy milk\n', duplicates: 'create' }), ownerId);
+
+    expect(report.created).toBe(1);
+    expect(await db.select().from(tasksTable).execute()).toHaveLength(2);
+  });
+
+  it('should report a dry run without changing anything', async () => {
+    await db.insert(tasksTable).values({ owner_id: ownerId, title: 'Buy milk' }).execute();
+    const content = '## Errands\n- [ ] Post letter\n  - [ ] Buy stamps\n## Inbox\n- [ ] Buy milk\n';
+
+    const report = await importTasks(importInput({ format: 'markdown', content, dry_run: true }), ownerId);
+
+    expect(report).toMatchObject({ dry_run: true, created: 2, skipped: 1 });
+    expect(report.items.filter(item => item.action === 'create').every(item => item.task_id === null)).toBe(true);
+    expect(await db.select().from(tasksTable).execute()).toHaveLength(1);
+    expect(await db.select().from(listsTable).execute()).toHaveLength(0);
+  });
+
+  it('should put every task into the given list', async () => {
+    const [list] = await db.insert(listsTable).values({ owner_id: ownerId, name: 'Imported' }).returning().execute();
+
+    await importTasks(importInput({ format: 'markdown', content: '## Work\n- [ ] A\n', list_id: list.id }), ownerId);
+
+    const [task] = await db.select().from(tasksTable).execute();
+    expect(task.list_id).toEqual(list.id);
+    expect(await db.select().from(listsTable).execute()).toHaveLength(1);
+  });
+
+  it('should refuse a list owned by someone else', async () => {
+    const other = await createTestUser('other@example.com');
+    const [list] = await db.insert(listsTable).values({ owner_id: other.id, name: 'Theirs' }).returning().execute();
+
+    await expect(importTasks(importInput({ format: 'markdown', content: '- [ ] A\n', list_id: list.id }), ownerId))
+      .rejects.toThrow(/List with id \d+ not found/);
+  });
+});
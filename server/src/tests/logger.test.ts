@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'bun:test';
+import { type IncomingMessage } from 'node:http';
+import { createLogger, currentRequestId, requestIdFor, withRequestId } from '../utils/logger';
+import { NotFoundError } from '../errors';
+
+// A logger writing into an array, with each line parsed back
+const capture = (minLevel: 'debug' | 'info' | 'warn' | 'error' = 'debug') => {
+  const lines: string[] = [];
+  const logger = createLogger(line => lines.push(line), minLevel);
+  return { logger, entries: () => lines.map(line => JSON.parse(line) as Record<string, unknown>), lines };
+};
+
+const requestWith = (headers: Record<string, string>) => ({ headers }) as unknown as IncomingMessage;
+
+describe('createLogger', () => {
+  it('should write one JSON object per line with the level, message and fields', () => {
+    const { logger, entries, lines } = capture();
+
+    logger.info('Task created', { task_id: 7, owner_id: 3 });
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).not.toContain('\n');
+    const [entry] = entries();
+    expect(entry).toMatchObject({ level: 'info', msg: 'Task created', task_id: 7, owner_id: 3 });
+    expect(Number.isNaN(Date.parse(entry!['time'] as string))).toBe(false);
+    expect(entry).not.toHaveProperty('request_id');
+  });
+
+  it('should drop lines below the minimum level', () => {
+    const { logger, entries } = capture('warn');
+
+    logger.debug('Noise');
+    logger.info('More noise');
+    logger.warn('Careful');
+    logger.error('Broken');
+
+    expect(entries().map(entry => entry['level'])).toEqual(['warn', 'error']);
+  });
+
+  it('should keep the name, message, stack and own fields of errors', () => {
+    const { logger, entries } = capture();
+    const cause = new Error('connection reset');
+
+    logger.error('Task update failed', { error: new NotFoundError('task', 12) });
+    logger.error('Query failed', { error: Object.assign(new Error('boom', { cause }), { code: '40001' }) });
+
+    const [notFound, failed] = entries();
+    expect(notFound!['error']).toMatchObject({
+      name: 'NotFoundError',
+      message: 'Task with id 12 not found',
+      details: { reason: 'not_found', resource: 'task', id: 12 }
+    });
+    expect((notFound!['error'] as Record<string, unknown>)['stack']).toContain('NotFoundError');
+    expect(failed!['error']).toMatchObject({ name: 'Error', message: 'boom', code: '40001', cause: { message: 'connection reset' } });
+  });
+
+  it('should still log the message when the fields can not be serialized', () => {
+    const { logger, entries } = capture();
+    const circular: Record<string, unknown> = {};
+    circular['self'] = circular;
+
+    logger.warn('Odd input', { circular });
+
+    expect(entries()[0]).toMatchObject({ level: 'warn', msg: 'Odd input', log_error: 'Fields could not be serialized' });
+  });
+});
+
+describe('request ids', () => {
+  it('should attach the request id to lines logged inside withRequestId, across awaits', async () => {
+    const { logger, entries } = capture();
+
+    await withRequestId('req-1', async () => {
+      logger.info('Before');
+      await new Promise(resolve => setTimeout(resolve, 1));
+      logger.info('After');
+    });
+    logger.info('Outside');
+
+    expect(entries().map(entry => entry['request_id'])).toEqual(['req-1', 'req-1', undefined]);
+    expect(currentRequestId()).toBeNull();
+  });
+
+  it('should keep concurrent requests apart', async () => {
+    const seen = await Promise.all(['a', 'b'].map(id => withRequestId(id, async () => {
+      await new Promise(resolve => setTimeout(resolve, id === 'a' ? 5 : 1));
+      return currentRequestId();
+    })));
+
+    expect(seen).toEqual(['a', 'b']);
+  });
+
+  it('should reuse a well-formed X-Request-Id and replace anything else', () => {
+    expect(requestIdFor(requestWith({ 'x-request-id': 'caddy-4f2a.9' }))).toEqual('caddy-4f2a.9');
+
+    const uuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+    expect(requestIdFor(requestWith({}))).toMatch(uuid);
+    expect(requestIdFor(requestWith({ 'x-request-id': 'bad id\n{"level":"error"}' }))).toMatch(uuid);
+    expect(requestIdFor(requestWith({ 'x-request-id': 'x'.repeat(200) }))).toMatch(uuid);
+    expect(requestIdFor(requestWith({}))).not.toEqual(requestIdFor(requestWith({})));
+  });
+});
@@ -0,0 +1,56 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable, tasksTable, taskTagsTable } from '../db/schema';
+import { mergeTags } from '../handlers/merge_tags';
+import { eq } from 'drizzle-orm';
+
+describe('mergeTags', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should move every task onto the target tag and delete the source', async () => {
+    const [source, target] = await db.insert(tagsTable)
+      .values([
+        { owner_id: ownerId, name: 'todo-later' },
+        { owner_id: ownerId, name: 'someday' }
+      ])
+      .returning()
+      .execute();
+    const [onlySource, both] = await db.insert(tasksTable)
+      .values([
+        { owner_id: ownerId, title: 'Only source' },
+        { owner_id: ownerId, title: 'Both' }
+      ])
+      .returning()
+      .execute();
+    await db.insert(taskTagsTable).values([
+      { task_id: onlySource.id, tag_id: source.id },
+      { task_id: both.id, tag_id: source.id },
+      { task_id: both.id, tag_id: target.id }
+    ]).execute();
+
+    const result = await mergeTags({ source_id: source.id, target_id: target.id }, ownerId);
+
+    expect(result.id).toEqual(target.id);
+
+    const remainingTags = await db.select().from(tagsTable).execute();
+    expect(remainingTags.map(t => t.id)).toEqual([target.id]);
+
+    const links = await db.select().from(taskTagsTable).where(eq(taskTagsTable.tag_id, target.id)).execute();
+    expect(links.map(l => l.task_id).sort()).toEqual([onlySource.id, both.id].sort());
+  });
+
+  it('should reject tags owned by another user', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const [mine] = await db.insert(tagsTable).values({ owner_id: ownerId, name: 'mine' }).returning().execute();
+    const [theirs] = await db.insert(tagsTable).values({ owner_id: otherUser.id, name: 'theirs' }).returning().execute();
+
+    await expect(mergeTags({ source_id: theirs.id, target_id: mine.id }, ownerId)).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { createRegistry, recordProcedureCall, registry } from '../utils/metrics';
+import { handleMetricsRequest } from '../http/metrics';
+
+describe('createRegistry', () => {
+  it('should render counters per label set with HELP and TYPE lines', () => {
+    const metrics = createRegistry();
+    const calls = metrics.counter('calls_total', 'Calls made');
+
+    calls.inc({ procedure: 'getTasks' });
+    calls.inc({ procedure: 'getTasks' });
+    calls.inc({ procedure: 'createTask' }, 3);
+
+    expect(metrics.render()).toEqual([
+      '# HELP calls_total Calls made',
+      '# TYPE calls_total counter',
+      'calls_total{procedure="getTasks"} 2',
+      'calls_total{procedure="createTask"} 3',
+      ''
+    ].join('\n'));
+  });
+
+  it('should escape quotes, backslashes and newlines in label values', () => {
+    const metrics = createRegistry();
+    metrics.counter('odd_total', 'Odd labels').inc({ path: 'a"b\\c\nd' });
+
+    expect(metrics.render()).toContain('odd_total{path="a\\"b\\\\c\\nd"} 1');
+  });
+
+  it('should render histograms with cumulative buckets, sum and count', () => {
+    const metrics = createRegistry();
+    const duration = metrics.histogram('duration_seconds', 'Durations', [1, 0.1]);
+
+    duration.observe({ procedure: 'getTasks' }, 0.05);
+    duration.observe({ procedure: 'getTasks' }, 0.5);
+    duration.observe({ procedure: 'getTasks' }, 2);
+
+    expect(metrics.render().split('\n').slice(2, -1)).toEqual([
+      'duration_seconds_bucket{procedure="getTasks",le="0.1"} 1',
+      'duration_seconds_bucket{procedure="getTasks",le="1"} 2',
+      'duration_seconds_bucket{procedure="getTasks",le="+Inf"} 3',
+      'duration_seconds_sum{procedure="getTasks"} 2.55',
+      'duration_seconds_count{procedure="getTasks"} 3'
+    ]);
+  });
+
+  it('should read gauges when rendering', () => {
+    const metrics = createRegistry();
+    let connections = 1;
+    metrics.gauge('connections', 'Open connections', () => connections);
+
+    expect(metrics.render()).toContain('\nconnections 1\n');
+    connections = 4;
+    expect(metrics.render()).toContain('\nconnections 4\n');
+  });
+});
+
+describe('recordProcedureCall', () => {
+  it('should count calls, errors and durations per procedure', () => {
+    recordProcedureCall('metricsTestProcedure', 'mutation', 'OK', 0.02);
+    recordProcedureCall('metricsTestProcedure', 'mutation', 'NOT_FOUND', 0.003);
+
+    const text = registry.render();
+    expect(text).toContain('trpc_requests_total{procedure="metricsTestProcedure",type="mutation",code="OK"} 1');
+    expect(text).toContain('trpc_requests_total{procedure="metricsTestProcedure",type="mutation",code="NOT_FOUND"} 1');
+    expect(text).toContain('trpc_errors_total{procedure="metricsTestProcedure",code="NOT_FOUND"} 1');
+    expect(text).toContain('trpc_request_duration_seconds_count{procedure="metricsTestProcedure",type="mutation"} 2');
+    expect(text).toMatch(/\ndb_pool_connections \d+\n/);
+    expect(text).toMatch(/\ndb_pool_waiting_requests \d+\n/);
+  });
+});
+
+describe('handleMetricsRequest', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    // Stand-in for the rest of the API, to see which requests are passed on
+    server = createServer((req, res) => {
+      if (!handleMetricsRequest(req, res)) {
+        res.writeHead(418).end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should serve the registry in the Prometheus text format', async () => {
+    const response = await fetch(`${baseUrl}/metrics`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toEqual('text/plain; version=0.0.4; charset=utf-8');
+    expect(await response.text()).toContain('# TYPE trpc_requests_total counter');
+  });
+
+  it('should reject other methods and leave other paths alone', async () => {
+    const post = await fetch(`${baseUrl}/metrics`, { method: 'POST' });
+    expect(post.status).toBe(405);
+    expect(post.headers.get('allow')).toEqual('GET, HEAD');
+
+    expect((await fetch(`${baseUrl}/healthcheck`)).status).toBe(418);
+  });
+});
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { sql } from 'drizzle-orm';
+import { generateDrizzleJson, generateMigration } from 'drizzle-kit/api';
+import { resetDB } from '../helpers';
+import { db, pool } from '../db';
+import * as schema from '../db/schema';
+import { describeSchema, loadMigrations, migrateDown, migrateUp, migrationStatus } from '../db/migrate';
+
+const describePublicSchema = async () => {
+  const client = await pool.connect();
+  try {
+    return await describeSchema(client);
+  } finally {
+    client.release();
+  }
+};
+
+const tableExists = async (name: string): Promise<boolean> => {
+  const result = await db.execute(sql`select to_regclass(${name}) is not null as exists`);
+  return result.rows[0]?.['exists'] === true;
+};
+
+describe('migrations', () => {
+  afterEach(resetDB);
+
+  it('should build exactly the schema described in db/schema.ts', async () => {
+    await migrateUp();
+    const migrated = await describePublicSchema();
+
+    // The DDL drizzle-kit derives from schema.ts for an empty database
+    await resetDB();
+    const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson({ ...schema }));
+    await db.execute(statements.join('\n'));
+    const declared = await describePublicSchema();
+
+    expect(Object.keys(migrated)).toContain('column tasks.title');
+    expect(migrated).toEqual(declared);
+  });
+
+  it('should apply pending migrations once and report them as applied', async () => {
+    const migrations = await loadMigrations();
+
+    expect((await migrationStatus()).map(status => status.state)).toEqual(migrations.map(() => 'pending'));
+
+    const applied = await migrateUp();
+    expect(applied.map(migration => migration.name)).toEqual(migrations.map(migration => migration.name));
+    expect(applied.every(migration => !migration.baseline)).toBe(true);
+
+    expect(await migrateUp()).toEqual([]);
+    const statuses = await migrationStatus();
+    expect(statuses.map(status => status.state)).toEqual(migrations.map(() => 'applied'));
+    expect(statuses.every(status => status.applied_at instanceof Date)).toBe(true);
+  });
+
+  it('should undo every migration and apply them again', async () => {
+    const migrations = await loadMigrations();
+    await migrateUp();
+
+    const reverted = await migrateDown({ steps: migrations.length });
+    expect(reverted.map(migration => migration.name)).toEqual(migrations.map(migration => migration.name).reverse());
+    expect(await tableExists('tasks')).toBe(false);
+    expect(Object.keys(await describePublicSchema())).toEqual([]);
+
+    await migrateUp();
+    expect(await tableExists('tasks')).toBe(true);
+  });
+
+  it('should let only one of several concurrent runs apply each migration', async () => {
+    const runs = await Promise.all([migrateUp(), migrateUp(), migrateUp()]);
+
+    const migrations = await loadMigrations();
+    expect(runs.flat().map(migration => migration.name).sort()).toEqual(migrations.map(migration => migration.name).sort());
+  });
+
+  it('should record the first migration without running it on a database made by drizzle-kit push', async () => {
+    const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson({ ...schema }));
+    await db.execute(statements.join('\n'));
+
+    const [first] = await migrateUp({ to: 1 });
+
+    expect(first).toMatchObject({ version: 1, baseline: true });
+    expect((await migrationStatus())[0]!.state).toEqual('applied');
+  });
+
+  it('should refuse to record the first migration on a database that only partly matches it', async () => {
+    const statements = await generateMigration(generateDrizzleJson({}), generateDrizzleJson({ ...schema }));
+    await db.execute(statements.join('\n'));
+    // As if the last push predates webhooks and task search
+    await db.execute(sql`drop table webhook_deliveries, webhooks`);
+    await db.execute(sql`alter table tasks drop column search_vector`);
+
+    const error = await migrateUp({ to: 1 }).catch((e: unknown) => e);
+
+    expect((error as Error).message).toStartWith("The database already has tables but they don't match migration 0001_initial");
+    expect((error as Error).message).toContain('missing column tasks.search_vector');
+    expect((error as Error).message).toContain('missing column webhooks.url');
+    expect((await migrationStatus())[0]!.state).toEqual('pending');
+    expect(await tableExists('webhooks')).toBe(false);
+    expect(await tableExists('migration_baseline.tasks')).toBe(false);
+  });
+
+  it('should refuse to record the first migration on a database with only the original tasks table', async () => {
+    await db.execute(sql`create table tasks (id serial primary key, title text not null, completed boolean not null default false)`);
+
+    const error = await migrateUp().catch((e: unknown) => e);
+
+    expect((error as Error).message).toContain('missing column users.email');
+    expect((error as Error).message).toContain('missing column tasks.owner_id');
+    expect((await migrationStatus()).every(status => status.state === 'pending')).toBe(true);
+  });
+
+  describe('from a directory of migrations', () => {
+    let dir: string;
+
+    const write = (file: string, content: string) => writeFile(join(dir, file), content);
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'migrations-'));
+      await write('0001_notes.up.sql', 'create table notes (id serial primary key, body text not null);');
+      await write('0001_notes.down.sql', 'drop table notes;');
+      await write('0002_note_title.up.sql', 'alter table notes add column title text;');
+      await write('README.md', 'Not a migration');
+    });
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should stop at the requested version', async () => {
+      const applied = await migrateUp({ dir, to: 1 });
+
+      expect(applied.map(migration => migration.name)).toEqual(['0001_notes']);
+      expect((await migrationStatus({ dir })).map(status => [status.name, status.state])).toEqual([
+        ['0001_notes', 'applied'],
+        ['0002_note_title', 'pending']
+      ]);
+    });
+
+    it('should roll back a failing migration and keep the ones before it', async () => {
+      await write('0003_broken.up.sql', 'create table scratch (id integer); select 1 / 0;');
+
+      const error = await migrateUp({ dir }).catch((e: unknown) => e);
+
+      expect((error as Error).message).toEqual('Migration 0003_broken failed: division by zero');
+      expect(await tableExists('scratch')).toBe(false);
+      expect((await migrationStatus({ dir })).map(status => status.state)).toEqual(['applied', 'applied', 'pending']);
+    });
+
+    it('should refuse to run once an applied migration was edited', async () => {
+      await migrateUp({ dir });
+      await write('0002_note_title.up.sql', 'alter table notes add column title text not null;');
+      await write('0003_more.up.sql', 'alter table notes add column done boolean;');
+
+      const error = await migrateUp({ dir }).catch((e: unknown) => e);
+
+      expect((error as Error).message).toEqual('Migration 0002_note_title was edited after it was applied; add a new migration instead');
+      expect((await migrationStatus({ dir })).map(status => status.state)).toEqual(['applied', 'changed', 'pending']);
+    });
+
+    it('should refuse to undo a migration without a down file', async () => {
+      await migrateUp({ dir });
+
+      const error = await migrateDown({ dir }).catch((e: unknown) => e);
+
+      expect((error as Error).message).toEqual("Migration 0002_note_title can't be undone; it has no down file");
+    });
+
+    it('should report applied migrations whose files are gone', async () => {
+      await migrateUp({ dir });
+      await rm(join(dir, '0002_note_title.up.sql'));
+
+      expect((await migrationStatus({ dir })).map(status => [status.name, status.state])).toEqual([
+        ['0001_notes', 'applied'],
+        ['0002_note_title', 'missing']
+      ]);
+    });
+  });
+});
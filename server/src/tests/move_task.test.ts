@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable, tasksTable } from '../db/schema';
+import { moveTask } from '../handlers/move_task';
+import { eq } from 'drizzle-orm';
+
+describe('moveTask', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  const createFixtures = async () => {
+    const lists = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Work' })
+      .returning()
+      .execute();
+    const tasks = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, title: 'Inbox task' })
+      .returning()
+      .execute();
+    return { list: lists[0], task: tasks[0] };
+  };
+
+  it('should move a task into a list', async () => {
+    const { list, task } = await createFixtures();
+
+    const result = await moveTask({ id: task.id, list_id: list.id }, ownerId);
+
+    expect(result.list_id).toEqual(list.id);
+
+    const saved = await db.select().from(tasksTable).where(eq(tasksTable.id, task.id)).execute();
+    expect(saved[0].list_id).toEqual(list.id);
+  });
+
+  it('should move a task back to the Inbox', async () => {
+    const { list, task } = await createFixtures();
+    await moveTask({ id: task.id, list_id: list.id }, ownerId);
+
+    const result = await moveTask({ id: task.id, list_id: null }, ownerId);
+
+    expect(result.list_id).toBeNull();
+  });
+
+  it('should reject a list owned by another user', async () => {
+    const { task } = await createFixtures();
+    const otherUser = await createTestUser('other@example.com');
+    const otherLists = await db.insert(listsTable)
+      .values({ owner_id: otherUser.id, name: 'Theirs' })
+      .returning()
+      .execute();
+
+    await expect(moveTask({ id: task.id, list_id: otherLists[0].id }, ownerId)).rejects.toThrow(/list with id .* not found/i);
+  });
+
+  it('should throw when the task does not exist', async () => {
+    await expect(moveTask({ id: 999999, list_id: null }, ownerId)).rejects.toThrow(/task with id 999999 not found/i);
+  });
+
+  it('should carry subtasks along to the new list', async () => {
+    const { list, task } = await createFixtures();
+    const subtasks = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, parent_id: task.id, title: 'Subtask' })
+      .returning()
+      .execute();
+
+    await moveTask({ id: task.id, list_id: list.id }, ownerId);
+
+    const saved = await db.select().from(tasksTable).where(eq(tasksTable.id, subtasks[0].id)).execute();
+    expect(saved[0].list_id).toEqual(list.id);
+  });
+});
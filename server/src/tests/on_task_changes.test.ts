@@ -0,0 +1,63 @@
+import { afterAll, afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { createTask } from '../handlers/create_task';
+import { updateTask } from '../handlers/update_task';
+import { deleteTask } from '../handlers/delete_task';
+import { onTaskChanges } from '../handlers/on_task_changes';
+import { startTaskChangeListener, stopTaskChangeListener } from '../utils/task_changes';
+
+describe('onTaskChanges', () => {
+  let ownerId: number;
+  let controller: AbortController;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+    controller = new AbortController();
+    await startTaskChangeListener();
+  });
+  afterEach(async () => {
+    controller.abort();
+    await resetDB();
+  });
+  afterAll(stopTaskChangeListener);
+
+  it('should stream created, updated and deleted tasks', async () => {
+    const changes = onTaskChanges(ownerId, controller.signal);
+
+    const created = changes.next();
+    const task = await createTask({ title: 'Buy milk' }, ownerId);
+    expect((await created).value).toMatchObject({
+      type: 'created',
+      tasks: [{ id: task.id, title: 'Buy milk', subtask_count: 0, tags: [] }]
+    });
+
+    const updated = changes.next();
+    await updateTask({ id: task.id, title: 'Buy oat milk' }, ownerId);
+    expect((await updated).value).toMatchObject({ type: 'updated', tasks: [{ id: task.id, title: 'Buy oat milk' }] });
+
+    const deleted = changes.next();
+    await deleteTask({ id: task.id }, ownerId);
+    expect((await deleted).value).toEqual({ type: 'deleted', ids: [task.id] });
+  });
+
+  it('should not stream another user\'s changes', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const changes = onTaskChanges(ownerId, controller.signal);
+
+    const next = changes.next();
+    await createTask({ title: 'Someone else\'s task' }, otherUser.id);
+    const mine = await createTask({ title: 'My task' }, ownerId);
+
+    expect((await next).value).toMatchObject({ type: 'created', tasks: [{ id: mine.id }] });
+  });
+
+  it('should end the stream when the subscriber goes away', async () => {
+    const changes = onTaskChanges(ownerId, controller.signal);
+
+    const next = changes.next();
+    controller.abort();
+
+    expect((await next).done).toBe(true);
+  });
+});
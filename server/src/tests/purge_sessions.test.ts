@@ -0,0 +1,31 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { purgeExpiredSessions } from '../handlers/purge_sessions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('purgeExpiredSessions', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    userId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should remove expired sessions and keep the rest', async () => {
+    const now = new Date('2024-06-01T12:00:00Z');
+    await db.insert(sessionsTable).values([
+      { user_id: userId, token_hash: 'expired', expires_at: new Date(now.getTime() - DAY_MS) },
+      { user_id: userId, token_hash: 'valid', expires_at: new Date(now.getTime() + DAY_MS) }
+    ]).execute();
+
+    const result = await purgeExpiredSessions(now);
+
+    expect(result.deleted).toEqual(1);
+    const remaining = await db.select().from(sessionsTable).execute();
+    expect(remaining.map(session => session.token_hash)).toEqual(['valid']);
+  });
+});
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { purgeExpiredTrash } from '../handlers/purge_trash';
+import { TRASH_RETENTION_DAYS } from '../config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('purgeExpiredTrash', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should remove tasks past the retention period and keep the rest', async () => {
+    const now = new Date('2024-06-01T12:00:00Z');
+    await db.insert(tasksTable).values([
+      { owner_id: ownerId, title: 'Expired', deleted_at: new Date(now.getTime() - (TRASH_RETENTION_DAYS + 1) * DAY_MS) },
+      { owner_id: ownerId, title: 'Recent', deleted_at: new Date(now.getTime() - DAY_MS) },
+      { owner_id: ownerId, title: 'Active' }
+    ]).execute();
+
+    const result = await purgeExpiredTrash(now);
+
+    expect(result.deleted).toEqual(1);
+    const remaining = await db.select().from(tasksTable).orderBy(tasksTable.id).execute();
+    expect(remaining.map(t => t.title)).toEqual(['Recent', 'Active']);
+  });
+
+  it('should remove the subtasks of purged tasks', async () => {
+    const now = new Date('2024-06-01T12:00:00Z');
+    const deletedAt = new Date(now.getTime() - (TRASH_RETENTION_DAYS + 1) * DAY_MS);
+    const parents = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, title: 'Parent', deleted_at: deletedAt })
+      .returning()
+      .execute();
+    await db.insert(tasksTable)
+      .values({ owner_id: ownerId, parent_id: parents[0].id, title: 'Child', deleted_at: deletedAt })
+      .execute();
+
+    await purgeExpiredTrash(now);
+
+    expect(await db.select().from(tasksTable).execute()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'bun:test';
+import { type IncomingMessage } from 'node:http';
+import { checkRateLimit, clientIp, createTokenBucket, rateLimitKey } from '../utils/rate_limit';
+import { RateLimitError } from '../errors';
+import { RATE_LIMIT_MUTATION_BURST, RATE_LIMIT_MUTATIONS_PER_MINUTE } from '../config';
+
+describe('createTokenBucket', () => {
+  it('should allow a burst up to the capacity, then say how long to wait', () => {
+    const take = createTokenBucket({ capacity: 3, refillPerSecond: 0.5 });
+
+    expect([take('a', 0), take('a', 0), take('a', 0)]).toEqual([0, 0, 0]);
+    expect(take('a', 0)).toEqual(2000);
+    expect(take('a', 500)).toEqual(1500);
+  });
+
+  it('should refill at the given rate without going past the capacity', () => {
+    const take = createTokenBucket({ capacity: 2, refillPerSecond: 1 });
+    take('a', 0);
+    take('a', 0);
+
+    expect(take('a', 1000)).toEqual(0);
+    expect(take('a', 1000)).toBeGreaterThan(0);
+
+    // A long pause only refills up to the capacity
+    expect([take('a', 60_000), take('a', 60_000)]).toEqual([0, 0]);
+    expect(take('a', 60_000)).toBeGreaterThan(0);
+  });
+
+  it('should keep a separate budget per key', () => {
+    const take = createTokenBucket({ capacity: 1, refillPerSecond: 1 });
+
+    expect(take('a', 0)).toEqual(0);
+    expect(take('b', 0)).toEqual(0);
+    expect(take('a', 0)).toBeGreaterThan(0);
+  });
+});
+
+describe('checkRateLimit', () => {
+  it('should throw RateLimitError with the seconds to wait once the budget is spent', () => {
+    const key = rateLimitKey(null, '203.0.113.7');
+    for (let i = 0; i < RATE_LIMIT_MUTATION_BURST; i++) {
+      checkRateLimit('mutation', key);
+    }
+
+    const error = (() => {
+      try {
+        checkRateLimit('mutation', key);
+      } catch (caught) {
+        return caught;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect((error as RateLimitError).details).toEqual({
+      reason: 'rate_limited',
+      retry_after: Math.ceil(60 / RATE_LIMIT_MUTATIONS_PER_MINUTE)
+    });
+    // Queries are budgeted separately
+    expect(() => checkRateLimit('query', key)).not.toThrow();
+  });
+
+  it('should count signed-in users apart from their address', () => {
+    expect(rateLimitKey(7, '203.0.113.7')).toEqual('user:7');
+    expect(rateLimitKey(null, '203.0.113.7')).toEqual('ip:203.0.113.7');
+  });
+});
+
+describe('clientIp', () => {
+  it('should use the socket address unless the proxy is trusted', () => {
+    const req = {
+      headers: { 'x-forwarded-for': '198.51.100.1, 10.0.0.1' },
+      socket: { remoteAddress: '10.0.0.1' }
+    } as unknown as IncomingMessage;
+
+    expect(clientIp(req)).toEqual('10.0.0.1');
+  });
+});
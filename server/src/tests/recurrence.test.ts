@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'bun:test';
+import { type RecurrenceRule } from '../schema';
+import { nextOccurrence, parseRRule, toRRule } from '../utils/recurrence';
+
+const rule = (overrides: Partial<RecurrenceRule> & Pick<RecurrenceRule, 'freq'>): RecurrenceRule => ({
+  interval: 1,
+  ...overrides
+});
+
+// Follow a rule from a first due date, collecting the next n due dates
+const series = (recurrence: RecurrenceRule, from: string, n: number): string[] => {
+  const dates: string[] = [];
+  let current: { due_date: string; rule: RecurrenceRule } | null = { due_date: from, rule: recurrence };
+  while (dates.length < n) {
+    current = nextOccurrence(current.rule, current.due_date);
+    if (!current) break;
+    dates.push(current.due_date);
+  }
+  return dates;
+};
+
+describe('nextOccurrence', () => {
+  it('should step daily rules by their interval', () => {
+    expect(series(rule({ freq: 'daily', interval: 3 }), '2024-02-27', 3)).toEqual(['2024-03-01', '2024-03-04', '2024-03-07']);
+  });
+
+  it('should repeat weekly on the due date\'s weekday by default', () => {
+    // 2024-03-08 is a Friday; the US switches to daylight saving time on 2024-03-10
+    expect(series(rule({ freq: 'weekly' }), '2024-03-08', 2)).toEqual(['2024-03-15', '2024-03-22']);
+  });
+
+  it('should visit each listed weekday, skipping weeks by interval', () => {
+    // Monday 2024-01-01, every other week on Monday and Thursday
+    const recurrence = rule({ freq: 'weekly', interval: 2, by_weekday: ['MO', 'TH'] });
+
+    expect(series(recurrence, '2024-01-01', 4)).toEqual(['2024-01-04', '2024-01-15', '2024-01-18', '2024-01-29']);
+  });
+
+  it('should skip months that lack the due day, like RRULE', () => {
+    expect(series(rule({ freq: 'monthly' }), '2024-01-31', 3)).toEqual(['2024-03-31', '2024-05-31', '2024-07-31']);
+  });
+
+  it('should land on the last day of every month with BYMONTHDAY=-1', () => {
+    const recurrence = rule({ freq: 'monthly', by_month_day: [-1] });
+
+    expect(series(recurrence, '2024-01-31', 4)).toEqual(['2024-02-29', '2024-03-31', '2024-04-30', '2024-05-31']);
+    expect(series(recurrence, '2023-01-31', 1)).toEqual(['2023-02-28']);
+  });
+
+  it('should use later month days in the same month first', () => {
+    const recurrence = rule({ freq: 'monthly', by_month_day: [1, 15] });
+
+    expect(series(recurrence, '2024-12-01', 3)).toEqual(['2024-12-15', '2025-01-01', '2025-01-15']);
+  });
+
+  it('should repeat leap days only in leap years', () => {
+    expect(series(rule({ freq: 'yearly' }), '2024-02-29', 2)).toEqual(['2028-02-29', '2032-02-29']);
+  });
+
+  it('should stop after count occurrences', () => {
+    // The current occurrence counts, so three in total
+    expect(series(rule({ freq: 'daily', count: 3 }), '2024-01-01', 10)).toEqual(['2024-01-02', '2024-01-03']);
+  });
+
+  it('should stop after the until date', () => {
+    expect(series(rule({ freq: 'weekly', until: '2024-01-15' }), '2024-01-01', 10)).toEqual(['2024-01-08', '2024-01-15']);
+  });
+});
+
+describe('RRULE serialization', () => {
+  it('should round-trip through the iCalendar format', () => {
+    const recurrence = rule({ freq: 'weekly', interval: 2, by_weekday: ['MO', 'FR'], until: '2024-12-31' });
+
+    const value = toRRule(recurrence);
+
+    expect(value).toEqual('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR;UNTIL=20241231');
+    expect(parseRRule(value)).toEqual(recurrence);
+    expect(parseRRule(`RRULE:${toRRule(rule({ freq: 'monthly', by_month_day: [-1], count: 4 }))}`))
+      .toEqual(rule({ freq: 'monthly', by_month_day: [-1], count: 4 }));
+  });
+
+  it('should reject unsupported frequencies', () => {
+    expect(() => parseRRule('FREQ=HOURLY')).toThrow(/unsupported/i);
+  });
+});
@@ -0,0 +1,273 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable, tasksTable, taskTagsTable } from '../db/schema';
+import { renderCalendarFeed } from '../handlers/render_calendar_feed';
+import { resetCalendarFeed } from '../handlers/reset_calendar_feed';
+import { handleCalendarFeedRequest } from '../http/calendar_feed';
+
+interface Property {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface Component {
+  name: string;
+  properties: Property[];
+  components: Component[];
+}
+
+// Minimal RFC 5545 reader: checks line endings and folding, unfolds content lines, splits them
+// into name, parameters and value, and nests BEGIN/END blocks into components
+const parseICalendar = (text: string): Component => {
+  expect(text.endsWith('\r\n')).toBe(true);
+  const rawLines = text.slice(0, -2).split('\r\n');
+  for (const line of rawLines) {
+    expect(line).not.toContain('\n');
+    expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+  }
+
+  const lines = rawLines.reduce<string[]>((unfolded, line) => {
+    if (line.startsWith(' ') || line.startsWith('\t')) {
+      unfolded[unfolded.length - 1] += line.slice(1);
+    } else {
+      unfolded.push(line);
+    }
+    return unfolded;
+  }, []);
+
+  const root: Component = { name: '', properties: [], components: [] };
+  const stack = [root];
+  for (const line of lines) {
+    const match = /^([A-Z0-9-]+)((?:;[A-Z0-9-]+=[^;:]*)*):(.*)$/.exec(line);
+    if (!match) {
+      throw new Error(`Malformed content line: ${line}`);
+    }
+    const [, name, rawParams, value] = match;
+    const params = Object.fromEntries(
+      rawParams.split(';').filter(Boolean).map(param => param.split('=') as [string, string])
+    );
+
+    if (name === 'BEGIN') {
+      const component: Component = { name: value, properties: [], components: [] };
+      stack[stack.length - 1].components.push(component);
+      stack.push(component);
+    } else if (name === 'END') {
+      const component = stack.pop();
+      expect(component?.name).toEqual(value);
+    } else {
+      stack[stack.length - 1].properties.push({ name, params, value });
+    }
+  }
+  expect(stack).toHaveLength(1);
+  expect(root.components).toHaveLength(1);
+  return root.components[0];
+};
+
+const unescapeText = (value: string): string =>
+  value.replace(/\\(.)/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+const property = (component: Component, name: string): Property | undefined =>
+  component.properties.find(prop => prop.name === name);
+
+const valueOf = (component: Component, name: string): string | undefined => property(component, name)?.value;
+
+describe('renderCalendarFeed', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should return null for an unknown token', async () => {
+    expect(await renderCalendarFeed('not-a-token')).toBeNull();
+  });
+
+  it('should render a valid calendar with an event and a to-do per dated task', async () => {
+    const { token } = await resetCalendarFeed(ownerId);
+    const [tag] = await db.insert(tagsTable).values({ owner_id: ownerId, name: 'work' }).returning().execute();
+    const [allDay] = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, title: 'Pay rent', due_date: '2024-02-29', due_timezone: 'UTC', priority: 'high' })
+      .returning()
+      .execute();
+    const [timed] = await db.insert(tasksTable)
+      .values({
+        owner_id: ownerId,
+        title: 'Stand-up',
+        due_date: '2024-03-01',
+        due_time: '09:00:00',
+        due_timezone: 'Europe/Berlin',
+        recurrence: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,FR;UNTIL=20240630'
+      })
+      .returning()
+      .execute();
+    await db.insert(taskTagsTable).values({ task_id: timed.id, tag_id: tag.id }).execute();
+    await db.insert(tasksTable).values({ owner_id: ownerId, title: 'Someday' }).execute();
+
+    const calendar = parseICalendar((await renderCalendarFeed(token))!);
+
+    expect(calendar.name).toEqual('VCALENDAR');
+    expect(valueOf(calendar, 'VERSION')).toEqual('2.0');
+    expect(valueOf(calendar, 'PRODID')).toBeDefined();
+    expect(calendar.components.map(component => component.name)).toEqual(['VTIMEZONE', 'VEVENT', 'VTODO', 'VEVENT', 'VTODO']);
+
+    // UID and DTSTAMP are required in every component, and UIDs must be unique
+    const [berlin, ...items] = calendar.components;
+    for (const component of items) {
+      expect(valueOf(component, 'DTSTAMP')).toMatch(/^\d{8}T\d{6}Z$/);
+    }
+    const uids = items.map(component => valueOf(component, 'UID'));
+    expect(new Set(uids).size).toBe(4);
+
+    const [rentEvent, rentTodo, standUpEvent, standUpTodo] = items;
+    expect(valueOf(rentEvent, 'SUMMARY')).toEqual(allDay.title);
+    expect(property(rentEvent, 'DTSTART')).toEqual({ name: 'DTSTART', params: { VALUE: 'DATE' }, value: '20240229' });
+    expect(property(rentEvent, 'DTEND')).toEqual({ name: 'DTEND', params: { VALUE: 'DATE' }, value: '20240301' });
+    expect(property(rentTodo, 'DUE')).toEqual({ name: 'DUE', params: { VALUE: 'DATE' }, value: '20240229' });
+    expect(valueOf(rentTodo, 'PRIORITY')).toEqual('3');
+    expect(valueOf(rentTodo, 'STATUS')).toEqual('NEEDS-ACTION');
+
+    // Timed tasks keep their local time, defined by the timezone they name
+    expect(valueOf(berlin, 'TZID')).toEqual('Europe/Berlin');
+    expect(property(standUpEvent, 'DTSTART')).toEqual({ name: 'DTSTART', params: { TZID: 'Europe/Berlin' }, value: '20240301T090000' });
+    expect(property(standUpEvent, 'DTEND')).toEqual({ name: 'DTEND', params: { TZID: 'Europe/Berlin' }, value: '20240301T093000' });
+    expect(property(standUpTodo, 'DUE')).toEqual({ name: 'DUE', params: { TZID: 'Europe/Berlin' }, value: '20240301T090000' });
+    // The series ends with June 30 in Berlin, which is UTC+2 in summer
+    expect(valueOf(standUpEvent, 'RRULE')).toEqual('FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,FR;UNTIL=20240630T215959Z');
+    expect(valueOf(standUpTodo, 'CATEGORIES')).toEqual('work');
+  });
+
+  it('should keep weekly tasks on their weekday when the time falls on another day in UTC', async () => {
+    const { token } = await resetCalendarFeed(ownerId);
+    // Monday 21:00 in New York is 02:00 UTC on Tuesday
+    await db.insert(tasksTable)
+      .values({
+        owner_id: ownerId,
+        title: 'Book club',
+        due_date: '2024-03-04',
+        due_time: '21:00:00',
+        due_timezone: 'America/New_York',
+        recurrence: 'FREQ=WEEKLY;INTERVAL=1;BYDAY=MO'
+      })
+      .execute();
+
+    const [, event, todo] = parseICalendar((await renderCalendarFeed(token))!).components;
+
+    const start = property(event, 'DTSTART')!;
+    expect(start).toEqual({ name: 'DTSTART', params: { TZID: 'America/New_York' }, value: '20240304T210000' });
+    const startDay = new Date(Date.UTC(2024, 2, Number(start.value.slice(6, 8)))).getUTCDay();
+    expect(['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'][startDay]).toEqual('MO');
+    expect(valueOf(event, 'RRULE')).toEqual('FREQ=WEEKLY;INTERVAL=1;BYDAY=MO');
+    expect(property(todo, 'DUE')?.params).toEqual({ TZID: 'America/New_York' });
+  });
+
+  it('should define the task\'s timezone with its DST changes so that occurrences keep their local time', async () => {
+    const { token } = await resetCalendarFeed(ownerId);
+    // Daily at 09:00 from the week before DST starts in the US until the week after it
+    await db.insert(tasksTable)
+      .values({
+        owner_id: ownerId,
+        title: 'Walk the dog',
+        due_date: '2024-03-04',
+        due_time: '09:00:00',
+        due_timezone: 'America/New_York',
+        recurrence: 'FREQ=DAILY;INTERVAL=1;UNTIL=20240317'
+      })
+      .execute();
+
+    const [timezone, event] = parseICalendar((await renderCalendarFeed(token))!).components;
+
+    expect(timezone.name).toEqual('VTIMEZONE');
+    expect(valueOf(timezone, 'TZID')).toEqual('America/New_York');
+    const observances = timezone.components.map(observance => ({
+      name: observance.name,
+      rule: valueOf(observance, 'RRULE'),
+      from: valueOf(observance, 'TZOFFSETFROM'),
+      to: valueOf(observance, 'TZOFFSETTO')
+    }));
+    expect(observances).toEqual([
+      { name: 'DAYLIGHT', rule: 'FREQ=YEARLY;BYMONTH=3;BYDAY=2SU', from: '-0500', to: '-0400' },
+      { name: 'STANDARD', rule: 'FREQ=YEARLY;BYMONTH=11;BYDAY=1SU', from: '-0400', to: '-0500' }
+    ]);
+    // Every observance starts before the first occurrence
+    for (const observance of timezone.components) {
+      expect(valueOf(observance, 'DTSTART')! < '20240304T090000').toBe(true);
+    }
+    expect(property(event, 'DTSTART')).toEqual({ name: 'DTSTART', params: { TZID: 'America/New_York' }, value: '20240304T090000' });
+    // The end of March 17 in New York, already on daylight time
+    expect(valueOf(event, 'RRULE')).toEqual('FREQ=DAILY;INTERVAL=1;UNTIL=20240318T035959Z');
+  });
+
+  it('should reflect completion and keep descriptions intact through escaping and folding', async () => {
+    const { token } = await resetCalendarFeed(ownerId);
+    const description = 'Bring: pens, paper; snacks\nAsk about the budget \\ timeline. '.repeat(3);
+    const title = 'Plan the quarterly offsite — venue, catering and travel for everyone involved';
+    await db.insert(tasksTable)
+      .values({ owner_id: ownerId, title, description, completed: true, due_date: '2024-05-10', due_timezone: 'UTC' })
+      .execute();
+
+    const [event, todo] = parseICalendar((await renderCalendarFeed(token))!).components;
+
+    expect(unescapeText(valueOf(event, 'SUMMARY')!)).toEqual(title);
+    expect(unescapeText(valueOf(event, 'DESCRIPTION')!)).toEqual(description);
+    expect(valueOf(todo, 'STATUS')).toEqual('COMPLETED');
+    expect(valueOf(todo, 'PERCENT-COMPLETE')).toEqual('100');
+    expect(valueOf(todo, 'COMPLETED')).toMatch(/^\d{8}T\d{6}Z$/);
+  });
+
+  it('should only include the feed owner\'s live tasks', async () => {
+    const { token } = await resetCalendarFeed(ownerId);
+    const other = await createTestUser('other@example.com');
+    await db.insert(tasksTable)
+      .values([
+        { owner_id: other.id, title: 'Not mine', due_date: '2024-01-01' },
+        { owner_id: ownerId, title: 'Deleted', due_date: '2024-01-01', deleted_at: new Date() }
+      ])
+      .execute();
+
+    const calendar = parseICalendar((await renderCalendarFeed(token))!);
+
+    expect(calendar.components).toHaveLength(0);
+  });
+});
+
+describe('handleCalendarFeedRequest', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    await createDB();
+    // Stand-in for the rest of the API, to see which requests are passed on
+    server = createServer(async (req, res) => {
+      if (!await handleCalendarFeedRequest(req, res)) {
+        res.writeHead(418).end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await resetDB();
+  });
+
+  it('should serve the feed as text/calendar at its secret path', async () => {
+    const { path } = await resetCalendarFeed((await createTestUser()).id);
+
+    const response = await fetch(`${baseUrl}${path}`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toEqual('text/calendar; charset=utf-8');
+    expect(parseICalendar(await response.text()).name).toEqual('VCALENDAR');
+  });
+
+  it('should answer 404 for unknown tokens and leave other paths alone', async () => {
+    expect((await fetch(`${baseUrl}/calendar/unknown.ics`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/getTasks`)).status).toBe(418);
+  });
+});
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { reorderTask } from '../handlers/reorder_task';
+import { createTask } from '../handlers/create_task';
+import { getTasks } from '../handlers/get_tasks';
+
+describe('reorderTask', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  const manualOrder = async (parentId: number | null = null) => {
+    const page = await getTasks({ parent_id: parentId, sort: 'manual', direction: 'asc', limit: 100 }, ownerId);
+    return page.items.map(t => t.title);
+  };
+
+  // Created in reverse so the manual order starts as A, B, C
+  const createTasks = async () => {
+    const c = await createTask({ title: 'C' }, ownerId);
+    const b = await createTask({ title: 'B' }, ownerId);
+    const a = await createTask({ title: 'A' }, ownerId);
+    return { a, b, c };
+  };
+
+  it('should put new tasks at the top of the manual order', async () => {
+    await createTasks();
+
+    expect(await manualOrder()).toEqual(['A', 'B', 'C']);
+  });
+
+  it('should move a task before another', async () => {
+    const { a, c } = await createTasks();
+
+    await reorderTask({ id: c.id, before_id: a.id }, ownerId);
+
+    expect(await manualOrder()).toEqual(['C', 'A', 'B']);
+  });
+
+  it('should move a task after another', async () => {
+    const { a, b, c } = await createTasks();
+
+    await reorderTask({ id: a.id, after_id: b.id }, ownerId);
+    expect(await manualOrder()).toEqual(['B', 'A', 'C']);
+
+    await reorderTask({ id: b.id, after_id: c.id }, ownerId);
+    expect(await manualOrder()).toEqual(['A', 'C', 'B']);
+  });
+
+  it('should only rewrite the moved task', async () => {
+    const { a, c } = await createTasks();
+    const before = await db.select().from(tasksTable).execute();
+
+    const result = await reorderTask({ id: a.id, after_id: c.id }, ownerId);
+
+    const after = await db.select().from(tasksTable).execute();
+    for (const row of after) {
+      const original = before.find(t => t.id === row.id)!;
+      if (row.id === a.id) {
+        expect(row.position).toEqual(result.position);
+      } else {
+        expect(row.position).toEqual(original.position);
+      }
+    }
+  });
+
+  it('should keep working through many moves into the same gap', async () => {
+    const { b, c } = await createTasks();
+
+    // Repeatedly drop alternating tasks between A and B so the keys keep getting longer
+    for (let i = 0; i < 30; i++) {
+      await reorderTask({ id: c.id, before_id: b.id }, ownerId);
+      await reorderTask({ id: b.id, before_id: c.id }, ownerId);
+    }
+
+    expect(await manualOrder()).toEqual(['A', 'B', 'C']);
+  });
+
+  it('should spread out tasks that share a position', async () => {
+    // Inserted directly, so every row has the column default position
+    const rows = await db.insert(tasksTable)
+      .values([
+        { owner_id: ownerId, title: 'First' },
+        { owner_id: ownerId, title: 'Second' },
+        { owner_id: ownerId, title: 'Third' }
+      ])
+      .returning()
+      .execute();
+
+    await reorderTask({ id: rows[2].id, before_id: rows[1].id }, ownerId);
+
+    expect(await manualOrder()).toEqual(['First', 'Third', 'Second']);
+  });
+
+  it('should only reorder among siblings', async () => {
+    const { a } = await createTasks();
+    const subtask = await createTask({ title: 'Sub', parent_id: a.id }, ownerId);
+    const other = await createTask({ title: 'Other sub', parent_id: a.id }, ownerId);
+
+    await expect(reorderTask({ id: subtask.id, before_id: a.id }, ownerId)).rejects.toThrow(/siblings/i);
+
+    await reorderTask({ id: subtask.id, before_id: other.id }, ownerId);
+    expect(await manualOrder(a.id)).toEqual(['Sub', 'Other sub']);
+  });
+
+  it('should not reorder tasks owned by another user', async () => {
+    const { a, b } = await createTasks();
+    const otherUser = await createTestUser('other@example.com');
+
+    await expect(reorderTask({ id: a.id, after_id: b.id }, otherUser.id)).rejects.toThrow(/not found/i);
+  });
+});
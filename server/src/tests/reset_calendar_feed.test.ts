@@ -0,0 +1,37 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { calendarFeedsTable } from '../db/schema';
+import { resetCalendarFeed } from '../handlers/reset_calendar_feed';
+import { renderCalendarFeed } from '../handlers/render_calendar_feed';
+import { hashSessionToken } from '../utils/auth';
+
+describe('resetCalendarFeed', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should issue a feed URL and store only the token hash', async () => {
+    const result = await resetCalendarFeed(ownerId);
+
+    expect(result.path).toEqual(`/calendar/${result.token}.ics`);
+    const [feed] = await db.select().from(calendarFeedsTable).execute();
+    expect(feed.user_id).toEqual(ownerId);
+    expect(feed.token_hash).toEqual(hashSessionToken(result.token));
+    expect(await renderCalendarFeed(result.token)).not.toBeNull();
+  });
+
+  it('should replace the previous URL', async () => {
+    const first = await resetCalendarFeed(ownerId);
+    const second = await resetCalendarFeed(ownerId);
+
+    expect(second.token).not.toEqual(first.token);
+    expect(await db.select().from(calendarFeedsTable).execute()).toHaveLength(1);
+    expect(await renderCalendarFeed(first.token)).toBeNull();
+    expect(await renderCalendarFeed(second.token)).not.toBeNull();
+  });
+});
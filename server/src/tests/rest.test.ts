@@ -0,0 +1,283 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createServer, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { createSession } from '../handlers/create_session';
+import { handleRestRequest, openApiDocument, restRoutes } from '../http/rest';
+import { createTaskInputSchema, getTasksInputSchema } from '../schema';
+import { type JsonSchema } from '../utils/json_schema';
+import { checkRateLimit, rateLimitKey } from '../utils/rate_limit';
+import { RateLimitError } from '../errors';
+
+type Document = {
+  paths: Record<string, Record<string, JsonSchema>>;
+  components: { schemas: Record<string, JsonSchema> };
+};
+
+const doc = openApiDocument as unknown as Document;
+
+const resolve = (schema: JsonSchema): JsonSchema => {
+  const ref = schema['$ref'] as string | undefined;
+  return ref ? doc.components.schemas[ref.replace('#/components/schemas/', '')] : schema;
+};
+
+// Minimal JSON Schema check for the keywords the generator emits. Objects are treated as closed,
+// so a response field the document doesn't mention is reported too. Returns the problems found.
+const validate = (value: unknown, schema: JsonSchema, path = '$'): string[] => {
+  schema = resolve(schema);
+  if (schema['anyOf']) {
+    const options = schema['anyOf'] as JsonSchema[];
+    return options.some(option => validate(value, option, path).length === 0)
+      ? []
+      : [`${path}: matches none of ${options.length} alternatives`];
+  }
+  if ('const' in schema) {
+    return value === schema['const'] ? [] : [`${path}: expected ${String(schema['const'])}`];
+  }
+  if (schema['enum'] && !(schema['enum'] as unknown[]).includes(value)) {
+    return [`${path}: ${String(value)} is not one of the documented values`];
+  }
+
+  switch (schema['type']) {
+    case 'null':
+      return value === null ? [] : [`${path}: expected null`];
+    case 'string':
+      if (typeof value !== 'string') return [`${path}: expected a string`];
+      if (schema['format'] === 'date-time' && Number.isNaN(Date.parse(value))) return [`${path}: expected a date-time`];
+      return [];
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${path}: expected an integer`];
+    case 'number':
+      return typeof value === 'number' ? [] : [`${path}: expected a number`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: expected a boolean`];
+    case 'array':
+      return Array.isArray(value)
+        ? value.flatMap((item, index) => validate(item, schema['items'] as JsonSchema, `${path}[${index}]`))
+        : [`${path}: expected an array`];
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path}: expected an object`];
+      const record = value as Record<string, unknown>;
+      const properties = schema['properties'] as Record<string, JsonSchema> | undefined;
+      if (!properties) {
+        const values = schema['additionalProperties'] as JsonSchema;
+        return Object.entries(record).flatMap(([key, item]) => validate(item, values, `${path}.${key}`));
+      }
+      const required = (schema['required'] as string[] | undefined) ?? [];
+      return [
+        ...required.filter(key => !(key in record)).map(key => `${path}.${key}: missing`),
+        ...Object.keys(record).filter(key => !(key in properties)).map(key => `${path}.${key}: not documented`),
+        ...Object.entries(record)
+          .filter(([key]) => key in properties)
+          .flatMap(([key, item]) => validate(item, properties[key], `${path}.${key}`))
+      ];
+    }
+    default:
+      return [];
+  }
+};
+
+const responseSchema = (path: string, method: string, status: number): JsonSchema | undefined => {
+  const response = (doc.paths[path][method]['responses'] as Record<string, JsonSchema>)[String(status)];
+  return (response?.['content'] as Record<string, { schema: JsonSchema }> | undefined)?.['application/json'].schema;
+};
+
+describe('openApiDocument', () => {
+  it('should be an OpenAPI 3.1 document whose references all resolve', () => {
+    expect(openApiDocument['openapi']).toEqual('3.1.0');
+
+    const refs = JSON.stringify(openApiDocument).match(/"\$ref":"[^"]+"/g) ?? [];
+    expect(refs.length).toBeGreaterThan(0);
+    for (const ref of refs) {
+      const name = ref.replace(/^"\$ref":"#\/components\/schemas\//, '').replace(/"$/, '');
+      expect(doc.components.schemas[name]).toBeDefined();
+    }
+
+    const operationIds = Object.values(doc.paths).flatMap(methods => Object.values(methods).map(op => op['operationId']));
+    expect(new Set(operationIds).size).toEqual(operationIds.length);
+    expect(operationIds.sort()).toEqual(restRoutes.map(restRoute => restRoute.operationId).sort());
+  });
+
+  it('should describe the inputs the handlers take', () => {
+    const listOperation = doc.paths['/tasks']['get'];
+    const queryNames = (listOperation['parameters'] as JsonSchema[]).map(parameter => parameter['name']);
+    expect(queryNames.sort()).toEqual(Object.keys(getTasksInputSchema.shape).sort());
+
+    const createBody = ((doc.paths['/tasks']['post']['requestBody'] as JsonSchema)['content'] as Record<string, { schema: JsonSchema }>)['application/json'].schema;
+    expect(Object.keys(createBody['properties'] as JsonSchema).sort())
+      .toEqual(Object.keys(createTaskInputSchema.innerType().innerType().shape).sort());
+    expect(createBody['required']).toEqual(['title']);
+
+    // The id of a PATCH comes from the path, not the body
+    const updateOperation = doc.paths['/tasks/{id}']['patch'];
+    const updateBody = ((updateOperation['requestBody'] as JsonSchema)['content'] as Record<string, { schema: JsonSchema }>)['application/json'].schema;
+    expect(updateBody['properties']).not.toHaveProperty('id');
+    expect(updateBody['required']).toBeUndefined();
+    expect(updateOperation['parameters']).toEqual([{ name: 'id', in: 'path', required: true, schema: { type: 'integer' } }]);
+  });
+});
+
+describe('handleRestRequest', () => {
+  let server: Server;
+  let baseUrl: string;
+  let ownerId: number;
+  let token: string;
+
+  const request = (method: string, path: string, body?: unknown, auth: string | null = token) =>
+    fetch(`${baseUrl}${path}`, {
+      method,
+      headers: {
+        ...(auth && { Authorization: `Bearer ${auth}` }),
+        ...(body !== undefined && { 'Content-Type': 'application/json' })
+      },
+      body: body === undefined ? undefined : JSON.stringify(body)
+    });
+
+  // Check a response against what the document promises for its operation and status
+  const expectDocumented = async (response: Response, path: string, method: string): Promise<unknown> => {
+    const schema = responseSchema(path, method, response.status);
+    expect(schema).toBeDefined();
+    const body = await response.json();
+    expect(validate(body, schema!)).toEqual([]);
+    return body;
+  };
+
+  beforeEach(async () => {
+    await createDB();
+    const user = await createTestUser();
+    ownerId = user.id;
+    token = (await createSession(user)).token;
+    // Stand-in for the rest of the API, to see which requests are passed on
+    server = createServer(async (req, res) => {
+      if (!await handleRestRequest(req, res)) {
+        res.writeHead(418).end();
+      }
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+    await resetDB();
+  });
+
+  it('should serve the document and leave tRPC paths alone', async () => {
+    const response = await request('GET', '/openapi.json', undefined, null);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual(JSON.parse(JSON.stringify(openApiDocument)));
+    expect((await request('GET', '/getTasks')).status).toBe(418);
+  });
+
+  it('should create tasks and list them in the documented shapes', async () => {
+    const created = await request('POST', '/tasks', {
+      title: 'Write report',
+      priority: 'high',
+      due_date: '2099-01-31',
+      recurrence: { freq: 'weekly', by_weekday: ['MO'] }
+    });
+    expect(created.status).toBe(201);
+    const task = await expectDocumented(created, '/tasks', 'post') as { id: number; title: string };
+    expect(task.title).toEqual('Write report');
+
+    const listed = await request('GET', '/tasks?completed=false&list_id=null&limit=10');
+    expect(listed.status).toBe(200);
+    const page = await expectDocumented(listed, '/tasks', 'get') as { items: { id: number }[] };
+    expect(page.items.map(item => item.id)).toEqual([task.id]);
+  });
+
+  it('should parse repeated query parameters as arrays', async () => {
+    await request('POST', '/tasks', { title: 'Untagged' });
+
+    const response = await request('GET', '/tasks?tags_any=1&tags_any=2');
+    const page = await expectDocumented(response, '/tasks', 'get') as { items: unknown[] };
+
+    expect(page.items).toEqual([]);
+  });
+
+  it('should update a task and report stale writes with the current task', async () => {
+    const [task] = await db.insert(tasksTable).values({ owner_id: ownerId, title: 'Draft' }).returning().execute();
+
+    const updated = await request('PATCH', `/tasks/${task.id}`, { title: 'Final', completed: true });
+    expect(updated.status).toBe(200);
+    expect(await expectDocumented(updated, '/tasks/{id}', 'patch')).toMatchObject({ id: task.id, title: 'Final', completed: true });
+
+    const stale = await request('PATCH', `/tasks/${task.id}`, { title: 'Mine', expected_updated_at: task.updated_at.toISOString() });
+    expect(stale.status).toBe(409);
+    const conflict = await expectDocumented(stale, '/tasks/{id}', 'patch') as { error: { reason: string; current_task: { title: string } } };
+    expect(conflict.error.reason).toEqual('conflict');
+    expect(conflict.error.current_task.title).toEqual('Final');
+  });
+
+  it('should move a task to the trash and answer 404 afterwards', async () => {
+    const [task] = await db.insert(tasksTable).values({ owner_id: ownerId, title: 'Old' }).returning().execute();
+
+    const deleted = await request('DELETE', `/tasks/${task.id}`);
+    expect(deleted.status).toBe(204);
+    expect(await deleted.text()).toEqual('');
+
+    const again = await request('DELETE', `/tasks/${task.id}`);
+    expect(again.status).toBe(404);
+    expect(await expectDocumented(again, '/tasks/{id}', 'delete')).toMatchObject({
+      error: { reason: 'not_found', details: { resource: 'task', id: task.id } }
+    });
+  });
+
+  it('should reject invalid input with per-field messages', async () => {
+    const missingTitle = await request('POST', '/tasks', { description: 'No title' });
+    expect(missingTitle.status).toBe(400);
+    const body = await expectDocumented(missingTitle, '/tasks', 'post') as { error: { field_errors: Record<string, string[]> } };
+    expect(Object.keys(body.error.field_errors)).toEqual(['title']);
+
+    const badJson = await fetch(`${baseUrl}/tasks`, {
+      method: 'POST',
+      headers: { Authorization: `Bearer ${token}` },
+      body: '{"title":'
+    });
+    expect(badJson.status).toBe(400);
+    expect(((await badJson.json()) as { error: { message: string } }).error.message).toEqual('Request body must be valid JSON');
+
+    expect((await request('GET', '/tasks?limit=many')).status).toBe(400);
+    expect((await request('PATCH', '/tasks/abc', { title: 'x' })).status).toBe(400);
+
+    const badEncoding = await request('PATCH', '/tasks/%E0%A4%A', { title: 'x' });
+    expect(badEncoding.status).toBe(400);
+    expect(((await badEncoding.json()) as { error: { message: string; reason: string; details: { field: string } } }).error)
+      .toMatchObject({ message: 'Path parameter id is not validly percent-encoded', reason: 'validation', details: { field: 'id' } });
+  });
+
+  it('should require a session and only allow documented methods', async () => {
+    const anonymous = await request('GET', '/tasks', undefined, null);
+    expect(anonymous.status).toBe(401);
+    expect(await expectDocumented(anonymous, '/tasks', 'get')).toMatchObject({ error: { reason: 'unauthorized' } });
+
+    const other = await createTestUser('other@example.com');
+    const [foreign] = await db.insert(tasksTable).values({ owner_id: other.id, title: 'Not mine' }).returning().execute();
+    expect((await request('PATCH', `/tasks/${foreign.id}`, { title: 'Mine now' })).status).toBe(404);
+
+    const put = await request('PUT', '/tasks/1', { title: 'x' });
+    expect(put.status).toBe(405);
+    expect(put.headers.get('allow')).toEqual('PATCH, DELETE');
+  });
+
+  it('should answer 429 with Retry-After once the caller\'s write budget is spent', async () => {
+    const user = await createTestUser('limited@example.com');
+    const limitedToken = (await createSession(user)).token;
+    // Spend the budget the way a burst of requests would
+    expect(() => {
+      for (;;) checkRateLimit('mutation', rateLimitKey(user.id, ''));
+    }).toThrow(RateLimitError);
+
+    const limited = await request('POST', '/tasks', { title: 'One too many' }, limitedToken);
+
+    expect(limited.status).toBe(429);
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+    const body = await expectDocumented(limited, '/tasks', 'post') as { error: { details: { retry_after: number } } };
+    expect(body.error.details.retry_after).toEqual(Number(limited.headers.get('retry-after')));
+    // Reads have their own budget
+    expect((await request('GET', '/tasks', undefined, limitedToken)).status).toBe(200);
+    expect(await db.select().from(tasksTable).execute()).toHaveLength(0);
+  });
+});
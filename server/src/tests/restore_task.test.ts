@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tasksTable } from '../db/schema';
+import { eq } from 'drizzle-orm';
+import { deleteTask } from '../handlers/delete_task';
+import { restoreTask } from '../handlers/restore_task';
+
+describe('restoreTask', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  const insertTask = async (title: string, parentId: number | null = null) => {
+    const rows = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, parent_id: parentId, title })
+      .returning()
+      .execute();
+    return rows[0];
+  };
+
+  it('should bring a deleted task back', async () => {
+    const task = await insertTask('Oops');
+    await deleteTask({ id: task.id }, ownerId);
+
+    const result = await restoreTask({ id: task.id }, ownerId);
+
+    expect(result.id).toEqual(task.id);
+    expect(result.title).toEqual('Oops');
+    expect(result.deleted_at).toBeNull();
+    expect(result.tags).toEqual([]);
+  });
+
+  it('should restore subtasks deleted together with the task', async () => {
+    const parent = await insertTask('Parent');
+    const child = await insertTask('Child', parent.id);
+    const grandchild = await insertTask('Grandchild', child.id);
+    await deleteTask({ id: parent.id }, ownerId);
+
+    await restoreTask({ id: parent.id }, ownerId);
+
+    const tasks = await db.select().from(tasksTable).execute();
+    expect(tasks.map(t => t.id).sort()).toEqual([parent.id, child.id, grandchild.id].sort());
+    expect(tasks.every(t => t.deleted_at === null)).toBe(true);
+  });
+
+  it('should leave subtasks that were deleted on their own in the trash', async () => {
+    const parent = await insertTask('Parent');
+    const child = await insertTask('Deleted earlier', parent.id);
+    await deleteTask({ id: child.id }, ownerId);
+    await deleteTask({ id: parent.id }, ownerId);
+
+    await restoreTask({ id: parent.id }, ownerId);
+
+    const rows = await db.select().from(tasksTable).where(eq(tasksTable.id, child.id)).execute();
+    expect(rows[0].deleted_at).toBeInstanceOf(Date);
+  });
+
+  it('should refuse to restore a subtask whose parent is still in the trash', async () => {
+    const parent = await insertTask('Parent');
+    const child = await insertTask('Child', parent.id);
+    await deleteTask({ id: parent.id }, ownerId);
+
+    await expect(restoreTask({ id: child.id }, ownerId)).rejects.toThrow(/parent task first/i);
+  });
+
+  it('should throw for a task that is not in the trash', async () => {
+    const task = await insertTask('Active');
+
+    await expect(restoreTask({ id: task.id }, ownerId)).rejects.toThrow(/not found in the trash/i);
+  });
+
+  it('should not restore a task owned by another user', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const task = await insertTask('Private');
+    await deleteTask({ id: task.id }, ownerId);
+
+    await expect(restoreTask({ id: task.id }, otherUser.id)).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { webhookDeliveriesTable } from '../db/schema';
+import { createWebhook } from '../handlers/create_webhook';
+import { retryWebhookDelivery } from '../handlers/retry_webhook_delivery';
+import { createTask } from '../handlers/create_task';
+
+describe('retryWebhookDelivery', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  const createDeadDelivery = async () => {
+    await createWebhook({ url: 'https://example.com/hooks', events: ['task.created'] }, ownerId);
+    await createTask({ title: 'Dead letter' }, ownerId);
+    const result = await db.update(webhookDeliveriesTable)
+      .set({ status: 'dead', attempts: 8, next_attempt_at: null, last_error: 'HTTP 500' })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  it('should put a dead-lettered delivery back in the queue and keep its history', async () => {
+    const delivery = await createDeadDelivery();
+
+    const result = await retryWebhookDelivery({ id: delivery.id }, ownerId);
+
+    expect(result.status).toEqual('pending');
+    expect(result.next_attempt_at).toBeInstanceOf(Date);
+    expect(result.attempts).toEqual(8);
+    expect(result.last_error).toEqual('HTTP 500');
+  });
+
+  it('should not retry a delivery of another user\'s webhook', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const delivery = await createDeadDelivery();
+
+    await expect(retryWebhookDelivery({ id: delivery.id }, otherUser.id)).rejects.toThrow(/not found/i);
+  });
+});
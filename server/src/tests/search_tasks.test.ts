@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { eq } from 'drizzle-orm';
+import { tasksTable } from '../db/schema';
+import { searchTasks } from '../handlers/search_tasks';
+import { searchTasksInputSchema, type HighlightSegment } from '../schema';
+
+const search = (query: string, ownerId: number, options: { include_completed?: boolean } = {}) =>
+  searchTasks(searchTasksInputSchema.parse({ query, ...options }), ownerId);
+
+const matchedWords = (segments: HighlightSegment[]): string[] =>
+  segments.filter(segment => segment.match).map(segment => segment.text);
+
+describe('searchTasks', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should match word prefixes and require every word', async () => {
+    await db.insert(tasksTable)
+      .values([
+        { owner_id: ownerId, title: 'Renew passport' },
+        { owner_id: ownerId, title: 'Passport photos for the visa' },
+        { owner_id: ownerId, title: 'Water the plants' }
+      ])
+      .execute();
+
+    expect((await search('pass', ownerId)).map(result => result.task.title).sort())
+      .toEqual(['Passport photos for the visa', 'Renew passport']);
+    expect((await search('PASSPORT vis', ownerId)).map(result => result.task.title))
+      .toEqual(['Passport photos for the visa']);
+    expect(await search('passports', ownerId)).toEqual([]);
+  });
+
+  it('should rank title matches above description matches', async () => {
+    await db.insert(tasksTable)
+      .values([
+        { owner_id: ownerId, title: 'Call the bank', description: 'Ask about the mortgage' },
+        { owner_id: ownerId, title: 'Mortgage paperwork' }
+      ])
+      .execute();
+
+    const results = await search('mortgage', ownerId);
+
+    expect(results.map(result => result.task.title)).toEqual(['Mortgage paperwork', 'Call the bank']);
+    expect(results[0].rank).toBeGreaterThan(results[1].rank);
+  });
+
+  it('should highlight matches in the title and excerpt matching descriptions', async () => {
+    const description = 'Collect receipts for the accountant. The tax return is due at the end of the month, '
+      + 'and last year it was late because nobody could find the paperwork from the bank.';
+    await db.insert(tasksTable)
+      .values([
+        { owner_id: ownerId, title: 'Do the taxes', description },
+        { owner_id: ownerId, title: 'Tax refund', description: 'Nothing to see here' }
+      ])
+      .execute();
+
+    const results = await search('tax', ownerId);
+    const [taxes, refund] = results.sort((a, b) => a.task.title.localeCompare(b.task.title));
+
+    expect(taxes.title).toEqual([
+      { text: 'Do the ', match: false },
+      { text: 'taxes', match: true }
+    ]);
+    expect(matchedWords(taxes.snippet)).toEqual(['tax']);
+    expect(taxes.snippet.map(segment => segment.text).join('')).not.toEqual(description);
+    expect(matchedWords(refund.title)).toEqual(['Tax']);
+    expect(refund.snippet).toEqual([]);
+  });
+
+  it('should return tasks in the list item shape, with their top-level ancestor', async () => {
+    const [parent] = await db.insert(tasksTable).values({ owner_id: ownerId, title: 'Move house' }).returning().execute();
+    const [child] = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, parent_id: parent.id, title: 'Book movers' })
+      .returning()
+      .execute();
+    const [grandchild] = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, parent_id: child.id, title: 'Compare movers quotes', completed: true })
+      .returning()
+      .execute();
+
+    const results = await search('movers', ownerId);
+    const byId = new Map(results.map(result => [result.task.id, result]));
+
+    expect(byId.get(child.id)?.root_id).toEqual(parent.id);
+    expect(byId.get(child.id)?.task.subtask_count).toEqual(1);
+    expect(byId.get(child.id)?.task.completed_subtask_count).toEqual(1);
+    expect(byId.get(grandchild.id)?.root_id).toEqual(parent.id);
+    expect(byId.get(child.id)?.task.tags).toEqual([]);
+    expect(byId.get(child.id)?.task).not.toHaveProperty('search_vector');
+
+    const parentResult = (await search('move', ownerId)).find(result => result.task.id === parent.id);
+    expect(parentResult?.root_id).toEqual(parent.id);
+  });
+
+  it('should leave out other users\' tasks, the trash and, if asked, completed tasks', async () => {
+    const other = await createTestUser('other@example.com');
+    await db.insert(tasksTable)
+      .values([
+        { owner_id: ownerId, title: 'Report draft' },
+        { owner_id: ownerId, title: 'Report final', completed: true },
+        { owner_id: ownerId, title: 'Report old', deleted_at: new Date() },
+        { owner_id: other.id, title: 'Report theirs' }
+      ])
+      .execute();
+
+    expect((await search('report', ownerId)).map(result => result.task.title).sort())
+      .toEqual(['Report draft', 'Report final']);
+    expect((await search('report', ownerId, { include_completed: false })).map(result => result.task.title))
+      .toEqual(['Report draft']);
+  });
+
+  it('should return nothing for input without words and treat operators as text', async () => {
+    await db.insert(tasksTable).values({ owner_id: ownerId, title: 'Buy milk & eggs' }).execute();
+
+    expect(await search('&!:*', ownerId)).toEqual([]);
+    expect((await search('milk & eg', ownerId)).map(result => result.task.title)).toEqual(['Buy milk & eggs']);
+  });
+
+  it('should reflect edits to the title in later searches', async () => {
+    const [task] = await db.insert(tasksTable).values({ owner_id: ownerId, title: 'Draft' }).returning().execute();
+    await db.update(tasksTable).set({ title: 'Final version' }).where(eq(tasksTable.id, task.id)).execute();
+
+    expect(await search('draft', ownerId)).toEqual([]);
+    expect((await search('final', ownerId))[0]?.task.id).toEqual(task.id);
+  });
+});
@@ -0,0 +1,88 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type SignInInput } from '../schema';
+import { signIn } from '../handlers/sign_in';
+import { hashPassword } from '../utils/auth';
+import { eq } from 'drizzle-orm';
+
+const testInput: SignInInput = {
+  email: 'grace@example.com',
+  password: 'hopper-1906'
+};
+
+describe('signIn', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  // Create the account directly so the test doesn't depend on signUp
+  const createUser = async () => {
+    const result = await db.insert(usersTable)
+      .values({
+        email: testInput.email,
+        name: 'Grace',
+        password_hash: await hashPassword(testInput.password)
+      })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  it('should issue a session for valid credentials', async () => {
+    const user = await createUser();
+
+    const result = await signIn(testInput);
+
+    expect(result.user.id).toEqual(user.id);
+    expect(result.user.email).toEqual('grace@example.com');
+    expect(typeof result.token).toBe('string');
+    expect(result.token.length).toBeGreaterThan(20);
+  });
+
+  it('should issue a new session on every sign-in', async () => {
+    const user = await createUser();
+
+    const first = await signIn(testInput);
+    const second = await signIn(testInput);
+
+    expect(first.token).not.toEqual(second.token);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, user.id))
+      .execute();
+    expect(sessions).toHaveLength(2);
+  });
+
+  it('should reject a wrong password', async () => {
+    await createUser();
+
+    await expect(signIn({ ...testInput, password: 'not-the-password' })).rejects.toThrow(/invalid email or password/i);
+  });
+
+  it('should reject an unknown email with the same error', async () => {
+    await expect(signIn({ ...testInput, email: 'nobody@example.com' })).rejects.toThrow(/invalid email or password/i);
+  });
+
+  it('should take about as long for an unknown email as for a wrong password', async () => {
+    await createUser();
+    // Fastest of a few attempts, after a warm-up, to keep scheduling noise out
+    const fastest = async (input: SignInInput) => {
+      const durations: number[] = [];
+      for (let attempt = 0; attempt < 3; attempt++) {
+        const started = performance.now();
+        await signIn(input).catch(() => {});
+        durations.push(performance.now() - started);
+      }
+      return Math.min(...durations);
+    };
+    await signIn({ ...testInput, email: 'nobody@example.com' }).catch(() => {});
+
+    const wrongPassword = await fastest({ ...testInput, password: 'not-the-password' });
+    const unknownEmail = await fastest({ ...testInput, email: 'nobody@example.com' });
+
+    // Both run scrypt, which dwarfs the lookup; without it an unknown email answers many times faster
+    expect(unknownEmail).toBeGreaterThan(wrongPassword / 2);
+  });
+});
@@ -0,0 +1,35 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { signOut } from '../handlers/sign_out';
+import { generateSessionToken, hashSessionToken } from '../utils/auth';
+
+describe('signOut', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should delete the session behind the token', async () => {
+    const user = await createTestUser();
+    const token = generateSessionToken();
+    await db.insert(sessionsTable)
+      .values({
+        user_id: user.id,
+        token_hash: hashSessionToken(token),
+        expires_at: new Date(Date.now() + 60_000)
+      })
+      .execute();
+
+    const result = await signOut(token);
+
+    expect(result.success).toBe(true);
+    const sessions = await db.select().from(sessionsTable).execute();
+    expect(sessions).toHaveLength(0);
+  });
+
+  it('should return false for an unknown token', async () => {
+    const result = await signOut('unknown-token');
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { sessionsTable, usersTable } from '../db/schema';
+import { type SignUpInput } from '../schema';
+import { signUp } from '../handlers/sign_up';
+import { hashSessionToken, verifyPassword } from '../utils/auth';
+import { eq } from 'drizzle-orm';
+
+const testInput: SignUpInput = {
+  email: 'ada@example.com',
+  password: 'correct horse battery staple',
+  name: 'Ada'
+};
+
+describe('signUp', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should create a user and return a session', async () => {
+    const result = await signUp(testInput);
+
+    expect(result.user.id).toBeDefined();
+    expect(result.user.email).toEqual('ada@example.com');
+    expect(result.user.name).toEqual('Ada');
+    expect(result.user.created_at).toBeInstanceOf(Date);
+    expect((result.user as Record<string, unknown>)['password_hash']).toBeUndefined();
+    expect(typeof result.token).toBe('string');
+    expect(result.expires_at > new Date()).toBe(true);
+  });
+
+  it('should store a password hash rather than the password', async () => {
+    const result = await signUp(testInput);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, result.user.id))
+      .execute();
+
+    expect(users).toHaveLength(1);
+    expect(users[0].password_hash).not.toContain(testInput.password);
+    expect(await verifyPassword(testInput.password, users[0].password_hash)).toBe(true);
+    expect(await verifyPassword('wrong password', users[0].password_hash)).toBe(false);
+  });
+
+  it('should store only the hash of the session token', async () => {
+    const result = await signUp(testInput);
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.user_id, result.user.id))
+      .execute();
+
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].token_hash).toEqual(hashSessionToken(result.token));
+    expect(sessions[0].token_hash).not.toEqual(result.token);
+  });
+
+  it('should reject a duplicate email', async () => {
+    await signUp(testInput);
+
+    await expect(signUp({ ...testInput, name: null })).rejects.toThrow(/already exists/i);
+  });
+});
@@ -1,19 +1,27 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createTestUser } from '../helpers';
 import { db } from '../db';
-import { tasksTable } from '../db/schema';
+import { tagsTable, taskEventsTable, tasksTable, taskTagsTable } from '../db/schema';
 import { type ToggleTaskInput } from '../schema';
 import { toggleTask } from '../handlers/toggle_task';
-import { eq } from 'drizzle-orm';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { MAX_TASKS_PER_USER } from '../config';
+import { QuotaExceededError, TaskConflictError } from '../errors';
 
 describe('toggleTask', () => {
-  beforeEach(createDB);
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
   afterEach(resetDB);
 
   it('should toggle task from incomplete to complete', async () => {
     // Create a test task that is initially incomplete
     const createdTask = await db.insert(tasksTable)
       .values({
+        owner_id: ownerId,
         title: 'Test Task',
         description: 'A task to test toggling',
         completed: false
@@ -23,10 +31,11 @@ describe('toggleTask', () => {
 
     const testInput: ToggleTaskInput = {
       id: createdTask[0].id,
-      completed: true
+      completed: true,
+      include_subtasks: false
     };
 
-    const result = await toggleTask(testInput);
+    const result = await toggleTask(testInput, ownerId);
 
     // Verify the task is now completed
     expect(result.id).toEqual(createdTask[0].id);
@@ -40,10 +49,33 @@ describe('toggleTask', () => {
     expect(result.updated_at.getTime()).toBeGreaterThan(result.created_at.getTime());
   });
 
+  it('should reject a stale toggle with the current task', async () => {
+    const [task] = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, title: 'Shared task' })
+      .returning()
+      .execute();
+    const renamed = await db.update(tasksTable)
+      .set({ title: 'Renamed elsewhere', updated_at: new Date(task.updated_at.getTime() + 1000) })
+      .where(eq(tasksTable.id, task.id))
+      .returning()
+      .execute();
+
+    const error = await toggleTask({ id: task.id, completed: true, include_subtasks: false, expected_updated_at: task.updated_at }, ownerId)
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TaskConflictError);
+    expect((error as TaskConflictError).current.title).toEqual('Renamed elsewhere');
+
+    // A toggle based on the current version goes through
+    const result = await toggleTask({ id: task.id, completed: true, include_subtasks: false, expected_updated_at: renamed[0].updated_at }, ownerId);
+    expect(result.completed).toBe(true);
+  });
+
   it('should toggle task from complete to incomplete', async () => {
     // Create a test task that is initially complete
     const createdTask = await db.insert(tasksTable)
       .values({
+        owner_id: ownerId,
         title: 'Completed Task',
         description: null, // Test with null description
         completed: true
@@ -53,10 +85,11 @@ describe('toggleTask', () => {
 
     const testInput: ToggleTaskInput = {
       id: createdTask[0].id,
-      completed: false
+      completed: false,
+      include_subtasks: false
     };
 
-    const result = await toggleTask(testInput);
+    const result = await toggleTask(testInput, ownerId);
 
     // Verify the task is now incomplete
     expect(result.id).toEqual(createdTask[0].id);
@@ -71,6 +104,7 @@ describe('toggleTask', () => {
     // Create a test task
     const createdTask = await db.insert(tasksTable)
       .values({
+        owner_id: ownerId,
         title: 'Database Test Task',
         description: 'Testing database persistence',
         completed: false
@@ -80,10 +114,11 @@ describe('toggleTask', () => {
 
     const testInput: ToggleTaskInput = {
       id: createdTask[0].id,
-      completed: true
+      completed: true,
+      include_subtasks: false
     };
 
-    await toggleTask(testInput);
+    await toggleTask(testInput, ownerId);
 
     // Query the database directly to verify the update
     const tasks = await db.select()
@@ -102,17 +137,19 @@ describe('toggleTask', () => {
   it('should throw error for non-existent task', async () => {
     const testInput: ToggleTaskInput = {
       id: 99999, // Non-existent task ID
-      completed: true
+      completed: true,
+      include_subtasks: false
     };
 
     // Test that the function throws an error
-    await expect(toggleTask(testInput)).rejects.toThrow(/Task with id 99999 not found/i);
+    await expect(toggleTask(testInput, ownerId)).rejects.toThrow(/Task with id 99999 not found/i);
   });
 
   it('should handle multiple toggle operations correctly', async () => {
     // Create a test task
     const createdTask = await db.insert(tasksTable)
       .values({
+        owner_id: ownerId,
         title: 'Multi-toggle Task',
         description: 'Testing multiple toggles',
         completed: false
@@ -123,8 +160,9 @@ describe('toggleTask', () => {
     // Toggle to completed
     let result = await toggleTask({
       id: createdTask[0].id,
-      completed: true
-    });
+      completed: true,
+      include_subtasks: false
+    }, ownerId);
     expect(result.completed).toBe(true);
     const firstUpdate = result.updated_at;
 
@@ -134,16 +172,18 @@ describe('toggleTask', () => {
     // Toggle back to incomplete
     result = await toggleTask({
       id: createdTask[0].id,
-      completed: false
-    });
+      completed: false,
+      include_subtasks: false
+    }, ownerId);
     expect(result.completed).toBe(false);
     expect(result.updated_at.getTime()).toBeGreaterThan(firstUpdate.getTime());
 
     // Toggle back to completed again
     result = await toggleTask({
       id: createdTask[0].id,
-      completed: true
-    });
+      completed: true,
+      include_subtasks: false
+    }, ownerId);
     expect(result.completed).toBe(true);
   });
 
@@ -151,6 +191,7 @@ describe('toggleTask', () => {
     // Create a task with specific values
     const createdTask = await db.insert(tasksTable)
       .values({
+        owner_id: ownerId,
         title: 'Preserve Fields Task',
         description: 'This description should be preserved',
         completed: false
@@ -165,8 +206,9 @@ describe('toggleTask', () => {
     // Toggle the task
     const result = await toggleTask({
       id: createdTask[0].id,
-      completed: true
-    });
+      completed: true,
+      include_subtasks: false
+    }, ownerId);
 
     // Verify other fields are preserved
     expect(result.title).toEqual(originalTitle);
@@ -177,4 +219,202 @@ describe('toggleTask', () => {
     // Only updated_at should change
     expect(result.updated_at.getTime()).toBeGreaterThan(originalCreatedAt.getTime());
   });
-});
\ No newline at end of file
+
+  it('should not toggle a task owned by another user', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const createdTask = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, title: 'Private task', completed: false })
+      .returning()
+      .execute();
+
+    await expect(toggleTask({ id: createdTask[0].id, completed: true, include_subtasks: false }, otherUser.id)).rejects.toThrow(/not found/i);
+  });
+
+  const createTree = async () => {
+    const [parent] = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, title: 'Parent' })
+      .returning()
+      .execute();
+    const [child] = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, parent_id: parent.id, title: 'Child' })
+      .returning()
+      .execute();
+    const [grandchild] = await db.insert(tasksTable)
+      .values({ owner_id: ownerId, parent_id: child.id, title: 'Grandchild' })
+      .returning()
+      .execute();
+    return { parent, child, grandchild };
+  };
+
+  it('should leave subtasks alone by default', async () => {
+    const { parent, child, grandchild } = await createTree();
+
+    await toggleTask({ id: parent.id, completed: true, include_subtasks: false }, ownerId);
+
+    const subtasks = await db.select().from(tasksTable)
+      .where(inArray(tasksTable.id, [child.id, grandchild.id]))
+      .execute();
+    expect(subtasks.every(t => !t.completed)).toBe(true);
+  });
+
+  it('should complete every subtask when requested', async () => {
+    const { parent, child, grandchild } = await createTree();
+
+    await toggleTask({ id: parent.id, completed: true, include_subtasks: true }, ownerId);
+
+    const subtasks = await db.select().from(tasksTable)
+      .where(inArray(tasksTable.id, [child.id, grandchild.id]))
+      .execute();
+    expect(subtasks.every(t => t.completed)).toBe(true);
+  });
+
+  it('should not reopen subtasks when reopening their parent', async () => {
+    const { parent, child } = await createTree();
+    await toggleTask({ id: parent.id, completed: true, include_subtasks: true }, ownerId);
+
+    await toggleTask({ id: parent.id, completed: false, include_subtasks: true }, ownerId);
+
+    const saved = await db.select().from(tasksTable).where(eq(tasksTable.id, child.id)).execute();
+    expect(saved[0].completed).toBe(true);
+  });
+
+  it('should record a toggle event for the task and each completed subtask', async () => {
+    const { parent, child, grandchild } = await createTree();
+
+    await toggleTask({ id: parent.id, completed: true, include_subtasks: true }, ownerId);
+
+    const events = await db.select().from(taskEventsTable).execute();
+    expect(events.map(e => e.task_id).sort()).toEqual([parent.id, child.id, grandchild.id].sort());
+    expect(events.every(e => e.type === 'toggled')).toBe(true);
+    expect(events[0].changes).toEqual({ completed: { from: false, to: true } });
+  });
+
+  describe('recurring tasks', () => {
+    const completeAndFindNext = async (values: Partial<typeof tasksTable.$inferInsert>) => {
+      const [task] = await db.insert(tasksTable)
+        .values({ owner_id: ownerId, title: 'Repeating', ...values })
+        .returning()
+        .execute();
+
+      const result = await toggleTask({ id: task.id, completed: true, include_subtasks: false }, ownerId);
+
+      const next = await db.select().from(tasksTable)
+        .where(and(eq(tasksTable.owner_id, ownerId), eq(tasksTable.completed, false)))
+        .execute();
+      return { result, next: next[0] };
+    };
+
+    it('should spawn the next occurrence and hand over the rule', async () => {
+      const { result, next } = await completeAndFindNext({
+        due_date: '2024-01-01',
+        due_timezone: 'UTC',
+        priority: 'high',
+        recurrence: 'FREQ=WEEKLY;INTERVAL=1'
+      });
+
+      expect(result.completed).toBe(true);
+      expect(result.recurrence).toBeNull();
+      expect(next.title).toEqual('Repeating');
+      expect(next.priority).toEqual('high');
+      expect(next.due_date).toEqual('2024-01-08');
+      expect(next.recurrence).toEqual('FREQ=WEEKLY;INTERVAL=1');
+    });
+
+    it('should keep the local due time across a DST change', async () => {
+      // New York springs forward on 2024-03-10; 09:00 local stays 09:00 local
+      const { next } = await completeAndFindNext({
+        due_date: '2024-03-08',
+        due_time: '09:00:00',
+        due_timezone: 'America/New_York',
+        recurrence: 'FREQ=DAILY;INTERVAL=2'
+      });
+
+      expect(next.due_date).toEqual('2024-03-10');
+      expect(next.due_time).toEqual('09:00:00');
+      expect(next.due_timezone).toEqual('America/New_York');
+    });
+
+    it('should keep a due time that falls in the skipped DST hour', async () => {
+      // 02:30 doesn't exist in New York on 2024-03-10; the wall-clock time is kept as entered
+      const { next } = await completeAndFindNext({
+        due_date: '2024-03-09',
+        due_time: '02:30:00',
+        due_timezone: 'America/New_York',
+        recurrence: 'FREQ=DAILY;INTERVAL=1'
+      });
+
+      expect(next.due_date).toEqual('2024-03-10');
+      expect(next.due_time).toEqual('02:30:00');
+    });
+
+    it('should roll month-end invoices onto the last day of the next month', async () => {
+      const { next } = await completeAndFindNext({
+        due_date: '2024-01-31',
+        due_timezone: 'UTC',
+        recurrence: 'FREQ=MONTHLY;INTERVAL=1;BYMONTHDAY=-1'
+      });
+
+      expect(next.due_date).toEqual('2024-02-29');
+    });
+
+    it('should count down and end the series', async () => {
+      const { next } = await completeAndFindNext({
+        due_date: '2024-01-01',
+        due_timezone: 'UTC',
+        recurrence: 'FREQ=DAILY;INTERVAL=1;COUNT=2'
+      });
+      expect(next.recurrence).toEqual('FREQ=DAILY;INTERVAL=1;COUNT=1');
+
+      await toggleTask({ id: next.id, completed: true, include_subtasks: false }, ownerId);
+
+      const open = await db.select().from(tasksTable).where(eq(tasksTable.completed, false)).execute();
+      expect(open).toHaveLength(0);
+    });
+
+    it('should copy tags onto the next occurrence', async () => {
+      const [tag] = await db.insert(tagsTable).values({ owner_id: ownerId, name: 'chores' }).returning().execute();
+      const [task] = await db.insert(tasksTable)
+        .values({ owner_id: ownerId, title: 'Bins', due_date: '2024-01-01', due_timezone: 'UTC', recurrence: 'FREQ=WEEKLY;INTERVAL=1' })
+        .returning()
+        .execute();
+      await db.insert(taskTagsTable).values({ task_id: task.id, tag_id: tag.id }).execute();
+
+      await toggleTask({ id: task.id, completed: true, include_subtasks: false }, ownerId);
+
+      const links = await db.select().from(taskTagsTable).where(eq(taskTagsTable.tag_id, tag.id)).execute();
+      expect(links).toHaveLength(2);
+    });
+
+    it('should refuse to complete a recurring task when its next occurrence would go over the quota', async () => {
+      const [task] = await db.insert(tasksTable)
+        .values({ owner_id: ownerId, title: 'Repeating', due_date: '2024-01-01', due_timezone: 'UTC', recurrence: 'FREQ=DAILY;INTERVAL=1' })
+        .returning()
+        .execute();
+      await db.execute(sql`
+        insert into tasks (owner_id, title)
+        select ${ownerId}, 'Filler ' || n
+        from generate_series(2, ${MAX_TASKS_PER_USER}) as n
+      `);
+
+      const error = await toggleTask({ id: task.id, completed: true, include_subtasks: false }, ownerId).catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(QuotaExceededError);
+      const [unchanged] = await db.select().from(tasksTable).where(eq(tasksTable.id, task.id)).execute();
+      expect(unchanged.completed).toBe(false);
+      expect(unchanged.recurrence).toEqual('FREQ=DAILY;INTERVAL=1');
+    });
+
+    it('should not spawn twice when completed again', async () => {
+      const { result } = await completeAndFindNext({
+        due_date: '2024-01-01',
+        due_timezone: 'UTC',
+        recurrence: 'FREQ=DAILY;INTERVAL=1'
+      });
+
+      await toggleTask({ id: result.id, completed: false, include_subtasks: false }, ownerId);
+      await toggleTask({ id: result.id, completed: true, include_subtasks: false }, ownerId);
+
+      expect(await db.select().from(tasksTable).execute()).toHaveLength(2);
+    });
+  });
+});
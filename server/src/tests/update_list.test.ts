@@ -0,0 +1,45 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { listsTable } from '../db/schema';
+import { updateList } from '../handlers/update_list';
+
+describe('updateList', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  const createTestList = async () => {
+    const result = await db.insert(listsTable)
+      .values({ owner_id: ownerId, name: 'Original', color: '#000000', icon: 'list' })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  it('should update only the provided fields', async () => {
+    const list = await createTestList();
+
+    const result = await updateList({ id: list.id, name: 'Renamed', icon: 'star' }, ownerId);
+
+    expect(result.name).toEqual('Renamed');
+    expect(result.icon).toEqual('star');
+    expect(result.color).toEqual('#000000'); // Unchanged
+    expect(result.updated_at >= list.updated_at).toBe(true);
+  });
+
+  it('should throw when the list does not exist', async () => {
+    await expect(updateList({ id: 999999, name: 'Nope' }, ownerId)).rejects.toThrow(/not found/i);
+  });
+
+  it('should not update a list owned by another user', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const list = await createTestList();
+
+    await expect(updateList({ id: list.id, name: 'Hijacked' }, otherUser.id)).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable } from '../db/schema';
+import { updateTag } from '../handlers/update_tag';
+
+describe('updateTag', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  const createTestTag = async (name: string = 'Original') => {
+    const result = await db.insert(tagsTable)
+      .values({ owner_id: ownerId, name, color: '#000000' })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  it('should rename a tag and keep its colour', async () => {
+    const tag = await createTestTag();
+
+    const result = await updateTag({ id: tag.id, name: 'Renamed' }, ownerId);
+
+    expect(result.name).toEqual('Renamed');
+    expect(result.color).toEqual('#000000');
+  });
+
+  it('should allow changing only the case of a tag\'s own name', async () => {
+    const tag = await createTestTag('work');
+
+    const result = await updateTag({ id: tag.id, name: 'Work' }, ownerId);
+
+    expect(result.name).toEqual('Work');
+  });
+
+  it('should reject a name used by another tag', async () => {
+    await createTestTag('home');
+    const tag = await createTestTag('work');
+
+    await expect(updateTag({ id: tag.id, name: 'HOME' }, ownerId)).rejects.toThrow(/already exists/i);
+  });
+
+  it('should not update a tag owned by another user', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const tag = await createTestTag();
+
+    await expect(updateTag({ id: tag.id, name: 'Hijacked' }, otherUser.id)).rejects.toThrow(/not found/i);
+  });
+});
@@ -1,19 +1,26 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
-import { resetDB, createDB } from '../helpers';
+import { resetDB, createDB, createTestUser } from '../helpers';
 import { db } from '../db';
-import { tasksTable } from '../db/schema';
+import { tagsTable, taskEventsTable, tasksTable } from '../db/schema';
 import { type UpdateTaskInput } from '../schema';
 import { updateTask } from '../handlers/update_task';
 import { eq } from 'drizzle-orm';
+import { TaskConflictError } from '../errors';
 
 describe('updateTask', () => {
-  beforeEach(createDB);
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
   afterEach(resetDB);
 
   // Helper function to create a test task directly in database
   const createTestTask = async (title: string = 'Original Task', description: string | null = 'Original description') => {
     const result = await db.insert(tasksTable)
       .values({
+        owner_id: ownerId,
         title,
         description,
         completed: false
@@ -36,7 +43,7 @@ describe('updateTask', () => {
       title: 'Updated Task Title'
     };
 
-    const result = await updateTask(updateInput);
+    const result = await updateTask(updateInput, ownerId);
 
     expect(result.id).toEqual(createdTask.id);
     expect(result.title).toEqual('Updated Task Title');
@@ -55,7 +62,7 @@ describe('updateTask', () => {
       description: 'Updated description'
     };
 
-    const result = await updateTask(updateInput);
+    const result = await updateTask(updateInput, ownerId);
 
     expect(result.id).toEqual(createdTask.id);
     expect(result.title).toEqual('Original Task'); // Should remain unchanged
@@ -72,7 +79,7 @@ describe('updateTask', () => {
       completed: true
     };
 
-    const result = await updateTask(updateInput);
+    const result = await updateTask(updateInput, ownerId);
 
     expect(result.id).toEqual(createdTask.id);
     expect(result.title).toEqual('Original Task'); // Should remain unchanged
@@ -91,7 +98,7 @@ describe('updateTask', () => {
       completed: true
     };
 
-    const result = await updateTask(updateInput);
+    const result = await updateTask(updateInput, ownerId);
 
     expect(result.id).toEqual(createdTask.id);
     expect(result.title).toEqual('Completely Updated Task');
@@ -108,7 +115,7 @@ describe('updateTask', () => {
       description: null
     };
 
-    const result = await updateTask(updateInput);
+    const result = await updateTask(updateInput, ownerId);
 
     expect(result.id).toEqual(createdTask.id);
     expect(result.title).toEqual('Original Task'); // Should remain unchanged
@@ -125,7 +132,7 @@ describe('updateTask', () => {
       completed: true
     };
 
-    await updateTask(updateInput);
+    await updateTask(updateInput, ownerId);
 
     // Query database directly to verify changes
     const tasks = await db.select()
@@ -153,7 +160,7 @@ describe('updateTask', () => {
       title: createdTask.title // Same title
     };
 
-    const result = await updateTask(updateInput);
+    const result = await updateTask(updateInput, ownerId);
 
     expect(result.updated_at).toBeInstanceOf(Date);
     expect(result.updated_at > originalUpdatedAt).toBe(true);
@@ -165,7 +172,7 @@ describe('updateTask', () => {
       title: 'Should fail'
     };
 
-    await expect(updateTask(updateInput)).rejects.toThrow(/not found/i);
+    await expect(updateTask(updateInput, ownerId)).rejects.toThrow(/not found/i);
   });
 
   it('should handle task with null description', async () => {
@@ -177,7 +184,7 @@ describe('updateTask', () => {
       title: 'Updated task with null description'
     };
 
-    const result = await updateTask(updateInput);
+    const result = await updateTask(updateInput, ownerId);
 
     expect(result.title).toEqual('Updated task with null description');
     expect(result.description).toBeNull(); // Should remain null
@@ -196,7 +203,7 @@ describe('updateTask', () => {
       id: createdTask.id
     };
 
-    const result = await updateTask(updateInput);
+    const result = await updateTask(updateInput, ownerId);
 
     // All original values should remain the same except updated_at
     expect(result.id).toEqual(createdTask.id);
@@ -206,4 +213,163 @@ describe('updateTask', () => {
     expect(result.created_at).toEqual(createdTask.created_at);
     expect(result.updated_at > originalUpdatedAt).toBe(true); // Should still be updated
   });
-});
\ No newline at end of file
+
+  it('should set a due date and default the timezone to UTC', async () => {
+    const createdTask = await createTestTask();
+
+    const result = await updateTask({
+      id: createdTask.id,
+      due_date: '2099-12-31',
+      due_time: '09:00'
+    }, ownerId);
+
+    expect(result.due_date).toEqual('2099-12-31');
+    expect(result.due_time).toEqual('09:00:00');
+    expect(result.due_timezone).toEqual('UTC');
+    expect(result.due_status).toEqual('upcoming');
+  });
+
+  it('should clear due time and timezone when the due date is cleared', async () => {
+    const createdTask = await createTestTask();
+    await updateTask({
+      id: createdTask.id,
+      due_date: '2099-12-31',
+      due_time: '09:00',
+      due_timezone: 'America/New_York'
+    }, ownerId);
+
+    const result = await updateTask({ id: createdTask.id, due_date: null }, ownerId);
+
+    expect(result.due_date).toBeNull();
+    expect(result.due_time).toBeNull();
+    expect(result.due_timezone).toBeNull();
+    expect(result.due_status).toBeNull();
+  });
+
+  it('should reject a due time on a task without a due date', async () => {
+    const createdTask = await createTestTask();
+
+    await expect(updateTask({ id: createdTask.id, due_time: '10:00' }, ownerId)).rejects.toThrow(/without a due date/i);
+  });
+
+  it('should not update a task owned by another user', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const createdTask = await createTestTask();
+
+    await expect(updateTask({ id: createdTask.id, title: 'Hijacked' }, otherUser.id)).rejects.toThrow(/not found/i);
+  });
+
+  it('should attach and detach tags', async () => {
+    const task = await createTestTask();
+    const [home, work] = await db.insert(tagsTable)
+      .values([
+        { owner_id: ownerId, name: 'home' },
+        { owner_id: ownerId, name: 'work' }
+      ])
+      .returning()
+      .execute();
+
+    const tagged = await updateTask({ id: task.id, add_tag_ids: [home.id, work.id] }, ownerId);
+    expect(tagged.tags.map(t => t.name)).toEqual(['home', 'work']);
+
+    // Re-adding an attached tag is a no-op
+    const result = await updateTask({ id: task.id, add_tag_ids: [work.id], remove_tag_ids: [home.id] }, ownerId);
+    expect(result.tags.map(t => t.name)).toEqual(['work']);
+  });
+
+  it('should change the priority', async () => {
+    const task = await createTestTask();
+
+    const result = await updateTask({ id: task.id, priority: 'high' }, ownerId);
+
+    expect(result.priority).toEqual('high');
+    expect(result.title).toEqual('Original Task');
+  });
+
+  it('should set and clear a recurrence rule', async () => {
+    const task = await createTestTask();
+
+    await expect(updateTask({ id: task.id, recurrence: { freq: 'weekly', interval: 1 } }, ownerId)).rejects.toThrow(/need a due date/i);
+
+    const recurring = await updateTask({ id: task.id, due_date: '2024-01-01', recurrence: { freq: 'weekly', interval: 1 } }, ownerId);
+    expect(recurring.recurrence).toEqual({ freq: 'weekly', interval: 1 });
+
+    // Clearing the due date ends the series too
+    const cleared = await updateTask({ id: task.id, due_date: null }, ownerId);
+    expect(cleared.recurrence).toBeNull();
+  });
+
+  it('should record an event with the changed fields', async () => {
+    const task = await createTestTask();
+
+    await updateTask({ id: task.id, title: 'Renamed', description: 'Original description', priority: 'high' }, ownerId);
+
+    const events = await db.select().from(taskEventsTable).where(eq(taskEventsTable.task_id, task.id)).execute();
+    expect(events).toHaveLength(1);
+    expect(events[0].type).toEqual('updated');
+    expect(events[0].actor_id).toEqual(ownerId);
+    expect(events[0].created_at).toBeInstanceOf(Date);
+    // Unchanged fields are left out of the diff
+    expect(events[0].changes).toEqual({
+      title: { from: 'Original Task', to: 'Renamed' },
+      priority: { from: 'none', to: 'high' }
+    });
+  });
+
+  it('should record tag changes by name', async () => {
+    const task = await createTestTask();
+    const [home] = await db.insert(tagsTable)
+      .values({ owner_id: ownerId, name: 'home' })
+      .returning()
+      .execute();
+
+    await updateTask({ id: task.id, add_tag_ids: [home.id] }, ownerId);
+
+    const events = await db.select().from(taskEventsTable).where(eq(taskEventsTable.task_id, task.id)).execute();
+    expect(events[0].changes).toEqual({ tags: { from: [], to: ['home'] } });
+  });
+
+  it('should not record an event when nothing changed', async () => {
+    const task = await createTestTask();
+
+    await updateTask({ id: task.id, title: 'Original Task' }, ownerId);
+
+    const events = await db.select().from(taskEventsTable).execute();
+    expect(events).toHaveLength(0);
+  });
+
+  it('should not record an event when the update fails', async () => {
+    const task = await createTestTask();
+
+    await expect(updateTask({ id: task.id, add_tag_ids: [999] }, ownerId)).rejects.toThrow();
+
+    const events = await db.select().from(taskEventsTable).execute();
+    expect(events).toHaveLength(0);
+  });
+
+  it('should apply the update when the expected version matches', async () => {
+    const task = await createTestTask();
+    const first = await updateTask({ id: task.id, title: 'First' }, ownerId);
+
+    const result = await updateTask({ id: task.id, title: 'Second', expected_updated_at: first.updated_at }, ownerId);
+
+    expect(result.title).toEqual('Second');
+  });
+
+  it('should reject a stale update with the current task', async () => {
+    const task = await createTestTask();
+    await updateTask({ id: task.id, title: 'Changed elsewhere' }, ownerId);
+
+    const error = await updateTask({ id: task.id, title: 'Mine', expected_updated_at: task.updated_at }, ownerId)
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(TaskConflictError);
+    expect((error as TaskConflictError).reason).toEqual('conflict');
+    expect((error as TaskConflictError).current.title).toEqual('Changed elsewhere');
+    expect((error as TaskConflictError).current.tags).toEqual([]);
+
+    // Nothing was written
+    const [row] = await db.select().from(tasksTable).where(eq(tasksTable.id, task.id)).execute();
+    expect(row.title).toEqual('Changed elsewhere');
+  });
+});
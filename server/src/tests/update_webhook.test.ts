@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { createWebhook } from '../handlers/create_webhook';
+import { updateWebhook } from '../handlers/update_webhook';
+import { ValidationError } from '../errors';
+
+describe('updateWebhook', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  it('should change only the given fields', async () => {
+    const webhook = await createWebhook({ url: 'https://example.com/hooks', events: ['task.created'] }, ownerId);
+
+    const result = await updateWebhook({ id: webhook.id, events: ['task.completed'], active: false }, ownerId);
+
+    expect(result.url).toEqual('https://example.com/hooks');
+    expect(result.events).toEqual(['task.completed']);
+    expect(result.active).toEqual(false);
+    expect(result).not.toHaveProperty('secret');
+  });
+
+  it('should refuse to point a webhook at a private address', async () => {
+    const webhook = await createWebhook({ url: 'https://example.com/hooks', events: ['task.created'] }, ownerId);
+
+    await expect(updateWebhook({ id: webhook.id, url: 'http://172.16.0.5:5432' }, ownerId)).rejects.toThrow(ValidationError);
+  });
+
+  it('should not update a webhook owned by another user', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    const webhook = await createWebhook({ url: 'https://example.com/hooks', events: ['task.created'] }, ownerId);
+
+    await expect(updateWebhook({ id: webhook.id, url: 'https://evil.example.com' }, otherUser.id)).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,167 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { createHmac } from 'node:crypto';
+import { resetDB, createDB, createTestUser } from '../helpers';
+import { db } from '../db';
+import { tagsTable, webhookDeliveriesTable, webhooksTable } from '../db/schema';
+import { type WebhookEventType } from '../schema';
+import { createTask } from '../handlers/create_task';
+import { toggleTask } from '../handlers/toggle_task';
+import { deleteTask } from '../handlers/delete_task';
+import { updateTask } from '../handlers/update_task';
+import { assertPublicWebhookUrl, isPublicAddress, resolveWebhookTarget, signWebhookPayload, webhookRetryDelayMs } from '../utils/webhooks';
+import { ValidationError } from '../errors';
+import { WEBHOOK_RETRY_BASE_SECONDS, WEBHOOK_RETRY_MAX_SECONDS } from '../config';
+
+describe('signWebhookPayload', () => {
+  it('should sign the timestamp and body with HMAC-SHA256', () => {
+    const expected = createHmac('sha256', 'secret').update('1700000000.{"a":1}').digest('hex');
+
+    expect(signWebhookPayload('secret', 1700000000, '{"a":1}')).toEqual(`sha256=${expected}`);
+    expect(signWebhookPayload('other', 1700000000, '{"a":1}')).not.toEqual(`sha256=${expected}`);
+  });
+});
+
+describe('webhookRetryDelayMs', () => {
+  it('should double the delay after each failure up to the cap', () => {
+    expect(webhookRetryDelayMs(1)).toEqual(WEBHOOK_RETRY_BASE_SECONDS * 1000);
+    expect(webhookRetryDelayMs(3)).toEqual(WEBHOOK_RETRY_BASE_SECONDS * 4 * 1000);
+    expect(webhookRetryDelayMs(50)).toEqual(WEBHOOK_RETRY_MAX_SECONDS * 1000);
+  });
+});
+
+describe('isPublicAddress', () => {
+  it('should accept public addresses only', () => {
+    for (const address of ['93.184.215.14', '8.8.8.8', '2606:4700::1111', '::ffff:808:808']) {
+      expect(isPublicAddress(address)).toBe(true);
+    }
+    for (const address of [
+      '127.0.0.1', '0.0.0.0', '10.0.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254', '100.64.0.1', '224.0.0.1',
+      '::1', '::', 'fd12:3456::1', 'fe80::1', '::ffff:127.0.0.1', '::ffff:7f00:1', '::ffff:a00:1', 'not an address'
+    ]) {
+      expect(isPublicAddress(address)).toBe(false);
+    }
+  });
+});
+
+describe('assertPublicWebhookUrl', () => {
+  const lookupAs = (...addresses: string[]) => async () => addresses;
+
+  it('should check every address a name resolves to', async () => {
+    await assertPublicWebhookUrl('https://hooks.example.com/x', lookupAs('93.184.215.14'));
+
+    await expect(assertPublicWebhookUrl('https://hooks.example.com/x', lookupAs('93.184.215.14', '10.0.0.2')))
+      .rejects.toThrow(ValidationError);
+  });
+
+  it('should let names that do not resolve through, leaving the check to delivery', async () => {
+    await assertPublicWebhookUrl('https://not-yet.example.com/x', async () => {
+      throw new Error('getaddrinfo ENOTFOUND');
+    });
+  });
+
+  it('should use IP hosts as they are', async () => {
+    expect(await resolveWebhookTarget('http://[fe80::1]:8080/x', lookupAs('93.184.215.14'))).toEqual(['fe80::1']);
+    expect(await resolveWebhookTarget('http://2130706433/x', lookupAs('93.184.215.14'))).toEqual(['127.0.0.1']);
+  });
+});
+
+describe('webhook events', () => {
+  let ownerId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    ownerId = (await createTestUser()).id;
+  });
+  afterEach(resetDB);
+
+  const createTestWebhook = async (events: WebhookEventType[], owner: number = ownerId, active: boolean = true) => {
+    const result = await db.insert(webhooksTable)
+      .values({ owner_id: owner, url: 'http://127.0.0.1:9/hooks', secret: 'test-secret-0123456789', events, active })
+      .returning()
+      .execute();
+    return result[0];
+  };
+
+  const getDeliveries = () => db.select().from(webhookDeliveriesTable).orderBy(webhookDeliveriesTable.id).execute();
+
+  it('should queue task.created with the task and its tags', async () => {
+    const webhook = await createTestWebhook(['task.created']);
+    const tag = (await db.insert(tagsTable).values({ owner_id: ownerId, name: 'work' }).returning().execute())[0];
+
+    const task = await createTask({ title: 'Write report', tag_ids: [tag.id] }, ownerId);
+
+    const deliveries = await getDeliveries();
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0].webhook_id).toEqual(webhook.id);
+    expect(deliveries[0].event).toEqual('task.created');
+    expect(deliveries[0].status).toEqual('pending');
+    expect(deliveries[0].next_attempt_at).toBeInstanceOf(Date);
+    const { payload } = deliveries[0];
+    expect(payload.type).toEqual('task.created');
+    expect(payload.data.task['id']).toEqual(task.id);
+    expect(payload.data.task['title']).toEqual('Write report');
+    expect(payload.data.task['tags']).toEqual([{ id: tag.id, name: 'work', color: tag.color }]);
+    expect(payload.data.task['search_vector']).toBeUndefined();
+  });
+
+  it('should queue task.completed for completions only', async () => {
+    await createTestWebhook(['task.completed']);
+    const task = await createTask({ title: 'Finish me' }, ownerId);
+
+    await updateTask({ id: task.id, title: 'Finish me soon' }, ownerId);
+    await toggleTask({ id: task.id, completed: true, include_subtasks: false }, ownerId);
+    await toggleTask({ id: task.id, completed: false, include_subtasks: false }, ownerId);
+
+    const deliveries = await getDeliveries();
+    expect(deliveries.map(delivery => delivery.event)).toEqual(['task.completed']);
+    expect(deliveries[0].payload.data.task['completed']).toEqual(true);
+  });
+
+  it('should queue task.completed when an update completes the task', async () => {
+    await createTestWebhook(['task.completed']);
+    const task = await createTask({ title: 'Finish me' }, ownerId);
+
+    await updateTask({ id: task.id, completed: true }, ownerId);
+    // Already done; not a second completion
+    await updateTask({ id: task.id, title: 'Finished', completed: true }, ownerId);
+
+    const deliveries = await getDeliveries();
+    expect(deliveries.map(delivery => delivery.event)).toEqual(['task.completed']);
+    expect(deliveries[0].payload.data.task['id']).toEqual(task.id);
+    expect(deliveries[0].payload.data.task['completed']).toEqual(true);
+  });
+
+  it('should queue task.deleted for a task and each of its subtasks', async () => {
+    await createTestWebhook(['task.deleted']);
+    const parent = await createTask({ title: 'Parent' }, ownerId);
+    const child = await createTask({ title: 'Child', parent_id: parent.id }, ownerId);
+
+    await deleteTask({ id: parent.id }, ownerId);
+
+    const deliveries = await getDeliveries();
+    expect(deliveries.map(delivery => delivery.payload.data.task['id']).sort()).toEqual([parent.id, child.id].sort());
+    expect(new Set(deliveries.map(delivery => delivery.payload.id)).size).toEqual(2);
+  });
+
+  it('should give every subscribed webhook its own delivery of the same event', async () => {
+    await createTestWebhook(['task.created', 'task.deleted']);
+    await createTestWebhook(['task.created']);
+
+    await createTask({ title: 'Fan out' }, ownerId);
+
+    const deliveries = await getDeliveries();
+    expect(deliveries).toHaveLength(2);
+    expect(deliveries[0].payload.id).toEqual(deliveries[1].payload.id);
+  });
+
+  it('should skip paused webhooks, other events and other users\' webhooks', async () => {
+    const otherUser = await createTestUser('other@example.com');
+    await createTestWebhook(['task.created'], ownerId, false);
+    await createTestWebhook(['task.deleted']);
+    await createTestWebhook(['task.created'], otherUser.id);
+
+    await createTask({ title: 'Quiet' }, ownerId);
+
+    expect(await getDeliveries()).toHaveLength(0);
+  });
+});
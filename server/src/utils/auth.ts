@@ -0,0 +1,45 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+import { type User as UserRow } from '../db/schema';
+import { type User } from '../schema';
+
+// How long a session token stays valid after sign-in
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const SCRYPT_KEY_LENGTH = 64;
+
+const deriveKey = (password: string, salt: Buffer): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    scrypt(password, salt, SCRYPT_KEY_LENGTH, (error, key) => (error ? reject(error) : resolve(key)));
+  });
+
+// Hash a password as "scrypt$<salt>$<key>" (both base64)
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const key = await deriveKey(password, salt);
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`;
+};
+
+export const verifyPassword = async (password: string, stored: string): Promise<boolean> => {
+  const [scheme, salt, key] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) {
+    return false;
+  }
+  const expected = Buffer.from(key, 'base64');
+  const actual = await deriveKey(password, Buffer.from(salt, 'base64'));
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+// A hash of a random password nobody knows, to verify against when the account doesn't exist so
+// that signing in with an unknown email takes as long as with a wrong password
+let dummyHash: Promise<string> | null = null;
+export const dummyPasswordHash = (): Promise<string> =>
+  (dummyHash ??= hashPassword(randomBytes(32).toString('base64')));
+
+// Opaque bearer token handed to the client; only its hash is stored
+export const generateSessionToken = (): string => randomBytes(32).toString('base64url');
+
+export const hashSessionToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+// Strip credentials from a user row before returning it to the client
+export const toUser = ({ password_hash, ...user }: UserRow): User => user;
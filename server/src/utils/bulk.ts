@@ -0,0 +1,42 @@
+import { type DbExecutor } from '../db';
+import { DomainError } from '../errors';
+import { BULK_MAX_IDS, type BulkItemResult, type BulkResult, type Task } from '../schema';
+
+const summarize = (results: BulkItemResult[]): BulkResult => {
+  const succeeded = results.filter(result => result.success).length;
+  return { results, succeeded, failed: results.length - succeeded };
+};
+
+// Apply a change to each id inside an open transaction. Every id gets its own savepoint, so
+// ids that fail with a domain error (missing, invalid, ...) are reported and rolled back on
+// their own while the rest go through; any other error aborts the whole batch.
+export const runBulk = async (
+  tx: DbExecutor,
+  ids: number[],
+  apply: (savepoint: DbExecutor, id: number) => Promise<Task | null>
+): Promise<BulkResult> => {
+  const results: BulkItemResult[] = [];
+  for (const id of new Set(ids)) {
+    try {
+      const task = await tx.transaction(savepoint => apply(savepoint, id));
+      results.push({ id, success: true, task, error: null });
+    } catch (error) {
+      if (!(error instanceof DomainError)) {
+        throw error;
+      }
+      results.push({ id, success: false, task: null, error: { reason: error.reason, message: error.message } });
+    }
+  }
+  return summarize(results);
+};
+
+// Hand any number of ids to a bulk handler BULK_MAX_IDS at a time, for operations on every task
+// matching a filter. Each chunk runs in its own transaction, so a failure leaves the chunks
+// before it done
+export const runInChunks = async (ids: number[], run: (chunk: number[]) => Promise<BulkResult>): Promise<BulkResult> => {
+  const results: BulkItemResult[] = [];
+  for (let start = 0; start < ids.length; start += BULK_MAX_IDS) {
+    results.push(...(await run(ids.slice(start, start + BULK_MAX_IDS))).results);
+  }
+  return summarize(results);
+};
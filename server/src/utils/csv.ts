@@ -0,0 +1,68 @@
+// RFC 4180 CSV: comma-separated fields, double quotes around fields containing commas,
+// quotes or line breaks, and quotes inside them doubled
+
+// Spreadsheet apps run fields starting with one of these as formulas, so written fields that do
+// get a leading apostrophe, which the apps show as text and parseCsv takes off again
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const unescapeFormula = (field: string): string =>
+  field.startsWith("'") && FORMULA_START.test(field.slice(1)) ? field.slice(1) : field;
+
+// Split CSV text into rows of fields. Accepts CRLF or LF line endings and a leading byte
+// order mark, as written by spreadsheet apps; blank lines are dropped, and apostrophes guarding
+// formula-like fields are removed.
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(unescapeFormula(field));
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(unescapeFormula(field));
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+};
+
+const escapeField = (value: string): string => {
+  const text = FORMULA_START.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Join rows into CSV text with CRLF line endings
+export const toCsv = (rows: string[][]): string =>
+  rows.map(row => row.map(escapeField).join(',')).join('\r\n') + '\r\n';
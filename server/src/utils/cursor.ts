@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { taskSortKeySchema } from '../schema';
+import { ValidationError } from '../errors';
+
+// Position of the last row on a page: its sort value plus id as a tie-breaker.
+// Timestamps are kept as Postgres text so microsecond precision survives the round trip.
+const cursorSchema = z.object({
+  sort: taskSortKeySchema,
+  direction: z.enum(['asc', 'desc']),
+  value: z.union([z.string(), z.number()]),
+  id: z.number().int()
+});
+
+export type Cursor = z.infer<typeof cursorSchema>;
+
+export const encodeCursor = (cursor: Cursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+export const decodeCursor = (encoded: string): Cursor => {
+  try {
+    return cursorSchema.parse(JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')));
+  } catch {
+    throw new ValidationError('Invalid cursor', 'cursor');
+  }
+};
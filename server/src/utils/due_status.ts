@@ -0,0 +1,75 @@
+import { type Task as TaskRow } from '../db/schema';
+import { type DueStatus, type Task, type TaskTag } from '../schema';
+import { parseRRule } from './recurrence';
+
+// Current wall-clock date (YYYY-MM-DD) and time (HH:MM:SS) in the given IANA timezone
+export const zonedNow = (timeZone: string, now: Date = new Date()): { date: string; time: string } => {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(now);
+
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find(p => p.type === type)?.value ?? '00';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${part('hour')}:${part('minute')}:${part('second')}`
+  };
+};
+
+// The instant a wall-clock date (YYYY-MM-DD) and time (HH:MM:SS) in the given timezone refers to.
+// Times skipped by a DST change resolve to the hour after.
+export const zonedTimeToUtc = (date: string, time: string, timeZone: string): Date => {
+  const wallClock = Date.parse(`${date}T${time}Z`);
+  // Start from the wall clock read as UTC and correct by the zone's offset, twice to settle across DST
+  let instant = wallClock;
+  for (let i = 0; i < 2; i++) {
+    const zoned = zonedNow(timeZone, new Date(instant));
+    instant += wallClock - Date.parse(`${zoned.date}T${zoned.time}Z`);
+  }
+  return new Date(instant);
+};
+
+// Classify a task's due date against "now" in the task's own timezone (UTC when unset).
+// Completed tasks and tasks without a due date have no status.
+export const getDueStatus = (
+  task: Pick<TaskRow, 'completed' | 'due_date' | 'due_time' | 'due_timezone'>,
+  now: Date = new Date()
+): DueStatus | null => {
+  if (task.completed || !task.due_date) {
+    return null;
+  }
+
+  const today = zonedNow(task.due_timezone ?? 'UTC', now);
+
+  if (task.due_date < today.date) {
+    return 'overdue';
+  }
+  if (task.due_date > today.date) {
+    return 'upcoming';
+  }
+  // Due today - a specific time that has already passed makes it overdue
+  if (task.due_time && task.due_time < today.time) {
+    return 'overdue';
+  }
+  return 'due_today';
+};
+
+// Convert a database row into the API task shape, attaching the derived due status. The search
+// vector is internal to searchTasks and left out
+export const toTask = ({ search_vector, ...row }: TaskRow & { tags: TaskTag[] }, now: Date = new Date()): Task => ({
+  ...row,
+  due_status: getDueStatus(row, now),
+  recurrence: row.recurrence ? parseRRule(row.recurrence) : null
+});
+
+// Normalize HH:MM input to the HH:MM:SS format Postgres returns
+export const normalizeDueTime = (time: string | null | undefined): string | null =>
+  time ? (time.length === 5 ? `${time}:00` : time) : null;
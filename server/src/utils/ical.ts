@@ -0,0 +1,250 @@
+import { type Task as TaskRow } from '../db/schema';
+import { type TaskPriority, type TaskTag } from '../schema';
+import { parseRRule, toRRule } from './recurrence';
+import { zonedNow, zonedTimeToUtc } from './due_status';
+
+// iCalendar (RFC 5545) output for calendar subscriptions. Every dated task appears twice: as a
+// VEVENT, which all calendar apps show, and as a VTODO carrying completion, which task-aware
+// clients such as Thunderbird list as a to-do.
+
+const PRODID = '-//Simple Todo//Task feed//EN';
+
+// Length of the event shown for tasks due at a specific time
+const TIMED_EVENT_MINUTES = 30;
+
+// Content lines are folded at 75 octets (RFC 5545 §3.1)
+const MAX_LINE_OCTETS = 75;
+
+const MINUTE_MS = 60 * 1000;
+const WEEK_MS = 7 * 24 * 60 * MINUTE_MS;
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// iCalendar PRIORITY: 1 is highest, 9 lowest, 0 undefined
+const icalPriorities: Record<TaskPriority, number> = { urgent: 1, high: 3, medium: 5, low: 7, none: 0 };
+
+export type CalendarTask = TaskRow & { tags: TaskTag[] };
+
+// Escape a TEXT value (RFC 5545 §3.3.11)
+const escapeText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Split a content line into CRLF-joined chunks of at most 75 octets, never inside a character
+const foldLine = (line: string): string => {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their length
+    if (octets + size > MAX_LINE_OCTETS) {
+      chunks.push(chunk);
+      chunk = ' ';
+      octets = 1;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+  return chunks.join('\r\n');
+};
+
+// 20240301T080000Z
+const formatUtc = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// 20240301
+const formatDate = (date: string): string => date.replace(/-/g, '');
+
+const nextDay = (date: string): string => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+};
+
+// A timed task's due time on the wall clock of its timezone
+interface TimedDue {
+  date: string;
+  time: string;
+  timeZone: string;
+}
+
+// DTSTART:20240301T080000Z for tasks in UTC, DTSTART;TZID=Europe/Berlin:20240301T090000 elsewhere,
+// `minutes` after the due time. Local times with a TZID keep recurrences on the task's weekday and
+// hour across DST changes, which a UTC start can't
+const dateTimeProperty = (name: string, due: TimedDue, minutes = 0): string => {
+  const value = formatUtc(new Date(Date.parse(`${due.date}T${due.time}Z`) + minutes * MINUTE_MS));
+  return due.timeZone === 'UTC' ? `${name}:${value}` : `${name};TZID=${due.timeZone}:${value.slice(0, -1)}`;
+};
+
+// Minutes the zone's wall clock is ahead of UTC at the given instant
+const utcOffset = (timeZone: string, instant: number): number => {
+  const zoned = zonedNow(timeZone, new Date(instant));
+  return Math.round((Date.parse(`${zoned.date}T${zoned.time}Z`) - instant) / MINUTE_MS);
+};
+
+// +0100, -0430
+const formatOffset = (minutes: number): string => {
+  const hours = String(Math.floor(Math.abs(minutes) / 60)).padStart(2, '0');
+  return `${minutes < 0 ? '-' : '+'}${hours}${String(Math.abs(minutes) % 60).padStart(2, '0')}`;
+};
+
+// The instants in a year at which the zone's UTC offset changes, found week by week and then
+// narrowed down to the minute
+const offsetChanges = (timeZone: string, year: number): { at: number; from: number; to: number }[] => {
+  const changes: { at: number; from: number; to: number }[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+  let previous = Date.UTC(year, 0, 1);
+  let previousOffset = utcOffset(timeZone, previous);
+  while (previous < end) {
+    const next = Math.min(previous + WEEK_MS, end);
+    const nextOffset = utcOffset(timeZone, next);
+    if (nextOffset !== previousOffset) {
+      let low = previous;
+      let high = next;
+      while (high - low > MINUTE_MS) {
+        const middle = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS;
+        if (utcOffset(timeZone, middle) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      changes.push({ at: high, from: previousOffset, to: nextOffset });
+    }
+    previous = next;
+    previousOffset = nextOffset;
+  }
+  return changes;
+};
+
+const vtimezones = new Map<string, string[]>();
+
+// VTIMEZONE for a zone as its rules stand in `year`: one observance per yearly offset change,
+// repeating on the same weekday of the month (e.g. 2SU in March), or a single fixed offset
+const toTimezone = (timeZone: string, year: number): string[] => {
+  const key = `${timeZone}/${year}`;
+  const cached = vtimezones.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const changes = offsetChanges(timeZone, year);
+  const observances = changes.length === 0
+    ? [
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${formatOffset(utcOffset(timeZone, Date.UTC(year, 0, 1)))}`,
+      `TZOFFSETTO:${formatOffset(utcOffset(timeZone, Date.UTC(year, 0, 1)))}`,
+      'END:STANDARD'
+    ]
+    : changes.flatMap(({ at, from, to }) => {
+      // Observances start at the wall-clock time before the change
+      const local = new Date(at + from * MINUTE_MS);
+      const day = local.getUTCDate();
+      const monthLength = new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth() + 1, 0)).getUTCDate();
+      const week = day > monthLength - 7 ? -1 : Math.ceil(day / 7);
+      const kind = to > from ? 'DAYLIGHT' : 'STANDARD';
+      return [
+        `BEGIN:${kind}`,
+        `DTSTART:${formatUtc(local).slice(0, -1)}`,
+        `RRULE:FREQ=YEARLY;BYMONTH=${local.getUTCMonth() + 1};BYDAY=${week}${WEEKDAYS[local.getUTCDay()]}`,
+        `TZOFFSETFROM:${formatOffset(from)}`,
+        `TZOFFSETTO:${formatOffset(to)}`,
+        `END:${kind}`
+      ];
+    });
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`, ...observances, 'END:VTIMEZONE'];
+  vtimezones.set(key, lines);
+  return lines;
+};
+
+// Properties shared by a task's VEVENT and VTODO
+const commonProperties = (task: CalendarTask, due: TimedDue | null): string[] => {
+  const lines = [
+    `DTSTAMP:${formatUtc(task.updated_at)}`,
+    `CREATED:${formatUtc(task.created_at)}`,
+    `LAST-MODIFIED:${formatUtc(task.updated_at)}`,
+    `SUMMARY:${escapeText(task.title)}`
+  ];
+  if (task.description) {
+    lines.push(`DESCRIPTION:${escapeText(task.description)}`);
+  }
+  if (task.tags.length > 0) {
+    lines.push(`CATEGORIES:${task.tags.map(tag => escapeText(tag.name)).join(',')}`);
+  }
+  if (icalPriorities[task.priority] !== 0) {
+    lines.push(`PRIORITY:${icalPriorities[task.priority]}`);
+  }
+  if (task.recurrence) {
+    // UNTIL has to match the value type of the start: a date for all-day tasks, otherwise a UTC
+    // time, here the end of the last day in the task's timezone
+    const rule = toRRule(parseRRule(task.recurrence));
+    lines.push(`RRULE:${due
+      ? rule.replace(/UNTIL=(\d{4})(\d{2})(\d{2})/, (_, year: string, month: string, day: string) =>
+        `UNTIL=${formatUtc(zonedTimeToUtc(`${year}-${month}-${day}`, '23:59:59', due.timeZone))}`)
+      : rule}`);
+  }
+  return lines;
+};
+
+const toEvent = (task: CalendarTask, due: TimedDue | null): string[] => [
+  'BEGIN:VEVENT',
+  `UID:task-${task.id}-event@simple-todo`,
+  ...(due
+    ? [dateTimeProperty('DTSTART', due), dateTimeProperty('DTEND', due, TIMED_EVENT_MINUTES)]
+    : [`DTSTART;VALUE=DATE:${formatDate(task.due_date!)}`, `DTEND;VALUE=DATE:${formatDate(nextDay(task.due_date!))}`]),
+  ...commonProperties(task, due),
+  'TRANSP:TRANSPARENT', // Tasks don't block time in free/busy lookups
+  'END:VEVENT'
+];
+
+const toTodo = (task: CalendarTask, due: TimedDue | null): string[] => [
+  'BEGIN:VTODO',
+  `UID:task-${task.id}@simple-todo`,
+  ...(due
+    ? [dateTimeProperty('DTSTART', due), dateTimeProperty('DUE', due)]
+    : [`DTSTART;VALUE=DATE:${formatDate(task.due_date!)}`, `DUE;VALUE=DATE:${formatDate(task.due_date!)}`]),
+  ...commonProperties(task, due),
+  ...(task.completed
+    ? ['STATUS:COMPLETED', 'PERCENT-COMPLETE:100', `COMPLETED:${formatUtc(task.updated_at)}`]
+    : ['STATUS:NEEDS-ACTION']),
+  'END:VTODO'
+];
+
+// Render a calendar of the given tasks; tasks without a due date are left out
+export const toICalendar = (tasks: CalendarTask[], name: string): string => {
+  const dated = tasks.filter(task => task.due_date !== null);
+  const dues = dated.map((task): TimedDue | null =>
+    task.due_time ? { date: task.due_date!, time: task.due_time, timeZone: task.due_timezone ?? 'UTC' } : null);
+
+  // Each timezone a timed task refers to needs a definition, with its rules from the year before
+  // the earliest such task so that they cover every occurrence
+  const firstYears = new Map<string, number>();
+  for (const due of dues) {
+    if (due && due.timeZone !== 'UTC') {
+      const year = Number(due.date.slice(0, 4));
+      firstYears.set(due.timeZone, Math.min(year, firstYears.get(due.timeZone) ?? year));
+    }
+  }
+  const timezones = [...firstYears].sort(([a], [b]) => a.localeCompare(b)).flatMap(([timeZone, year]) => toTimezone(timeZone, year - 1));
+  const components = dated.flatMap((task, index) => [...toEvent(task, dues[index]), ...toTodo(task, dues[index])]);
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT15M',
+    'X-PUBLISHED-TTL:PT15M',
+    ...timezones,
+    ...components,
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// Where the API server serves the feed behind a token
+export const calendarFeedPath = (token: string): string => `/calendar/${token}.ics`;
@@ -0,0 +1,126 @@
+import { z } from 'zod';
+
+// JSON Schema (draft 2020-12, as used by OpenAPI 3.1) generated from the Zod schemas in schema.ts.
+// Covers the Zod types those schemas use; refinements can't be expressed and are left out, so
+// the server may still reject a value the JSON Schema allows.
+
+export type JsonSchema = { [keyword: string]: unknown };
+
+// 'input' describes what a request may send: fields with defaults are optional. 'output'
+// describes what a response contains, where those fields are always present
+export type SchemaMode = 'input' | 'output';
+
+export interface JsonSchemaOptions {
+  mode: SchemaMode;
+  // Schemas published as components; nested uses become $refs instead of inline copies
+  refs?: Map<z.ZodTypeAny, string>;
+}
+
+const componentRef = (name: string): JsonSchema => ({ $ref: `#/components/schemas/${name}` });
+
+// Whether an object property may be left out
+const isOptional = (schema: z.ZodTypeAny, mode: SchemaMode): boolean => {
+  if (schema instanceof z.ZodOptional) {
+    return true;
+  }
+  if (schema instanceof z.ZodDefault) {
+    return mode === 'input';
+  }
+  if (schema instanceof z.ZodNullable || schema instanceof z.ZodEffects) {
+    return isOptional(schema instanceof z.ZodNullable ? schema.unwrap() : schema.innerType(), mode);
+  }
+  return false;
+};
+
+const stringSchema = (schema: z.ZodString): JsonSchema => {
+  const json: JsonSchema = { type: 'string' };
+  for (const check of schema._def.checks) {
+    if (check.kind === 'min') json['minLength'] = check.value;
+    if (check.kind === 'max') json['maxLength'] = check.value;
+    if (check.kind === 'regex') json['pattern'] = check.regex.source;
+    if (check.kind === 'email') json['format'] = 'email';
+  }
+  return json;
+};
+
+const numberSchema = (schema: z.ZodNumber): JsonSchema => {
+  const json: JsonSchema = { type: 'number' };
+  for (const check of schema._def.checks) {
+    if (check.kind === 'int') json['type'] = 'integer';
+    if (check.kind === 'min') json[check.inclusive ? 'minimum' : 'exclusiveMinimum'] = check.value;
+    if (check.kind === 'max') json[check.inclusive ? 'maximum' : 'exclusiveMaximum'] = check.value;
+  }
+  return json;
+};
+
+const convert = (schema: z.ZodTypeAny, options: JsonSchemaOptions, isRoot: boolean): JsonSchema => {
+  const name = options.refs?.get(schema);
+  if (name && !isRoot) {
+    return componentRef(name);
+  }
+  const nested = (inner: z.ZodTypeAny) => convert(inner, options, false);
+
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.keys(shape).filter(key => !isOptional(shape[key], options.mode));
+    return {
+      type: 'object',
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, nested(value)])),
+      ...(required.length > 0 && { required })
+    };
+  }
+  if (schema instanceof z.ZodString) {
+    return stringSchema(schema);
+  }
+  if (schema instanceof z.ZodNumber) {
+    return numberSchema(schema);
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: 'boolean' };
+  }
+  // Dates travel as ISO 8601 strings; inputs are coerced back with z.coerce.date()
+  if (schema instanceof z.ZodDate) {
+    return { type: 'string', format: 'date-time' };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: 'string', enum: schema.options };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value };
+  }
+  if (schema instanceof z.ZodArray) {
+    const { minLength, maxLength } = schema._def;
+    return {
+      type: 'array',
+      items: nested(schema.element),
+      ...(minLength && { minItems: minLength.value }),
+      ...(maxLength && { maxItems: maxLength.value })
+    };
+  }
+  if (schema instanceof z.ZodRecord) {
+    return { type: 'object', additionalProperties: nested(schema.valueSchema) };
+  }
+  if (schema instanceof z.ZodUnion || schema instanceof z.ZodDiscriminatedUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(nested) };
+  }
+  if (schema instanceof z.ZodNullable) {
+    return { anyOf: [nested(schema.unwrap()), { type: 'null' }] };
+  }
+  if (schema instanceof z.ZodOptional) {
+    return nested(schema.unwrap());
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...nested(schema.removeDefault()), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return nested(schema.innerType());
+  }
+  if (schema instanceof z.ZodUnknown || schema instanceof z.ZodAny) {
+    return {};
+  }
+  throw new Error(`No JSON Schema for ${schema._def.typeName}`);
+};
+
+// JSON Schema for a Zod schema; a registered schema is expanded here and referenced everywhere else
+export const toJsonSchema = (schema: z.ZodTypeAny, options: JsonSchemaOptions): JsonSchema =>
+  convert(schema, options, true);
@@ -0,0 +1,76 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { randomUUID } from 'node:crypto';
+import { type IncomingMessage } from 'node:http';
+import { LOG_LEVEL, type LogLevel } from '../config';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const severities: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Correlation id of the request being served, if any; set by the HTTP server for each request
+const requestContext = new AsyncLocalStorage<{ request_id: string }>();
+
+// Run `fn` with `requestId` attached to every line logged while it runs, awaited work included
+export const withRequestId = <T>(requestId: string, fn: () => T): T =>
+  requestContext.run({ request_id: requestId }, fn);
+
+export const currentRequestId = (): string | null => requestContext.getStore()?.request_id ?? null;
+
+// Ids a client or proxy may pass in X-Request-Id; anything else is replaced by a fresh one
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// The caller's X-Request-Id when it is usable, so logs line up with the proxy's, else a new UUID
+export const requestIdFor = (req: IncomingMessage): string => {
+  const header = req.headers['x-request-id'];
+  const value = Array.isArray(header) ? header[0] : header;
+  return value && REQUEST_ID_PATTERN.test(value) ? value : randomUUID();
+};
+
+// Errors keep their own fields (a pg error's code and detail, a DomainError's details) next to
+// the name, message and stack that JSON.stringify would otherwise drop
+const serializeError = (error: Error): LogFields => ({
+  ...error,
+  name: error.name,
+  message: error.message,
+  stack: error.stack,
+  ...(error.cause !== undefined && { cause: error.cause })
+});
+
+const replacer = (_key: string, value: unknown): unknown =>
+  value instanceof Error ? serializeError(value) : typeof value === 'bigint' ? value.toString() : value;
+
+// One JSON object per line: time, level, msg, the request id when there is one, then `fields`.
+// Lines below `minLevel` are dropped
+export const createLogger = (write: (line: string) => void, minLevel: LogLevel): Logger => {
+  const log = (level: LogLevel, message: string, fields: LogFields = {}) => {
+    if (severities[level] < severities[minLevel]) {
+      return;
+    }
+    const entry = { time: new Date().toISOString(), level, msg: message, request_id: currentRequestId() ?? undefined };
+    let line: string;
+    try {
+      line = JSON.stringify({ ...entry, ...fields }, replacer);
+    } catch {
+      // Circular fields; the message alone is better than nothing
+      line = JSON.stringify({ ...entry, log_error: 'Fields could not be serialized' });
+    }
+    write(line);
+  };
+
+  return {
+    debug: (message, fields) => log('debug', message, fields),
+    info: (message, fields) => log('info', message, fields),
+    warn: (message, fields) => log('warn', message, fields),
+    error: (message, fields) => log('error', message, fields)
+  };
+};
+
+// Everything goes to stdout, where supervisord collects it
+export const logger = createLogger(line => process.stdout.write(`${line}\n`), LOG_LEVEL);
@@ -0,0 +1,115 @@
+import { pool } from '../db';
+
+export type MetricLabels = Record<string, string>;
+
+export interface Counter {
+  inc(labels: MetricLabels, value?: number): void;
+}
+
+export interface Histogram {
+  observe(labels: MetricLabels, value: number): void;
+}
+
+export interface MetricsRegistry {
+  counter(name: string, help: string): Counter;
+  histogram(name: string, help: string, buckets: number[]): Histogram;
+  // Read on every scrape, for values that live elsewhere such as pool sizes
+  gauge(name: string, help: string, collect: () => number): void;
+  // Every metric in the Prometheus text exposition format
+  render(): string;
+}
+
+const escapeLabelValue = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const formatLabels = (labels: MetricLabels): string => {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+const formatValue = (value: number): string =>
+  value === Infinity ? '+Inf' : value === -Infinity ? '-Inf' : String(value);
+
+// Metrics kept in this process's memory; each server process exposes its own
+export const createRegistry = (): MetricsRegistry => {
+  // Each metric renders its own block of HELP, TYPE and sample lines
+  const metrics: (() => string[])[] = [];
+  const header = (name: string, help: string, type: string) => [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+
+  return {
+    counter(name, help) {
+      const series = new Map<string, number>();
+      metrics.push(() => [
+        ...header(name, help, 'counter'),
+        ...[...series].map(([labels, value]) => `${name}${labels} ${formatValue(value)}`)
+      ]);
+      return {
+        inc(labels, value = 1) {
+          const key = formatLabels(labels);
+          series.set(key, (series.get(key) ?? 0) + value);
+        }
+      };
+    },
+
+    histogram(name, help, buckets) {
+      const bounds = [...buckets].sort((a, b) => a - b);
+      // Bucket counts are cumulative, as the format wants them
+      const series = new Map<string, { labels: MetricLabels; counts: number[]; sum: number; count: number }>();
+      metrics.push(() => [
+        ...header(name, help, 'histogram'),
+        ...[...series.values()].flatMap(({ labels, counts, sum, count }) => [
+          ...bounds.map((bound, index) => `${name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${counts[index]}`),
+          `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+          `${name}_sum${formatLabels(labels)} ${formatValue(sum)}`,
+          `${name}_count${formatLabels(labels)} ${count}`
+        ])
+      ]);
+      return {
+        observe(labels, value) {
+          const key = formatLabels(labels);
+          const entry = series.get(key) ?? { labels, counts: bounds.map(() => 0), sum: 0, count: 0 };
+          bounds.forEach((bound, index) => {
+            if (value <= bound) {
+              entry.counts[index]++;
+            }
+          });
+          entry.sum += value;
+          entry.count++;
+          series.set(key, entry);
+        }
+      };
+    },
+
+    gauge(name, help, collect) {
+      metrics.push(() => [...header(name, help, 'gauge'), `${name} ${formatValue(collect())}`]);
+    },
+
+    render() {
+      return `${metrics.flatMap(lines => lines()).join('\n')}\n`;
+    }
+  };
+};
+
+export const registry = createRegistry();
+
+// Seconds; spans quick lookups up to slow imports and exports
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+const procedureCalls = registry.counter('trpc_requests_total', 'tRPC calls by procedure, type and result code');
+const procedureErrors = registry.counter('trpc_errors_total', 'Failed tRPC calls by procedure and error code');
+const procedureDuration = registry.histogram('trpc_request_duration_seconds', 'Time spent serving tRPC calls', DURATION_BUCKETS);
+
+// Count one finished tRPC call; `code` is "OK" or the tRPC error code it failed with
+export const recordProcedureCall = (procedure: string, type: string, code: string, seconds: number): void => {
+  procedureCalls.inc({ procedure, type, code });
+  if (code !== 'OK') {
+    procedureErrors.inc({ procedure, code });
+  }
+  procedureDuration.observe({ procedure, type }, seconds);
+};
+
+registry.gauge('db_pool_connections', 'Open connections in the Postgres pool', () => pool.totalCount);
+registry.gauge('db_pool_idle_connections', 'Pool connections not serving a query', () => pool.idleCount);
+registry.gauge('db_pool_waiting_requests', 'Queries waiting for a free pool connection', () => pool.waitingCount);
+registry.gauge('process_uptime_seconds', 'Seconds since the server process started', () => process.uptime());
+registry.gauge('process_resident_memory_bytes', 'Resident memory of the server process', () => process.memoryUsage().rss);
@@ -0,0 +1,119 @@
+import { type z } from 'zod';
+import { toJsonSchema, type JsonSchema } from './json_schema';
+
+export type HttpMethod = 'get' | 'post' | 'patch' | 'delete';
+
+// One REST endpoint as the OpenAPI document describes it
+export interface ApiOperation {
+  method: HttpMethod;
+  path: string; // OpenAPI template, e.g. /tasks/{id}; every parameter is an integer id
+  operationId: string;
+  summary: string;
+  input: z.ZodTypeAny | null; // The handler's input; path parameters are taken out of it
+  inputIn: 'query' | 'body';
+  output: z.ZodTypeAny | null; // Null for empty responses
+  status: 200 | 201 | 204;
+  errors: number[]; // Error statuses the operation can answer with, besides 500
+  authenticated: boolean;
+}
+
+const errorDescriptions: Record<number, string> = {
+  400: 'Invalid input',
+  401: 'Missing or expired session token',
+  403: 'Not allowed, or a quota such as the task limit was reached',
+  404: 'Not found',
+  409: 'Conflicts with the current state',
+  429: 'Rate limit reached; wait for the number of seconds in the Retry-After header',
+  500: 'Internal server error'
+};
+
+export const pathParameterNames = (path: string): string[] =>
+  [...path.matchAll(/\{(\w+)\}/g)].map(match => match[1]);
+
+// Input schema without the fields that come from the path
+const withoutPathParameters = (schema: JsonSchema, names: string[]): JsonSchema => {
+  const properties = { ...(schema['properties'] as Record<string, JsonSchema>) };
+  names.forEach(name => delete properties[name]);
+  const required = ((schema['required'] as string[] | undefined) ?? []).filter(name => !names.includes(name));
+  const result: JsonSchema = { ...schema, properties };
+  delete result['required'];
+  return { ...result, ...(required.length > 0 && { required }) };
+};
+
+const errorResponses = (statuses: number[]) => Object.fromEntries([...statuses, 500].map(status => [String(status), {
+  description: errorDescriptions[status],
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } }
+}]));
+
+const toOperation = (operation: ApiOperation, refs: Map<z.ZodTypeAny, string>): JsonSchema => {
+  const pathNames = pathParameterNames(operation.path);
+  const parameters: JsonSchema[] = pathNames.map(name => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'integer' }
+  }));
+
+  let requestBody: JsonSchema | undefined;
+  if (operation.input) {
+    const input = withoutPathParameters(toJsonSchema(operation.input, { mode: 'input' }), pathNames);
+    if (operation.inputIn === 'query') {
+      // Arrays are sent as repeated parameters (?tags_any=1&tags_any=2), the OpenAPI default
+      const required = (input['required'] as string[] | undefined) ?? [];
+      for (const [name, schema] of Object.entries(input['properties'] as Record<string, JsonSchema>)) {
+        parameters.push({ name, in: 'query', required: required.includes(name), schema });
+      }
+    } else {
+      requestBody = { required: true, content: { 'application/json': { schema: input } } };
+    }
+  }
+
+  const success = operation.output
+    ? {
+      description: 'Success',
+      content: { 'application/json': { schema: toJsonSchema(operation.output, { mode: 'output', refs }) } }
+    }
+    : { description: 'Success' };
+
+  return {
+    operationId: operation.operationId,
+    summary: operation.summary,
+    ...(operation.authenticated && { security: [{ bearerAuth: [] }] }),
+    ...(parameters.length > 0 && { parameters }),
+    ...(requestBody && { requestBody }),
+    responses: {
+      [String(operation.status)]: success,
+      ...errorResponses(operation.errors)
+    }
+  };
+};
+
+// OpenAPI 3.1 document for the given operations. `components` names the response schemas to
+// publish once and reference by $ref; it must include the error body as `Error`.
+export const buildOpenApiDocument = (
+  info: { title: string; version: string },
+  operations: ApiOperation[],
+  components: Record<string, z.ZodTypeAny>
+): JsonSchema => {
+  const refs = new Map(Object.entries(components).map(([name, schema]) => [schema, name]));
+
+  const paths: Record<string, Record<string, JsonSchema>> = {};
+  for (const operation of operations) {
+    paths[operation.path] = { ...paths[operation.path], [operation.method]: toOperation(operation, refs) };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info,
+    paths,
+    components: {
+      schemas: Object.fromEntries(Object.entries(components).map(([name, schema]) =>
+        [name, toJsonSchema(schema, { mode: 'output', refs })]
+      )),
+      securitySchemes: {
+        // The session token from signIn or signUp
+        bearerAuth: { type: 'http', scheme: 'bearer' }
+      }
+    }
+  };
+};
@@ -0,0 +1,167 @@
+// Fractional indexing for manual task order: base-62 keys compared bytewise (collate "C"),
+// made of a length-prefixed integer part plus an optional fraction, so a move rewrites one row
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const SMALLEST_INTEGER = 'A' + '0'.repeat(26);
+
+const integerLength = (head: string): number => {
+  if (head >= 'a' && head <= 'z') {
+    return head.charCodeAt(0) - 'a'.charCodeAt(0) + 2;
+  }
+  if (head >= 'A' && head <= 'Z') {
+    return 'Z'.charCodeAt(0) - head.charCodeAt(0) + 2;
+  }
+  throw new Error(`Invalid position key head: ${head}`);
+};
+
+const integerPart = (key: string): string => {
+  const length = integerLength(key.charAt(0));
+  if (length > key.length) {
+    throw new Error(`Invalid position key: ${key}`);
+  }
+  return key.slice(0, length);
+};
+
+// Next integer part, or null once the largest representable one is reached
+const incrementInteger = (value: string): string | null => {
+  const head = value.charAt(0);
+  const digits = value.slice(1).split('');
+  let carry = true;
+  for (let i = digits.length - 1; carry && i >= 0; i--) {
+    const next = DIGITS.indexOf(digits[i]) + 1;
+    if (next === DIGITS.length) {
+      digits[i] = '0';
+    } else {
+      digits[i] = DIGITS.charAt(next);
+      carry = false;
+    }
+  }
+  if (!carry) {
+    return head + digits.join('');
+  }
+  if (head === 'Z') {
+    return 'a0';
+  }
+  if (head === 'z') {
+    return null;
+  }
+  const nextHead = String.fromCharCode(head.charCodeAt(0) + 1);
+  if (nextHead > 'a') {
+    digits.push('0');
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join('');
+};
+
+// Previous integer part, or null once the smallest representable one is reached
+const decrementInteger = (value: string): string | null => {
+  const head = value.charAt(0);
+  const digits = value.slice(1).split('');
+  let borrow = true;
+  for (let i = digits.length - 1; borrow && i >= 0; i--) {
+    const next = DIGITS.indexOf(digits[i]) - 1;
+    if (next === -1) {
+      digits[i] = DIGITS.charAt(DIGITS.length - 1);
+    } else {
+      digits[i] = DIGITS.charAt(next);
+      borrow = false;
+    }
+  }
+  if (!borrow) {
+    return head + digits.join('');
+  }
+  if (head === 'a') {
+    return 'Z' + DIGITS.charAt(DIGITS.length - 1);
+  }
+  if (head === 'A') {
+    return null;
+  }
+  const nextHead = String.fromCharCode(head.charCodeAt(0) - 1);
+  if (nextHead < 'Z') {
+    digits.push(DIGITS.charAt(DIGITS.length - 1));
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join('');
+};
+
+// Fraction strictly between a and b (b = null meaning 1); neither may end in '0'
+const midpoint = (a: string, b: string | null): string => {
+  if (b !== null) {
+    // Keep any shared prefix and split the remainder
+    let n = 0;
+    while ((a.charAt(n) || '0') === b.charAt(n)) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a.charAt(0)) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b.charAt(0)) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS.charAt(Math.round((digitA + digitB) / 2));
+  }
+  // Adjacent digits: take b's first digit if b continues past it, otherwise go one digit deeper
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS.charAt(digitA) + midpoint(a.slice(1), null);
+};
+
+// Key that sorts strictly between `before` and `after`; null means an open end
+export const positionBetween = (before: string | null, after: string | null): string => {
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Cannot place a task between positions ${before} and ${after}`);
+  }
+
+  if (before === null && after === null) {
+    return 'a0';
+  }
+
+  if (before === null) {
+    const integer = integerPart(after!);
+    const fraction = after!.slice(integer.length);
+    if (integer === SMALLEST_INTEGER) {
+      return integer + midpoint('', fraction);
+    }
+    if (integer < after!) {
+      return integer;
+    }
+    const previous = decrementInteger(integer);
+    if (previous === null) {
+      throw new Error('Cannot place a task before the first position');
+    }
+    return previous;
+  }
+
+  const integerBefore = integerPart(before);
+  const fractionBefore = before.slice(integerBefore.length);
+
+  if (after === null) {
+    return incrementInteger(integerBefore) ?? integerBefore + midpoint(fractionBefore, null);
+  }
+
+  const integerAfter = integerPart(after);
+  if (integerBefore === integerAfter) {
+    return integerBefore + midpoint(fractionBefore, after.slice(integerAfter.length));
+  }
+  const next = incrementInteger(integerBefore);
+  if (next === null) {
+    throw new Error('Cannot place a task after the last position');
+  }
+  return next < after ? next : integerBefore + midpoint(fractionBefore, null);
+};
+
+// Evenly spread keys for `count` items in order, used to repair colliding positions
+export const sequentialPositions = (count: number): string[] => {
+  const positions: string[] = [];
+  let previous: string | null = null;
+  for (let i = 0; i < count; i++) {
+    previous = positionBetween(previous, null);
+    positions.push(previous);
+  }
+  return positions;
+};
@@ -0,0 +1,27 @@
+import { count, eq, sql } from 'drizzle-orm';
+import { type DbExecutor } from '../db';
+import { tasksTable } from '../db/schema';
+import { MAX_TASKS_PER_USER } from '../config';
+import { QuotaExceededError } from '../errors';
+
+// First key of the transaction-level advisory locks taken per owner; the owner's id is the second
+const QUOTA_LOCK_CLASS = 7_245_002;
+
+// Throw unless the owner has room for one more task; tasks in the trash count until they are purged.
+// Call it inside the transaction that inserts the task: it locks the owner's quota until that
+// transaction ends, so concurrent creations count each other's tasks instead of all passing
+export const assertTaskQuota = async (executor: DbExecutor, ownerId: number): Promise<void> => {
+  await executor.execute(sql`select pg_advisory_xact_lock(${QUOTA_LOCK_CLASS}, ${ownerId})`);
+  const [{ total }] = await executor.select({ total: count() })
+    .from(tasksTable)
+    .where(eq(tasksTable.owner_id, ownerId))
+    .execute();
+
+  if (total >= MAX_TASKS_PER_USER) {
+    throw new QuotaExceededError(
+      `You have reached the limit of ${MAX_TASKS_PER_USER} tasks; delete some or empty the trash to make room`,
+      'task',
+      MAX_TASKS_PER_USER
+    );
+  }
+};
@@ -0,0 +1,78 @@
+import { type IncomingMessage } from 'node:http';
+import {
+  RATE_LIMIT_MUTATION_BURST,
+  RATE_LIMIT_MUTATIONS_PER_MINUTE,
+  RATE_LIMIT_QUERIES_PER_MINUTE,
+  RATE_LIMIT_QUERY_BURST,
+  TRUST_PROXY
+} from '../config';
+import { RateLimitError } from '../errors';
+
+export interface TokenBucketOptions {
+  capacity: number; // Requests allowed in a burst
+  refillPerSecond: number; // Sustained rate
+}
+
+// Takes a token for `key` and returns 0, or when none is left the milliseconds until one is
+export type TokenBucket = (key: string, now?: number) => number;
+
+// Bucket count above which full buckets are dropped; a full bucket acts the same as a missing one
+const PRUNE_THRESHOLD = 10_000;
+
+// Token buckets kept in this process's memory, so each server process limits on its own
+export const createTokenBucket = ({ capacity, refillPerSecond }: TokenBucketOptions): TokenBucket => {
+  const buckets = new Map<string, { tokens: number; updated_at: number }>();
+  const tokensAt = (bucket: { tokens: number; updated_at: number }, now: number): number =>
+    Math.min(capacity, bucket.tokens + ((now - bucket.updated_at) / 1000) * refillPerSecond);
+
+  return (key, now = Date.now()) => {
+    if (buckets.size >= PRUNE_THRESHOLD) {
+      for (const [candidate, bucket] of buckets) {
+        if (tokensAt(bucket, now) >= capacity) {
+          buckets.delete(candidate);
+        }
+      }
+    }
+
+    const bucket = buckets.get(key);
+    const tokens = bucket ? tokensAt(bucket, now) : capacity;
+    if (tokens >= 1) {
+      buckets.set(key, { tokens: tokens - 1, updated_at: now });
+      return 0;
+    }
+    buckets.set(key, { tokens, updated_at: now });
+    return Math.ceil(((1 - tokens) / refillPerSecond) * 1000);
+  };
+};
+
+// Reads and writes have separate budgets, so a burst of saves can't lock anyone out of viewing
+export type RequestKind = 'query' | 'mutation';
+
+const buckets: Record<RequestKind, TokenBucket> = {
+  query: createTokenBucket({ capacity: RATE_LIMIT_QUERY_BURST, refillPerSecond: RATE_LIMIT_QUERIES_PER_MINUTE / 60 }),
+  mutation: createTokenBucket({ capacity: RATE_LIMIT_MUTATION_BURST, refillPerSecond: RATE_LIMIT_MUTATIONS_PER_MINUTE / 60 })
+};
+
+// Who a request counts against: the signed-in user wherever they connect from, else the address
+export const rateLimitKey = (userId: number | null, ip: string): string =>
+  userId !== null ? `user:${userId}` : `ip:${ip}`;
+
+// Spend one request of the caller's budget, or throw RateLimitError saying when to come back
+export const checkRateLimit = (kind: RequestKind, key: string): void => {
+  const waitMs = buckets[kind](key);
+  if (waitMs > 0) {
+    throw new RateLimitError(Math.ceil(waitMs / 1000));
+  }
+};
+
+// Client address; behind a trusted proxy, the first entry of X-Forwarded-For
+export const clientIp = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && forwarded) {
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded).split(',')[0].trim();
+    if (first) {
+      return first;
+    }
+  }
+  return req.socket.remoteAddress ?? 'unknown';
+};
@@ -0,0 +1,148 @@
+import { type RecurrenceRule, type Weekday } from '../schema';
+
+// Due dates are calendar dates in the task's own timezone, so all arithmetic here is on
+// plain dates: a 09:00 task stays at 09:00 local time across DST changes.
+
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Upper bound on candidate periods to scan, e.g. yearly Feb 29 rules skip non-leap years
+const MAX_PERIODS = 1000;
+
+const parseDate = (date: string): Date => new Date(`${date}T00:00:00Z`);
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const addDays = (date: Date, days: number): Date => new Date(date.getTime() + days * MS_PER_DAY);
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// The date for a day of the month, or null when the month doesn't have it (e.g. Feb 30)
+const dayOfMonth = (year: number, month: number, day: number): Date | null => {
+  const length = daysInMonth(year, month);
+  const resolved = day > 0 ? day : length + day + 1;
+  return resolved >= 1 && resolved <= length ? new Date(Date.UTC(year, month, resolved)) : null;
+};
+
+// Monday of the week containing the date (RRULE's default WKST=MO)
+const startOfWeek = (date: Date): Date => addDays(date, -((date.getUTCDay() + 6) % 7));
+
+const nextWeekly = (rule: RecurrenceRule, start: Date): Date => {
+  const weekdays = rule.by_weekday ?? [WEEKDAYS[start.getUTCDay()]];
+  const firstWeek = startOfWeek(start);
+  for (let day = addDays(start, 1); ; day = addDays(day, 1)) {
+    const weeks = Math.round((startOfWeek(day).getTime() - firstWeek.getTime()) / (7 * MS_PER_DAY));
+    if (weeks % rule.interval === 0 && weekdays.includes(WEEKDAYS[day.getUTCDay()])) {
+      return day;
+    }
+  }
+};
+
+const nextMonthly = (rule: RecurrenceRule, start: Date): Date | null => {
+  const monthDays = rule.by_month_day ?? [start.getUTCDate()];
+  for (let period = 0; period <= MAX_PERIODS; period++) {
+    const monthIndex = start.getUTCMonth() + period * rule.interval;
+    const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+    const month = monthIndex % 12;
+    // Months lacking a day are skipped, as in RFC 5545 (Jan 31 monthly -> Mar 31)
+    const candidates = monthDays
+      .map((day) => dayOfMonth(year, month, day))
+      .filter((date): date is Date => date !== null && date > start)
+      .sort((a, b) => a.getTime() - b.getTime());
+    if (candidates.length > 0) {
+      return candidates[0];
+    }
+  }
+  return null;
+};
+
+const nextYearly = (rule: RecurrenceRule, start: Date): Date | null => {
+  for (let period = 1; period <= MAX_PERIODS; period++) {
+    const candidate = dayOfMonth(start.getUTCFullYear() + period * rule.interval, start.getUTCMonth(), start.getUTCDate());
+    if (candidate) {
+      return candidate;
+    }
+  }
+  return null;
+};
+
+// The occurrence after `dueDate`, with the rule to carry over to it; null when the series ends
+export const nextOccurrence = (
+  rule: RecurrenceRule,
+  dueDate: string
+): { due_date: string; rule: RecurrenceRule } | null => {
+  if (rule.count !== undefined && rule.count <= 1) {
+    return null;
+  }
+
+  const start = parseDate(dueDate);
+  const next = rule.freq === 'daily'
+    ? addDays(start, rule.interval)
+    : rule.freq === 'weekly'
+      ? nextWeekly(rule, start)
+      : rule.freq === 'monthly'
+        ? nextMonthly(rule, start)
+        : nextYearly(rule, start);
+
+  if (!next || (rule.until !== undefined && formatDate(next) > rule.until)) {
+    return null;
+  }
+
+  return {
+    due_date: formatDate(next),
+    rule: rule.count !== undefined ? { ...rule, count: rule.count - 1 } : rule
+  };
+};
+
+// Serialize to an iCalendar RRULE value, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,FR
+export const toRRule = (rule: RecurrenceRule): string => {
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`, `INTERVAL=${rule.interval}`];
+  if (rule.by_weekday) {
+    parts.push(`BYDAY=${rule.by_weekday.join(',')}`);
+  }
+  if (rule.by_month_day) {
+    parts.push(`BYMONTHDAY=${rule.by_month_day.join(',')}`);
+  }
+  if (rule.count !== undefined) {
+    parts.push(`COUNT=${rule.count}`);
+  }
+  if (rule.until !== undefined) {
+    parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  }
+  return parts.join(';');
+};
+
+// Parse an RRULE value written by toRRule (an optional "RRULE:" prefix is accepted)
+export const parseRRule = (value: string): RecurrenceRule => {
+  const fields = new Map(
+    value.replace(/^RRULE:/i, '').split(';').filter(Boolean).map((part) => {
+      const [key, ...rest] = part.split('=');
+      return [key.toUpperCase(), rest.join('=')] as const;
+    })
+  );
+
+  const freq = fields.get('FREQ')?.toLowerCase();
+  if (freq !== 'daily' && freq !== 'weekly' && freq !== 'monthly' && freq !== 'yearly') {
+    throw new Error(`Unsupported recurrence rule: ${value}`);
+  }
+
+  const rule: RecurrenceRule = { freq, interval: Number(fields.get('INTERVAL') ?? 1) };
+  const byDay = fields.get('BYDAY');
+  if (byDay) {
+    rule.by_weekday = byDay.split(',') as Weekday[];
+  }
+  const byMonthDay = fields.get('BYMONTHDAY');
+  if (byMonthDay) {
+    rule.by_month_day = byMonthDay.split(',').map(Number);
+  }
+  const count = fields.get('COUNT');
+  if (count) {
+    rule.count = Number(count);
+  }
+  const until = fields.get('UNTIL');
+  if (until) {
+    rule.until = `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`;
+  }
+  return rule;
+};
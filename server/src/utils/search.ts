@@ -0,0 +1,21 @@
+import { type HighlightSegment } from '../schema';
+
+// Markers ts_headline puts around matched words; control characters never typed into a task
+export const HIGHLIGHT_START = '\u0002';
+export const HIGHLIGHT_STOP = '\u0003';
+
+// Turn what the user typed into a tsquery matching tasks that contain every word, each as a prefix
+// so results show up while the last word is still being typed. Null when there is nothing to search for
+export const toPrefixQuery = (text: string): string | null => {
+  // Only letters and digits are kept, so the words can't carry tsquery operators
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  return words.length > 0 ? words.map(word => `${word}:*`).join(' & ') : null;
+};
+
+// Split ts_headline output into plain and matched runs of text
+export const parseHighlight = (text: string): HighlightSegment[] =>
+  text.split(new RegExp(`(${HIGHLIGHT_START}[^${HIGHLIGHT_STOP}]*${HIGHLIGHT_STOP})`))
+    .filter(part => part !== '')
+    .map(part => part.startsWith(HIGHLIGHT_START)
+      ? { text: part.slice(1, -1), match: true }
+      : { text: part, match: false });
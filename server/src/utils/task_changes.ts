@@ -0,0 +1,118 @@
+import 'dotenv/config';
+import { EventEmitter, on } from 'node:events';
+import { Client } from 'pg';
+import { sql } from 'drizzle-orm';
+import { type DbExecutor } from '../db';
+import { logger } from './logger';
+
+// Postgres channel every server process listens on, so a change made through one process
+// reaches clients connected to any other
+const CHANNEL = 'task_changes';
+
+// NOTIFY payloads are capped at 8000 bytes, so large cascades are split up
+const IDS_PER_NOTIFICATION = 500;
+
+const RECONNECT_DELAY_MS = 1000;
+
+export type TaskChangeKind = 'created' | 'updated' | 'deleted';
+
+// What travels over the bus: just ids, each process loads the rows it needs
+export interface TaskChangeNotification {
+  owner_id: number;
+  kind: TaskChangeKind;
+  ids: number[];
+}
+
+// Queue a notification; Postgres only delivers it once the surrounding transaction commits
+export const publishTaskChanges = async (
+  executor: DbExecutor,
+  ownerId: number,
+  kind: TaskChangeKind,
+  ids: number[]
+): Promise<void> => {
+  for (let start = 0; start < ids.length; start += IDS_PER_NOTIFICATION) {
+    const notification: TaskChangeNotification = {
+      owner_id: ownerId,
+      kind,
+      ids: ids.slice(start, start + IDS_PER_NOTIFICATION)
+    };
+    await executor.execute(sql`select pg_notify(${CHANNEL}, ${JSON.stringify(notification)})`);
+  }
+};
+
+// Local fan-out from the single LISTEN connection to each subscriber, keyed by owner
+const subscribers = new EventEmitter();
+subscribers.setMaxListeners(0);
+
+let listener: Promise<Client> | null = null;
+
+const ownerEvent = (ownerId: number): string => `owner:${ownerId}`;
+
+// Open the process-wide LISTEN connection on first use, reconnecting while anyone is subscribed
+export const startTaskChangeListener = (): Promise<Client> => {
+  if (listener) {
+    return listener;
+  }
+
+  const client = new Client({ connectionString: process.env['APP_DATABASE_URL']! });
+  const reconnect = () => {
+    if (listener === current) {
+      listener = null;
+      client.end().catch(() => {});
+      if (subscribers.eventNames().length > 0) {
+        setTimeout(() => startTaskChangeListener().catch(() => {}), RECONNECT_DELAY_MS).unref();
+      }
+    }
+  };
+
+  client.on('notification', (message) => {
+    if (message.channel !== CHANNEL || !message.payload) return;
+    try {
+      const notification = JSON.parse(message.payload) as TaskChangeNotification;
+      subscribers.emit(ownerEvent(notification.owner_id), notification);
+    } catch (error) {
+      logger.error('Ignoring malformed task change notification', { error });
+    }
+  });
+  client.on('error', (error) => {
+    logger.error('Task change listener failed', { error });
+    reconnect();
+  });
+
+  const current: Promise<Client> = client.connect()
+    .then(() => client.query(`listen ${CHANNEL}`))
+    .then(() => client);
+  current.catch(reconnect);
+  listener = current;
+  return current;
+};
+
+// Notifications for one user's tasks until the signal aborts
+export async function* subscribeToTaskChanges(
+  ownerId: number,
+  signal?: AbortSignal
+): AsyncGenerator<TaskChangeNotification> {
+  // Register before connecting so nothing published in between is missed
+  const notifications = on(subscribers, ownerEvent(ownerId), { signal });
+  try {
+    await startTaskChangeListener();
+    for await (const [notification] of notifications) {
+      yield notification as TaskChangeNotification;
+    }
+  } catch (error) {
+    if (!signal?.aborted) {
+      throw error;
+    }
+  } finally {
+    await notifications.return?.();
+  }
+}
+
+// Close the LISTEN connection, e.g. on shutdown or after tests
+export const stopTaskChangeListener = async (): Promise<void> => {
+  const current = listener;
+  listener = null;
+  if (current) {
+    await (await current).end();
+  }
+};
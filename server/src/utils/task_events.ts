@@ -0,0 +1,92 @@
+import { type DbExecutor } from '../db';
+import { taskEventsTable, type Task as TaskRow } from '../db/schema';
+import { type TaskChanges, type TaskEventType, type TaskTag } from '../schema';
+import { publishTaskChanges, type TaskChangeKind } from './task_changes';
+import { enqueueWebhookEvents } from './webhooks';
+
+// A task row as seen before or after a change; tags are compared when both sides carry them
+export type TaskSnapshot = TaskRow & { tags?: TaskTag[] };
+
+// Columns worth showing in the history; ids, owner and timestamps like updated_at are left out
+const trackedFields = [
+  'title',
+  'description',
+  'completed',
+  'priority',
+  'list_id',
+  'parent_id',
+  'position',
+  'due_date',
+  'due_time',
+  'due_timezone',
+  'recurrence',
+  'deleted_at'
+] as const;
+
+// JSON-friendly form of a column value, so jsonb round-trips it unchanged
+const toJsonValue = (value: unknown): unknown => (value instanceof Date ? value.toISOString() : value);
+
+const tagNames = (tags: TaskTag[]): string[] => tags.map(tag => tag.name).sort();
+
+// Fields that differ between two snapshots; a missing side counts every non-empty field
+export const diffTasks = (before: TaskSnapshot | null, after: TaskSnapshot | null): TaskChanges => {
+  const changes: TaskChanges = {};
+  for (const field of trackedFields) {
+    const from = toJsonValue(before?.[field] ?? null);
+    const to = toJsonValue(after?.[field] ?? null);
+    if (from !== to) {
+      changes[field] = { from, to };
+    }
+  }
+
+  const tagsBefore = before?.tags ?? (before ? undefined : []);
+  const tagsAfter = after?.tags ?? (after ? undefined : []);
+  if (tagsBefore && tagsAfter) {
+    const from = tagNames(tagsBefore);
+    const to = tagNames(tagsAfter);
+    if (from.join('\n') !== to.join('\n')) {
+      changes['tags'] = { from, to };
+    }
+  }
+  return changes;
+};
+
+// What open clients see for each kind of event: restored tasks simply reappear
+const changeKinds: Record<TaskEventType, TaskChangeKind> = {
+  created: 'created',
+  updated: 'updated',
+  toggled: 'updated',
+  deleted: 'deleted',
+  restored: 'created'
+};
+
+// Record one event per changed task, notify the owner's open clients and queue webhook
+// deliveries; updates and toggles that changed nothing are skipped
+export const recordTaskEvents = async (
+  executor: DbExecutor,
+  actorId: number,
+  type: TaskEventType,
+  snapshots: { before: TaskSnapshot | null; after: TaskSnapshot | null }[]
+): Promise<void> => {
+  const events = snapshots
+    .map(({ before, after }) => ({
+      task_id: (after ?? before)!.id,
+      actor_id: actorId,
+      type,
+      changes: diffTasks(before, after)
+    }))
+    .filter(event => (type !== 'updated' && type !== 'toggled') || Object.keys(event.changes).length > 0);
+
+  if (events.length === 0) {
+    return;
+  }
+
+  await executor.insert(taskEventsTable)
+    .values(events)
+    .execute();
+
+  // Every task in one call belongs to the same user
+  const ownerId = (snapshots[0].after ?? snapshots[0].before)!.owner_id;
+  await publishTaskChanges(executor, ownerId, changeKinds[type], events.map(event => event.task_id));
+  await enqueueWebhookEvents(executor, ownerId, type, snapshots);
+};
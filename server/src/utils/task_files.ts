@@ -0,0 +1,283 @@
+import {
+  type PortableTask,
+  type TaskCsvColumn,
+  type TaskFileFormat,
+  portableTaskSchema,
+  taskCsvColumnSchema,
+  TASK_EXPORT_VERSION
+} from '../schema';
+import { ValidationError } from '../errors';
+import { parseCsv, toCsv } from './csv';
+import { parseRRule, toRRule } from './recurrence';
+
+// File extension and MIME type of each export format
+export const taskFileTypes: Record<TaskFileFormat, { extension: string; content_type: string }> = {
+  json: { extension: 'json', content_type: 'application/json' },
+  csv: { extension: 'csv', content_type: 'text/csv' },
+  markdown: { extension: 'md', content_type: 'text/markdown' }
+};
+
+export type PortableTaskFields = Omit<PortableTask, 'subtasks'>;
+
+// One task read from an import file. Entries are in file order, so a parent always comes
+// before its subtasks.
+export interface TaskFileEntry {
+  row: number; // CSV row (the header is row 1), Markdown line or JSON task number
+  title: string;
+  parent: number | null; // Index of the parent entry
+  task: PortableTaskFields | null; // null when the entry is invalid
+  fields: (keyof PortableTaskFields)[]; // Fields the file actually gives; the rest are defaults
+  error: string | null;
+}
+
+// Markdown heading holding the tasks that aren't in any list
+const INBOX_HEADING = 'Inbox';
+
+// Header names understood without a column map, besides the column names themselves
+const csvHeaderAliases: Record<string, TaskCsvColumn> = {
+  name: 'title',
+  task: 'title',
+  notes: 'description',
+  done: 'completed',
+  due: 'due_date',
+  timezone: 'due_timezone',
+  repeat: 'recurrence',
+  rrule: 'recurrence',
+  project: 'list',
+  labels: 'tags'
+};
+
+const truthyValues = new Set(['true', 'yes', 'y', '1', 'x', 'done', 'completed']);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const portableFields = Object.keys(portableTaskSchema.innerType().innerType().shape) as (keyof PortableTaskFields)[];
+
+// Validate one task's fields, keeping the first problem as the entry's error
+const validate = (raw: unknown): Pick<TaskFileEntry, 'task' | 'error'> => {
+  const result = portableTaskSchema.safeParse(raw);
+  if (result.success) {
+    return { task: result.data, error: null };
+  }
+  const [issue] = result.error.issues;
+  return { task: null, error: issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message };
+};
+
+// Depth-first walk over a task tree, parents first
+const flatten = (tasks: PortableTask[], depth = 0, parent: PortableTask | null = null): { task: PortableTask; depth: number; parent: PortableTask | null }[] =>
+  tasks.flatMap(task => [{ task, depth, parent }, ...flatten(task.subtasks, depth + 1, task)]);
+
+const serializeJson = (tasks: PortableTask[], exportedAt: Date): string =>
+  JSON.stringify({ version: TASK_EXPORT_VERSION, exported_at: exportedAt.toISOString(), tasks }, null, 2) + '\n';
+
+// One row per task, subtasks pointing at their parent's title
+const serializeCsv = (tasks: PortableTask[]): string => {
+  const columns = taskCsvColumnSchema.options;
+  const rows = flatten(tasks).map(({ task, parent }) => {
+    const values: Record<TaskCsvColumn, string> = {
+      title: task.title,
+      description: task.description ?? '',
+      completed: task.completed ? 'true' : 'false',
+      priority: task.priority,
+      due_date: task.due_date ?? '',
+      due_time: task.due_time ?? '',
+      due_timezone: task.due_timezone ?? '',
+      recurrence: task.recurrence ? toRRule(task.recurrence) : '',
+      list: task.list ?? '',
+      tags: task.tags.join('; '),
+      parent: parent?.title ?? ''
+    };
+    return columns.map(column => values[column]);
+  });
+  return toCsv([[...columns], ...rows]);
+};
+
+// GitHub-flavoured checklist under a heading per list; only titles, completion and nesting survive
+const serializeMarkdown = (tasks: PortableTask[]): string => {
+  const groups = new Map<string | null, PortableTask[]>();
+  for (const task of tasks) {
+    groups.set(task.list, [...(groups.get(task.list) ?? []), task]);
+  }
+
+  const sections = [...groups.entries()]
+    .sort(([a], [b]) => a === null ? -1 : b === null ? 1 : a.localeCompare(b))
+    .map(([list, listTasks]) => {
+      const items = flatten(listTasks).map(({ task, depth }) =>
+        `${'  '.repeat(depth)}- [${task.completed ? 'x' : ' '}] ${task.title.replace(/\s*[\r\n]+\s*/g, ' ')}`
+      );
+      return `## ${list ?? INBOX_HEADING}\n\n${items.join('\n')}\n`;
+    });
+  return sections.join('\n');
+};
+
+// Write a task tree in one of the export formats
+export const serializeTasks = (format: TaskFileFormat, tasks: PortableTask[], exportedAt: Date): string => {
+  switch (format) {
+    case 'json':
+      return serializeJson(tasks, exportedAt);
+    case 'csv':
+      return serializeCsv(tasks);
+    case 'markdown':
+      return serializeMarkdown(tasks);
+  }
+};
+
+const parseJson = (content: string): TaskFileEntry[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new ValidationError('The file is not valid JSON', 'content');
+  }
+  if (!isRecord(data) || !Array.isArray(data['tasks'])) {
+    throw new ValidationError('The file is not a task export', 'content');
+  }
+  if (data['version'] !== TASK_EXPORT_VERSION) {
+    throw new ValidationError(`Unsupported export version ${String(data['version'])}, expected ${TASK_EXPORT_VERSION}`, 'content');
+  }
+
+  const entries: TaskFileEntry[] = [];
+  const visit = (raw: unknown, parent: number | null) => {
+    const index = entries.length;
+    const title = isRecord(raw) && typeof raw['title'] === 'string' ? raw['title'] : '';
+    const fields = isRecord(raw) ? portableFields.filter(field => field in raw) : [];
+    entries.push({ row: index + 1, title, parent, fields, ...validate(raw) });
+
+    const subtasks = isRecord(raw) && Array.isArray(raw['subtasks']) ? raw['subtasks'] : [];
+    for (const subtask of subtasks) {
+      visit(subtask, index);
+    }
+  };
+  for (const raw of data['tasks']) {
+    visit(raw, null);
+  }
+  return entries;
+};
+
+// Column for a header: the explicit mapping wins, then the column names and aliases, ignoring case
+const csvColumnFor = (header: string, columnMap: Record<string, TaskCsvColumn> | undefined): TaskCsvColumn | null => {
+  if (columnMap?.[header]) {
+    return columnMap[header];
+  }
+  const name = header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  const parsed = taskCsvColumnSchema.safeParse(name);
+  return parsed.success ? parsed.data : csvHeaderAliases[name] ?? null;
+};
+
+const parseCsvTasks = (content: string, columnMap: Record<string, TaskCsvColumn> | undefined): TaskFileEntry[] => {
+  const [header, ...records] = parseCsv(content);
+  if (!header) {
+    throw new ValidationError('The file is empty', 'content');
+  }
+  const columns = header.map(name => csvColumnFor(name, columnMap));
+  if (!columns.includes('title')) {
+    throw new ValidationError('No column holds the task title; map one to "title"', 'column_map');
+  }
+
+  const fields = portableFields.filter(field => columns.includes(field));
+  const entries: TaskFileEntry[] = [];
+  records.forEach((record, index) => {
+    // Unmapped columns are ignored; the first column mapped to a field wins
+    const value = (column: TaskCsvColumn): string => {
+      const position = columns.indexOf(column);
+      return position === -1 ? '' : (record[position] ?? '').trim();
+    };
+    // Subtasks name their parent, which has to appear in an earlier row
+    const parentTitle = value('parent').toLowerCase();
+    const parentIndex = parentTitle ? entries.findLastIndex(earlier => earlier.title.toLowerCase() === parentTitle) : null;
+
+    const entry: TaskFileEntry = { row: index + 2, title: value('title'), parent: null, task: null, fields, error: null };
+    entries.push(entry);
+
+    if (parentIndex !== null) {
+      if (parentIndex === -1) {
+        entry.error = `Parent task "${value('parent')}" not found in an earlier row`;
+        return;
+      }
+      entry.parent = parentIndex;
+    }
+
+    let recurrence = null;
+    if (value('recurrence')) {
+      try {
+        recurrence = parseRRule(value('recurrence'));
+      } catch {
+        entry.error = `Unsupported recurrence rule "${value('recurrence')}"`;
+        return;
+      }
+    }
+
+    Object.assign(entry, validate({
+      title: value('title'),
+      description: value('description') || null,
+      completed: truthyValues.has(value('completed').toLowerCase()),
+      priority: value('priority').toLowerCase() || undefined,
+      due_date: value('due_date') || null,
+      due_time: value('due_time') || null,
+      due_timezone: value('due_timezone') || null,
+      recurrence,
+      list: value('list') || null,
+      tags: value('tags').split(';').map(tag => tag.trim()).filter(Boolean)
+    }));
+  });
+  return entries;
+};
+
+const checklistItem = /^(\s*)[-*+]\s+\[([ xX])\]\s+(.*?)\s*$/;
+const listHeading = /^##\s+(.*?)\s*#*\s*$/;
+
+// Checklist items become tasks, nested by indentation; "## Name" headings set the list of the
+// items below them. Any other line is ignored.
+const parseMarkdown = (content: string): TaskFileEntry[] => {
+  const entries: TaskFileEntry[] = [];
+  // Indentation and entry index of the items enclosing the current line
+  let ancestors: { indent: number; index: number }[] = [];
+  let list: string | null = null;
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    const heading = listHeading.exec(line);
+    if (heading) {
+      list = heading[1].toLowerCase() === INBOX_HEADING.toLowerCase() ? null : heading[1];
+      ancestors = [];
+      return;
+    }
+
+    const item = checklistItem.exec(line);
+    if (!item) {
+      return;
+    }
+    const indent = item[1].replace(/\t/g, '    ').length;
+    while (ancestors.length > 0 && ancestors[ancestors.length - 1].indent >= indent) {
+      ancestors.pop();
+    }
+    const parent = ancestors.length > 0 ? ancestors[ancestors.length - 1].index : null;
+    ancestors.push({ indent, index: entries.length });
+
+    entries.push({
+      row: index + 1,
+      title: item[3],
+      parent,
+      fields: ['title', 'completed', 'list'],
+      ...validate({ title: item[3], completed: item[2] !== ' ', list })
+    });
+  });
+  return entries;
+};
+
+// Read the tasks out of an import file. Unreadable files throw; individual invalid tasks come
+// back as entries with an error so the rest can still be imported.
+export const parseTaskFile = (
+  format: TaskFileFormat,
+  content: string,
+  columnMap?: Record<string, TaskCsvColumn>
+): TaskFileEntry[] => {
+  switch (format) {
+    case 'json':
+      return parseJson(content);
+    case 'csv':
+      return parseCsvTasks(content, columnMap);
+    case 'markdown':
+      return parseMarkdown(content);
+  }
+};
@@ -0,0 +1,103 @@
+import { and, eq, inArray, ne, sql } from 'drizzle-orm';
+import { type DbExecutor } from '../db';
+import { tagsTable, taskTagsTable } from '../db/schema';
+import { type TaskTag } from '../schema';
+import { ConflictError, NotFoundError } from '../errors';
+
+// Tags for each of the given tasks, sorted by name
+export const getTagsForTasks = async (executor: DbExecutor, taskIds: number[]): Promise<Map<number, TaskTag[]>> => {
+  const tagsByTask = new Map<number, TaskTag[]>(taskIds.map(id => [id, []]));
+  if (taskIds.length === 0) {
+    return tagsByTask;
+  }
+
+  const links = await executor.query.taskTagsTable.findMany({
+    where: inArray(taskTagsTable.task_id, taskIds),
+    with: { tag: { columns: { id: true, name: true, color: true } } }
+  });
+
+  for (const link of links) {
+    tagsByTask.get(link.task_id)?.push(link.tag);
+  }
+  for (const tags of tagsByTask.values()) {
+    tags.sort((a, b) => a.name.localeCompare(b.name));
+  }
+  return tagsByTask;
+};
+
+// Attach each row's tags so it can be passed to toTask
+export const withTags = async <T extends { id: number }>(
+  executor: DbExecutor,
+  rows: T[]
+): Promise<(T & { tags: TaskTag[] })[]> => {
+  const tagsByTask = await getTagsForTasks(executor, rows.map(row => row.id));
+  return rows.map(row => ({ ...row, tags: tagsByTask.get(row.id) ?? [] }));
+};
+
+// Throw unless every tag exists and belongs to the given user
+export const assertTagsOwned = async (executor: DbExecutor, tagIds: number[], ownerId: number): Promise<void> => {
+  const uniqueIds = [...new Set(tagIds)];
+  if (uniqueIds.length === 0) {
+    return;
+  }
+
+  const found = await executor.select({ id: tagsTable.id })
+    .from(tagsTable)
+    .where(and(inArray(tagsTable.id, uniqueIds), eq(tagsTable.owner_id, ownerId)))
+    .execute();
+
+  const foundIds = new Set(found.map(tag => tag.id));
+  const missing = uniqueIds.find(id => !foundIds.has(id));
+  if (missing !== undefined) {
+    throw new NotFoundError('tag', missing);
+  }
+};
+
+// Link tags to a task, ignoring ones that are already attached
+export const attachTags = async (executor: DbExecutor, taskId: number, tagIds: number[]): Promise<void> => {
+  const uniqueIds = [...new Set(tagIds)];
+  if (uniqueIds.length === 0) {
+    return;
+  }
+
+  await executor.insert(taskTagsTable)
+    .values(uniqueIds.map(tagId => ({ task_id: taskId, tag_id: tagId })))
+    .onConflictDoNothing()
+    .execute();
+};
+
+// Unlink tags from a task
+export const detachTags = async (executor: DbExecutor, taskId: number, tagIds: number[]): Promise<void> => {
+  if (tagIds.length === 0) {
+    return;
+  }
+
+  await executor.delete(taskTagsTable)
+    .where(and(eq(taskTagsTable.task_id, taskId), inArray(taskTagsTable.tag_id, tagIds)))
+    .execute();
+};
+
+// Throw if the user already has a tag with this name (ignoring case), other than `exceptId`
+export const assertTagNameAvailable = async (
+  executor: DbExecutor,
+  ownerId: number,
+  name: string,
+  exceptId?: number
+): Promise<void> => {
+  const conditions = [
+    eq(tagsTable.owner_id, ownerId),
+    sql`lower(${tagsTable.name}) = lower(${name})`
+  ];
+  if (exceptId !== undefined) {
+    conditions.push(ne(tagsTable.id, exceptId));
+  }
+
+  const existing = await executor.select({ id: tagsTable.id })
+    .from(tagsTable)
+    .where(and(...conditions))
+    .execute();
+
+  if (existing.length > 0) {
+    throw new ConflictError(`A tag named "${name}" already exists`, 'tag', 'name');
+  }
+};
@@ -0,0 +1,97 @@
+import { sql } from 'drizzle-orm';
+import { type DbExecutor } from '../db';
+
+// Ids of every task below the given one, at any depth
+export const getDescendantIds = async (executor: DbExecutor, taskId: number): Promise<number[]> => {
+  const result = await executor.execute<{ id: number }>(sql`
+    with recursive descendants(id) as (
+      select id from tasks where parent_id = ${taskId}
+      union all
+      select t.id from tasks t join descendants d on t.parent_id = d.id
+    )
+    select id from descendants
+  `);
+  return result.rows.map(row => Number(row.id));
+};
+
+// Those of the given tasks that have another one of them above them, at any depth
+export const getCoveredIds = async (executor: DbExecutor, taskIds: number[]): Promise<Set<number>> => {
+  if (taskIds.length === 0) {
+    return new Set();
+  }
+
+  // One array parameter rather than a list, which would run out of parameters for long lists
+  const ids = sql.param(taskIds);
+  const result = await executor.execute<{ task_id: number }>(sql`
+    with recursive ancestors(task_id, id) as (
+      select id, parent_id from tasks where id = any(${ids}) and parent_id is not null
+      union all
+      select a.task_id, t.parent_id from tasks t join ancestors a on t.id = a.id where t.parent_id is not null
+    )
+    select distinct task_id from ancestors where id = any(${ids})
+  `);
+  return new Set(result.rows.map(row => Number(row.task_id)));
+};
+
+// Depth of a task in its tree: top-level tasks are 1, their subtasks 2, and so on
+export const getTaskDepth = async (executor: DbExecutor, taskId: number): Promise<number> => {
+  const result = await executor.execute<{ depth: number }>(sql`
+    with recursive ancestors(id, parent_id, depth) as (
+      select id, parent_id, 1 from tasks where id = ${taskId}
+      union all
+      select t.id, t.parent_id, a.depth + 1 from tasks t join ancestors a on t.id = a.parent_id
+    )
+    select max(depth) as depth from ancestors
+  `);
+  return Number(result.rows[0]?.depth ?? 0);
+};
+
+// Top-level ancestor of each of the given tasks; top-level tasks map to themselves
+export const getRootIds = async (executor: DbExecutor, taskIds: number[]): Promise<Map<number, number>> => {
+  const roots = new Map<number, number>();
+  if (taskIds.length === 0) {
+    return roots;
+  }
+
+  const result = await executor.execute<{ task_id: number; id: number }>(sql`
+    with recursive ancestors(task_id, id, parent_id) as (
+      select id, id, parent_id from tasks where id in ${taskIds}
+      union all
+      select a.task_id, t.id, t.parent_id from tasks t join ancestors a on t.id = a.parent_id
+    )
+    select task_id, id from ancestors where parent_id is null
+  `);
+
+  for (const row of result.rows) {
+    roots.set(Number(row.task_id), Number(row.id));
+  }
+  return roots;
+};
+
+// Total and completed subtask counts (all depths) for each of the given tasks, ignoring the trash
+export const getSubtaskProgress = async (
+  executor: DbExecutor,
+  taskIds: number[]
+): Promise<Map<number, { total: number; completed: number }>> => {
+  const progress = new Map<number, { total: number; completed: number }>();
+  if (taskIds.length === 0) {
+    return progress;
+  }
+
+  const result = await executor.execute<{ root_id: number; total: number; completed: number }>(sql`
+    with recursive descendants(root_id, id, completed) as (
+      select parent_id, id, completed from tasks where parent_id in ${taskIds} and deleted_at is null
+      union all
+      select d.root_id, t.id, t.completed from tasks t join descendants d on t.parent_id = d.id
+      where t.deleted_at is null
+    )
+    select root_id, count(*) as total, count(*) filter (where completed) as completed
+    from descendants
+    group by root_id
+  `);
+
+  for (const row of result.rows) {
+    progress.set(Number(row.root_id), { total: Number(row.total), completed: Number(row.completed) });
+  }
+  return progress;
+};
@@ -0,0 +1,9 @@
+import { TRASH_RETENTION_DAYS } from '../config';
+
+const RETENTION_MS = TRASH_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+// When a task deleted at the given time will be purged for good
+export const purgeDate = (deletedAt: Date): Date => new Date(deletedAt.getTime() + RETENTION_MS);
+
+// Tasks deleted before this time have outlived the retention period
+export const purgeCutoff = (now: Date): Date => new Date(now.getTime() - RETENTION_MS);
@@ -0,0 +1,180 @@
+import { createHmac, randomBytes, randomUUID } from 'node:crypto';
+import { lookup } from 'node:dns/promises';
+import { request as httpRequest } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { BlockList, isIP, type LookupFunction } from 'node:net';
+import { and, arrayContains, eq } from 'drizzle-orm';
+import { type DbExecutor } from '../db';
+import { webhookDeliveriesTable, webhooksTable, type Webhook as WebhookRow } from '../db/schema';
+import { type TaskEventType, type Webhook, type WebhookEventType, type WebhookPayload } from '../schema';
+import { WEBHOOK_ALLOW_PRIVATE_TARGETS, WEBHOOK_RETRY_BASE_SECONDS, WEBHOOK_RETRY_MAX_SECONDS } from '../config';
+import { ValidationError } from '../errors';
+import { toTask } from './due_status';
+import { withTags } from './task_tags';
+import { type TaskSnapshot } from './task_events';
+
+export const generateWebhookSecret = (): string => `whsec_${randomBytes(24).toString('base64url')}`;
+
+// Strip the signing secret from a webhook row before returning it to the client
+export const toWebhook = ({ secret, ...webhook }: WebhookRow): Webhook => webhook;
+
+// Value of X-Webhook-Signature: "sha256=" and the hex HMAC of "<timestamp>.<body>". Signing the
+// timestamp along with the body lets receivers reject replays of old requests
+export const signWebhookPayload = (secret: string, timestamp: number, body: string): string =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+// Wait before the next attempt after `attempts` failed ones: the base delay doubling each time, capped
+export const webhookRetryDelayMs = (attempts: number): number =>
+  Math.min(WEBHOOK_RETRY_BASE_SECONDS * 2 ** Math.max(attempts - 1, 0), WEBHOOK_RETRY_MAX_SECONDS) * 1000;
+
+// Address space webhooks may not reach: this host, private and link-local networks (cloud metadata
+// included), carrier-grade NAT, multicast and the other reserved ranges
+const nonPublicRanges = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24],
+  ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  nonPublicRanges.addSubnet(network, prefix, 'ipv4');
+}
+// IPv4-compatible and loopback, NAT64, documentation, unique local, link-local and multicast
+for (const [network, prefix] of [['::', 96], ['64:ff9b::', 96], ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  nonPublicRanges.addSubnet(network, prefix, 'ipv6');
+}
+
+// IPv4 address inside an IPv4-mapped IPv6 one (::ffff:a.b.c.d, or ::ffff:7f00:1 as URLs write it)
+const unmapIpv4 = (address: string): string | null => {
+  const match = /^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/i.exec(address);
+  if (!match) {
+    return null;
+  }
+  if (match[1]) {
+    return match[1];
+  }
+  const high = Number.parseInt(match[2]!, 16);
+  const low = Number.parseInt(match[3]!, 16);
+  return [high >> 8, high & 255, low >> 8, low & 255].join('.');
+};
+
+export const isPublicAddress = (address: string): boolean => {
+  const ipv4 = isIP(address) === 4 ? address : unmapIpv4(address);
+  if (ipv4 !== null) {
+    return !nonPublicRanges.check(ipv4, 'ipv4');
+  }
+  return isIP(address) === 6 && !nonPublicRanges.check(address, 'ipv6');
+};
+
+export type AddressLookup = (hostname: string) => Promise<string[]>;
+
+const lookupAddresses: AddressLookup = async (hostname) =>
+  (await lookup(hostname, { all: true })).map(result => result.address);
+
+// Addresses a request to `url` may go to: the host itself when it is an IP, else what DNS returns
+export const resolveWebhookTarget = async (url: string, lookupHost: AddressLookup = lookupAddresses): Promise<string[]> => {
+  const host = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  return isIP(host) ? [host] : lookupHost(host);
+};
+
+// POST `body` to `url` and resolve with the status of the answer. The connection goes to one of
+// `addresses` whatever DNS says by then, so a host that passed the address check can't rebind to
+// another one in between; the Host header and TLS certificate check still use the URL's name.
+// Redirects aren't followed and the response body is never read
+export const postToAddresses = (
+  url: string,
+  addresses: string[],
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number
+): Promise<number> => new Promise((resolve, reject) => {
+  const pinned: LookupFunction = (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, addresses.map(address => ({ address, family: isIP(address) })));
+    } else {
+      callback(null, addresses[0]!, isIP(addresses[0]!));
+    }
+  };
+  const send = new URL(url).protocol === 'https:' ? httpsRequest : httpRequest;
+  const req = send(url, {
+    method: 'POST',
+    headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+    lookup: pinned,
+    signal: AbortSignal.timeout(timeoutMs)
+  }, (res) => {
+    resolve(res.statusCode ?? 0);
+    res.destroy();
+  });
+  req.on('error', reject);
+  req.end(body);
+});
+
+// Refuse URLs that are, or resolve to, non-public addresses, so webhooks can't be aimed at the
+// server's own network. A name that doesn't resolve yet is let through: deliveries check again
+export const assertPublicWebhookUrl = async (url: string, lookupHost: AddressLookup = lookupAddresses): Promise<void> => {
+  if (WEBHOOK_ALLOW_PRIVATE_TARGETS) {
+    return;
+  }
+  const addresses = await resolveWebhookTarget(url, lookupHost).catch(() => []);
+  if (!addresses.every(isPublicAddress)) {
+    throw new ValidationError('Webhook URLs must point to a public internet address', 'url');
+  }
+};
+
+// Which history events webhooks hear about. A task going from open to done is a completion
+// whatever recorded it: a toggle, or an update such as PATCH /tasks/{id} or an import
+const webhookEventFor = (type: TaskEventType, { before, after }: { before: TaskSnapshot | null; after: TaskSnapshot | null }): WebhookEventType | null => {
+  switch (type) {
+    case 'created':
+      return 'task.created';
+    case 'deleted':
+      return 'task.deleted';
+    default:
+      return before && !before.completed && after?.completed ? 'task.completed' : null;
+  }
+};
+
+// Queue a delivery per matching event for each of the owner's active webhooks subscribed to it.
+// Runs in the caller's transaction, so a change that rolls back sends nothing
+export const enqueueWebhookEvents = async (
+  executor: DbExecutor,
+  ownerId: number,
+  type: TaskEventType,
+  snapshots: { before: TaskSnapshot | null; after: TaskSnapshot | null }[]
+): Promise<void> => {
+  const events = snapshots
+    .map(snapshot => ({ event: webhookEventFor(type, snapshot), row: (snapshot.after ?? snapshot.before)! }))
+    .filter((item): item is { event: WebhookEventType; row: TaskSnapshot } => item.event !== null);
+  if (events.length === 0) {
+    return;
+  }
+
+  // Every event of one call has the same type
+  const webhooks = await executor.select({ id: webhooksTable.id })
+    .from(webhooksTable)
+    .where(and(
+      eq(webhooksTable.owner_id, ownerId),
+      eq(webhooksTable.active, true),
+      arrayContains(webhooksTable.events, [events[0].event])
+    ))
+    .execute();
+  if (webhooks.length === 0) {
+    return;
+  }
+
+  const now = new Date();
+  const tasks = await withTags(executor, events.map(item => item.row));
+  const payloads: WebhookPayload[] = events.map((item, index) => ({
+    id: randomUUID(),
+    type: item.event,
+    created_at: now.toISOString(),
+    data: { task: toTask(tasks[index], now) }
+  }));
+
+  await executor.insert(webhookDeliveriesTable)
+    .values(webhooks.flatMap(webhook => payloads.map(payload => ({
+      webhook_id: webhook.id,
+      event: payload.type,
+      payload,
+      next_attempt_at: now
+    }))))
+    .execute();
+};